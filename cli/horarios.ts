@@ -0,0 +1,295 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { GIPUZKOA_LINE, LineDefinition } from '../constants';
+import { DateRange, PdfLanguage, PdfOptions, PdfTemplate, ProcessingProgress } from '../types';
+import { ConnectionCalls, LineConnections, NO_CONNECTIONS, parseInterchanges, readConnectionCalls } from '../utils/connections';
+import { GeneratedFile } from '../utils/files';
+import { parseGTFS } from '../utils/gtfsParser';
+import { applyRealtime, parseGTFSRealtime } from '../utils/gtfsRealtime';
+import { countBySeverity, validateGTFS, validationReportToText } from '../utils/gtfsValidator';
+import { LocalizedError, PDF_LANGUAGES, errorMessage, localize } from '../utils/i18n';
+import { parseLineProfile } from '../utils/lineProfiles';
+import { DEFAULT_PDF_OPTIONS, renderTimetablePDF } from '../utils/pdfGenerator';
+import { DEFAULT_TEMPLATE, parseTemplate } from '../utils/pdfTemplate';
+import { renderStationPoster } from '../utils/stationPoster';
+import { EMPTY_EDITS, applyEdits } from '../utils/timetableEdits';
+
+// Command-line entry point. Runs the same parser and PDF renderers as the web
+// app under Node, reading the feed from disk and writing the PDFs to a folder.
+// Build with `npm run build:cli`, then run `node dist-cli/horarios.js`.
+
+// --- USAGE ---
+
+const USAGE = `Uso:
+  horarios generate --gtfs <zip> --from <AAAA-MM-DD> [--to <AAAA-MM-DD>] [opciones]
+  horarios validate --gtfs <zip> --from <AAAA-MM-DD> [--to <AAAA-MM-DD>] [--line <perfil.json>]
+
+Opciones de generate:
+  --layout rows|columns|poster   Un tren por fila, un tren por columna (archivo _columnas.pdf) o un cartel por estación (rows)
+  --station <código>             Estación del cartel con --layout poster, se puede repetir (todas las de la línea)
+  --line <perfil.json>           Perfil de línea exportado desde la aplicación (Gipuzkoa)
+  --out <carpeta>                Carpeta de salida (.)
+  --orientation landscape|portrait
+  --language eu|es|en|eu-es      Idioma del PDF (es)
+  --columns-per-page <n>         Trenes por página con --layout columns
+  --next-day-marker              Marcar con "+1" las horas después de medianoche
+  --arrival-at-terminus          Hora de llegada en la estación final de cada tren
+  --dwell <min>                  Llegada y salida si la parada dura al menos <min> minutos
+  --accessible-only              Solo los trenes accesibles para personas con movilidad reducida
+  --stringline order|distance    Añadir el gráfico de circulación, con las estaciones equidistantes o según su distancia
+  --frequencies                  Añadir un anexo de frecuencias por estación
+  --realtime <pb>                Aplicar retrasos, supresiones y avisos de un archivo GTFS-Realtime
+  --interchanges <json>          Transbordos con otros operadores: lista de {stationCode, feedName, stopIds, minTransfer, towards}
+  --connection-feed <zip>        GTFS de otro operador citado en --interchanges, se puede repetir
+  --template <json>              Plantilla del horario de la línea exportada desde la aplicación; no se aplica a --layout poster
+
+validate escribe el informe de validación y termina con código 1 si hay errores.`;
+
+// Bad arguments: reported together with the usage text
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const OPTIONS = {
+  gtfs: { type: 'string' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+  line: { type: 'string' },
+  layout: { type: 'string', default: 'rows' },
+  station: { type: 'string', multiple: true },
+  out: { type: 'string', default: '.' },
+  orientation: { type: 'string' },
+  language: { type: 'string' },
+  'columns-per-page': { type: 'string' },
+  'next-day-marker': { type: 'boolean' },
+  'arrival-at-terminus': { type: 'boolean' },
+  dwell: { type: 'string' },
+  'accessible-only': { type: 'boolean' },
+  stringline: { type: 'string' },
+  frequencies: { type: 'boolean' },
+  realtime: { type: 'string' },
+  interchanges: { type: 'string' },
+  'connection-feed': { type: 'string', multiple: true },
+  template: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CliValues = ReturnType<typeof parseArgs<{ options: typeof OPTIONS }>>['values'];
+
+const readArgs = (args: string[]): CliValues => {
+  try {
+    return parseArgs({ args, options: OPTIONS, strict: true }).values;
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+};
+
+// --- OPTIONS ---
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const readRange = (values: CliValues): DateRange => {
+  const from = values.from;
+  const to = values.to ?? from;
+  if (!from || !ISO_DATE.test(from) || !to || !ISO_DATE.test(to)) {
+    throw new UsageError('--from y --to deben ser fechas AAAA-MM-DD.');
+  }
+  return { from, to };
+};
+
+const readFeed = (values: CliValues) => {
+  if (!values.gtfs) throw new UsageError('Falta --gtfs.');
+  return readFile(values.gtfs);
+};
+
+const readLine = async (values: CliValues): Promise<LineDefinition> => {
+  if (!values.line) return GIPUZKOA_LINE;
+  const text = await readFile(values.line, 'utf8');
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new LocalizedError('error.profileInvalidJson', { file: path.basename(values.line) });
+  }
+  return parseLineProfile(json);
+};
+
+// Interchanges and the calls of the feeds they name, matched by file name
+const readConnections = async (values: CliValues, range: DateRange): Promise<LineConnections> => {
+  if (!values.interchanges) return NO_CONNECTIONS;
+  const text = await readFile(values.interchanges, 'utf8');
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new LocalizedError('error.profileInvalidJson', { file: path.basename(values.interchanges) });
+  }
+  const interchanges = parseInterchanges(json);
+
+  const feeds = new Map((values['connection-feed'] ?? []).map(file => [path.basename(file), file]));
+  const calls: ConnectionCalls = {};
+  for (const feedName of new Set(interchanges.map(i => i.feedName))) {
+    const file = feeds.get(feedName);
+    if (!file) throw new UsageError(`Falta --connection-feed para ${feedName}.`);
+    const stopIds = interchanges.filter(i => i.feedName === feedName).flatMap(i => i.stopIds);
+    calls[feedName] = await readConnectionCalls(await readFile(file), feedName, stopIds, range, progressLogger());
+  }
+  return { interchanges, calls };
+};
+
+const readTemplate = async (values: CliValues): Promise<PdfTemplate> => {
+  if (!values.template) return DEFAULT_TEMPLATE;
+  const text = await readFile(values.template, 'utf8');
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new LocalizedError('error.profileInvalidJson', { file: path.basename(values.template) });
+  }
+  return parseTemplate(json);
+};
+
+const positiveNumber = (value: string, option: string, min: number) => {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min) throw new UsageError(`${option} debe ser un número mayor o igual que ${min}.`);
+  return n;
+};
+
+const readPdfOptions = (values: CliValues): PdfOptions => {
+  const options: PdfOptions = { ...DEFAULT_PDF_OPTIONS };
+
+  if (values.layout === 'columns') options.layout = 'trainColumns';
+  else if (values.layout === 'rows' || values.layout === 'poster') options.layout = 'trainRows';
+  else throw new UsageError(`--layout no válido: ${values.layout}`);
+
+  if (values.orientation !== undefined) {
+    if (values.orientation !== 'landscape' && values.orientation !== 'portrait') {
+      throw new UsageError(`--orientation no válida: ${values.orientation}`);
+    }
+    options.orientation = values.orientation;
+  }
+  if (values.language !== undefined) {
+    if (!PDF_LANGUAGES.includes(values.language as PdfLanguage)) {
+      throw new UsageError(`--language no válido: ${values.language}`);
+    }
+    options.language = values.language as PdfLanguage;
+  }
+  if (values['columns-per-page'] !== undefined) {
+    options.columnsPerPage = Math.floor(positiveNumber(values['columns-per-page'], '--columns-per-page', 1));
+  }
+  if (values.dwell !== undefined) options.dwellThreshold = positiveNumber(values.dwell, '--dwell', 0);
+  if (values['next-day-marker']) options.nextDayMarker = true;
+  if (values['arrival-at-terminus']) options.arrivalAtTerminus = true;
+  if (values.frequencies) options.frequencyAppendix = true;
+  if (values.stringline !== undefined) {
+    if (values.stringline !== 'order' && values.stringline !== 'distance') {
+      throw new UsageError(`--stringline no válido: ${values.stringline}`);
+    }
+    options.stringline = values.stringline;
+  }
+
+  return options;
+};
+
+// Prints each new progress message once, on stderr so stdout stays clean
+const progressLogger = () => {
+  let last = '';
+  return (progress: ProcessingProgress) => {
+    const text = localize('es', progress.message);
+    if (text === last) return;
+    last = text;
+    process.stderr.write(`${text}\n`);
+  };
+};
+
+const writeFiles = async (files: GeneratedFile[], outDir: string) => {
+  await mkdir(outDir, { recursive: true });
+  for (const file of files) {
+    const target = path.join(outDir, file.filename);
+    await writeFile(target, file.bytes);
+    console.log(target);
+  }
+};
+
+// Rows and columns of the same feed would otherwise write the same file: the
+// columns layout gets its own name
+const withLayoutName = (file: GeneratedFile, options: PdfOptions): GeneratedFile =>
+  options.layout === 'trainColumns' ? { ...file, filename: file.filename.replace(/\.pdf$/, '_columnas.pdf') } : file;
+
+// --- COMMANDS ---
+
+const generate = async (args: string[]): Promise<number> => {
+  const values = readArgs(args);
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const range = readRange(values);
+  const options = readPdfOptions(values);
+  const line = await readLine(values);
+
+  const isPoster = values.layout === 'poster';
+  if (values.station && !isPoster) throw new UsageError('--station solo se usa con --layout poster.');
+  const stationCodes = values.station ?? line.stations.map(s => s.codigo);
+  const unknown = stationCodes.find(code => !line.stations.some(s => s.codigo === code));
+  if (isPoster && unknown) {
+    throw new LocalizedError('error.stationNotOnLine', { station: unknown, line: line.name });
+  }
+
+  const parsed = await parseGTFS(await readFeed(values), range, line, progressLogger());
+  const overlay = values.realtime ? applyRealtime(parsed, line, parseGTFSRealtime(await readFile(values.realtime))) : null;
+  const connections = await readConnections(values, range);
+  const template = await readTemplate(values);
+  const { data } = applyEdits(overlay?.data ?? parsed, line, { ...EMPTY_EDITS, accessibleOnly: !!values['accessible-only'] });
+  const files = isPoster
+    ? stationCodes.map(code => renderStationPoster(data.toBrinkola, data.toIrun, data.dateUsed, line, code, options, data.stationAccess, connections))
+    : [withLayoutName(renderTimetablePDF(data.toBrinkola, data.toIrun, data.dateUsed, line, options, data.stationAccess, data.stationCoords, overlay?.alerts, connections, template), options)];
+
+  await writeFiles(files, values.out);
+  return 0;
+};
+
+const validate = async (args: string[]): Promise<number> => {
+  const values = readArgs(args);
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const range = readRange(values);
+  const line = await readLine(values);
+  const report = await validateGTFS(await readFeed(values), range, line, progressLogger());
+
+  process.stdout.write(validationReportToText(report, 'es'));
+  return countBySeverity(report).errors > 0 ? 1 : 0;
+};
+
+const COMMANDS: Record<string, (args: string[]) => Promise<number>> = { generate, validate };
+
+const main = async ([command, ...args]: string[]): Promise<number> => {
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return command ? 0 : 2;
+  }
+  try {
+    const run = COMMANDS[command];
+    if (!run) throw new UsageError(`Orden desconocida: ${command}`);
+    return await run(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return 2;
+    }
+    console.error(`Error: ${errorMessage(error, 'es')}`);
+    return 1;
+  }
+};
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
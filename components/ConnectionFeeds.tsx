@@ -0,0 +1,295 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Search, Shuffle, Trash2, Upload, X, XCircle } from 'lucide-react';
+import { LineDefinition } from '../constants';
+import { DateRange, Interchange, ProcessingProgress } from '../types';
+import { ConnectionCalls, FeedStop, emptyInterchange } from '../utils/connections';
+import { GTFSJob, GTFSJobCancelledError, connectionCallsJob, listStopsJob, overallPercent } from '../utils/gtfsWorkerClient';
+import { Locale, errorMessage, localize, translator } from '../utils/i18n';
+import { stationName } from '../utils/lineCatalog';
+
+interface ConnectionFeedsProps {
+  files: File[]; // Other operators' GTFS, matched to interchanges by file name
+  interchanges: Interchange[];
+  line: LineDefinition;
+  range: DateRange | null; // Dates of the processed timetable; null until there is one
+  calls: ConnectionCalls;
+  locale: Locale;
+  disabled: boolean;
+  onFilesChange: (files: File[]) => void;
+  onInterchangesChange: (interchanges: Interchange[]) => void;
+  onCallsChange: (calls: ConnectionCalls) => void;
+}
+
+// Other operators' feeds and the stations of the line where passengers can
+// change to them. The calls found are what the timetables print as connections.
+const ConnectionFeeds: React.FC<ConnectionFeedsProps> = ({
+  files, interchanges, line, range, calls, locale, disabled, onFilesChange, onInterchangesChange, onCallsChange,
+}) => {
+  const [stops, setStops] = useState<Record<string, FeedStop[]>>({}); // file name -> its stops
+  const [stopInputs, setStopInputs] = useState<Record<number, string>>({});
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const jobRef = useRef<GTFSJob<unknown> | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const t = translator(locale);
+
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  // Stop lists for the interchange editor, read once per feed
+  useEffect(() => {
+    let active = true;
+    files.filter(f => !stops[f.name]).forEach(f => {
+      listStopsJob(f).result
+        .then(feedStops => active && setStops(prev => ({ ...prev, [f.name]: feedStops })))
+        .catch(e => active && setError(e));
+    });
+    return () => { active = false; };
+  }, [files]);
+
+  const cancelJob = () => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  // Calls found for other stops or feeds no longer apply
+  const changeInterchanges = (next: Interchange[]) => {
+    cancelJob();
+    onInterchangesChange(next);
+    onCallsChange({});
+  };
+
+  const updateInterchange = (index: number, change: Partial<Interchange>) =>
+    changeInterchanges(interchanges.map((interchange, i) => i === index ? { ...interchange, ...change } : interchange));
+
+  const addStop = (index: number) => {
+    const value = (stopInputs[index] ?? '').trim();
+    const interchange = interchanges[index];
+    const stop = (stops[interchange.feedName] ?? []).find(s => s.stop_id === value || s.stop_name === value);
+    if (!stop || interchange.stopIds.includes(stop.stop_id)) return;
+    updateInterchange(index, { stopIds: [...interchange.stopIds, stop.stop_id] });
+    setStopInputs(prev => ({ ...prev, [index]: '' }));
+  };
+
+  const stopLabel = (feedName: string, stopId: string) =>
+    (stops[feedName] ?? []).find(s => s.stop_id === stopId)?.stop_name ?? stopId;
+
+  const handleSearch = async () => {
+    if (!range) return;
+    cancelJob();
+    setError(null);
+    setIsRunning(true);
+    try {
+      const found: ConnectionCalls = {};
+      for (const f of files) {
+        const stopIds = [...new Set<string>(interchanges.filter(i => i.feedName === f.name).flatMap(i => i.stopIds))];
+        if (stopIds.length === 0) continue;
+        const job = connectionCallsJob(f, stopIds, range, setProgress);
+        jobRef.current = job;
+        found[f.name] = await job.result;
+      }
+      jobRef.current = null;
+      onCallsChange(found);
+    } catch (e) {
+      if (e instanceof GTFSJobCancelledError) return;
+      console.error(e);
+      setError(e);
+    }
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  const fileNames = files.map(f => f.name);
+  const missingFeeds = [...new Set<string>(interchanges.map(i => i.feedName))].filter(name => !fileNames.includes(name));
+  const callCount = Object.keys(calls).reduce((sum, name) => sum + calls[name].length, 0);
+  const canSearch = !!range && !disabled && !isRunning && interchanges.some(i => i.stopIds.length > 0 && fileNames.includes(i.feedName));
+  const buttonClass = "inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed";
+  const fieldClass = "border-gray-300 rounded border px-1 py-0.5 text-xs";
+
+  return (
+    <div className="w-full space-y-3 border border-gray-200 rounded-md p-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 flex items-center gap-1"><Shuffle size={14} /> {t('connection.title')}</h3>
+        <p className="text-xs text-gray-500">{t('connection.intro')}</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={disabled || isRunning} className={buttonClass}>
+          <Upload size={14} /> {t('connection.addFeeds')}
+        </button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept=".zip"
+          multiple
+          aria-label={t('connection.addFeeds')}
+          onChange={(e) => {
+            const chosen: File[] = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            if (chosen.length === 0) return;
+            cancelJob();
+            onFilesChange([...files.filter(f => !chosen.some(c => c.name === f.name)), ...chosen]);
+            setStops(prev => Object.fromEntries(Object.entries(prev).filter(([name]) => !chosen.some(c => c.name === name))));
+            onCallsChange({});
+          }}
+        />
+        {files.map(f => (
+          <span key={f.name} className="inline-flex items-center gap-1 px-2 py-1 text-xs rounded-full bg-gray-100 text-gray-700">
+            {f.name}
+            <button
+              type="button"
+              onClick={() => {
+                cancelJob();
+                onFilesChange(files.filter(other => other !== f));
+                onCallsChange({});
+              }}
+              disabled={disabled || isRunning}
+              title={t('connection.remove')}
+              className="text-gray-500 hover:text-gray-800"
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {missingFeeds.map(name => <p key={name} className="text-xs text-amber-700">{t('connection.missingFeed', { feed: name })}</p>)}
+
+      {interchanges.length > 0 && (
+        <div className="space-y-2">
+          {interchanges.map((interchange, index) => (
+            <div key={index} className="flex flex-wrap items-end gap-2 text-xs text-gray-700 border-t border-gray-100 pt-2">
+              <label className="block">
+                {t('connection.station')}
+                <select
+                  value={interchange.stationCode}
+                  onChange={(e) => updateInterchange(index, { stationCode: e.target.value })}
+                  disabled={disabled}
+                  className={`block ${fieldClass}`}
+                >
+                  {line.stations.map(s => <option key={s.codigo} value={s.codigo}>{stationName(s, locale)}</option>)}
+                </select>
+              </label>
+              <label className="block">
+                {t('connection.feed')}
+                <select
+                  value={interchange.feedName}
+                  onChange={(e) => updateInterchange(index, { feedName: e.target.value, stopIds: [] })}
+                  disabled={disabled}
+                  className={`block ${fieldClass}`}
+                >
+                  {[...new Set<string>([interchange.feedName, ...fileNames])].map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              </label>
+              <div className="block">
+                {t('connection.stops')}
+                <div className="flex flex-wrap items-center gap-1">
+                  {interchange.stopIds.map(stopId => (
+                    <span key={stopId} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100">
+                      {stopLabel(interchange.feedName, stopId)}
+                      <button
+                        type="button"
+                        onClick={() => updateInterchange(index, { stopIds: interchange.stopIds.filter(id => id !== stopId) })}
+                        disabled={disabled}
+                        title={t('connection.remove')}
+                        className="text-gray-500 hover:text-gray-800"
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                  <input
+                    type="text"
+                    list={`connection-stops-${index}`}
+                    value={stopInputs[index] ?? ''}
+                    onChange={(e) => setStopInputs(prev => ({ ...prev, [index]: e.target.value }))}
+                    onKeyDown={(e) => e.key === 'Enter' && addStop(index)}
+                    disabled={disabled}
+                    placeholder={t('connection.addStop')}
+                    aria-label={t('connection.addStop')}
+                    className={`w-40 ${fieldClass}`}
+                  />
+                  <datalist id={`connection-stops-${index}`}>
+                    {(stops[interchange.feedName] ?? []).map(s => <option key={s.stop_id} value={s.stop_id}>{s.stop_name}</option>)}
+                  </datalist>
+                  <button type="button" onClick={() => addStop(index)} disabled={disabled} title={t('connection.addStop')} className="text-gray-500 hover:text-gray-800">
+                    <Plus size={14} />
+                  </button>
+                </div>
+              </div>
+              <label className="block">
+                {t('connection.minTransfer')}
+                <input
+                  type="number"
+                  min={0}
+                  value={interchange.minTransfer}
+                  onChange={(e) => updateInterchange(index, { minTransfer: Math.max(0, Number(e.target.value) || 0) })}
+                  disabled={disabled}
+                  className={`block w-20 ${fieldClass}`}
+                />
+              </label>
+              <label className="block">
+                {t('connection.towards')}
+                <input
+                  type="text"
+                  value={interchange.towards}
+                  onChange={(e) => updateInterchange(index, { towards: e.target.value })}
+                  disabled={disabled}
+                  className={`block w-32 ${fieldClass}`}
+                />
+              </label>
+              <button
+                type="button"
+                onClick={() => changeInterchanges(interchanges.filter((_, i) => i !== index))}
+                disabled={disabled}
+                title={t('connection.remove')}
+                className="p-1 text-gray-500 hover:text-red-700"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={() => changeInterchanges([...interchanges, emptyInterchange(line.stations[0].codigo, fileNames[0] ?? '')])}
+          disabled={disabled || files.length === 0}
+          className={buttonClass}
+        >
+          <Plus size={14} /> {t('connection.add')}
+        </button>
+        <button type="button" onClick={handleSearch} disabled={!canSearch} className={buttonClass}>
+          <Search size={14} /> {t('connection.search')}
+        </button>
+        {isRunning && (
+          <button type="button" onClick={cancelJob} className={buttonClass}>
+            <XCircle size={14} /> {t('action.cancel')}
+          </button>
+        )}
+      </div>
+
+      {files.length === 0 && <p className="text-xs text-gray-500">{t('connection.noFeeds')}</p>}
+      {files.length > 0 && !range && <p className="text-xs text-gray-500">{t('connection.needsTimetable')}</p>}
+      {isRunning && progress && (
+        <div className="text-xs text-blue-700">
+          {localize(locale, progress.message)}
+          <div className="mt-1 w-full bg-blue-100 rounded-full h-2 overflow-hidden">
+            <div className="bg-renfe-primary h-2 transition-all" style={{ width: `${overallPercent(progress)}%` }} />
+          </div>
+        </div>
+      )}
+      {!!error && <p className="text-xs text-red-700">{t('status.error', { message: errorMessage(error, locale) })}</p>}
+      {callCount > 0 && <p className="text-xs text-green-700">{t('connection.found', { count: callCount })}</p>}
+    </div>
+  );
+};
+
+export default ConnectionFeeds;
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CalendarRange, ChevronLeft, ChevronRight, XCircle } from 'lucide-react';
+import { LineDefinition } from '../constants';
+import { ProcessingProgress } from '../types';
+import { displayDate } from '../utils/gtfsValidator';
+import { GTFSJob, GTFSJobCancelledError, overallPercent, serviceCoverageJob } from '../utils/gtfsWorkerClient';
+import { Locale, MessageKey, errorMessage, localize, translator } from '../utils/i18n';
+import { datesInRange, toIsoDate } from '../utils/serviceCalendar';
+import { CoverageDay, DayDeviation, ServiceCoverage } from '../utils/serviceCoverage';
+
+interface CoverageCalendarProps {
+  file: File | null;
+  line: LineDefinition;
+  locale: Locale;
+  selectedDate: string; // YYYY-MM-DD, first day in range mode
+  endDate: string; // YYYY-MM-DD, equal to selectedDate for a single day
+  disabled: boolean;
+  onSelect: (date: string) => void; // YYYY-MM-DD
+}
+
+const DEVIATION_KEYS: Record<DayDeviation, MessageKey> = {
+  holiday: 'coverage.holiday',
+  special: 'coverage.special',
+  reduced: 'coverage.reduced',
+  changed: 'coverage.changed',
+};
+
+const DEVIATION_CLASSES: Record<DayDeviation, string> = {
+  holiday: 'bg-red-50 border-red-300',
+  special: 'bg-blue-50 border-blue-300',
+  reduced: 'bg-amber-50 border-amber-300',
+  changed: 'bg-purple-50 border-purple-300',
+};
+
+// "YYYY-MM" of a YYYY-MM-DD or YYYYMMDD date
+const monthOf = (date: string) => date.length === 8 ? `${date.substring(0, 4)}-${date.substring(4, 6)}` : date.substring(0, 7);
+
+const shiftMonth = (month: string, months: number) => {
+  const [year, m] = month.split('-').map(Number);
+  const d = new Date(year, m - 1 + months, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Month grid of the loaded feed: validity, trains of the line per day and the
+// days that break their weekday's usual service. Clicking a day selects it.
+const CoverageCalendar: React.FC<CoverageCalendarProps> = ({ file, line, locale, selectedDate, endDate, disabled, onSelect }) => {
+  const [coverage, setCoverage] = useState<ServiceCoverage | null>(null);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const [month, setMonth] = useState(monthOf(selectedDate));
+
+  const jobRef = useRef<GTFSJob<ServiceCoverage> | null>(null);
+
+  const t = translator(locale);
+
+  const cancelJob = () => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  // The coverage belongs to one feed and line
+  useEffect(() => {
+    cancelJob();
+    setCoverage(null);
+    setError(null);
+    return () => jobRef.current?.cancel();
+  }, [file, line]);
+
+  const handleLoad = async () => {
+    if (!file) return;
+    cancelJob();
+    setError(null);
+    setIsRunning(true);
+    try {
+      const job = serviceCoverageJob(file, line, setProgress);
+      jobRef.current = job;
+      const result = await job.result;
+      jobRef.current = null;
+      setCoverage(result);
+      // Open on the selected month, or on the first one the feed covers
+      const range = result.feedRange;
+      if (range && (monthOf(selectedDate) < monthOf(range.from) || monthOf(selectedDate) > monthOf(range.to))) {
+        setMonth(monthOf(range.from));
+      } else {
+        setMonth(monthOf(selectedDate));
+      }
+    } catch (e) {
+      if (e instanceof GTFSJobCancelledError) return;
+      console.error(e);
+      setError(e);
+    }
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  const buttonClass = "inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  const renderMonth = (result: ServiceCoverage) => {
+    const byDate = new Map<string, CoverageDay>(result.days.map(day => [toIsoDate(day.date), day]));
+    const [year, m] = month.split('-').map(Number);
+    const lastDay = new Date(year, m, 0).getDate();
+    const dates = datesInRange(`${month}-01`, `${month}-${String(lastDay).padStart(2, '0')}`);
+    const leadingBlanks = (new Date(year, m - 1, 1).getDay() + 6) % 7; // Weeks start on Monday
+    const monthNames = t('coverage.months').split(',');
+    const firstMonth = result.feedRange ? monthOf(result.feedRange.from) : month;
+    const lastMonth = result.feedRange ? monthOf(result.feedRange.to) : month;
+
+    return (
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <button type="button" onClick={() => setMonth(shiftMonth(month, -1))} disabled={month <= firstMonth} className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30" title={t('coverage.previous')}>
+            <ChevronLeft size={16} />
+          </button>
+          <span className="text-sm font-medium text-gray-800">{monthNames[m - 1]} {year}</span>
+          <button type="button" onClick={() => setMonth(shiftMonth(month, 1))} disabled={month >= lastMonth} className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30" title={t('coverage.next')}>
+            <ChevronRight size={16} />
+          </button>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center text-xs">
+          {t('pattern.dayLetters').split(',').map(letter => (
+            <div key={letter} className="text-gray-500 font-medium">{letter}</div>
+          ))}
+          {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+          {dates.map(date => {
+            const day = byDate.get(date);
+            const isSelected = date >= selectedDate && date <= endDate;
+            const details = day
+              ? [t('summary.trains', { count: day.trains }), ...(day.deviation ? [t(DEVIATION_KEYS[day.deviation])] : [])].join(' · ')
+              : t('coverage.outside');
+            return (
+              <button
+                key={date}
+                type="button"
+                onClick={() => onSelect(date)}
+                disabled={!day || disabled}
+                title={`${displayDate(date.replace(/-/g, ''))}: ${details}`}
+                className={`rounded border px-1 py-1 ${day ? (day.deviation ? DEVIATION_CLASSES[day.deviation] : 'bg-white border-gray-200') : 'bg-gray-50 border-gray-100 text-gray-300'} ${isSelected ? 'ring-2 ring-renfe-primary' : ''} ${day && !disabled ? 'hover:border-gray-500' : 'cursor-default'}`}
+              >
+                <div className="font-medium">{Number(date.substring(8))}</div>
+                <div className={day && day.trains === 0 ? 'text-red-600' : 'text-gray-500'}>{day ? day.trains : ''}</div>
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+          {(Object.keys(DEVIATION_KEYS) as DayDeviation[]).map(deviation => (
+            <span key={deviation} className="inline-flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded border ${DEVIATION_CLASSES[deviation]}`} />
+              {t(DEVIATION_KEYS[deviation])}
+            </span>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">{t('coverage.hint')}</p>
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={handleLoad} disabled={!file || isRunning || disabled} className={buttonClass}>
+          <CalendarRange size={14} /> {t('coverage.show')}
+        </button>
+        {isRunning && (
+          <button type="button" onClick={cancelJob} className={buttonClass}>
+            <XCircle size={14} /> {t('action.cancel')}
+          </button>
+        )}
+        {coverage && (
+          <span className="text-xs text-gray-600">
+            {coverage.feedRange
+              ? t('validation.feedRange', { from: displayDate(coverage.feedRange.from), to: displayDate(coverage.feedRange.to) })
+              : t('validation.noFeedRange')}
+          </span>
+        )}
+      </div>
+
+      {isRunning && progress && (
+        <div className="text-xs text-blue-700">
+          {localize(locale, progress.message)}
+          <div className="mt-1 w-full bg-blue-100 rounded-full h-2 overflow-hidden">
+            <div className="bg-renfe-primary h-2 transition-all" style={{ width: `${overallPercent(progress)}%` }} />
+          </div>
+        </div>
+      )}
+      {!!error && <p className="text-xs text-red-700">{t('status.error', { message: errorMessage(error, locale) })}</p>}
+
+      {coverage && coverage.days.length > 0 && renderMonth(coverage)}
+    </div>
+  );
+};
+
+export default CoverageCalendar;
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Download, GitCompare, Upload, XCircle } from 'lucide-react';
+import { LineDefinition } from '../constants';
+import { ParsedTimetable, PdfOptions, ProcessingProgress } from '../types';
+import { CHANGE_KIND_KEYS, TimetableDiff, changeDetails, diffSummary, diffTimetables, generateChangesPDF, trainLabel } from '../utils/feedDiff';
+import { GTFSJob, GTFSJobCancelledError, overallPercent, runGTFSJob } from '../utils/gtfsWorkerClient';
+import { Locale, MessageKey, errorMessage, localize, translator } from '../utils/i18n';
+import { directionNames } from '../utils/lineCatalog';
+
+interface FeedComparisonProps {
+  data: ParsedTimetable; // Timetable of the current (new) feed
+  line: LineDefinition;
+  locale: Locale;
+  pdfOptions: PdfOptions;
+}
+
+// Parses an older GTFS for the same line and dates and lists what changed
+const FeedComparison: React.FC<FeedComparisonProps> = ({ data, line, locale, pdfOptions }) => {
+  const [oldFile, setOldFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [diff, setDiff] = useState<TimetableDiff | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [pdfError, setPdfError] = useState<MessageKey | null>(null);
+
+  const jobRef = useRef<GTFSJob | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const t = translator(locale);
+
+  // A running job belongs to this timetable: stop it when the component goes away
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const cancelJob = () => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  const handleCompare = async () => {
+    if (!oldFile) return;
+    cancelJob();
+    setDiff(null);
+    setError(null);
+    setIsRunning(true);
+    try {
+      const job = runGTFSJob(oldFile, data.range, line, setProgress);
+      jobRef.current = job;
+      const oldData = await job.result;
+      jobRef.current = null;
+      setDiff(diffTimetables(oldData, data));
+    } catch (e) {
+      if (e instanceof GTFSJobCancelledError) return;
+      console.error(e);
+      setError(e);
+    }
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  const handleDownload = () => {
+    if (!diff) return;
+    try {
+      generateChangesPDF(diff, line, pdfOptions);
+      setPdfError(null);
+    } catch (e) {
+      console.error(e);
+      setPdfError('status.pdfError');
+    }
+  };
+
+  const summary = diff && diffSummary(diff);
+  const buttonClass = "inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 border border-gray-200 space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">{t('diff.title')}</h3>
+        <p className="text-xs text-gray-500">{t('diff.intro')}</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isRunning} className={buttonClass}>
+          <Upload size={14} /> {oldFile ? oldFile.name : t('diff.chooseOld')}
+        </button>
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept=".zip"
+          aria-label={t('diff.oldFile')}
+          onChange={(e) => {
+            const chosen = e.target.files?.[0];
+            e.target.value = '';
+            if (!chosen) return;
+            cancelJob();
+            setOldFile(chosen);
+            setDiff(null);
+            setError(null);
+          }}
+        />
+        <button type="button" onClick={handleCompare} disabled={!oldFile || isRunning} className={buttonClass}>
+          <GitCompare size={14} /> {t('diff.compare')}
+        </button>
+        {isRunning && (
+          <button type="button" onClick={cancelJob} className={buttonClass}>
+            <XCircle size={14} /> {t('action.cancel')}
+          </button>
+        )}
+      </div>
+
+      {isRunning && progress && (
+        <div className="text-xs text-blue-700">
+          {localize(locale, progress.message)}
+          <div className="mt-1 w-full bg-blue-100 rounded-full h-2 overflow-hidden">
+            <div className="bg-renfe-primary h-2 transition-all" style={{ width: `${overallPercent(progress)}%` }} />
+          </div>
+        </div>
+      )}
+      {!!error && <p className="text-xs text-red-700">{t('status.error', { message: errorMessage(error, locale) })}</p>}
+
+      {diff && summary && (
+        <>
+          <p className="text-sm text-gray-700">{t('diff.summary', summary)}</p>
+          {summary.added + summary.removed + summary.changed === 0 ? (
+            <p className="text-sm text-gray-500">{t('diff.none')}</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto space-y-4">
+              {diff.directions.filter(d => d.changes.length > 0).map(direction => (
+                <div key={direction.direction}>
+                  <h4 className="text-sm font-medium text-gray-800">{directionNames(line, locale)[direction.direction]}</h4>
+                  <table className="w-full text-sm">
+                    <tbody className="divide-y divide-gray-100">
+                      {direction.changes.map((change, i) => (
+                        <tr key={i} className="align-top">
+                          <td className="py-1 pr-2 whitespace-nowrap font-medium">{trainLabel(change, line, t, locale, pdfOptions.nextDayMarker)}</td>
+                          <td className={`py-1 pr-2 text-xs ${change.kind === 'added' ? 'text-green-700' : change.kind === 'removed' ? 'text-red-700' : 'text-amber-700'}`}>
+                            {t(CHANGE_KIND_KEYS[change.kind])}
+                          </td>
+                          <td className="py-1 text-xs text-gray-600">
+                            {changeDetails(change, line, t, locale, pdfOptions.nextDayMarker).map((detail, j) => <div key={j}>{detail}</div>)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+          <button type="button" onClick={handleDownload} className={buttonClass}>
+            <Download size={14} /> {t('diff.download')}
+          </button>
+          {pdfError && <p className="text-xs text-red-700">{t(pdfError)}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FeedComparison;
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BarChart3, XCircle } from 'lucide-react';
+import { LineDefinition } from '../constants';
+import { ParsedTimetable, PdfOptions, ProcessingProgress, TimetableEdits } from '../types';
+import { formatGTFSTime } from '../utils/gtfsTime';
+import { displayDate } from '../utils/gtfsValidator';
+import { GTFSJob, GTFSJobCancelledError, overallPercent, runGTFSJob } from '../utils/gtfsWorkerClient';
+import { FrequencyReport, StationFrequency, TIME_BANDS, TIME_BAND_KEYS, firstServiceDate, formatHeadway, frequencyReport } from '../utils/headways';
+import { Locale, errorMessage, localize, translator } from '../utils/i18n';
+import { directionNames, stationName } from '../utils/lineCatalog';
+import { datesInRange } from '../utils/serviceCalendar';
+import { applyEdits } from '../utils/timetableEdits';
+
+interface HeadwayAnalysisProps {
+  file: File | null; // Feed of `data`, parsed again for comparison dates outside its range
+  data: ParsedTimetable;
+  line: LineDefinition;
+  edits: TimetableEdits; // Applied to both dates, as in the PDF
+  locale: Locale;
+  pdfOptions: PdfOptions;
+}
+
+const ymd = (isoDate: string) => isoDate.replace(/-/g, '');
+
+// Trains per hour and headways at each station on one day, optionally side by
+// side with a second day (e.g. a weekday against a Sunday).
+const HeadwayAnalysis: React.FC<HeadwayAnalysisProps> = ({ file, data, line, edits, locale, pdfOptions }) => {
+  const rangeDates = datesInRange(data.range.from, data.range.to).map(ymd);
+  const [date, setDate] = useState(() => firstServiceDate([...data.toBrinkola, ...data.toIrun]) ?? rangeDates[0]);
+  const [direction, setDirection] = useState<'forward' | 'backward'>('forward');
+  const [stationCode, setStationCode] = useState('');
+  const [compareInput, setCompareInput] = useState('');
+  const [comparison, setComparison] = useState<{ date: string; data: ParsedTimetable } | null>(null);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+
+  const jobRef = useRef<GTFSJob | null>(null);
+
+  const t = translator(locale);
+  const fmt = (seconds?: number) => seconds === undefined ? '-' : formatGTFSTime(seconds, pdfOptions.nextDayMarker);
+  const perHour = (value: number) => t('headway.perHour', { count: value.toLocaleString(locale, { maximumFractionDigits: 1 }) });
+
+  // A running job belongs to this timetable: stop it when the component goes away
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const cancelJob = () => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  const reportFor = (source: ParsedTimetable, day: string): FrequencyReport => {
+    const edited = applyEdits(source, line, edits);
+    return frequencyReport(edited.data.toBrinkola, edited.data.toIrun, edited.line, day);
+  };
+
+  // Dates inside the loaded range need no parsing; others read the feed again
+  const handleCompare = async () => {
+    if (!compareInput) return;
+    cancelJob();
+    setError(null);
+    const day = ymd(compareInput);
+    if (rangeDates.includes(day)) {
+      setComparison({ date: day, data });
+      return;
+    }
+    if (!file) return;
+    setIsRunning(true);
+    try {
+      const job = runGTFSJob(file, { from: compareInput, to: compareInput }, line, setProgress);
+      jobRef.current = job;
+      const other = await job.result;
+      jobRef.current = null;
+      setComparison({ date: day, data: other });
+    } catch (e) {
+      if (e instanceof GTFSJobCancelledError) return;
+      console.error(e);
+      setError(e);
+    }
+    setIsRunning(false);
+    setProgress(null);
+  };
+
+  const report = reportFor(data, date);
+  const other = comparison ? reportFor(comparison.data, comparison.date) : null;
+  const stations = report.directions.find(d => d.direction === direction)?.stations ?? [];
+  const otherStations = other?.directions.find(d => d.direction === direction)?.stations ?? [];
+  const selected = stations.find(s => s.station.codigo === stationCode) ?? stations[0];
+  const otherSelected = otherStations.find(s => s.station.codigo === selected?.station.codigo);
+  const names = directionNames(line, locale);
+
+  // A value of the analysed day, followed by the comparison day's in purple
+  const pair = (value: (frequency: StationFrequency) => string, frequency?: StationFrequency, otherFrequency?: StationFrequency) => (
+    <>
+      {frequency ? value(frequency) : '-'}
+      {other && <span className="text-purple-700"> / {otherFrequency ? value(otherFrequency) : '-'}</span>}
+    </>
+  );
+
+  const buttonClass = "inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed";
+  const inputClass = "text-sm border-gray-300 rounded-md py-1 border px-2";
+  const cellClass = "py-1 px-2 whitespace-nowrap";
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 border border-gray-200 space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900">{t('headway.title')}</h3>
+        <p className="text-xs text-gray-500">{t('headway.intro')}</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <label className="inline-flex items-center gap-1">
+          {t('headway.date')}
+          <select value={date} onChange={(e) => setDate(e.target.value)} disabled={rangeDates.length < 2} className={inputClass}>
+            {rangeDates.map(d => <option key={d} value={d}>{displayDate(d)}</option>)}
+          </select>
+        </label>
+        <label className="inline-flex items-center gap-1">
+          {t('headway.compareWith')}
+          <input type="date" value={compareInput} onChange={(e) => setCompareInput(e.target.value)} className={inputClass} />
+        </label>
+        <button type="button" onClick={handleCompare} disabled={!compareInput || isRunning} className={buttonClass}>
+          <BarChart3 size={14} /> {t('headway.compare')}
+        </button>
+        {isRunning && (
+          <button type="button" onClick={cancelJob} className={buttonClass}>
+            <XCircle size={14} /> {t('action.cancel')}
+          </button>
+        )}
+        {comparison && !isRunning && (
+          <button type="button" onClick={() => setComparison(null)} className={buttonClass}>
+            {t('headway.clearCompare')}
+          </button>
+        )}
+      </div>
+
+      {isRunning && progress && (
+        <div className="text-xs text-blue-700">
+          {localize(locale, progress.message)}
+          <div className="mt-1 w-full bg-blue-100 rounded-full h-2 overflow-hidden">
+            <div className="bg-renfe-primary h-2 transition-all" style={{ width: `${overallPercent(progress)}%` }} />
+          </div>
+        </div>
+      )}
+      {!!error && <p className="text-xs text-red-700">{t('status.error', { message: errorMessage(error, locale) })}</p>}
+      {other && (
+        <p className="text-xs text-gray-600">
+          {t('headway.comparing', { date: displayDate(report.date) })} <span className="text-purple-700">{t('headway.comparingWith', { date: displayDate(other.date) })}</span>
+        </p>
+      )}
+
+      <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-xs">
+        {(['forward', 'backward'] as const).map(d => (
+          <button
+            key={d}
+            type="button"
+            onClick={() => setDirection(d)}
+            className={`px-3 py-1 ${direction === d ? 'bg-renfe-primary text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+          >
+            {names[d]}
+          </button>
+        ))}
+      </div>
+
+      <div className="max-h-96 overflow-auto">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-gray-100 text-gray-700">
+            <tr>
+              <th className={`${cellClass} text-left`}>{t('column.station')}</th>
+              <th className={cellClass}>{t('column.firstTrain')}</th>
+              <th className={cellClass}>{t('column.lastTrain')}</th>
+              <th className={cellClass}>{t('column.trains')}</th>
+              {TIME_BANDS.map(band => (
+                <th key={band.id} className={cellClass}>{t(TIME_BAND_KEYS[band.id])}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {stations.map(frequency => {
+              const otherFrequency = otherStations.find(s => s.station.codigo === frequency.station.codigo);
+              return (
+                <tr
+                  key={frequency.station.codigo}
+                  onClick={() => setStationCode(frequency.station.codigo)}
+                  className={`cursor-pointer text-center ${frequency === selected ? 'bg-purple-50' : 'hover:bg-gray-100'}`}
+                >
+                  <td className={`${cellClass} text-left font-medium`}>{stationName(frequency.station, locale)}</td>
+                  <td className={cellClass}>{pair(f => fmt(f.first), frequency, otherFrequency)}</td>
+                  <td className={cellClass}>{pair(f => fmt(f.last), frequency, otherFrequency)}</td>
+                  <td className={cellClass}>{pair(f => String(f.departures.length), frequency, otherFrequency)}</td>
+                  {frequency.bands.map((band, i) => (
+                    <td key={band.band.id} className={cellClass}>
+                      {pair(f => f.bands[i].trains > 0 ? perHour(f.bands[i].trainsPerHour) : '-', frequency, otherFrequency)}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-gray-800">{stationName(selected.station, locale)}</h4>
+          {selected.departures.length === 0 && !otherSelected?.departures.length ? (
+            <p className="text-sm text-gray-500">{t('headway.noTrains')}</p>
+          ) : (
+            <>
+              <table className="w-full text-xs">
+                <thead className="bg-gray-100 text-gray-700">
+                  <tr>
+                    <th className={`${cellClass} text-left`}>{t('headway.band')}</th>
+                    <th className={cellClass}>{t('column.trains')}</th>
+                    <th className={cellClass}>{t('headway.trainsPerHour')}</th>
+                    <th className={cellClass}>{t('headway.min')}</th>
+                    <th className={cellClass}>{t('headway.average')}</th>
+                    <th className={cellClass}>{t('headway.max')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {selected.bands.map((band, i) => (
+                    <tr key={band.band.id} className="text-center">
+                      <td className={`${cellClass} text-left`}>{t(TIME_BAND_KEYS[band.band.id])}</td>
+                      <td className={cellClass}>{pair(f => String(f.bands[i].trains), selected, otherSelected)}</td>
+                      <td className={cellClass}>{pair(f => perHour(f.bands[i].trainsPerHour), selected, otherSelected)}</td>
+                      <td className={cellClass}>{pair(f => formatHeadway(f.bands[i].minHeadway), selected, otherSelected)}</td>
+                      <td className={cellClass}>{pair(f => formatHeadway(f.bands[i].averageHeadway), selected, otherSelected)}</td>
+                      <td className={cellClass}>{pair(f => formatHeadway(f.bands[i].maxHeadway), selected, otherSelected)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {[selected, ...(other ? [otherSelected] : [])].map((frequency, i) => (
+                <p key={i} className={`text-xs ${i === 0 ? 'text-gray-600' : 'text-purple-700'}`}>
+                  {t('headway.gaps')}{' '}
+                  {frequency && frequency.gaps.length > 0
+                    ? frequency.gaps.map(gap => `${fmt(gap.from)}-${fmt(gap.to)} (${formatHeadway(gap.to - gap.from)})`).join(', ')
+                    : '-'}
+                </p>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HeadwayAnalysis;
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { ArrowLeftRight, CalendarPlus, Download } from 'lucide-react';
+import { LineDefinition } from '../constants';
+import { ParsedTimetable, PdfOptions } from '../types';
+import { formatDuration, formatGTFSTime } from '../utils/gtfsTime';
+import { Locale, MessageKey, translator } from '../utils/i18n';
+import { exportICS } from '../utils/icalendar';
+import { TimeWindow, findJourneys, generateJourneyPDF } from '../utils/journeys';
+import { stationName } from '../utils/lineCatalog';
+import { patternText } from '../utils/servicePattern';
+
+interface JourneyPlannerProps {
+  data: ParsedTimetable;
+  line: LineDefinition;
+  locale: Locale;
+  pdfOptions: PdfOptions;
+}
+
+// Direct trains between two stations of the processed timetable
+const JourneyPlanner: React.FC<JourneyPlannerProps> = ({ data, line, locale, pdfOptions }) => {
+  const [originCode, setOriginCode] = useState(line.stations[0]?.codigo ?? '');
+  const [destinationCode, setDestinationCode] = useState(line.stations[line.stations.length - 1]?.codigo ?? '');
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>({ from: '', to: '' });
+  const [error, setError] = useState<MessageKey | null>(null);
+  // Trains chosen for the calendar export, by ParsedTrip id
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const origin = line.stations.find(s => s.codigo === originCode);
+  const destination = line.stations.find(s => s.codigo === destinationCode);
+  const journeys = findJourneys(data, line, originCode, destinationCode, timeWindow);
+  const fmt = (seconds: number) => formatGTFSTime(seconds, pdfOptions.nextDayMarker);
+  const t = translator(locale);
+
+  const selectedJourneys = journeys.filter(j => selected.has(j.trip.id));
+
+  const toggleSelected = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setSelected(next);
+  };
+
+  const handleCalendarExport = () => {
+    if (!origin || !destination || selectedJourneys.length === 0) return;
+    exportICS(selectedJourneys, origin, destination, data.dateUsed, locale);
+  };
+
+  const handleExport = () => {
+    if (!origin || !destination) return;
+    try {
+      generateJourneyPDF(journeys, origin, destination, data.dateUsed, timeWindow, pdfOptions);
+      setError(null);
+    } catch (e) {
+      console.error(e);
+      setError('status.pdfError');
+    }
+  };
+
+  const selectClass = "mt-1 block w-full text-sm border-gray-300 rounded-md py-2 border px-2";
+  const buttonClass = "inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 border border-gray-200 space-y-4">
+      <h3 className="text-lg font-medium text-gray-900">{t('journey.title')}</h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto_1fr] gap-2 items-end">
+        <label className="text-sm text-gray-700">
+          {t('journey.origin')}
+          <select value={originCode} onChange={(e) => setOriginCode(e.target.value)} className={selectClass}>
+            {line.stations.map(s => <option key={s.codigo} value={s.codigo}>{stationName(s, locale)}</option>)}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => {
+            setOriginCode(destinationCode);
+            setDestinationCode(originCode);
+          }}
+          className="p-2 text-gray-500 hover:text-gray-800"
+          title={t('journey.swap')}
+        >
+          <ArrowLeftRight size={16} />
+        </button>
+        <label className="text-sm text-gray-700">
+          {t('journey.destination')}
+          <select value={destinationCode} onChange={(e) => setDestinationCode(e.target.value)} className={selectClass}>
+            {line.stations.map(s => <option key={s.codigo} value={s.codigo}>{stationName(s, locale)}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        {t('journey.windowFrom')}
+        <input type="time" value={timeWindow.from} onChange={(e) => setTimeWindow({ ...timeWindow, from: e.target.value })} className="border-gray-300 rounded-md py-1 border px-2" />
+        {t('journey.windowAnd')}
+        <input type="time" value={timeWindow.to} onChange={(e) => setTimeWindow({ ...timeWindow, to: e.target.value })} className="border-gray-300 rounded-md py-1 border px-2" />
+        {t('journey.windowEnd')}
+      </div>
+
+      {originCode === destinationCode ? (
+        <p className="text-sm text-gray-500">{t('journey.sameStation')}</p>
+      ) : journeys.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('journey.none')}</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 text-left">
+              <tr>
+                <th className="py-1 w-6">
+                  <input
+                    type="checkbox"
+                    checked={selectedJourneys.length === journeys.length}
+                    onChange={(e) => setSelected(e.target.checked ? new Set(journeys.map(j => j.trip.id)) : new Set())}
+                    className="rounded border-gray-300"
+                    title={t('journey.selectAll')}
+                  />
+                </th>
+                {journeys.some(j => j.trip.pattern) && <th className="py-1">{t('column.days')}</th>}
+                <th className="py-1">{t('column.departure')}</th>
+                <th className="py-1">{t('column.arrival')}</th>
+                <th className="py-1">{t('column.duration')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {journeys.map(j => (
+                <tr key={j.trip.id}>
+                  <td className="py-1">
+                    <input type="checkbox" checked={selected.has(j.trip.id)} onChange={() => toggleSelected(j.trip.id)} className="rounded border-gray-300" />
+                  </td>
+                  {j.trip.pattern && (() => {
+                    const { label, note } = patternText(j.trip.pattern, t);
+                    return <td className="py-1" title={note}>{label}{note ? ' *' : ''}</td>;
+                  })()}
+                  <td className="py-1 font-medium">{fmt(j.departure)}</td>
+                  <td className="py-1">{fmt(j.arrival)}</td>
+                  <td className="py-1 text-gray-500">{formatDuration(j.duration)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={handleExport} disabled={originCode === destinationCode} className={buttonClass}>
+          <Download size={14} /> {t('journey.downloadPdf')}
+        </button>
+        <button type="button" onClick={handleCalendarExport} disabled={selectedJourneys.length === 0} className={buttonClass}>
+          <CalendarPlus size={14} /> {t('journey.addToCalendar')}{selectedJourneys.length > 0 ? ` (${selectedJourneys.length})` : ''}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-700">{t(error)}</p>}
+    </div>
+  );
+};
+
+export default JourneyPlanner;
@@ -0,0 +1,253 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, FileJson, ListOrdered, Pencil, Save, Trash2 } from 'lucide-react';
+import { GIPUZKOA_LINE, LineDefinition } from '../constants';
+import { Route } from '../types';
+import { GTFSJob, GTFSJobCancelledError, deriveLineJob, listRoutesJob } from '../utils/gtfsWorkerClient';
+import { Locale, LocalizedText, errorMessage, localize, translator } from '../utils/i18n';
+import { renumberStations, routeDisplayName } from '../utils/lineCatalog';
+import { deleteProfile, downloadProfile, loadSavedProfiles, readProfileFile, saveProfile } from '../utils/lineProfiles';
+
+interface LineSelectorProps {
+  file: File | null;
+  line: LineDefinition;
+  locale: Locale;
+  disabled: boolean;
+  onChange: (line: LineDefinition) => void;
+}
+
+const LineSelector: React.FC<LineSelectorProps> = ({ file, line, locale, disabled, onChange }) => {
+  const [savedProfiles, setSavedProfiles] = useState<LineDefinition[]>(() => loadSavedProfiles());
+  const [routes, setRoutes] = useState<Route[] | null>(null);
+  const [selectedRouteId, setSelectedRouteId] = useState('');
+  const [busyMessage, setBusyMessage] = useState<LocalizedText | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [isEditing, setIsEditing] = useState(false);
+
+  const jobRef = useRef<GTFSJob<unknown> | null>(null);
+  const profileInputRef = useRef<HTMLInputElement>(null);
+
+  const t = translator(locale);
+
+  // Routes belong to the loaded feed: drop them (and any running job) when it changes
+  useEffect(() => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+    setRoutes(null);
+    setSelectedRouteId('');
+    setBusyMessage(null);
+  }, [file]);
+
+  const runJob = async <T,>(job: GTFSJob<T>, message: LocalizedText): Promise<T | null> => {
+    jobRef.current?.cancel();
+    jobRef.current = job;
+    setBusyMessage(message);
+    setError(null);
+    try {
+      return await job.result;
+    } catch (e) {
+      if (!(e instanceof GTFSJobCancelledError)) {
+        setError(e);
+      }
+      return null;
+    } finally {
+      if (jobRef.current === job) {
+        jobRef.current = null;
+        setBusyMessage(null);
+      }
+    }
+  };
+
+  const handleLoadRoutes = async () => {
+    if (!file) return;
+    const result = await runJob(listRoutesJob(file), { key: 'line.readingRoutes' });
+    if (result) {
+      setRoutes(result);
+      setSelectedRouteId(result[0]?.route_id ?? '');
+    }
+  };
+
+  const handleDeriveLine = async () => {
+    if (!file || !selectedRouteId) return;
+    const job = deriveLineJob(file, selectedRouteId, (progress) => setBusyMessage(progress.message));
+    const derived = await runJob(job, { key: 'line.derivingRoute' });
+    if (derived) onChange(derived);
+  };
+
+  const allProfiles = [GIPUZKOA_LINE, ...savedProfiles];
+  const isSaved = savedProfiles.some(p => p.id === line.id);
+
+  // The built-in line is read-only: editing it forks an unsaved custom copy
+  const editLine = (changes: Partial<LineDefinition>) => {
+    const id = line.id === GIPUZKOA_LINE.id ? `custom-${Date.now()}` : line.id;
+    onChange({ ...line, ...changes, id });
+  };
+
+  const updateStations = (stations: LineDefinition['stations']) => {
+    editLine({ stations: renumberStations(stations) });
+  };
+
+  const moveStation = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= line.stations.length) return;
+    const stations = [...line.stations];
+    [stations[index], stations[target]] = [stations[target], stations[index]];
+    updateStations(stations);
+  };
+
+  const handleSave = () => {
+    // Saving the untouched built-in line stores a copy of it
+    const profile = line.id === GIPUZKOA_LINE.id ? { ...line, id: `custom-${Date.now()}` } : line;
+    setSavedProfiles(saveProfile(profile));
+    onChange(profile);
+  };
+
+  const handleDelete = () => {
+    setSavedProfiles(deleteProfile(line.id));
+    onChange(GIPUZKOA_LINE);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const profileFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!profileFile) return;
+    try {
+      const profile = await readProfileFile(profileFile);
+      setSavedProfiles(saveProfile(profile));
+      onChange(profile);
+      setError(null);
+    } catch (err) {
+      setError(err);
+    }
+  };
+
+  const buttonClass = "inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="w-full space-y-3">
+      <label htmlFor="line" className="block text-sm font-medium text-gray-700">
+        {t('line.label')}
+      </label>
+      <select
+        id="line"
+        value={line.id}
+        disabled={disabled}
+        onChange={(e) => {
+          const profile = allProfiles.find(p => p.id === e.target.value);
+          if (profile) onChange(profile);
+        }}
+        className="block w-full sm:text-sm border-gray-300 rounded-md py-3 border px-4"
+      >
+        {allProfiles.map(p => (
+          <option key={p.id} value={p.id}>{t('line.stationCount', { name: p.name, count: p.stations.length })}</option>
+        ))}
+        {!allProfiles.some(p => p.id === line.id) && (
+          <option value={line.id}>{t('line.unsaved', { name: line.name })}</option>
+        )}
+      </select>
+
+      {/* Derive a line from routes.txt */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        {routes ? (
+          <>
+            <select
+              value={selectedRouteId}
+              disabled={disabled || !!busyMessage}
+              onChange={(e) => setSelectedRouteId(e.target.value)}
+              className="flex-1 sm:text-sm border-gray-300 rounded-md py-2 border px-3"
+            >
+              {routes.map(r => (
+                <option key={r.route_id} value={r.route_id}>{routeDisplayName(r)} [{r.route_id}]</option>
+              ))}
+            </select>
+            <button type="button" onClick={handleDeriveLine} disabled={disabled || !!busyMessage || !selectedRouteId} className={buttonClass}>
+              <ListOrdered size={14} /> {t('line.useRoute')}
+            </button>
+          </>
+        ) : (
+          <button type="button" onClick={handleLoadRoutes} disabled={disabled || !file || !!busyMessage} className={buttonClass}>
+            <ListOrdered size={14} /> {t('line.chooseRoute')}
+          </button>
+        )}
+      </div>
+
+      {/* Profile actions */}
+      <div className="flex flex-wrap gap-2">
+        <button type="button" onClick={() => setIsEditing(!isEditing)} disabled={disabled} className={buttonClass}>
+          <Pencil size={14} /> {t(isEditing ? 'line.closeEdit' : 'line.edit')}
+        </button>
+        <button type="button" onClick={handleSave} disabled={disabled} className={buttonClass}>
+          <Save size={14} /> {t('line.save')}
+        </button>
+        <button type="button" onClick={() => downloadProfile(line)} className={buttonClass}>
+          <Download size={14} /> {t('line.export')}
+        </button>
+        <button type="button" onClick={() => profileInputRef.current?.click()} disabled={disabled} className={buttonClass}>
+          <FileJson size={14} /> {t('line.import')}
+        </button>
+        {isSaved && (
+          <button type="button" onClick={handleDelete} disabled={disabled} className={buttonClass}>
+            <Trash2 size={14} /> {t('line.delete')}
+          </button>
+        )}
+        <input type="file" ref={profileInputRef} className="hidden" accept=".json,application/json" onChange={handleImport} />
+      </div>
+
+      {busyMessage && <p className="text-xs text-blue-700">{localize(locale, busyMessage)}</p>}
+      {error && <p className="text-xs text-red-700">{errorMessage(error, locale)}</p>}
+
+      {/* Station editor */}
+      {isEditing && (
+        <div className="border border-gray-200 rounded-md p-3 space-y-2">
+          <input
+            type="text"
+            value={line.name}
+            disabled={disabled}
+            onChange={(e) => editLine({ name: e.target.value })}
+            className="block w-full text-sm border-gray-300 rounded-md py-2 border px-3"
+            placeholder={t('line.namePlaceholder')}
+          />
+          <div className="max-h-72 overflow-y-auto divide-y divide-gray-100">
+            {line.stations.map((station, i) => (
+              <div key={station.codigo} className="flex items-center gap-2 py-1">
+                <span className="w-6 text-xs text-gray-400 text-right">{station.orden}</span>
+                <input
+                  type="text"
+                  value={station.estacion}
+                  disabled={disabled}
+                  onChange={(e) => updateStations(line.stations.map(s => s.codigo === station.codigo ? { ...s, estacion: e.target.value } : s))}
+                  className="flex-1 text-sm border-gray-300 rounded py-1 border px-2"
+                />
+                <input
+                  type="text"
+                  value={station.estacionEu ?? ''}
+                  disabled={disabled}
+                  placeholder={t('line.basqueName')}
+                  onChange={(e) => updateStations(line.stations.map(s => s.codigo === station.codigo ? { ...s, estacionEu: e.target.value || undefined } : s))}
+                  className="flex-1 text-sm border-gray-300 rounded py-1 border px-2"
+                />
+                <span className="text-xs text-gray-400 w-14">{station.codigo}</span>
+                <button type="button" onClick={() => moveStation(i, -1)} disabled={disabled || i === 0} className="text-gray-500 disabled:opacity-30" title={t('line.moveUp')}>
+                  <ArrowUp size={14} />
+                </button>
+                <button type="button" onClick={() => moveStation(i, 1)} disabled={disabled || i === line.stations.length - 1} className="text-gray-500 disabled:opacity-30" title={t('line.moveDown')}>
+                  <ArrowDown size={14} />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => updateStations(line.stations.filter(s => s.codigo !== station.codigo))}
+                  disabled={disabled || line.stations.length <= 2}
+                  className="text-gray-500 hover:text-red-600 disabled:opacity-30"
+                  title={t('line.remove')}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LineSelector;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+import { LineDefinition } from '../constants';
+import { ParsedTimetable, StringlineSpacing } from '../types';
+import { formatGTFSTime } from '../utils/gtfsTime';
+import { Locale, translator } from '../utils/i18n';
+import { directionNames, stationName } from '../utils/lineCatalog';
+import { tripEndName } from '../utils/stoppingPattern';
+import { BACKWARD_COLOR, FORWARD_COLOR, buildStringline, hasStationDistances, stringlineHours } from '../utils/stringline';
+
+interface StringlineDiagramProps {
+  data: ParsedTimetable; // Already filtered by the preview edits
+  line: LineDefinition; // Stations shown in the preview
+  locale: Locale;
+  nextDayMarker: boolean;
+}
+
+const LABEL_WIDTH = 120; // px
+const TOP_MARGIN = 20;
+const BOTTOM_MARGIN = 10;
+const HOUR_WIDTH = 60; // px at zoom 1
+const STATION_HEIGHT = 26; // px per station on average
+const ZOOM_LEVELS = [0.5, 1, 2, 4, 8];
+
+const rgb = ([r, g, b]: number[]) => `rgb(${r}, ${g}, ${b})`;
+
+// Time-distance diagram of both directions: time across, stations down, one
+// line per train. Wider zoom levels scroll sideways.
+const StringlineDiagram: React.FC<StringlineDiagramProps> = ({ data, line, locale, nextDayMarker }) => {
+  const [spacing, setSpacing] = useState<StringlineSpacing>('order');
+  const [zoom, setZoom] = useState(1);
+
+  const t = translator(locale);
+  const fmt = (seconds: number) => formatGTFSTime(seconds, nextDayMarker);
+  const names = directionNames(line, locale);
+
+  const diagram = buildStringline(data.toBrinkola, data.toIrun, line, data.stationCoords, spacing);
+  const canUseDistances = hasStationDistances(line.stations, data.stationCoords);
+
+  const plotWidth = (diagram.end - diagram.start) / 3600 * HOUR_WIDTH * zoom;
+  const plotHeight = Math.max(1, line.stations.length - 1) * STATION_HEIGHT;
+  const xOf = (seconds: number) => LABEL_WIDTH + (seconds - diagram.start) / (diagram.end - diagram.start) * plotWidth;
+  const yOf = (offset: number) => TOP_MARGIN + (diagram.length > 0 ? offset / diagram.length * plotHeight : 0);
+
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom);
+  const buttonClass = "p-1 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 border border-gray-200 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-lg font-medium text-gray-900">{t('stringline.title')}</h3>
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <label className="inline-flex items-center gap-1">
+            {t('stringline.spacing')}
+            <select
+              value={diagram.spacing}
+              onChange={(e) => setSpacing(e.target.value as StringlineSpacing)}
+              className="text-sm border-gray-300 rounded-md py-1 border px-2"
+            >
+              <option value="order">{t('options.stringlineOrder')}</option>
+              <option value="distance" disabled={!canUseDistances}>{t('options.stringlineDistance')}</option>
+            </select>
+          </label>
+          <button type="button" onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])} disabled={zoomIndex <= 0} className={buttonClass} title={t('stringline.zoomOut')}>
+            <ZoomOut size={16} />
+          </button>
+          <button type="button" onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])} disabled={zoomIndex >= ZOOM_LEVELS.length - 1} className={buttonClass} title={t('stringline.zoomIn')}>
+            <ZoomIn size={16} />
+          </button>
+        </div>
+      </div>
+
+      {!canUseDistances && <p className="text-xs text-gray-500">{t('stringline.noDistances')}</p>}
+
+      {diagram.trains.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('stringline.none')}</p>
+      ) : (
+        <div className="overflow-auto max-h-[32rem] bg-white border border-gray-200 rounded-md">
+          <svg
+            width={LABEL_WIDTH + plotWidth + 20}
+            height={TOP_MARGIN + plotHeight + BOTTOM_MARGIN}
+            className="text-gray-700"
+            role="img"
+            aria-label={t('stringline.title')}
+          >
+            {diagram.stations.map(({ station, offset }) => (
+              <g key={station.codigo}>
+                <line x1={LABEL_WIDTH} x2={LABEL_WIDTH + plotWidth} y1={yOf(offset)} y2={yOf(offset)} stroke="#e5e7eb" />
+                <text x={LABEL_WIDTH - 4} y={yOf(offset) + 3} fontSize={10} textAnchor="end" fill="currentColor">{stationName(station, locale)}</text>
+              </g>
+            ))}
+            {stringlineHours(diagram).map(seconds => (
+              <g key={seconds}>
+                <line x1={xOf(seconds)} x2={xOf(seconds)} y1={TOP_MARGIN} y2={TOP_MARGIN + plotHeight} stroke="#d1d5db" />
+                <text x={xOf(seconds)} y={TOP_MARGIN - 6} fontSize={10} textAnchor="middle" fill="currentColor">{fmt(seconds)}</text>
+              </g>
+            ))}
+            {diagram.trains.map(train => (
+              <polyline
+                key={`${train.direction}-${train.trip.id}`}
+                points={train.points.map(p => `${xOf(p.seconds)},${yOf(p.offset)}`).join(' ')}
+                fill="none"
+                stroke={rgb(train.direction === 'forward' ? FORWARD_COLOR : BACKWARD_COLOR)}
+                strokeWidth={1.5}
+                strokeDasharray={train.express ? '4 3' : undefined}
+              >
+                <title>
+                  {`${fmt(train.points[0].seconds)} ${tripEndName(train.trip.origin, line, locale)} → ${tripEndName(train.trip.destination, line, locale)}`}
+                </title>
+              </polyline>
+            ))}
+          </svg>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+        {(['forward', 'backward'] as const).map(direction => (
+          <span key={direction} className="inline-flex items-center gap-1">
+            <span className="inline-block w-4 h-0.5" style={{ backgroundColor: rgb(direction === 'forward' ? FORWARD_COLOR : BACKWARD_COLOR) }} />
+            {names[direction]}
+          </span>
+        ))}
+        {diagram.trains.some(train => train.express) && <span>{t('legend.stringlineExpress')}</span>}
+      </div>
+      <p className="text-xs text-gray-500">{t('stringline.hint')}</p>
+    </div>
+  );
+};
+
+export default StringlineDiagram;
@@ -0,0 +1,281 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Eye, FolderOpen, ImagePlus, Palette, RotateCcw, Save, Type, X } from 'lucide-react';
+import { PaperSize, PdfBlock, PdfTemplate, PdfTheme, RGBColor } from '../types';
+import { GeneratedFile } from '../utils/files';
+import { Locale, MessageKey, errorMessage, translator } from '../utils/i18n';
+import { DEFAULT_TEMPLATE, PAPER_SIZES, PDF_THEMES, PdfThemeName, downloadTemplate, readFontFile, readLogoFile, readTemplateFile } from '../utils/pdfTemplate';
+
+interface TemplateEditorProps {
+  template: PdfTemplate;
+  locale: Locale;
+  onChange: (template: PdfTemplate) => void;
+  renderPreview: ((template: PdfTemplate) => GeneratedFile) | null; // Null until there is a timetable
+}
+
+const THEME_KEYS: Record<PdfThemeName, MessageKey> = {
+  renfe: 'template.themeRenfe',
+  blue: 'template.themeBlue',
+  green: 'template.themeGreen',
+  grey: 'template.themeGrey',
+};
+
+const PAPER_KEYS: Record<PaperSize, MessageKey> = {
+  a4: 'template.paperA4',
+  a3: 'template.paperA3',
+  letter: 'template.paperLetter',
+};
+
+const COLOR_KEYS: [keyof PdfTheme, MessageKey][] = [
+  ['headFill', 'template.headFill'],
+  ['headText', 'template.headText'],
+  ['titleText', 'template.titleText'],
+];
+
+const toHex = (color: RGBColor) => `#${color.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+const fromHex = (hex: string): RGBColor => [1, 3, 5].map(i => parseInt(hex.substring(i, i + 2), 16)) as RGBColor;
+
+// Look of the line timetable PDF: colours, font, paper, header and footer,
+// QR code and file name. Shows the PDF as it would download before exporting.
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, locale, onChange, renderPreview }) => {
+  const [error, setError] = useState<unknown>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+
+  const templateInputRef = useRef<HTMLInputElement>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const headerLogoRef = useRef<HTMLInputElement>(null);
+  const footerLogoRef = useRef<HTMLInputElement>(null);
+
+  const t = translator(locale);
+
+  // The blob URL of the preview lives until the next preview or until the editor goes away
+  useEffect(() => () => {
+    if (previewUrl) URL.revokeObjectURL(previewUrl);
+  }, [previewUrl]);
+
+  const update = (change: Partial<PdfTemplate>) => {
+    setError(null);
+    onChange({ ...template, ...change });
+  };
+
+  const updateBlock = (block: 'header' | 'footer', change: Partial<PdfBlock>) => update({ [block]: { ...template[block], ...change } });
+
+  // Chosen file, cleared from the input so that choosing it again fires onChange
+  const readChosen = async <T,>(e: React.ChangeEvent<HTMLInputElement>, read: (file: File) => Promise<T>, apply: (value: T) => void) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = '';
+    if (!chosen) return;
+    try {
+      apply(await read(chosen));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(err);
+    }
+  };
+
+  const handlePreview = () => {
+    if (!renderPreview) return;
+    try {
+      const file = renderPreview(template);
+      setPreviewUrl(URL.createObjectURL(new Blob([file.bytes], { type: file.mimeType })));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError(err);
+    }
+  };
+
+  const buttonClass = "inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed";
+  const fieldClass = "mt-1 block w-full text-sm border-gray-300 rounded-md py-1 border px-2";
+
+  const blockEditor = (block: 'header' | 'footer', label: MessageKey, logoRef: React.RefObject<HTMLInputElement>) => (
+    <div className="space-y-1">
+      <label className="block text-sm text-gray-700">
+        {t(label)}
+        <input
+          type="text"
+          value={template[block].text}
+          placeholder={t('template.blockText')}
+          onChange={(e) => updateBlock(block, { text: e.target.value })}
+          className={fieldClass}
+        />
+      </label>
+      <div className="flex items-center gap-2">
+        {template[block].logo && <img src={template[block].logo!.dataUrl} alt="" className="h-6 border border-gray-200" />}
+        <button type="button" onClick={() => logoRef.current?.click()} className={buttonClass}>
+          <ImagePlus size={14} /> {t('template.chooseLogo')}
+        </button>
+        {template[block].logo && (
+          <button type="button" onClick={() => updateBlock(block, { logo: undefined })} className={buttonClass} title={t('template.removeLogo')}>
+            <X size={14} />
+          </button>
+        )}
+        <input
+          type="file"
+          ref={logoRef}
+          className="hidden"
+          accept="image/png,image/jpeg"
+          aria-label={t('template.chooseLogo')}
+          onChange={(e) => readChosen(e, readLogoFile, logo => updateBlock(block, { logo }))}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-full space-y-3 border border-gray-200 rounded-md p-3">
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 flex items-center gap-1"><Palette size={14} /> {t('template.title')}</h3>
+        <p className="text-xs text-gray-500">{t('template.intro')}</p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="text-sm text-gray-700">
+          {t('template.name')}
+          <input type="text" value={template.name} onChange={(e) => update({ name: e.target.value })} className={fieldClass} />
+        </label>
+        <label className="text-sm text-gray-700">
+          {t('template.paper')}
+          <select value={template.paper} onChange={(e) => update({ paper: e.target.value as PaperSize })} className={fieldClass}>
+            {PAPER_SIZES.map(paper => <option key={paper} value={paper}>{t(PAPER_KEYS[paper])}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          {t('template.theme')}
+          <select
+            value=""
+            onChange={(e) => e.target.value && update({ theme: PDF_THEMES[e.target.value as PdfThemeName] })}
+            className={fieldClass}
+          >
+            <option value="">-</option>
+            {(Object.keys(PDF_THEMES) as PdfThemeName[]).map(name => <option key={name} value={name}>{t(THEME_KEYS[name])}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {COLOR_KEYS.map(([key, label]) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="color"
+              value={toHex(template.theme[key])}
+              onChange={(e) => update({ theme: { ...template.theme, [key]: fromHex(e.target.value) } })}
+              className="h-6 w-8 border border-gray-300 rounded"
+            />
+            {t(label)}
+          </label>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="text-sm text-gray-700">
+          {t('template.fontSize')}
+          <input
+            type="number"
+            min={4}
+            max={14}
+            step={0.5}
+            value={template.fontSize}
+            onChange={(e) => update({ fontSize: Math.min(14, Math.max(4, Number(e.target.value) || DEFAULT_TEMPLATE.fontSize)) })}
+            className={fieldClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          {t('template.margin')}
+          <input
+            type="number"
+            min={0}
+            max={30}
+            value={template.margin}
+            onChange={(e) => update({ margin: Math.min(30, Math.max(0, Number(e.target.value) || 0)) })}
+            className={fieldClass}
+          />
+        </label>
+        <div className="text-sm text-gray-700">
+          {t('template.font')}
+          <div className="mt-1 flex items-center gap-2">
+            <span className="text-xs text-gray-600 truncate">{template.font ? template.font.fileName : t('template.defaultFont')}</span>
+            <button type="button" onClick={() => fontInputRef.current?.click()} className={buttonClass}>
+              <Type size={14} /> {t('template.chooseFont')}
+            </button>
+            {template.font && (
+              <button type="button" onClick={() => update({ font: undefined })} className={buttonClass} title={t('template.removeFont')}>
+                <X size={14} />
+              </button>
+            )}
+            <input
+              type="file"
+              ref={fontInputRef}
+              className="hidden"
+              accept=".ttf,font/ttf"
+              aria-label={t('template.chooseFont')}
+              onChange={(e) => readChosen(e, readFontFile, font => update({ font }))}
+            />
+          </div>
+        </div>
+      </div>
+
+      <label className="block text-sm text-gray-700">
+        {t('template.pageTitle')}
+        <input type="text" value={template.title} onChange={(e) => update({ title: e.target.value })} className={fieldClass} />
+        <span className="text-xs text-gray-500">{t('template.pageTitleHint')}</span>
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {blockEditor('header', 'template.header', headerLogoRef)}
+        {blockEditor('footer', 'template.footer', footerLogoRef)}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="text-sm text-gray-700">
+          {t('template.qrUrl')}
+          <input type="url" value={template.qrUrl} onChange={(e) => update({ qrUrl: e.target.value.trim() })} placeholder="https://" className={fieldClass} />
+        </label>
+        <label className="text-sm text-gray-700">
+          {t('template.fileName')}
+          <input type="text" value={template.fileName} onChange={(e) => update({ fileName: e.target.value })} className={fieldClass} />
+          <span className="text-xs text-gray-500">{t('template.fileNameHint')}</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button type="button" onClick={handlePreview} disabled={!renderPreview} className={buttonClass}>
+          <Eye size={14} /> {t('template.preview')}
+        </button>
+        <button type="button" onClick={() => downloadTemplate(template)} className={buttonClass}>
+          <Save size={14} /> {t('template.save')}
+        </button>
+        <button type="button" onClick={() => templateInputRef.current?.click()} className={buttonClass}>
+          <FolderOpen size={14} /> {t('template.load')}
+        </button>
+        <input
+          type="file"
+          ref={templateInputRef}
+          className="hidden"
+          accept=".json,application/json"
+          aria-label={t('template.load')}
+          onChange={(e) => readChosen(e, readTemplateFile, onChange)}
+        />
+        <button type="button" onClick={() => update(DEFAULT_TEMPLATE)} className={buttonClass}>
+          <RotateCcw size={14} /> {t('template.reset')}
+        </button>
+      </div>
+
+      {!renderPreview && <p className="text-xs text-gray-500">{t('template.previewNeedsTimetable')}</p>}
+      {!!error && <p className="text-xs text-red-700">{t('status.error', { message: errorMessage(error, locale) })}</p>}
+
+      {previewUrl && (
+        <div className="space-y-1">
+          <div className="flex justify-end">
+            <button type="button" onClick={() => setPreviewUrl(null)} className={buttonClass}>
+              <X size={14} /> {t('template.closePreview')}
+            </button>
+          </div>
+          <iframe src={previewUrl} title={t('template.preview')} className="w-full h-[32rem] border border-gray-200 rounded" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateEditor;
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { Accessibility, AlertTriangle, Bike, Eye, EyeOff, RotateCcw } from 'lucide-react';
+import { LineDefinition } from '../constants';
+import { ParsedTimetable, ParsedTrip, PdfOptions, RealtimeAlert, TimetableEdits } from '../types';
+import { LineConnections, NO_CONNECTIONS, connectionText, tripConnections } from '../utils/connections';
+import { alertText } from '../utils/gtfsRealtime';
+import { formatGTFSTime } from '../utils/gtfsTime';
+import { Locale, translator } from '../utils/i18n';
+import { directionNames, stationName } from '../utils/lineCatalog';
+import { patternText } from '../utils/servicePattern';
+import { expressTrips, stopKind, tripEndName } from '../utils/stoppingPattern';
+import { EMPTY_EDITS, filterTrips, hasEdits, visibleLine } from '../utils/timetableEdits';
+
+interface TimetablePreviewProps {
+  data: ParsedTimetable;
+  line: LineDefinition;
+  locale: Locale;
+  pdfOptions: PdfOptions;
+  edits: TimetableEdits;
+  onChange: (edits: TimetableEdits) => void;
+  alerts?: RealtimeAlert[]; // Active alerts of a GTFS-Realtime overlay already applied to `data`
+  connections?: LineConnections;
+}
+
+// On-screen timetable of one direction. The filters, hidden trains and notes
+// set here are what the generated PDF prints.
+const TimetablePreview: React.FC<TimetablePreviewProps> = ({ data, line, locale, pdfOptions, edits, onChange, alerts = [], connections = NO_CONNECTIONS }) => {
+  const [direction, setDirection] = useState<'forward' | 'backward'>('forward');
+
+  const t = translator(locale);
+  const fmt = (seconds: number) => formatGTFSTime(seconds, pdfOptions.nextDayMarker);
+  const names = directionNames(line, locale);
+
+  const shownStations = visibleLine(line, edits).stations;
+  const stations = direction === 'forward' ? shownStations : [...shownStations].reverse();
+  const directionTrips = direction === 'forward' ? data.toBrinkola : data.toIrun;
+  const trips = filterTrips(directionTrips, stations, edits, true);
+  const hidden = new Set(edits.hiddenTrips);
+  const printed = trips.filter(trip => !hidden.has(trip.id)).length;
+  const hasPatterns = trips.some(trip => trip.pattern);
+  const hasServices = trips.some(trip => trip.wheelchairAccessible || trip.bikesAllowed);
+  const tripConnectionsOf = (trip: ParsedTrip) => tripConnections(trip, stations, connections.interchanges, connections.calls);
+  const hasConnections = trips.some(trip => tripConnectionsOf(trip).length > 0);
+  const express = expressTrips(trips.filter(trip => !hidden.has(trip.id)), stations);
+  const added = [...data.toBrinkola, ...data.toIrun].filter(trip => trip.realtime?.status === 'added');
+
+  const rowClass = (trip: ParsedTrip) => {
+    if (hidden.has(trip.id)) return 'text-gray-300 line-through';
+    if (trip.realtime?.status === 'canceled') return 'text-red-700 line-through bg-red-50';
+    if (trip.realtime?.status === 'added') return 'text-gray-800 bg-green-50';
+    return `text-gray-800 ${express.has(trip.id) ? 'bg-amber-50' : ''}`;
+  };
+  const rowTitle = (trip: ParsedTrip) => {
+    if (trip.realtime?.status === 'canceled') return t('legend.canceled');
+    if (trip.realtime?.status === 'added') return t('legend.added');
+    return express.has(trip.id) ? t('legend.express') : undefined;
+  };
+
+  // Departure with its realtime delay, "X" at a stop the train skips today
+  const timeCell = (trip: ParsedTrip, code: string) => {
+    if (trip.realtime?.skipped.includes(code)) return <span className="text-red-700" title={t('legend.skippedStop')}>X</span>;
+    const minutes = Math.round((trip.realtime?.delays[code] ?? 0) / 60);
+    return (
+      <>
+        {fmt(trip.times[code])}
+        {minutes !== 0 && <span className={`ml-1 ${minutes > 0 ? 'text-red-600' : 'text-green-700'}`}>{minutes > 0 ? '+' : ''}{minutes}'</span>}
+      </>
+    );
+  };
+
+  const toggleHidden = (id: string) => onChange({
+    ...edits,
+    hiddenTrips: hidden.has(id) ? edits.hiddenTrips.filter(h => h !== id) : [...edits.hiddenTrips, id],
+  });
+
+  const setNote = (id: string, note: string) => {
+    const notes = { ...edits.notes };
+    if (note) {
+      notes[id] = note;
+    } else {
+      delete notes[id];
+    }
+    onChange({ ...edits, notes });
+  };
+
+  // An empty selection means every station; the last shown station cannot be removed
+  const toggleStation = (code: string) => {
+    const current = new Set(shownStations.map(s => s.codigo));
+    if (current.has(code)) {
+      if (current.size === 1) return;
+      current.delete(code);
+    } else {
+      current.add(code);
+    }
+    const codes = current.size === line.stations.length ? [] : line.stations.filter(s => current.has(s.codigo)).map(s => s.codigo);
+    onChange({ ...edits, stations: codes });
+  };
+
+  const timeInputClass = "border-gray-300 rounded-md py-1 border px-2";
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 border border-gray-200 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-medium text-gray-900">{t('preview.title')}</h3>
+        <button
+          type="button"
+          onClick={() => onChange(EMPTY_EDITS)}
+          disabled={!hasEdits(edits)}
+          className="inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RotateCcw size={14} /> {t('preview.reset')}
+        </button>
+      </div>
+
+      {(alerts.length > 0 || added.length > 0) && (
+        <div className="rounded-md border border-orange-300 bg-orange-50 p-3 text-xs text-gray-800 space-y-1">
+          <p className="flex items-center gap-1 font-medium text-orange-800">
+            <AlertTriangle size={14} /> {t('realtime.alertsTitle')}
+          </p>
+          {alerts.map(alert => (
+            <p key={alert.id}>
+              <span className="font-medium">{alertText(alert.header, locale)}</span>
+              {alertText(alert.description, locale) && ` ${alertText(alert.description, locale)}`}
+            </p>
+          ))}
+          {added.length > 0 && (
+            <p>
+              <span className="font-medium">{t('realtime.addedTrains')}</span>{' '}
+              {added.map(trip => t('realtime.addedTrain', {
+                time: fmt(trip.departureFromOrigin),
+                origin: tripEndName(trip.origin, line, locale),
+                destination: tripEndName(trip.destination, line, locale),
+              })).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        {t('preview.from')}
+        <input type="time" value={edits.fromTime} onChange={(e) => onChange({ ...edits, fromTime: e.target.value })} className={timeInputClass} />
+        {t('preview.to')}
+        <input type="time" value={edits.toTime} onChange={(e) => onChange({ ...edits, toTime: e.target.value })} className={timeInputClass} />
+        <label className="inline-flex items-center gap-1 ml-auto">
+          <input
+            type="checkbox"
+            checked={edits.accessibleOnly}
+            onChange={(e) => onChange({ ...edits, accessibleOnly: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          <Accessibility size={14} /> {t('preview.accessibleOnly')}
+        </label>
+      </div>
+
+      <details className="text-sm text-gray-700">
+        <summary className="cursor-pointer">
+          {t('preview.stations', { shown: shownStations.length, total: line.stations.length })}
+        </summary>
+        <div className="mt-2 grid grid-cols-2 sm:grid-cols-3 gap-1">
+          {line.stations.map(s => {
+            const checked = shownStations.some(shown => shown.codigo === s.codigo);
+            return (
+              <label key={s.codigo} className="inline-flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  disabled={checked && shownStations.length === 1}
+                  onChange={() => toggleStation(s.codigo)}
+                  className="rounded border-gray-300"
+                />
+                {stationName(s, locale)}
+              </label>
+            );
+          })}
+        </div>
+      </details>
+
+      <div className="flex items-center justify-between gap-2">
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-xs">
+          {(['forward', 'backward'] as const).map(d => (
+            <button
+              key={d}
+              type="button"
+              onClick={() => setDirection(d)}
+              className={`px-3 py-1 ${direction === d ? 'bg-renfe-primary text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            >
+              {names[d]}
+            </button>
+          ))}
+        </div>
+        <span className="text-xs text-gray-500">{t('preview.count', { shown: printed, total: directionTrips.length })}</span>
+      </div>
+
+      {trips.length === 0 ? (
+        <p className="text-sm text-gray-500">{t('preview.none')}</p>
+      ) : (
+        <div className="max-h-96 overflow-auto border border-gray-200 rounded bg-white">
+          <table className="text-xs whitespace-nowrap">
+            <thead className="text-gray-500">
+              <tr>
+                <th className="sticky top-0 z-10 bg-gray-100 px-1 py-1"></th>
+                {hasPatterns && <th className="sticky top-0 z-10 bg-gray-100 px-2 py-1 text-left">{t('column.days')}</th>}
+                <th className="sticky top-0 z-10 bg-gray-100 px-2 py-1 text-left">{t('column.origin')}</th>
+                {stations.map(s => (
+                  <th key={s.codigo} className="sticky top-0 z-10 bg-gray-100 px-2 py-1">
+                    <span className="inline-flex items-center gap-1">
+                      {stationName(s, locale)}
+                      {data.stationAccess[s.codigo] && <Accessibility size={12} aria-label={t('poster.accessibleStation')} />}
+                    </span>
+                  </th>
+                ))}
+                <th className="sticky top-0 z-10 bg-gray-100 px-2 py-1 text-left">{t('column.destination')}</th>
+                {hasServices && <th className="sticky top-0 z-10 bg-gray-100 px-2 py-1">{t('column.services')}</th>}
+                {hasConnections && <th className="sticky top-0 z-10 bg-gray-100 px-2 py-1 text-left">{t('column.connections')}</th>}
+                <th className="sticky top-0 z-10 bg-gray-100 px-2 py-1 text-left">{t('column.notes')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {trips.map(trip => {
+                const isHidden = hidden.has(trip.id);
+                return (
+                  <tr key={trip.id} className={rowClass(trip)} title={rowTitle(trip)}>
+                    <td className="px-1 py-1">
+                      <button
+                        type="button"
+                        onClick={() => toggleHidden(trip.id)}
+                        className="p-1 text-gray-500 hover:text-gray-800"
+                        title={t(isHidden ? 'preview.show' : 'preview.hide')}
+                      >
+                        {isHidden ? <EyeOff size={14} /> : <Eye size={14} />}
+                      </button>
+                    </td>
+                    {hasPatterns && (
+                      <td className="px-2 py-1" title={trip.pattern ? patternText(trip.pattern, t).note : undefined}>
+                        {trip.pattern ? patternText(trip.pattern, t).label : ''}
+                      </td>
+                    )}
+                    <td className="px-2 py-1 italic">{tripEndName(trip.origin, line, locale)}</td>
+                    {stations.map(s => (
+                      <td key={s.codigo} className="px-2 py-1 text-center">
+                        {stopKind(trip, s) === 'stop' || trip.realtime?.skipped.includes(s.codigo)
+                          ? timeCell(trip, s.codigo)
+                          : stopKind(trip, s) === 'pass' ? '|' : ''}
+                      </td>
+                    ))}
+                    <td className="px-2 py-1 italic" title={trip.headsign}>{tripEndName(trip.destination, line, locale)}</td>
+                    {hasServices && (
+                      <td className="px-2 py-1">
+                        <span className="inline-flex items-center gap-1">
+                          {trip.wheelchairAccessible && <Accessibility size={14} aria-label={t('preview.wheelchair')} />}
+                          {trip.bikesAllowed && <Bike size={14} aria-label={t('preview.bikes')} />}
+                        </span>
+                      </td>
+                    )}
+                    {hasConnections && (
+                      <td className="px-2 py-1 whitespace-nowrap" title={t('legend.connections')}>
+                        {tripConnectionsOf(trip).map((connection, i) => (
+                          <div key={i}>
+                            {stationName(stations.find(s => s.codigo === connection.interchange.stationCode)!, locale)}: {connectionText(connection, t, pdfOptions.nextDayMarker)}
+                          </div>
+                        ))}
+                      </td>
+                    )}
+                    <td className="px-2 py-1">
+                      <input
+                        type="text"
+                        value={edits.notes[trip.id] ?? ''}
+                        onChange={(e) => setNote(trip.id, e.target.value)}
+                        disabled={isHidden}
+                        placeholder={t('preview.notePlaceholder')}
+                        className="w-40 border-gray-300 rounded border px-1 py-0.5"
+                      />
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">{t('preview.hint')}</p>
+    </div>
+  );
+};
+
+export default TimetablePreview;
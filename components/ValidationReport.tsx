@@ -0,0 +1,74 @@
+import React from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, Download } from 'lucide-react';
+import { ValidationReport as Report } from '../types';
+import { countBySeverity, displayDate, downloadValidationReport, formatSample } from '../utils/gtfsValidator';
+import { Locale, localize, translator } from '../utils/i18n';
+
+interface ValidationReportProps {
+  report: Report;
+  locale: Locale;
+}
+
+// Errors and warnings found in the loaded feed, with a few sample rows each
+const ValidationReport: React.FC<ValidationReportProps> = ({ report, locale }) => {
+  const t = translator(locale);
+  const counts = countBySeverity(report);
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-6 border border-gray-200 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">{t('validation.title')}</h3>
+          <p className="text-sm text-gray-600">
+            {report.feedRange
+              ? t('validation.feedRange', { from: displayDate(report.feedRange.from), to: displayDate(report.feedRange.to) })
+              : t('validation.noFeedRange')}
+          </p>
+          <p className="text-xs text-gray-500">
+            {report.files.map(f => t('validation.fileRows', { file: f.name, count: f.rows })).join(' · ')}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => downloadValidationReport(report, locale)}
+          className="inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 whitespace-nowrap"
+        >
+          <Download size={14} /> {t('validation.download')}
+        </button>
+      </div>
+
+      <div className="flex gap-4 text-sm font-medium">
+        <span className="text-red-700">{t('validation.errors', { count: counts.errors })}</span>
+        <span className="text-amber-700">{t('validation.warnings', { count: counts.warnings })}</span>
+      </div>
+
+      {report.issues.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-green-800">
+          <CheckCircle size={16} /> {t('validation.ok')}
+        </p>
+      ) : (
+        <ul className="space-y-3 max-h-96 overflow-y-auto">
+          {report.issues.map((issue, i) => (
+            <li key={i} className={`rounded-md p-3 text-sm ${issue.severity === 'error' ? 'bg-red-50 text-red-800' : 'bg-amber-50 text-amber-800'}`}>
+              <div className="flex items-start gap-2 font-medium">
+                {issue.severity === 'error' ? <AlertCircle size={16} className="flex-shrink-0" /> : <AlertTriangle size={16} className="flex-shrink-0" />}
+                <span className="flex-1">{localize(locale, issue.message)}</span>
+                <span className="text-xs font-normal whitespace-nowrap">{t('validation.occurrences', { count: issue.count })}</span>
+              </div>
+              {issue.samples.length > 0 && (
+                <ul className="mt-1 ml-6 text-xs font-mono break-all">
+                  {issue.samples.map((sample, j) => <li key={j}>{formatSample(sample)}</li>)}
+                  {issue.count > issue.samples.length && (
+                    <li className="font-sans">{t('validation.more', { count: issue.count - issue.samples.length })}</li>
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ValidationReport;
@@ -1,457 +1,369 @@
-import React, { useState, useRef } from 'react';
+import React, { useEffect, useState, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import JSZip from 'jszip';
-import { Upload, FileText, AlertCircle, Train, CheckCircle, CalendarDays } from 'lucide-react';
-import jsPDF from 'jspdf';
-import autoTable from 'jspdf-autotable';
-
-// --- TYPES ---
-
-export interface StationDef {
-  orden: number;
-  estacion: string;
-  codigo: string;
-}
-
-export interface Trip {
-  trip_id: string;
-  route_id: string;
-  service_id: string;
-  direction_id?: string;
-}
-
-export interface StopTime {
-  trip_id: string;
-  arrival_time: string;
-  departure_time: string;
-  stop_id: string;
-  stop_sequence: number;
-}
-
-export interface ParsedTrip {
-  id: string;
-  stops: Record<string, string>; // stationCode -> departureTime
-  firstStopOrder: number;
-  lastStopOrder: number;
-  departureFromOrigin: string; // Used for sorting
-}
-
-export interface ProcessingStatus {
-  step: 'idle' | 'reading' | 'processing' | 'generating' | 'done' | 'error';
-  message: string;
-}
-
-// --- CONSTANTS ---
-
-// Ordered list from Irun (1) to Brinkola (27)
-export const GIPUZKOA_STATIONS: StationDef[] = [
-  { orden: 1, estacion: "Irún", codigo: "11600" },
-  { orden: 2, estacion: "Ventas de Irún", codigo: "11518" },
-  { orden: 3, estacion: "Lezo-Rentería", codigo: "11516" },
-  { orden: 4, estacion: "Pasaia", codigo: "11515" },
-  { orden: 5, estacion: "Herrera", codigo: "11514" },
-  { orden: 6, estacion: "Ategorrieta", codigo: "11513" },
-  { orden: 7, estacion: "Gros", codigo: "11512" },
-  { orden: 8, estacion: "San Sebastián", codigo: "11511" },
-  { orden: 9, estacion: "Loiola", codigo: "11510" },
-  { orden: 10, estacion: "Martutene", codigo: "11509" },
-  { orden: 11, estacion: "Hernani", codigo: "11508" },
-  { orden: 12, estacion: "Hernani-Centro", codigo: "11507" },
-  { orden: 13, estacion: "Urnieta", codigo: "11506" },
-  { orden: 14, estacion: "Andoain", codigo: "11505" },
-  { orden: 15, estacion: "Andoain-Centro", codigo: "11504" },
-  { orden: 16, estacion: "Villabona-Zizurkil", codigo: "11503" },
-  { orden: 17, estacion: "Anoeta", codigo: "11502" },
-  { orden: 18, estacion: "Tolosa-Centro", codigo: "11501" },
-  { orden: 19, estacion: "Tolosa", codigo: "11500" },
-  { orden: 20, estacion: "Alegia", codigo: "11409" },
-  { orden: 21, estacion: "Itsasondo", codigo: "11406" },
-  { orden: 22, estacion: "Ordizia", codigo: "11405" },
-  { orden: 23, estacion: "Beasain", codigo: "11404" },
-  { orden: 24, estacion: "Ormaiztegi", codigo: "11402" },
-  { orden: 25, estacion: "Zumárraga", codigo: "11400" },
-  { orden: 26, estacion: "Legazpi", codigo: "11306" },
-  { orden: 27, estacion: "Bríncola", codigo: "11305" }
-];
-
-// --- UTILS: GTFS PARSER ---
-
-const cleanId = (id: string) => id.trim();
-
-// Get date info from YYYY-MM-DD string
-const getDateInfo = (isoDateStr: string) => {
-  const [year, month, day] = isoDateStr.split('-').map(Number);
-  
-  // Create local date object
-  const dateObj = new Date(year, month - 1, day);
-  
-  const yyyymmdd = `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
-  const formattedDate = `${String(day).padStart(2, '0')}/${String(month).padStart(2, '0')}/${year}`;
-
-  const dayIndex = dateObj.getDay(); // 0 is Sunday
-  const days = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const dayName = days[dayIndex];
-
-  return { dateStr: yyyymmdd, dayName, formattedDate };
-};
-
-const parseGTFS = async (
-  file: File, 
-  selectedDateStr: string,
-  onProgress: (msg: string) => void
-): Promise<{ toBrinkola: ParsedTrip[], toIrun: ParsedTrip[], dateUsed: string }> => {
-  
-  const { dateStr, dayName, formattedDate } = getDateInfo(selectedDateStr);
-  
-  onProgress(`Filtrando para fecha: ${formattedDate} (${dayName})...`);
-  const zip = new JSZip();
-  const content = await zip.loadAsync(file);
-
-  const readFile = async (filename: string) => {
-    if (!content.files[filename]) return null;
-    return await content.files[filename].async("string");
-  };
-
-  // 1. Identify relevant stop IDs
-  const validStopCodes = new Set(GIPUZKOA_STATIONS.map(s => s.codigo));
-  const codeToOrder = new Map(GIPUZKOA_STATIONS.map(s => [s.codigo, s.orden]));
-
-  // 2. Determine Valid Service IDs for SELECTED DATE
-  onProgress("Analizando calendario y excepciones...");
-  const activeServices = new Set<string>();
-
-  // 2a. Check calendar.txt (Base schedule)
-  const calendarTxt = await readFile("calendar.txt");
-  if (calendarTxt) {
-    const lines = calendarTxt.split('\n');
-    const headers = lines[0].trim().split(',');
-    
-    // Dynamic column mapping
-    const idx = {
-      service: headers.indexOf('service_id'),
-      day: headers.indexOf(dayName), // monday, tuesday, etc.
-      start: headers.indexOf('start_date'),
-      end: headers.indexOf('end_date'),
-    };
-
-    if (idx.service !== -1 && idx.day !== -1 && idx.start !== -1 && idx.end !== -1) {
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-        const cols = line.split(',');
-        
-        const serviceId = cols[idx.service];
-        const isActiveDay = cols[idx.day] === '1';
-        const startDate = cols[idx.start];
-        const endDate = cols[idx.end];
-
-        // Check date range
-        if (isActiveDay && dateStr >= startDate && dateStr <= endDate) {
-          activeServices.add(serviceId);
-        }
-      }
-    }
-  }
-
-  // 2b. Check calendar_dates.txt (Exceptions: Additions/Removals)
-  const calendarDatesTxt = await readFile("calendar_dates.txt");
-  if (calendarDatesTxt) {
-    const lines = calendarDatesTxt.split('\n');
-    const headers = lines[0].trim().split(',');
-    const idx = {
-      service: headers.indexOf('service_id'),
-      date: headers.indexOf('date'),
-      type: headers.indexOf('exception_type'), // 1 = added, 2 = removed
-    };
-
-    if (idx.service !== -1 && idx.date !== -1 && idx.type !== -1) {
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (!line) continue;
-        const cols = line.split(',');
-
-        // Only care about exceptions for SELECTED DATE
-        if (cols[idx.date] === dateStr) {
-          const type = cols[idx.type];
-          const serviceId = cols[idx.service];
-
-          if (type === '1') {
-            activeServices.add(serviceId); // Force add
-          } else if (type === '2') {
-            activeServices.delete(serviceId); // Force remove
-          }
-        }
-      }
-    }
-  }
-
-  if (activeServices.size === 0) {
-    throw new Error(`No se encontraron servicios activos para la fecha ${formattedDate}.`);
+import { registerSW } from 'virtual:pwa-register';
+import { Upload, FileText, AlertCircle, Train, CheckCircle, CalendarDays, XCircle, FileSpreadsheet, FileJson, Braces, Languages, ShieldCheck, HardDrive, RadioTower } from 'lucide-react';
+import './index.css';
+import ConnectionFeeds from './components/ConnectionFeeds';
+import CoverageCalendar from './components/CoverageCalendar';
+import FeedComparison from './components/FeedComparison';
+import HeadwayAnalysis from './components/HeadwayAnalysis';
+import JourneyPlanner from './components/JourneyPlanner';
+import LineSelector from './components/LineSelector';
+import StringlineDiagram from './components/StringlineDiagram';
+import TemplateEditor from './components/TemplateEditor';
+import TimetablePreview from './components/TimetablePreview';
+import ValidationReportView from './components/ValidationReport';
+import { GIPUZKOA_LINE, LineDefinition } from './constants';
+import { Interchange, ParsedTimetable, PdfLanguage, PdfLayout, PdfOptions, PdfTemplate, ProcessingProgress, ProcessingStatus, TimetableEdits, ValidationReport } from './types';
+import { ConnectionCalls } from './utils/connections';
+import { downloadJSONSchema, exportCSV, exportJSON, exportXLSX } from './utils/exports';
+import { CachedFeedInfo, cachedFeedFile, clearCachedFeed, isCachedCopy, loadCachedFeed, saveCachedFeed } from './utils/feedCache';
+import { RealtimeFeed, applyRealtime, parseGTFSRealtime } from './utils/gtfsRealtime';
+import { GTFSJob, GTFSJobCancelledError, compactGTFSJob, overallPercent, runGTFSJob, validateGTFSJob } from './utils/gtfsWorkerClient';
+import { countBySeverity, displayDate } from './utils/gtfsValidator';
+import { LOCALES, LOCALE_NAMES, Locale, PDF_LANGUAGES, Translator, errorMessage, errorText, localize, translator } from './utils/i18n';
+import { directionNames, stationName } from './utils/lineCatalog';
+import { DEFAULT_PDF_OPTIONS, generatePDF, renderTimetablePDF } from './utils/pdfGenerator';
+import { loadTemplate, saveTemplate } from './utils/pdfTemplate';
+import { loadSettings, saveSettings } from './utils/settings';
+import { generateStationPoster } from './utils/stationPoster';
+import { EMPTY_EDITS, applyEdits } from './utils/timetableEdits';
+
+// --- UTILS: PROGRESS FORMAT ---
+
+const formatProgressAmount = (progress: ProcessingProgress, t: Translator) => {
+  if (progress.unit === 'rows') {
+    return progress.total > 0
+      ? t('progress.rows', { processed: progress.processed, total: progress.total })
+      : t('progress.rowsOnly', { processed: progress.processed });
   }
-
-  // 3. Filter Trips based on Active Services
-  onProgress(`Procesando viajes activos (${activeServices.size} servicios)...`);
-  const tripsTxt = await readFile("trips.txt");
-  if (!tripsTxt) throw new Error("No se encontró trips.txt");
-  
-  const tripServiceMap = new Map<string, string>(); // trip_id -> service_id
-  const activeTrips = new Set<string>(); // Set of trip_ids that run today
-
-  const tripsLines = tripsTxt.split('\n');
-  const tripsHeader = tripsLines[0].trim().split(',');
-  const tIdx = {
-    trip: tripsHeader.indexOf('trip_id'),
-    service: tripsHeader.indexOf('service_id'),
-  };
-
-  for (let i = 1; i < tripsLines.length; i++) {
-    const line = tripsLines[i];
-    if (!line) continue;
-    const cols = line.split(',');
-    const tripId = cols[tIdx.trip];
-    const serviceId = cols[tIdx.service];
-    
-    if (activeServices.has(serviceId)) {
-      activeTrips.add(tripId);
-      tripServiceMap.set(tripId, serviceId);
-    }
-  }
-
-  // 4. Read Stop Times (only for active trips)
-  onProgress("Leyendo horarios...");
-  const stopTimesTxt = await readFile("stop_times.txt");
-  if (!stopTimesTxt) throw new Error("No se encontró stop_times.txt");
-
-  const tripStops = new Map<string, StopTime[]>();
-  
-  const stLines = stopTimesTxt.split('\n');
-  const stHeaders = stLines[0].trim().split(',');
-  const stIdx = {
-    trip: stHeaders.indexOf('trip_id'),
-    dep: stHeaders.indexOf('departure_time'),
-    stop: stHeaders.indexOf('stop_id'),
-    seq: stHeaders.indexOf('stop_sequence'),
-  };
-
-  for (let i = 1; i < stLines.length; i++) {
-    const line = stLines[i];
-    if (!line) continue;
-    const cols = line.split(','); 
-    
-    const tripId = cols[stIdx.trip];
-    
-    // Optimized filter: only process if trip is active today
-    if (activeTrips.has(tripId)) {
-      const stopId = cleanId(cols[stIdx.stop]);
-      
-      // And only if it's one of our stations
-      if (validStopCodes.has(stopId)) {
-        if (!tripStops.has(tripId)) {
-          tripStops.set(tripId, []);
-        }
-        tripStops.get(tripId)?.push({
-          trip_id: tripId,
-          arrival_time: "", 
-          departure_time: cols[stIdx.dep],
-          stop_id: stopId,
-          stop_sequence: parseInt(cols[stIdx.seq])
-        });
-      }
-    }
-  }
-
-  // 5. Build Result Arrays
-  onProgress("Organizando direcciones...");
-  const toBrinkola: ParsedTrip[] = [];
-  const toIrun: ParsedTrip[] = [];
-
-  tripStops.forEach((stops, tripId) => {
-    // Sort stops by sequence
-    stops.sort((a, b) => a.stop_sequence - b.stop_sequence);
-
-    if (stops.length < 2) return;
-
-    const firstStop = stops[0];
-    const lastStop = stops[stops.length - 1];
-
-    const firstOrder = codeToOrder.get(firstStop.stop_id);
-    const lastOrder = codeToOrder.get(lastStop.stop_id);
-
-    if (firstOrder === undefined || lastOrder === undefined) return;
-
-    const stopsMap: Record<string, string> = {};
-    stops.forEach(s => {
-      // Format time: HH:MM:SS -> HH:MM
-      const time = s.departure_time.substring(0, 5);
-      stopsMap[s.stop_id] = time;
-    });
-
-    const parsedTrip: ParsedTrip = {
-      id: tripId,
-      stops: stopsMap,
-      firstStopOrder: firstOrder,
-      lastStopOrder: lastOrder,
-      departureFromOrigin: firstStop.departure_time
-    };
-
-    // Determine direction
-    if (firstOrder < lastOrder) {
-      toBrinkola.push(parsedTrip);
-    } else {
-      toIrun.push(parsedTrip);
-    }
-  });
-
-  // Sort trips by departure time
-  const timeCompare = (a: ParsedTrip, b: ParsedTrip) => a.departureFromOrigin.localeCompare(b.departureFromOrigin);
-  toBrinkola.sort(timeCompare);
-  toIrun.sort(timeCompare);
-
-  return { toBrinkola, toIrun, dateUsed: formattedDate };
+  return progress.total > 0
+    ? t('progress.bytes', { processed: megabytes(progress.processed), total: megabytes(progress.total) })
+    : t('progress.bytesOnly', { processed: megabytes(progress.processed) });
 };
 
-// --- UTILS: PDF GENERATOR ---
+const pdfLanguageName = (language: PdfLanguage) =>
+  language === 'eu-es' ? `${LOCALE_NAMES.eu} / ${LOCALE_NAMES.es}` : LOCALE_NAMES[language];
 
-const generatePDF = (toBrinkola: ParsedTrip[], toIrun: ParsedTrip[], dateStr: string) => {
-  const doc = new jsPDF({
-    orientation: 'landscape',
-    unit: 'mm',
-    format: 'a4'
-  });
-
-  // Safe access for autoTable in ESM/Browser environment
-  const autoTableFunc = (autoTable as any).default || autoTable;
-
-  const generateTable = (title: string, trips: ParsedTrip[], stations: StationDef[]) => {
-    const headRow = stations.map(s => s.estacion);
-    
-    const bodyRows = trips.map(trip => {
-      const row: string[] = [];
-      stations.forEach(st => {
-        const time = trip.stops[st.codigo];
-        row.push(time || '-');
-      });
-      return row;
-    });
-
-    if (doc.getNumberOfPages() > 1 || (doc.getCurrentPageInfo().pageNumber === 1 && (doc as any).lastAutoTable)) {
-      doc.addPage();
-    }
-
-    doc.setFontSize(14);
-    doc.text(title, 14, 15);
-    doc.setFontSize(10);
-    doc.text(`Fecha de circulación: ${dateStr}`, 14, 20);
-
-    autoTableFunc(doc, {
-      startY: 25,
-      head: [headRow],
-      body: bodyRows,
-      theme: 'grid',
-      styles: {
-        fontSize: 6,
-        cellPadding: 0.5,
-        halign: 'center',
-        valign: 'middle',
-        lineWidth: 0.1,
-        lineColor: [200, 200, 200]
-      },
-      headStyles: {
-        fillColor: [227, 6, 19], // Renfe Red
-        textColor: [255, 255, 255],
-        fontSize: 5.5,
-        fontStyle: 'bold',
-        halign: 'center',
-        valign: 'middle',
-        cellPadding: 1
-      },
-      margin: { top: 25, left: 5, right: 5 },
-    });
-  };
-
-  // 1. Irun -> Brinkola
-  const stationsToBrinkola = [...GIPUZKOA_STATIONS];
-  generateTable("Horarios: Irun -> Brinkola", toBrinkola, stationsToBrinkola);
-
-  // 2. Brinkola -> Irun
-  const stationsToIrun = [...GIPUZKOA_STATIONS].reverse();
-  generateTable("Horarios: Brinkola -> Irun", toIrun, stationsToIrun);
-
-  doc.save(`Cercanias_Gipuzkoa_${dateStr.replace(/\//g, '-')}.pdf`);
-};
+const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
 
 // --- MAIN APP COMPONENT ---
 
 const App: React.FC = () => {
-  const [status, setStatus] = useState<ProcessingStatus>({ step: 'idle', message: '' });
+  // Settings of the previous visit, read once
+  const [saved] = useState(loadSettings);
+
+  const [locale, setLocale] = useState<Locale>(saved.locale ?? 'es');
+  const [status, setStatus] = useState<ProcessingStatus>({ step: 'idle' });
   const [file, setFile] = useState<File | null>(null);
-  const [data, setData] = useState<{ toBrinkola: ParsedTrip[], toIrun: ParsedTrip[], dateUsed: string } | null>(null);
+  const [data, setData] = useState<ParsedTimetable | null>(null);
+  const [report, setReport] = useState<ValidationReport | null>(null);
+  // Offline copy of the last processed feed, and the File restored from it
+  const [cacheInfo, setCacheInfo] = useState<CachedFeedInfo | null>(null);
+  const [cachedFile, setCachedFile] = useState<File | null>(null);
+  const [cacheState, setCacheState] = useState<'saving' | 'error' | null>(null);
   
-  // Initialize with today's date in local time YYYY-MM-DD
+  // Initialize with the last date used, or today's date in local time YYYY-MM-DD
   const [selectedDate, setSelectedDate] = useState<string>(() => {
+    if (saved.date) return saved.date;
     const now = new Date();
     const year = now.getFullYear();
     const month = String(now.getMonth() + 1).padStart(2, '0');
     const day = String(now.getDate()).padStart(2, '0');
     return `${year}-${month}-${day}`;
   });
+  // Date-range mode: selectedDate is the first day and endDate the last one
+  const [isRangeMode, setIsRangeMode] = useState(saved.isRangeMode ?? false);
+  const [endDate, setEndDate] = useState<string>(() => saved.endDate && saved.endDate >= selectedDate ? saved.endDate : selectedDate);
+  const [line, setLine] = useState<LineDefinition>(saved.line ?? GIPUZKOA_LINE);
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>(saved.pdfOptions ?? DEFAULT_PDF_OPTIONS);
+  // Station code for a single-station departure poster; empty for the full line timetable
+  const [posterStation, setPosterStation] = useState(() =>
+    line.stations.some(s => s.codigo === saved.posterStation) ? saved.posterStation ?? '' : ''
+  );
+  // Filters, hidden trains and notes from the preview, applied to the PDFs
+  const [edits, setEdits] = useState<TimetableEdits>(EMPTY_EDITS);
+  // GTFS-Realtime file laid over the processed timetable: delays, cancellations and alerts
+  const [realtime, setRealtime] = useState<{ fileName: string; feed: RealtimeFeed } | null>(null);
+  const [realtimeError, setRealtimeError] = useState<unknown>(null);
+  // Other operators' feeds, where to change to them, and their calls on the processed dates
+  const [connectionFiles, setConnectionFiles] = useState<File[]>([]);
+  const [interchanges, setInterchanges] = useState<Interchange[]>(saved.interchanges ?? []);
+  const [connectionCalls, setConnectionCalls] = useState<ConnectionCalls>({});
+  // Look of the line timetable PDF, stored apart from the settings
+  const [template, setTemplate] = useState<PdfTemplate>(loadTemplate);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const realtimeInputRef = useRef<HTMLInputElement>(null);
+  const jobRef = useRef<GTFSJob | null>(null);
+  const cacheJobRef = useRef<GTFSJob<unknown> | null>(null);
+  const fileChosenRef = useRef(false);
+
+  const t = translator(locale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = t('app.title');
+  }, [locale]);
+
+  useEffect(() => {
+    saveSettings({ locale, date: selectedDate, endDate, isRangeMode, line, pdfOptions, posterStation, interchanges });
+  }, [locale, selectedDate, endDate, isRangeMode, line, pdfOptions, posterStation, interchanges]);
+
+  useEffect(() => {
+    saveTemplate(template);
+  }, [template]);
+
+  // Reopen the offline copy of the last feed, unless a file was chosen meanwhile.
+  // The copy only holds the trains of the line it was made for.
+  useEffect(() => {
+    loadCachedFeed().then(cached => {
+      if (!cached) return;
+      const restored = cachedFeedFile(cached);
+      setCacheInfo(cached.info);
+      setCachedFile(restored);
+      if (fileChosenRef.current) return;
+      setFile(restored);
+      setLine(cached.info.line);
+      setPosterStation(station => cached.info.line.stations.some(s => s.codigo === station) ? station : '');
+    }).catch(console.error);
+  }, []);
+
+  const isProcessing = status.step === 'processing' || status.step === 'reading';
+
+  // Abort the running worker job, if any. Its pending promise rejects with GTFSJobCancelledError.
+  const cancelJob = () => {
+    jobRef.current?.cancel();
+    jobRef.current = null;
+  };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
+      cancelJob();
+      fileChosenRef.current = true;
       setFile(e.target.files[0]);
-      setStatus({ step: 'idle', message: '' });
+      setCacheState(null);
+      setStatus({ step: 'idle' });
       setData(null);
+      setReport(null);
+      setEdits(EMPTY_EDITS);
+    }
+  };
+
+  // The realtime file is small: it is decoded here, without a worker
+  const handleRealtimeChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = ''; // Choosing the same file again reloads it
+    if (!chosen) return;
+    setRealtimeError(null);
+    try {
+      setRealtime({ fileName: chosen.name, feed: parseGTFSRealtime(new Uint8Array(await chosen.arrayBuffer())) });
+    } catch (error) {
+      console.error(error);
+      setRealtime(null);
+      setRealtimeError(error);
     }
   };
 
   const handleProcess = async () => {
     if (!file) return;
 
+    cancelJob();
+    setData(null);
+
     try {
-      setStatus({ step: 'reading', message: 'Iniciando lectura del archivo...' });
+      setStatus({ step: 'reading', message: { key: 'status.reading' } });
       
-      const result = await parseGTFS(file, selectedDate, (msg) => {
-        setStatus({ step: 'processing', message: msg });
+      const range = { from: selectedDate, to: isRangeMode ? endDate : selectedDate };
+      const job = runGTFSJob(file, range, line, (progress) => {
+        setStatus({ step: 'processing', message: progress.message, progress });
       });
+      jobRef.current = job;
+
+      const result = await job.result;
+      jobRef.current = null;
 
       setData(result);
-      setStatus({ step: 'done', message: 'Procesamiento completado con éxito.' });
+      setStatus({ step: 'done', message: { key: 'status.done' } });
+      if (file !== cachedFile) cacheFeed(file, line);
+    } catch (error) {
+      // Whoever cancelled the job already updated the status
+      if (error instanceof GTFSJobCancelledError) return;
+      console.error(error);
+      setStatus({ step: 'error', message: { key: 'status.error', params: { message: errorText(error) } } });
+    }
+  };
+
+  // Stores a compact copy of an uploaded feed for the next visit, in the background
+  const cacheFeed = async (source: File, feedLine: LineDefinition) => {
+    if (cacheInfo && isCachedCopy(cacheInfo, source, feedLine)) return;
+
+    cacheJobRef.current?.cancel();
+    const job = compactGTFSJob(source, feedLine);
+    cacheJobRef.current = job;
+    setCacheState('saving');
+    try {
+      const compact = await job.result;
+      const info: CachedFeedInfo = {
+        fileName: source.name,
+        fileSize: source.size,
+        compactSize: compact.bytes.byteLength,
+        savedAt: new Date().toISOString(),
+        feedRange: compact.feedRange,
+        line: feedLine,
+      };
+      await saveCachedFeed({ info, data: new Blob([compact.bytes], { type: 'application/zip' }) });
+      setCacheInfo(info);
+      setCacheState(null);
+    } catch (error) {
+      if (error instanceof GTFSJobCancelledError) return;
+      console.error(error);
+      setCacheState('error');
+    } finally {
+      if (cacheJobRef.current === job) cacheJobRef.current = null;
+    }
+  };
+
+  const handleForgetCache = async () => {
+    try {
+      await clearCachedFeed();
+      if (file === cachedFile) {
+        setFile(null);
+        resetSelection();
+      }
+      setCacheInfo(null);
+      setCachedFile(null);
+    } catch (error) {
+      console.error(error);
+    }
+  };
+
+  const handleValidate = async () => {
+    if (!file) return;
+
+    cancelJob();
+    setReport(null);
+
+    try {
+      setStatus({ step: 'reading', message: { key: 'status.validating' } });
+
+      const range = { from: selectedDate, to: isRangeMode ? endDate : selectedDate };
+      const job = validateGTFSJob(file, range, line, (progress) => {
+        setStatus({ step: 'processing', message: progress.message, progress });
+      });
+      jobRef.current = job;
+
+      const result = await job.result;
+      jobRef.current = null;
+
+      setReport(result);
+      setStatus({ step: 'done', message: { key: 'status.validated', params: countBySeverity(result) } });
     } catch (error) {
+      if (error instanceof GTFSJobCancelledError) return;
       console.error(error);
-      const msg = error instanceof Error ? error.message : 'Error desconocido';
-      setStatus({ step: 'error', message: `Error: ${msg}` });
+      setStatus({ step: 'error', message: { key: 'status.error', params: { message: errorText(error) } } });
     }
   };
 
+  // Any change to the date or line selection invalidates the processed data
+  const resetSelection = () => {
+    cancelJob();
+    setData(null);
+    setReport(null);
+    setEdits(EMPTY_EDITS);
+    setConnectionCalls({});
+    setStatus({ step: 'idle' });
+  };
+
+  // A day clicked in the feed calendar. In range mode a later day closes a
+  // one-day period; any other click starts a new one.
+  const handleCalendarSelect = (date: string) => {
+    if (isRangeMode && selectedDate === endDate && date > selectedDate) {
+      setEndDate(date);
+    } else {
+      setSelectedDate(date);
+      setEndDate(date);
+    }
+    resetSelection();
+  };
+
+  const handleCancel = () => {
+    cancelJob();
+    setStatus({ step: 'idle', message: { key: 'status.cancelled' } });
+  };
+
+  // Timetable with the realtime overlay, as the preview shows it, and as the PDF
+  // prints it after the preview edits
+  const overlay = data && realtime ? applyRealtime(data, line, realtime.feed) : null;
+  const current = overlay?.data ?? data;
+  const printed = current ? applyEdits(current, line, edits) : null;
+  const connections = { interchanges, calls: connectionCalls };
+
+  // The line timetable PDF as it would download, laid out with a template being edited
+  const renderPreview = data && printed && !posterStation
+    ? (previewTemplate: PdfTemplate) => renderTimetablePDF(printed.data.toBrinkola, printed.data.toIrun, data.dateUsed, printed.line, pdfOptions, data.stationAccess, data.stationCoords, overlay?.alerts, connections, previewTemplate)
+    : null;
+
   const handleDownload = () => {
-    if (!data) return;
-    setStatus({ step: 'generating', message: 'Generando PDF...' });
+    if (!data || !current) return;
+    setStatus({ step: 'generating', message: { key: 'status.generatingPdf' } });
     setTimeout(() => {
         try {
-            generatePDF(data.toBrinkola, data.toIrun, data.dateUsed);
-            setStatus({ step: 'done', message: 'PDF Descargado.' });
+            if (posterStation) {
+                // Trains are timed at the poster's station, which keeps the whole line for destinations
+                const edited = applyEdits(current, line, { ...edits, stations: [posterStation] }).data;
+                generateStationPoster(edited.toBrinkola, edited.toIrun, data.dateUsed, line, posterStation, pdfOptions, data.stationAccess, connections);
+            } else {
+                const edited = applyEdits(current, line, edits);
+                generatePDF(edited.data.toBrinkola, edited.data.toIrun, data.dateUsed, edited.line, pdfOptions, data.stationAccess, data.stationCoords, overlay?.alerts, connections, template);
+            }
+            setStatus({ step: 'done', message: { key: 'status.pdfDone' } });
         } catch (e) {
             console.error(e);
-            setStatus({ step: 'error', message: 'Error generando PDF.' });
+            setStatus({ step: 'error', message: { key: 'status.pdfError' } });
         }
     }, 100);
   };
 
+  const handleExportXLSX = async () => {
+    if (!data) return;
+    try {
+      await exportXLSX(data, line, pdfOptions);
+    } catch (e) {
+      console.error(e);
+      setStatus({ step: 'error', message: { key: 'status.xlsxError' } });
+    }
+  };
+
+  const exportButtonClass = "inline-flex items-center gap-1 px-3 py-2 text-xs font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50";
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col items-center py-12 px-4 sm:px-6 lg:px-8 font-sans">
       <div className="max-w-3xl w-full space-y-8 bg-white p-10 rounded-xl shadow-lg border-t-8 border-renfe-cercanias">
         
+        <div className="flex justify-end">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-600">
+            <Languages size={16} />
+            <span className="sr-only">{t('app.language')}</span>
+            <select
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              className="text-sm border-gray-300 rounded-md py-1 border px-2"
+            >
+              {LOCALES.map(l => <option key={l} value={l}>{LOCALE_NAMES[l]}</option>)}
+            </select>
+          </label>
+        </div>
+
         <div className="text-center">
           <div className="mx-auto h-16 w-16 bg-renfe-cercanias text-white flex items-center justify-center rounded-full">
             <Train size={32} />
           </div>
           <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
-            Horarios Cercanías Gipuzkoa
+            {t('app.title')}
           </h2>
           <p className="mt-2 text-sm text-gray-600">
-            Generador de PDF personalizado por fecha.
+            {t('app.subtitle')}
           </p>
         </div>
 
@@ -459,9 +371,27 @@ const App: React.FC = () => {
           
           {/* Date Selection */}
           <div className="w-full">
-            <label htmlFor="date" className="block text-sm font-medium text-gray-700 mb-2">
-              Fecha de circulación
-            </label>
+            <div className="flex items-center justify-between mb-2">
+              <label htmlFor="date" className="block text-sm font-medium text-gray-700">
+                {t(isRangeMode ? 'date.range' : 'date.single')}
+              </label>
+              <div className="inline-flex rounded-md border border-gray-300 overflow-hidden text-xs">
+                {[false, true].map(rangeOption => (
+                  <button
+                    key={String(rangeOption)}
+                    type="button"
+                    onClick={() => {
+                      setIsRangeMode(rangeOption);
+                      resetSelection();
+                    }}
+                    className={`px-3 py-1 ${isRangeMode === rangeOption ? 'bg-renfe-primary text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    {t(rangeOption ? 'date.modeRange' : 'date.modeSingle')}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className={isRangeMode ? 'grid grid-cols-1 sm:grid-cols-2 gap-4' : ''}>
             <div className="relative rounded-md shadow-sm">
               <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-500">
                 <CalendarDays size={20} />
@@ -474,19 +404,42 @@ const App: React.FC = () => {
                 value={selectedDate}
                 onChange={(e) => {
                   setSelectedDate(e.target.value);
-                  setData(null); // Reset data when date changes
-                  setStatus({ step: 'idle', message: '' });
+                  if (e.target.value > endDate) setEndDate(e.target.value);
+                  resetSelection(); // Reset data when date changes
                 }}
                 className="focus:ring-renfe-primary focus:border-renfe-primary block w-full pl-10 sm:text-sm border-gray-300 rounded-md py-3 border px-4"
               />
             </div>
-            <p className="mt-1 text-xs text-gray-500">Selecciona el día para el que quieres generar el horario.</p>
+            {isRangeMode && (
+              <div className="relative rounded-md shadow-sm">
+                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none text-gray-500">
+                  <CalendarDays size={20} />
+                </div>
+                <input
+                  type="date"
+                  id="endDate"
+                  name="endDate"
+                  required
+                  min={selectedDate}
+                  value={endDate}
+                  onChange={(e) => {
+                    setEndDate(e.target.value);
+                    resetSelection();
+                  }}
+                  className="focus:ring-renfe-primary focus:border-renfe-primary block w-full pl-10 sm:text-sm border-gray-300 rounded-md py-3 border px-4"
+                />
+              </div>
+            )}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              {t(isRangeMode ? 'date.helpRange' : 'date.helpSingle')}
+            </p>
           </div>
 
           {/* File Upload Section */}
           <div className="w-full">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Archivo GTFS (.zip)
+              {t('file.label')}
             </label>
             <div 
               onClick={() => fileInputRef.current?.click()}
@@ -497,11 +450,11 @@ const App: React.FC = () => {
                 <Upload className={`mx-auto h-12 w-12 ${file ? 'text-renfe-primary' : 'text-gray-400'}`} />
                 <div className="flex text-sm text-gray-600 justify-center">
                   <span className="relative font-medium text-renfe-primary hover:text-renfe-secondary">
-                    {file ? file.name : "Sube el archivo fomento_transit.zip"}
+                    {file ? file.name : t('file.placeholder')}
                   </span>
                 </div>
                 <p className="text-xs text-gray-500">
-                  Formato ZIP requerido
+                  {t('file.format')}
                 </p>
               </div>
             </div>
@@ -512,20 +465,249 @@ const App: React.FC = () => {
               accept=".zip" 
               onChange={handleFileChange}
             />
+            {file && file === cachedFile && cacheInfo && (
+              <div className="mt-2 flex items-start gap-2 text-xs text-gray-600">
+                <HardDrive size={14} className="flex-shrink-0 mt-0.5" />
+                <p className="flex-1">
+                  {t('cache.restored', { file: cacheInfo.fileName, size: megabytes(cacheInfo.compactSize), date: new Date(cacheInfo.savedAt).toLocaleDateString(locale) })}
+                  {cacheInfo.feedRange && ` ${t('cache.feedRange', { from: displayDate(cacheInfo.feedRange.from), to: displayDate(cacheInfo.feedRange.to) })}`}
+                  {` ${t('cache.lineOnly', { line: cacheInfo.line.name })}`}
+                </p>
+                <button type="button" onClick={handleForgetCache} className="text-renfe-primary hover:underline whitespace-nowrap">
+                  {t('cache.forget')}
+                </button>
+              </div>
+            )}
+            {file && file !== cachedFile && (cacheState || (cacheInfo && isCachedCopy(cacheInfo, file, line))) && (
+              <p className={`mt-2 flex items-center gap-2 text-xs ${cacheState === 'error' ? 'text-red-700' : 'text-gray-600'}`}>
+                <HardDrive size={14} />
+                {cacheState === 'saving' ? t('cache.saving')
+                  : cacheState === 'error' ? t('cache.error')
+                  : t('cache.saved', { size: megabytes(cacheInfo?.compactSize ?? 0) })}
+              </p>
+            )}
+
+            {/* Optional GTFS-Realtime file */}
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+              <RadioTower size={14} />
+              {t('realtime.label')}
+              <button type="button" onClick={() => realtimeInputRef.current?.click()} className={exportButtonClass}>
+                {realtime ? realtime.fileName : t('realtime.choose')}
+              </button>
+              {realtime && (
+                <button type="button" onClick={() => setRealtime(null)} className="text-renfe-primary hover:underline">
+                  {t('realtime.remove')}
+                </button>
+              )}
+              <input
+                type="file"
+                ref={realtimeInputRef}
+                className="hidden"
+                accept=".pb,.bin,application/x-protobuf,application/octet-stream"
+                onChange={handleRealtimeChange}
+              />
+            </div>
+            {!!realtimeError && <p className="mt-1 text-xs text-red-700">{t('status.error', { message: errorMessage(realtimeError, locale) })}</p>}
+            {realtime?.feed.timestamp !== undefined && (
+              <p className="mt-1 text-xs text-gray-500">{t('realtime.timestamp', { time: new Date(realtime.feed.timestamp * 1000).toLocaleString(locale) })}</p>
+            )}
+            {overlay && (
+              <p className="mt-1 text-xs text-gray-600">
+                {overlay.appliesToTrips
+                  ? t('realtime.summary', { matched: overlay.matched, added: overlay.added.length, alerts: overlay.alerts.length })
+                  : t('realtime.rangeAlertsOnly', { alerts: overlay.alerts.length })}
+              </p>
+            )}
           </div>
 
+          {/* Line Selection */}
+          <LineSelector
+            file={file}
+            line={line}
+            locale={locale}
+            disabled={isProcessing}
+            onChange={(newLine) => {
+              setLine(newLine);
+              if (!newLine.stations.some(s => s.codigo === posterStation)) setPosterStation('');
+              resetSelection(); // Results depend on the line's stations
+            }}
+          />
+
+          {/* Feed calendar */}
+          <CoverageCalendar
+            file={file}
+            line={line}
+            locale={locale}
+            selectedDate={selectedDate}
+            endDate={isRangeMode ? endDate : selectedDate}
+            disabled={isProcessing}
+            onSelect={handleCalendarSelect}
+          />
+
+          {/* Connections with other operators */}
+          <ConnectionFeeds
+            files={connectionFiles}
+            interchanges={interchanges}
+            line={line}
+            range={data?.range ?? null}
+            calls={connectionCalls}
+            locale={locale}
+            disabled={isProcessing}
+            onFilesChange={setConnectionFiles}
+            onInterchangesChange={setInterchanges}
+            onCallsChange={setConnectionCalls}
+          />
+
+          {/* PDF Options */}
+          <div className="w-full space-y-2">
+            <label className="block text-sm text-gray-700">
+              {t('options.content')}
+              <select
+                value={posterStation}
+                onChange={(e) => setPosterStation(e.target.value)}
+                className="mt-1 block w-full text-sm border-gray-300 rounded-md py-2 border px-2"
+              >
+                <option value="">{t('options.contentLine')}</option>
+                {line.stations.map(s => (
+                  <option key={s.codigo} value={s.codigo}>{t('options.contentPoster', { station: stationName(s, locale) })}</option>
+                ))}
+              </select>
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <label className="text-sm text-gray-700">
+                {t('options.layout')}
+                <select
+                  value={pdfOptions.layout}
+                  disabled={!!posterStation}
+                  onChange={(e) => setPdfOptions({ ...pdfOptions, layout: e.target.value as PdfLayout })}
+                  className="mt-1 block w-full text-sm border-gray-300 rounded-md py-2 border px-2"
+                >
+                  <option value="trainRows">{t('options.layoutRows')}</option>
+                  <option value="trainColumns">{t('options.layoutColumns')}</option>
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                {t('options.orientation')}
+                <select
+                  value={pdfOptions.orientation}
+                  onChange={(e) => setPdfOptions({ ...pdfOptions, orientation: e.target.value as PdfOptions['orientation'] })}
+                  className="mt-1 block w-full text-sm border-gray-300 rounded-md py-2 border px-2"
+                >
+                  <option value="landscape">{t('options.landscape')}</option>
+                  <option value="portrait">{t('options.portrait')}</option>
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                {t('options.language')}
+                <select
+                  value={pdfOptions.language}
+                  onChange={(e) => setPdfOptions({ ...pdfOptions, language: e.target.value as PdfLanguage })}
+                  className="mt-1 block w-full text-sm border-gray-300 rounded-md py-2 border px-2"
+                >
+                  {PDF_LANGUAGES.map(l => <option key={l} value={l}>{pdfLanguageName(l)}</option>)}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                {t('options.stringline')}
+                <select
+                  value={pdfOptions.stringline}
+                  disabled={!!posterStation}
+                  onChange={(e) => setPdfOptions({ ...pdfOptions, stringline: e.target.value as PdfOptions['stringline'] })}
+                  className="mt-1 block w-full text-sm border-gray-300 rounded-md py-2 border px-2"
+                >
+                  <option value="none">{t('options.stringlineNone')}</option>
+                  <option value="order">{t('options.stringlineOrder')}</option>
+                  <option value="distance">{t('options.stringlineDistance')}</option>
+                </select>
+              </label>
+              {pdfOptions.layout === 'trainColumns' && !posterStation && (
+                <label className="text-sm text-gray-700">
+                  {t('options.columnsPerPage')}
+                  <input
+                    type="number"
+                    min={1}
+                    max={40}
+                    value={pdfOptions.columnsPerPage}
+                    onChange={(e) => setPdfOptions({ ...pdfOptions, columnsPerPage: Math.max(1, Number(e.target.value) || 1) })}
+                    className="mt-1 block w-full text-sm border-gray-300 rounded-md py-2 border px-2"
+                  />
+                </label>
+              )}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={pdfOptions.nextDayMarker}
+                onChange={(e) => setPdfOptions({ ...pdfOptions, nextDayMarker: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              {t('options.nextDayMarker')}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={pdfOptions.arrivalAtTerminus}
+                onChange={(e) => setPdfOptions({ ...pdfOptions, arrivalAtTerminus: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              {t('options.arrivalAtTerminus')}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={pdfOptions.frequencyAppendix}
+                disabled={!!posterStation}
+                onChange={(e) => setPdfOptions({ ...pdfOptions, frequencyAppendix: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              {t('options.frequencyAppendix')}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              {t('options.dwellBefore')}
+              <input
+                type="number"
+                min={0}
+                value={pdfOptions.dwellThreshold}
+                onChange={(e) => setPdfOptions({ ...pdfOptions, dwellThreshold: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-16 border-gray-300 rounded-md py-1 border px-2"
+              />
+              {t('options.dwellAfter')}
+            </label>
+          </div>
+
+          <TemplateEditor template={template} locale={locale} onChange={setTemplate} renderPreview={renderPreview} />
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-4 justify-center">
             <button
               onClick={handleProcess}
-              disabled={!file || status.step === 'processing' || status.step === 'reading'}
+              disabled={!file || isProcessing}
               className={`w-full flex justify-center py-3 px-4 border border-transparent text-sm font-medium rounded-md text-white 
                 ${!file ? 'bg-gray-300 cursor-not-allowed' : 'bg-renfe-primary hover:bg-renfe-secondary focus:ring-2 focus:ring-offset-2 focus:ring-renfe-primary'}
                 transition-all shadow-sm`}
             >
-               {status.step === 'processing' || status.step === 'reading' ? 'Filtrando y Procesando...' : '1. Procesar Datos'}
+               {t(isProcessing ? 'action.processing' : 'action.process')}
             </button>
 
+            <button
+              onClick={handleValidate}
+              disabled={!file || isProcessing}
+              className={`w-full sm:w-auto flex justify-center items-center gap-2 py-3 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white
+                ${!file ? 'opacity-50 cursor-not-allowed' : 'hover:bg-gray-50 focus:ring-2 focus:ring-offset-2 focus:ring-gray-400'}
+                transition-all shadow-sm whitespace-nowrap`}
+            >
+              <ShieldCheck size={16} /> {t('action.validate')}
+            </button>
+
+            {isProcessing && (
+              <button
+                onClick={handleCancel}
+                className="w-full sm:w-auto flex justify-center items-center gap-2 py-3 px-4 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 transition-all shadow-sm"
+              >
+                <XCircle size={16} /> {t('action.cancel')}
+              </button>
+            )}
+
             <button
               onClick={handleDownload}
               disabled={!data || status.step === 'generating'}
@@ -533,7 +715,7 @@ const App: React.FC = () => {
                 ${!data ? 'bg-gray-300 cursor-not-allowed' : 'bg-gray-800 hover:bg-gray-900 focus:ring-2 focus:ring-offset-2 focus:ring-gray-900'}
                 transition-all shadow-sm`}
             >
-               {status.step === 'generating' ? 'Generando...' : '2. Descargar PDF'}
+               {t(status.step === 'generating' ? 'action.generating' : 'action.download')}
             </button>
           </div>
 
@@ -547,8 +729,22 @@ const App: React.FC = () => {
                 {status.step === 'error' ? <AlertCircle size={20} /> : 
                  status.step === 'done' ? <CheckCircle size={20} /> : <FileText size={20} />}
               </div>
-              <div className="ml-3 text-sm font-medium">
-                {status.message}
+              <div className="ml-3 flex-1 text-sm font-medium">
+                {localize(locale, status.message)}
+                {status.progress && isProcessing && (
+                  <div className="mt-2">
+                    <div className="w-full bg-blue-100 rounded-full h-2 overflow-hidden">
+                      <div
+                        className="bg-renfe-primary h-2 transition-all"
+                        style={{ width: `${overallPercent(status.progress)}%` }}
+                      />
+                    </div>
+                    <div className="mt-1 flex justify-between text-xs font-normal text-blue-700">
+                      <span>{formatProgressAmount(status.progress, t)}</span>
+                      <span>{overallPercent(status.progress)}%</span>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -556,23 +752,55 @@ const App: React.FC = () => {
           {/* Preview Statistics  */}
           {data && status.step === 'done' && (
             <div className="bg-gray-50 rounded-lg p-6 border border-gray-200">
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Resumen para el {data.dateUsed}</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-4">{t('summary.title', { date: data.dateUsed })}</h3>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div className="bg-white p-4 rounded shadow-sm border-l-4 border-renfe-cercanias">
-                  <div className="text-sm text-gray-500">Irun &rarr; Brinkola</div>
-                  <div className="text-2xl font-bold text-gray-800">{data.toBrinkola.length} trenes</div>
+                  <div className="text-sm text-gray-500">{directionNames(line, locale).forward}</div>
+                  <div className="text-2xl font-bold text-gray-800">{t('summary.trains', { count: data.toBrinkola.length })}</div>
                 </div>
                 <div className="bg-white p-4 rounded shadow-sm border-l-4 border-renfe-primary">
-                  <div className="text-sm text-gray-500">Brinkola &rarr; Irun</div>
-                  <div className="text-2xl font-bold text-gray-800">{data.toIrun.length} trenes</div>
+                  <div className="text-sm text-gray-500">{directionNames(line, locale).backward}</div>
+                  <div className="text-2xl font-bold text-gray-800">{t('summary.trains', { count: data.toIrun.length })}</div>
                 </div>
               </div>
+              <div className="mt-4 flex flex-wrap gap-2">
+                <button type="button" onClick={() => exportCSV(data, line, pdfOptions)} className={exportButtonClass}>
+                  <FileSpreadsheet size={14} /> CSV
+                </button>
+                <button type="button" onClick={handleExportXLSX} className={exportButtonClass}>
+                  <FileSpreadsheet size={14} /> Excel (.xlsx)
+                </button>
+                <button type="button" onClick={() => exportJSON(data, line)} className={exportButtonClass}>
+                  <FileJson size={14} /> JSON
+                </button>
+                <button type="button" onClick={downloadJSONSchema} className={exportButtonClass}>
+                  <Braces size={14} /> {t('export.schema')}
+                </button>
+              </div>
             </div>
           )}
+
+          {/* Timetable preview and edits */}
+          {current && <TimetablePreview key={line.id} data={current} line={line} locale={locale} pdfOptions={pdfOptions} edits={edits} onChange={setEdits} alerts={overlay?.alerts} connections={connections} />}
+
+          {/* Time-distance diagram of what the PDF prints */}
+          {printed && <StringlineDiagram key={line.id} data={printed.data} line={printed.line} locale={locale} nextDayMarker={pdfOptions.nextDayMarker} />}
+
+          {/* Feed validation */}
+          {report && <ValidationReportView report={report} locale={locale} />}
+
+          {/* Trains per hour and headways at each station */}
+          {data && <HeadwayAnalysis key={`${line.id}-${data.dateUsed}`} file={file} data={data} line={line} edits={edits} locale={locale} pdfOptions={pdfOptions} />}
+
+          {/* Origin-destination lookup */}
+          {data && <JourneyPlanner key={line.id} data={data} line={line} locale={locale} pdfOptions={pdfOptions} />}
+
+          {/* Changes against an older feed */}
+          {data && <FeedComparison key={`${line.id}-${data.dateUsed}`} data={data} line={line} locale={locale} pdfOptions={pdfOptions} />}
           
           <div className="border-t border-gray-200 pt-6">
              <p className="text-xs text-gray-400 text-center">
-                Instrucciones: El PDF generado contendrá únicamente los trenes que circulan en la fecha indicada, teniendo en cuenta festivos y excepciones del operador.
+                {t('app.instructions')}
              </p>
           </div>
 
@@ -589,6 +817,9 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Offline support: precaches the app and updates it in the background
+registerSW({ immediate: true });
+
 const root = createRoot(rootElement);
 root.render(
   <React.StrictMode>
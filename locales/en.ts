@@ -0,0 +1,425 @@
+import { Catalog } from '../utils/i18n';
+
+// English catalogue
+export const en: Catalog = {
+  // App
+  'app.title': 'Gipuzkoa Commuter Rail Timetables',
+  'app.subtitle': 'Custom PDF timetables by date.',
+  'app.language': 'Language',
+  'app.instructions': 'Instructions: the generated PDF only contains the trains running on the chosen date, taking holidays and operator exceptions into account.',
+
+  // Date selection
+  'date.single': 'Service date',
+  'date.range': 'Service period',
+  'date.modeSingle': 'One day',
+  'date.modeRange': 'Period',
+  'date.helpSingle': 'Choose the day to generate the timetable for.',
+  'date.helpRange': 'Identical trains are grouped and labelled with the days they run (Mo-Fr, Sa, Su & holidays...).',
+
+  // Service calendar
+  'coverage.show': 'Show GTFS calendar',
+  'coverage.months': 'January,February,March,April,May,June,July,August,September,October,November,December',
+  'coverage.previous': 'Previous month',
+  'coverage.next': 'Next month',
+  'coverage.holiday': 'Holiday',
+  'coverage.special': 'Special service',
+  'coverage.reduced': 'Reduced service',
+  'coverage.changed': 'Modified service',
+  'coverage.outside': 'Outside the GTFS validity',
+  'coverage.hint': 'Each day shows the trains of the line. Click a day to select it; in period mode, a later second day closes the period.',
+
+  // File upload
+  'file.label': 'GTFS file (.zip)',
+  'file.placeholder': 'Upload the fomento_transit.zip file',
+  'file.format': 'ZIP format required',
+
+  // Offline copy
+  'cache.restored': 'Saved copy of {file} ({size} MB), stored on {date}.',
+  'cache.feedRange': 'GTFS valid from {from} to {to}.',
+  'cache.lineOnly': 'Only includes the trains of the {line} line.',
+  'cache.saving': 'Saving a copy for offline use...',
+  'cache.saved': 'Copy saved for offline use ({size} MB).',
+  'cache.error': 'The offline copy could not be saved.',
+  'cache.forget': 'Forget copy',
+
+  // Realtime data
+  'realtime.label': 'Realtime (GTFS-Realtime, optional):',
+  'realtime.choose': 'Choose .pb file',
+  'realtime.remove': 'Remove',
+  'realtime.timestamp': 'Data generated on {time}.',
+  'realtime.summary': 'Trains with updates: {matched} · Added: {added} · Active alerts: {alerts}',
+  'realtime.rangeAlertsOnly': 'Train updates only apply to one-day timetables. Active alerts in the period: {alerts}',
+  'realtime.alertsTitle': 'Realtime alerts',
+  'realtime.addedTrains': 'Added trains:',
+  'realtime.addedTrain': '{time} {origin} -> {destination}',
+
+  // PDF options
+  'options.content': 'Content',
+  'options.contentLine': 'Full line timetable',
+  'options.contentPoster': 'Departure poster: {station}',
+  'options.layout': 'Layout',
+  'options.layoutRows': 'One train per row',
+  'options.layoutColumns': 'One train per column (poster)',
+  'options.orientation': 'Orientation',
+  'options.landscape': 'Landscape',
+  'options.portrait': 'Portrait',
+  'options.columnsPerPage': 'Trains per page',
+  'options.language': 'PDF language',
+  'options.nextDayMarker': 'Mark times after midnight with "+1"',
+  'options.arrivalAtTerminus': "Arrival time at each train's last station",
+  'options.dwellBefore': 'Arrival and departure when the stop lasts at least',
+  'options.dwellAfter': 'min (0 = off)',
+  'options.stringline': 'Time-distance diagram',
+  'options.stringlineNone': 'Do not include',
+  'options.stringlineOrder': 'Evenly spaced stations',
+  'options.stringlineDistance': 'By real distance',
+  'options.frequencyAppendix': 'Add an appendix with frequencies per station',
+
+  // PDF template
+  'template.title': 'Line timetable template',
+  'template.intro': 'Colours, font, paper, header and footer with logos, QR code and file name of the line timetable PDF. Station posters, journeys and change notices keep their own layout. It is kept in this browser and can be shared as JSON.',
+  'template.name': 'Name',
+  'template.theme': 'Colours',
+  'template.themeRenfe': 'Renfe red',
+  'template.themeBlue': 'Blue',
+  'template.themeGreen': 'Green',
+  'template.themeGrey': 'Grey',
+  'template.headFill': 'Header background',
+  'template.headText': 'Header text',
+  'template.titleText': 'Titles',
+  'template.paper': 'Paper',
+  'template.paperA4': 'A4',
+  'template.paperA3': 'A3',
+  'template.paperLetter': 'Letter',
+  'template.fontSize': 'Font size (pt)',
+  'template.margin': 'Margins (mm)',
+  'template.font': 'Font',
+  'template.defaultFont': 'Helvetica (built in)',
+  'template.chooseFont': 'Choose TTF',
+  'template.removeFont': 'Use Helvetica',
+  'template.pageTitle': 'Page title',
+  'template.pageTitleHint': 'Empty for the usual title; {direction} is the direction.',
+  'template.header': 'Header',
+  'template.footer': 'Footer',
+  'template.blockText': 'Text',
+  'template.chooseLogo': 'Choose logo',
+  'template.removeLogo': 'Remove logo',
+  'template.qrUrl': 'QR code link',
+  'template.fileName': 'File name',
+  'template.fileNameHint': '{line} is the line and {date} the dates.',
+  'template.save': 'Save JSON',
+  'template.load': 'Load JSON',
+  'template.reset': 'Default template',
+  'template.preview': 'Preview',
+  'template.closePreview': 'Close preview',
+  'template.previewNeedsTimetable': 'Process the timetable, without a station poster, to see the preview.',
+
+  // Actions and status
+  'action.process': '1. Process data',
+  'action.processing': 'Filtering and processing...',
+  'action.cancel': 'Cancel',
+  'action.download': '2. Download PDF',
+  'action.generating': 'Generating...',
+  'action.validate': 'Validate GTFS',
+  'status.reading': 'Starting to read the file...',
+  'status.done': 'Processing completed successfully.',
+  'status.error': 'Error: {message}',
+  'status.cancelled': 'Processing cancelled.',
+  'status.generatingPdf': 'Generating PDF...',
+  'status.pdfDone': 'PDF downloaded.',
+  'status.pdfError': 'Error generating the PDF.',
+  'status.xlsxError': 'Error generating the Excel file.',
+  'status.validating': 'Validating the GTFS file...',
+  'status.validated': 'Validation finished: {errors} errors and {warnings} warnings.',
+
+  // Progress
+  'progress.bytes': '{processed} of {total} MB',
+  'progress.bytesOnly': '{processed} MB',
+  'progress.rows': '{processed} of {total} trips',
+  'progress.rowsOnly': '{processed} trips',
+  'progress.filteringDay': 'Filtering for {date} ({day})...',
+  'progress.filteringRange': 'Filtering for the period {date} ({count} days)...',
+  'progress.unzipped': 'Archive unzipped.',
+  'progress.calendar': 'Analysing calendar and exceptions...',
+  'progress.trips': 'Processing active trips ({count} services)...',
+  'progress.stopTimes': 'Reading stop times...',
+  'progress.organizing': 'Sorting directions...',
+  'progress.routeTrips': "Looking up the line's trips...",
+  'progress.stopSequences': 'Reading stop sequences...',
+  'progress.sortingStations': 'Sorting stations...',
+  'progress.checkingTimes': 'Checking the order of times...',
+
+  // Summary and exports
+  'summary.title': 'Summary for {date}',
+  'summary.trains': '{count} trains',
+  'export.schema': 'JSON schema',
+
+  // Timetable preview
+  'preview.title': 'Timetable preview',
+  'preview.from': 'Departures from',
+  'preview.to': 'to',
+  'preview.stations': 'Stations ({shown} of {total})',
+  'preview.count': '{shown} of {total} trains in the PDF',
+  'preview.hide': 'Leave out of the PDF',
+  'preview.show': 'Put back in the PDF',
+  'preview.notePlaceholder': 'e.g. Extra train',
+  'preview.accessibleOnly': 'Accessible trains only',
+  'preview.wheelchair': 'Wheelchair accessible',
+  'preview.bikes': 'Bicycles allowed',
+  'preview.reset': 'Undo changes',
+  'preview.none': 'No trains in this time window.',
+  'preview.hint': 'Filters, removed trains and notes apply to the PDF. Station posters use every station.',
+
+  // Time-distance diagram
+  'stringline.title': 'Time-distance diagram',
+  'stringline.spacing': 'Stations',
+  'stringline.zoomIn': 'Zoom in',
+  'stringline.zoomOut': 'Zoom out',
+  'stringline.noDistances': 'The GTFS lacks coordinates for some stations: they are drawn evenly spaced.',
+  'stringline.none': 'No trains to draw.',
+  'stringline.hint': 'Each line is a train: crossing lines are trains passing each other, lines running close together show bunching, and gaps are periods without service.',
+
+  // Connections with other operators
+  'connection.title': 'Connections with other operators',
+  'connection.intro': 'Add the GTFS feeds of other operators (Euskotren, buses, long distance...) and set the stations where passengers can change. The timetable and posters will show the next possible connection of each train.',
+  'connection.addFeeds': 'Add GTFS',
+  'connection.add': 'Add interchange',
+  'connection.remove': 'Remove',
+  'connection.station': 'Station',
+  'connection.feed': 'GTFS',
+  'connection.stops': 'Stops',
+  'connection.addStop': 'Add stop',
+  'connection.minTransfer': 'Transfer (min)',
+  'connection.towards': 'To / from (optional)',
+  'connection.noFeeds': 'Add at least one GTFS feed to set interchanges.',
+  'connection.missingFeed': 'Add {feed} again: files are not kept between visits.',
+  'connection.search': 'Find connections',
+  'connection.needsTimetable': 'Process the timetable first: connections are looked up for the same dates.',
+  'connection.found': 'Calls of other operators found: {count}.',
+  'connection.onward': '-> {destination} {time} ({operator})',
+  'connection.feeder': '<- {origin} {time} ({operator})',
+
+  // Frequency analysis
+  'headway.title': 'Frequencies per station',
+  'headway.intro': 'Trains per hour, time between trains and the longest gaps without service at each station, by time band.',
+  'headway.date': 'Day analysed',
+  'headway.compareWith': 'Compare with',
+  'headway.compare': 'Compare',
+  'headway.clearCompare': 'Remove comparison',
+  'headway.comparing': 'Values for {date}',
+  'headway.comparingWith': '/ values for {date}',
+  'headway.band': 'Time band',
+  'headway.trainsPerHour': 'Trains per hour',
+  'headway.perHour': '{count}/h',
+  'headway.min': 'Minimum',
+  'headway.average': 'Average',
+  'headway.max': 'Maximum',
+  'headway.gaps': 'Longest gaps:',
+  'headway.noTrains': 'No train leaves this station in this direction.',
+  'headway.bandEarly': 'Until 07:00',
+  'headway.bandMorningPeak': 'Morning peak (07-10)',
+  'headway.bandMidday': 'Off-peak (10-16)',
+  'headway.bandEveningPeak': 'Evening peak (16-20)',
+  'headway.bandEvening': 'From 20:00',
+
+  // Line selection
+  'line.label': 'Line',
+  'line.stationCount': '{name} ({count} stations)',
+  'line.unsaved': '{name} (unsaved)',
+  'line.useRoute': 'Use route',
+  'line.chooseRoute': 'Choose a GTFS route',
+  'line.edit': 'Edit stations',
+  'line.closeEdit': 'Close editor',
+  'line.save': 'Save profile',
+  'line.export': 'Export JSON',
+  'line.import': 'Import JSON',
+  'line.delete': 'Delete profile',
+  'line.readingRoutes': 'Reading routes.txt...',
+  'line.derivingRoute': "Working out the route's stations...",
+  'line.namePlaceholder': 'Line name',
+  'line.basqueName': 'Basque name',
+  'line.moveUp': 'Move up',
+  'line.moveDown': 'Move down',
+  'line.remove': 'Remove',
+
+  // Journey lookup
+  'journey.title': 'Journey lookup',
+  'journey.origin': 'From',
+  'journey.destination': 'To',
+  'journey.swap': 'Swap',
+  'journey.windowFrom': 'Departures between',
+  'journey.windowAnd': 'and',
+  'journey.windowEnd': '',
+  'journey.window': 'Departures between {from} and {to}',
+  'journey.sameStation': 'Origin and destination must be different.',
+  'journey.none': 'There are no direct trains between these stations.',
+  'journey.noTrains': 'No direct trains',
+  'journey.selectAll': 'Select all',
+  'journey.downloadPdf': 'Download journey PDF',
+  'journey.addToCalendar': 'Add to calendar (.ics)',
+  'journey.calendarSummary': 'Train {origin} -> {destination}',
+
+  // Table columns
+  'column.days': 'Days',
+  'column.station': 'Station',
+  'column.origin': 'Origin',
+  'column.destination': 'Destination',
+  'column.hour': 'Hour',
+  'column.minutes': 'Minutes',
+  'column.departure': 'Departure',
+  'column.arrival': 'Arrival',
+  'column.duration': 'Duration',
+  'column.train': 'Train',
+  'column.change': 'Change',
+  'column.detail': 'Details',
+  'column.notes': 'Notes',
+  'column.services': 'Facilities',
+  'column.connections': 'Connections',
+  'column.firstTrain': 'First train',
+  'column.lastTrain': 'Last train',
+  'column.trains': 'Trains',
+  'column.longestGap': 'Longest gap',
+
+  // PDF
+  'pdf.title': 'Timetable: {direction}',
+  'pdf.continued': '{title} (continued)',
+  'pdf.singleDate': 'Service date: {date}',
+  'pdf.period': 'Service period: {date}',
+  'pdf.continuesNextPage': 'Continued on next page',
+  'pdf.pageNumber': 'Page {page} of {total}',
+  'pdf.arrivalAbbr': 'arr',
+  'pdf.departureAbbr': 'dep',
+  'pdf.wheelchairMark': 'Acc',
+  'pdf.bikeMark': 'Bike',
+  'pdf.stringlineTitle': 'Time-distance diagram: {line}',
+  'pdf.frequencyTitle': 'Frequencies: {direction}',
+  'pdf.frequencyDate': 'Day analysed: {date}',
+  'pdf.alertsTitle': 'Service alerts:',
+  'legend.days': 'Mo: Monday; Tu: Tuesday; We: Wednesday; Th: Thursday; Fr: Friday; Sa: Saturday; Su: Sunday.',
+  'legend.terminus': 'The last station of each train shows its arrival time.',
+  'legend.dwell': 'arr: arrival; dep: departure.',
+  'legend.passThrough': '|: the train passes without stopping. Blank: the train does not run there.',
+  'legend.express': 'Shaded background: semi-fast train, does not call at every station on its way.',
+  'legend.wheelchair': '{mark}: wheelchair accessible train.',
+  'legend.bikes': '{mark}: bicycles allowed.',
+  'legend.accessibleStation': '({mark}) after the name: step-free station.',
+  'legend.stringlineOrder': 'Stations evenly spaced, in line order.',
+  'legend.stringlineDistance': 'Stations spaced by their real distance ({km} km in total).',
+  'legend.stringlineExpress': 'Dashed line: semi-fast train.',
+  'legend.frequency': 'Per time band: trains per hour and time between trains (minimum / average / maximum). Only departures count: trains ending at the station are left out.',
+  'legend.connections': '->: next connection after the train arrives, with its destination and departure time. <-: last arrival in time to catch the train, with its origin and arrival time. The minimum transfer time is included.',
+  'legend.canceled': 'Grey background: cancelled train.',
+  'legend.added': 'Green background: extra train, not in the planned timetable.',
+  'legend.delay': "(+5'): minutes late against the planned time, already added to the time shown.",
+  'legend.skippedStop': 'X: the train does not stop at this station today.',
+  'legend.canceledMark': '{mark}: cancelled train.',
+  'poster.line': 'Line {name}',
+  'poster.direction': 'Towards {station}',
+  'poster.noDepartures': 'No departures in this direction.',
+  'poster.accessibleStation': 'Step-free station',
+  'poster.inaccessibleStation': 'No step-free access at this station',
+  'poster.connections': 'Connections with other operators',
+  'poster.shortTurn': '{mark}: terminates at {station}',
+
+  // Day patterns
+  'day.monday': 'Monday',
+  'day.tuesday': 'Tuesday',
+  'day.wednesday': 'Wednesday',
+  'day.thursday': 'Thursday',
+  'day.friday': 'Friday',
+  'day.saturday': 'Saturday',
+  'day.sunday': 'Sunday',
+  'pattern.dayLetters': 'Mo,Tu,We,Th,Fr,Sa,Su',
+  'pattern.daily': 'Daily',
+  'pattern.selectedDays': 'Selected days',
+  'pattern.holidays': 'holidays',
+  'pattern.sundayAndHolidays': 'Su & holidays',
+  'pattern.onlyRunning': 'Runs only on {dates}.',
+  'pattern.notRunning': 'Does not run on {dates}',
+  'pattern.alsoRunning': 'Also runs on {dates}',
+  'list.and': ' and ',
+
+  // Feed comparison
+  'diff.title': 'Timetable changes',
+  'diff.intro': 'Compares the processed timetable with the one of an older GTFS for the same dates.',
+  'diff.oldFile': 'Older GTFS (.zip)',
+  'diff.chooseOld': 'Choose older GTFS',
+  'diff.compare': 'Compare',
+  'diff.summary': 'New: {added} · Withdrawn: {removed} · Changed: {changed} · Unchanged: {unchanged}',
+  'diff.none': 'There are no changes on this line for the chosen dates.',
+  'diff.noChanges': 'No changes.',
+  'diff.added': 'New',
+  'diff.removed': 'Withdrawn',
+  'diff.changed': 'Changed',
+  'diff.trainLabel': '{time} {origin} -> {destination}',
+  'diff.runs': 'Leaves {origin} at {departure} and reaches {destination} at {arrival}',
+  'diff.retimed': '{station}: {before} -> {after} ({delta} min)',
+  'diff.retimedAll': 'Whole journey {delta} min ({station}: {before} -> {after})',
+  'diff.stopAdded': 'Now calls at {station}',
+  'diff.stopRemoved': 'No longer calls at {station}',
+  'diff.daysAdded': 'Also runs on {dates}',
+  'diff.daysRemoved': 'No longer runs on {dates}',
+  'diff.download': 'Download change notice (PDF)',
+
+  // GTFS validation
+  'validation.title': 'GTFS validation report',
+  'validation.feedRange': 'GTFS validity: {from} - {to}',
+  'validation.noFeedRange': 'The GTFS validity period could not be determined.',
+  'validation.fileRows': '{file}: {count} rows',
+  'validation.errors': '{count} errors',
+  'validation.warnings': '{count} warnings',
+  'validation.ok': 'No problems found.',
+  'validation.error': 'Error',
+  'validation.warning': 'Warning',
+  'validation.occurrences': '{count} occurrences',
+  'validation.more': '... and {count} more',
+  'validation.download': 'Download report',
+  'validation.missingFile': 'The file {file} is missing.',
+  'validation.missingCalendar': 'There is neither calendar.txt nor calendar_dates.txt.',
+  'validation.malformedFile': '{file} cannot be read: {detail}',
+  'validation.rangeOutsideFeed': 'The period {date} is outside the GTFS validity ({from} - {to}).',
+  'validation.rangePartlyOutside': 'Days of the period {date} outside the GTFS validity ({from} - {to}).',
+  'validation.daysWithoutService': 'Days of the period without any service of the line.',
+  'validation.routeNotFound': 'Line routes missing from routes.txt.',
+  'validation.stationNotInStops': 'Line stations missing from stops.txt.',
+  'validation.stationNotServed': 'Line stations where no train stops.',
+  'validation.unknownStop': 'Stops in stop_times.txt missing from stops.txt.',
+  'validation.unknownTrip': 'stop_times.txt rows whose trip_id is missing from trips.txt.',
+  'validation.duplicateTripId': 'Repeated trip_id values in trips.txt.',
+  'validation.unknownService': 'Trips whose service_id is not in the calendar.',
+  'validation.invalidTime': 'Badly formatted times in stop_times.txt.',
+  'validation.timesBackwards': 'Trips whose times go backwards between stops.',
+  'validation.serviceWithoutTrips': 'Calendar services without any trip.',
+
+  // Errors
+  'error.unknown': 'Unknown error',
+  'error.worker': 'Background process error',
+  'error.rangeReversed': 'The end date is before the start date.',
+  'error.rangeTooLong': 'The period cannot exceed {max} days.',
+  'error.noServicesDay': 'No active services found for {date}.',
+  'error.noServicesRange': 'No active services found for the period {date}.',
+  'error.missingFile': '{file} not found',
+  'error.routeWithoutTrips': 'Route {route} has no trips.',
+  'error.gtfsLine': '{file}, line {line}: {detail}',
+  'error.missingColumns': 'missing required columns: {columns}',
+  'error.fieldCount': 'expected {expected} fields but found {found}',
+  'error.invalidStopSequence': 'invalid stop_sequence: "{value}"',
+  'error.csvAfterQuote': 'unexpected character after a closing quote',
+  'error.csvQuoteInField': 'quote inside an unquoted field',
+  'error.csvUnclosedQuote': 'unclosed quoted field',
+  'error.profileNotObject': 'The line profile is not a JSON object.',
+  'error.profileNoName': 'The line profile has no name.',
+  'error.profileTooFewStations': 'The line profile needs at least two stations.',
+  'error.profileStationNoCode': 'Station {index} of the profile has no code.',
+  'error.profileDuplicateCode': 'Station {index} of the profile repeats the code {code}.',
+  'error.profileInvalidJson': '{file} is not a valid JSON file.',
+  'error.interchangesNotList': 'The interchanges must be a JSON list.',
+  'error.interchangeInvalid': 'Interchange {index} lacks its station, GTFS or stops.',
+  'error.templateNotObject': 'The template is not a JSON object.',
+  'error.templateNoName': 'The template has no name.',
+  'error.templateFont': '{file} is not a valid TrueType (.ttf) font.',
+  'error.templateLogo': '{file} is not a valid PNG or JPEG image.',
+  'error.qrTooLong': 'The QR code link is too long (at most {max} characters).',
+  'error.stationNotOnLine': 'Station {station} is not on line {line}.',
+  'error.protobuf': 'The GTFS-Realtime file is not valid (byte {offset}).',
+};
@@ -0,0 +1,423 @@
+// Spanish catalogue. It is the reference: every other locale must define the same keys.
+export const es = {
+  // App
+  'app.title': 'Horarios Cercanías Gipuzkoa',
+  'app.subtitle': 'Generador de PDF personalizado por fecha.',
+  'app.language': 'Idioma',
+  'app.instructions': 'Instrucciones: El PDF generado contendrá únicamente los trenes que circulan en la fecha indicada, teniendo en cuenta festivos y excepciones del operador.',
+
+  // Date selection
+  'date.single': 'Fecha de circulación',
+  'date.range': 'Periodo de circulación',
+  'date.modeSingle': 'Un día',
+  'date.modeRange': 'Periodo',
+  'date.helpSingle': 'Selecciona el día para el que quieres generar el horario.',
+  'date.helpRange': 'Los trenes idénticos se agrupan y se indican los días en que circulan (L-V, S, D y festivos...).',
+
+  // Service calendar
+  'coverage.show': 'Ver calendario del GTFS',
+  'coverage.months': 'Enero,Febrero,Marzo,Abril,Mayo,Junio,Julio,Agosto,Septiembre,Octubre,Noviembre,Diciembre',
+  'coverage.previous': 'Mes anterior',
+  'coverage.next': 'Mes siguiente',
+  'coverage.holiday': 'Festivo',
+  'coverage.special': 'Servicio especial',
+  'coverage.reduced': 'Servicio reducido',
+  'coverage.changed': 'Servicio modificado',
+  'coverage.outside': 'Fuera de la vigencia del GTFS',
+  'coverage.hint': 'Cada día muestra los trenes de la línea. Pulsa un día para seleccionarlo; en modo periodo, un segundo día posterior cierra el periodo.',
+
+  // File upload
+  'file.label': 'Archivo GTFS (.zip)',
+  'file.placeholder': 'Sube el archivo fomento_transit.zip',
+  'file.format': 'Formato ZIP requerido',
+
+  // Offline copy
+  'cache.restored': 'Copia guardada de {file} ({size} MB), guardada el {date}.',
+  'cache.feedRange': 'GTFS vigente del {from} al {to}.',
+  'cache.lineOnly': 'Solo incluye los trenes de la línea {line}.',
+  'cache.saving': 'Guardando una copia para usar sin conexión...',
+  'cache.saved': 'Copia guardada para usar sin conexión ({size} MB).',
+  'cache.error': 'No se ha podido guardar la copia sin conexión.',
+  'cache.forget': 'Olvidar copia',
+
+  // Realtime data
+  'realtime.label': 'Tiempo real (GTFS-Realtime, opcional):',
+  'realtime.choose': 'Elegir archivo .pb',
+  'realtime.remove': 'Quitar',
+  'realtime.timestamp': 'Datos generados el {time}.',
+  'realtime.summary': 'Trenes con actualización: {matched} · Añadidos: {added} · Avisos activos: {alerts}',
+  'realtime.rangeAlertsOnly': 'Las actualizaciones de trenes solo se aplican a horarios de un día. Avisos activos en el periodo: {alerts}',
+  'realtime.alertsTitle': 'Avisos en tiempo real',
+  'realtime.addedTrains': 'Trenes añadidos:',
+  'realtime.addedTrain': '{time} {origin} -> {destination}',
+
+  // PDF options
+  'options.content': 'Contenido',
+  'options.contentLine': 'Horario completo de la línea',
+  'options.contentPoster': 'Cartel de salidas: {station}',
+  'options.layout': 'Diseño',
+  'options.layoutRows': 'Un tren por fila',
+  'options.layoutColumns': 'Un tren por columna (cartel)',
+  'options.orientation': 'Orientación',
+  'options.landscape': 'Horizontal',
+  'options.portrait': 'Vertical',
+  'options.columnsPerPage': 'Trenes por página',
+  'options.language': 'Idioma del PDF',
+  'options.nextDayMarker': 'Marcar con "+1" las horas después de medianoche',
+  'options.arrivalAtTerminus': 'Hora de llegada en la estación final de cada tren',
+  'options.dwellBefore': 'Llegada y salida si la parada dura al menos',
+  'options.dwellAfter': 'min (0 = no)',
+  'options.stringline': 'Gráfico de circulación',
+  'options.stringlineNone': 'No incluir',
+  'options.stringlineOrder': 'Estaciones equidistantes',
+  'options.stringlineDistance': 'Según la distancia real',
+  'options.frequencyAppendix': 'Añadir un anexo de frecuencias por estación',
+
+  // PDF template
+  'template.title': 'Plantilla del horario de la línea',
+  'template.intro': 'Colores, tipo de letra, papel, cabecera y pie con logotipos, código QR y nombre del archivo del PDF del horario de la línea. Los carteles de estación, los viajes y los avisos de cambios conservan su formato. Se guarda en este navegador y se puede compartir como JSON.',
+  'template.name': 'Nombre',
+  'template.theme': 'Colores',
+  'template.themeRenfe': 'Rojo Renfe',
+  'template.themeBlue': 'Azul',
+  'template.themeGreen': 'Verde',
+  'template.themeGrey': 'Gris',
+  'template.headFill': 'Fondo de las cabeceras',
+  'template.headText': 'Texto de las cabeceras',
+  'template.titleText': 'Títulos',
+  'template.paper': 'Papel',
+  'template.paperA4': 'A4',
+  'template.paperA3': 'A3',
+  'template.paperLetter': 'Carta',
+  'template.fontSize': 'Tamaño de letra (pt)',
+  'template.margin': 'Márgenes (mm)',
+  'template.font': 'Tipo de letra',
+  'template.defaultFont': 'Helvetica (incluida)',
+  'template.chooseFont': 'Elegir TTF',
+  'template.removeFont': 'Usar Helvetica',
+  'template.pageTitle': 'Título de las páginas',
+  'template.pageTitleHint': 'Vacío para el título habitual; {direction} es el sentido.',
+  'template.header': 'Cabecera',
+  'template.footer': 'Pie de página',
+  'template.blockText': 'Texto',
+  'template.chooseLogo': 'Elegir logotipo',
+  'template.removeLogo': 'Quitar logotipo',
+  'template.qrUrl': 'Enlace del código QR',
+  'template.fileName': 'Nombre del archivo',
+  'template.fileNameHint': '{line} es la línea y {date} las fechas.',
+  'template.save': 'Guardar JSON',
+  'template.load': 'Cargar JSON',
+  'template.reset': 'Plantilla por defecto',
+  'template.preview': 'Vista previa',
+  'template.closePreview': 'Cerrar vista previa',
+  'template.previewNeedsTimetable': 'Procesa el horario, sin cartel de estación, para ver la vista previa.',
+
+  // Actions and status
+  'action.process': '1. Procesar Datos',
+  'action.processing': 'Filtrando y Procesando...',
+  'action.cancel': 'Cancelar',
+  'action.download': '2. Descargar PDF',
+  'action.generating': 'Generando...',
+  'action.validate': 'Validar GTFS',
+  'status.reading': 'Iniciando lectura del archivo...',
+  'status.done': 'Procesamiento completado con éxito.',
+  'status.error': 'Error: {message}',
+  'status.cancelled': 'Procesamiento cancelado.',
+  'status.generatingPdf': 'Generando PDF...',
+  'status.pdfDone': 'PDF Descargado.',
+  'status.pdfError': 'Error generando PDF.',
+  'status.xlsxError': 'Error generando el archivo Excel.',
+  'status.validating': 'Validando el archivo GTFS...',
+  'status.validated': 'Validación completada: {errors} errores y {warnings} avisos.',
+
+  // Progress
+  'progress.bytes': '{processed} de {total} MB',
+  'progress.bytesOnly': '{processed} MB',
+  'progress.rows': '{processed} de {total} viajes',
+  'progress.rowsOnly': '{processed} viajes',
+  'progress.filteringDay': 'Filtrando para fecha: {date} ({day})...',
+  'progress.filteringRange': 'Filtrando para el periodo {date} ({count} días)...',
+  'progress.unzipped': 'Archivo descomprimido.',
+  'progress.calendar': 'Analizando calendario y excepciones...',
+  'progress.trips': 'Procesando viajes activos ({count} servicios)...',
+  'progress.stopTimes': 'Leyendo horarios...',
+  'progress.organizing': 'Organizando direcciones...',
+  'progress.routeTrips': 'Buscando viajes de la línea...',
+  'progress.stopSequences': 'Leyendo secuencias de paradas...',
+  'progress.sortingStations': 'Ordenando estaciones...',
+  'progress.checkingTimes': 'Comprobando el orden de las horas...',
+
+  // Summary and exports
+  'summary.title': 'Resumen para el {date}',
+  'summary.trains': '{count} trenes',
+  'export.schema': 'Esquema JSON',
+
+  // Timetable preview
+  'preview.title': 'Vista previa del horario',
+  'preview.from': 'Salidas desde',
+  'preview.to': 'hasta',
+  'preview.stations': 'Estaciones ({shown} de {total})',
+  'preview.count': '{shown} de {total} trenes en el PDF',
+  'preview.hide': 'Quitar del PDF',
+  'preview.show': 'Volver a incluir en el PDF',
+  'preview.notePlaceholder': 'p. ej. Refuerzo',
+  'preview.accessibleOnly': 'Solo trenes accesibles',
+  'preview.wheelchair': 'Tren accesible',
+  'preview.bikes': 'Admite bicicletas',
+  'preview.reset': 'Deshacer cambios',
+  'preview.none': 'Ningún tren en este intervalo.',
+  'preview.hint': 'Los filtros, los trenes quitados y las notas se aplican al PDF. Los carteles de estación usan todas las estaciones.',
+
+  // Time-distance diagram
+  'stringline.title': 'Gráfico de circulación',
+  'stringline.spacing': 'Estaciones',
+  'stringline.zoomIn': 'Ampliar',
+  'stringline.zoomOut': 'Reducir',
+  'stringline.noDistances': 'El GTFS no tiene coordenadas de todas las estaciones: se dibujan a intervalos iguales.',
+  'stringline.none': 'No hay trenes que dibujar.',
+  'stringline.hint': 'Cada línea es un tren: las líneas que se cruzan son cruces de trenes, las que se juntan indican trenes agrupados y los huecos, intervalos sin servicio.',
+
+  // Connections with other operators
+  'connection.title': 'Conexiones con otros operadores',
+  'connection.intro': 'Añade los GTFS de otros operadores (Euskotren, autobuses, larga distancia...) e indica en qué estaciones se puede transbordar. El horario y los carteles mostrarán la siguiente conexión posible de cada tren.',
+  'connection.addFeeds': 'Añadir GTFS',
+  'connection.add': 'Añadir transbordo',
+  'connection.remove': 'Quitar',
+  'connection.station': 'Estación',
+  'connection.feed': 'GTFS',
+  'connection.stops': 'Paradas',
+  'connection.addStop': 'Añadir parada',
+  'connection.minTransfer': 'Transbordo (min)',
+  'connection.towards': 'Hacia / desde (opcional)',
+  'connection.noFeeds': 'Añade al menos un GTFS para definir transbordos.',
+  'connection.missingFeed': 'Vuelve a añadir {feed}: los archivos no se guardan entre visitas.',
+  'connection.search': 'Buscar conexiones',
+  'connection.needsTimetable': 'Procesa primero el horario: las conexiones se buscan para sus mismas fechas.',
+  'connection.found': 'Pasos de otros operadores encontrados: {count}.',
+  'connection.onward': '-> {destination} {time} ({operator})',
+  'connection.feeder': '<- {origin} {time} ({operator})',
+
+  // Frequency analysis
+  'headway.title': 'Frecuencias por estación',
+  'headway.intro': 'Trenes por hora, tiempo entre trenes y mayores intervalos sin servicio en cada estación, por franja horaria.',
+  'headway.date': 'Día analizado',
+  'headway.compareWith': 'Comparar con',
+  'headway.compare': 'Comparar',
+  'headway.clearCompare': 'Quitar comparación',
+  'headway.comparing': 'Valores del {date}',
+  'headway.comparingWith': '/ valores del {date}',
+  'headway.band': 'Franja',
+  'headway.trainsPerHour': 'Trenes por hora',
+  'headway.perHour': '{count}/h',
+  'headway.min': 'Mínimo',
+  'headway.average': 'Medio',
+  'headway.max': 'Máximo',
+  'headway.gaps': 'Mayores intervalos:',
+  'headway.noTrains': 'Ningún tren sale de esta estación en este sentido.',
+  'headway.bandEarly': 'Hasta 07:00',
+  'headway.bandMorningPeak': 'Punta de mañana (07-10)',
+  'headway.bandMidday': 'Valle (10-16)',
+  'headway.bandEveningPeak': 'Punta de tarde (16-20)',
+  'headway.bandEvening': 'Desde 20:00',
+
+  // Line selection
+  'line.label': 'Línea',
+  'line.stationCount': '{name} ({count} estaciones)',
+  'line.unsaved': '{name} (sin guardar)',
+  'line.useRoute': 'Usar ruta',
+  'line.chooseRoute': 'Elegir ruta del GTFS',
+  'line.edit': 'Editar estaciones',
+  'line.closeEdit': 'Cerrar edición',
+  'line.save': 'Guardar perfil',
+  'line.export': 'Exportar JSON',
+  'line.import': 'Importar JSON',
+  'line.delete': 'Eliminar perfil',
+  'line.readingRoutes': 'Leyendo routes.txt...',
+  'line.derivingRoute': 'Calculando estaciones de la ruta...',
+  'line.namePlaceholder': 'Nombre de la línea',
+  'line.basqueName': 'Nombre en euskera',
+  'line.moveUp': 'Subir',
+  'line.moveDown': 'Bajar',
+  'line.remove': 'Quitar',
+
+  // Journey lookup
+  'journey.title': 'Consulta de trayecto',
+  'journey.origin': 'Origen',
+  'journey.destination': 'Destino',
+  'journey.swap': 'Invertir',
+  'journey.windowFrom': 'Salidas entre',
+  'journey.windowAnd': 'y',
+  'journey.windowEnd': '',
+  'journey.window': 'Salidas entre {from} y {to}',
+  'journey.sameStation': 'El origen y el destino deben ser distintos.',
+  'journey.none': 'No hay trenes directos entre estas estaciones.',
+  'journey.noTrains': 'Sin trenes directos',
+  'journey.selectAll': 'Seleccionar todos',
+  'journey.downloadPdf': 'Descargar trayecto en PDF',
+  'journey.addToCalendar': 'Añadir al calendario (.ics)',
+  'journey.calendarSummary': 'Tren {origin} -> {destination}',
+
+  // Table columns
+  'column.days': 'Días',
+  'column.station': 'Estación',
+  'column.origin': 'Origen',
+  'column.destination': 'Destino',
+  'column.hour': 'Hora',
+  'column.minutes': 'Minutos',
+  'column.departure': 'Salida',
+  'column.arrival': 'Llegada',
+  'column.duration': 'Duración',
+  'column.train': 'Tren',
+  'column.change': 'Cambio',
+  'column.detail': 'Detalle',
+  'column.notes': 'Notas',
+  'column.services': 'Servicios',
+  'column.connections': 'Conexiones',
+  'column.firstTrain': 'Primer tren',
+  'column.lastTrain': 'Último tren',
+  'column.trains': 'Trenes',
+  'column.longestGap': 'Mayor intervalo',
+
+  // PDF
+  'pdf.title': 'Horarios: {direction}',
+  'pdf.continued': '{title} (continuación)',
+  'pdf.singleDate': 'Fecha de circulación: {date}',
+  'pdf.period': 'Periodo de circulación: {date}',
+  'pdf.continuesNextPage': 'Continúa en la página siguiente',
+  'pdf.pageNumber': 'Página {page} de {total}',
+  'pdf.arrivalAbbr': 'll',
+  'pdf.departureAbbr': 's',
+  'pdf.wheelchairMark': 'PMR',
+  'pdf.bikeMark': 'Bici',
+  'pdf.stringlineTitle': 'Gráfico de circulación: {line}',
+  'pdf.frequencyTitle': 'Frecuencias: {direction}',
+  'pdf.frequencyDate': 'Día analizado: {date}',
+  'pdf.alertsTitle': 'Avisos del servicio:',
+  'legend.days': 'L: lunes; M: martes; X: miércoles; J: jueves; V: viernes; S: sábado; D: domingo.',
+  'legend.terminus': 'En la última estación de cada tren se indica la hora de llegada.',
+  'legend.dwell': 'll: llegada; s: salida.',
+  'legend.passThrough': '|: el tren pasa sin parar. En blanco: el tren no circula por esa estación.',
+  'legend.express': 'Fondo sombreado: tren semidirecto, no para en todas las estaciones de su recorrido.',
+  'legend.wheelchair': '{mark}: tren accesible para personas con movilidad reducida.',
+  'legend.bikes': '{mark}: admite bicicletas.',
+  'legend.accessibleStation': '({mark}) tras el nombre: estación accesible.',
+  'legend.stringlineOrder': 'Estaciones a intervalos iguales, en el orden de la línea.',
+  'legend.stringlineDistance': 'Estaciones separadas según su distancia real ({km} km en total).',
+  'legend.stringlineExpress': 'Línea discontinua: tren semidirecto.',
+  'legend.frequency': 'Por franja horaria: trenes por hora y tiempo entre trenes (mínimo / medio / máximo). Solo se cuentan las salidas: los trenes que terminan en la estación no se incluyen.',
+  'legend.connections': '->: siguiente conexión al llegar el tren, con su destino y hora de salida. <-: última llegada que permite coger el tren, con su origen y hora de llegada. Se cuenta el tiempo mínimo de transbordo.',
+  'legend.canceled': 'Fondo gris: tren suprimido.',
+  'legend.added': 'Fondo verde: tren añadido que no figura en el horario programado.',
+  'legend.delay': "(+5'): minutos de retraso sobre la hora programada, ya sumados a la hora indicada.",
+  'legend.skippedStop': 'X: el tren no para hoy en esta estación.',
+  'legend.canceledMark': '{mark}: tren suprimido.',
+  'poster.line': 'Línea {name}',
+  'poster.direction': 'Dirección {station}',
+  'poster.noDepartures': 'Sin salidas en esta dirección.',
+  'poster.accessibleStation': 'Estación accesible',
+  'poster.inaccessibleStation': 'Estación sin accesibilidad para personas con movilidad reducida',
+  'poster.connections': 'Conexiones con otros operadores',
+  'poster.shortTurn': '{mark}: hasta {station}',
+
+  // Day patterns
+  'day.monday': 'lunes',
+  'day.tuesday': 'martes',
+  'day.wednesday': 'miércoles',
+  'day.thursday': 'jueves',
+  'day.friday': 'viernes',
+  'day.saturday': 'sábado',
+  'day.sunday': 'domingo',
+  'pattern.dayLetters': 'L,M,X,J,V,S,D',
+  'pattern.daily': 'Diario',
+  'pattern.selectedDays': 'Días sueltos',
+  'pattern.holidays': 'festivos',
+  'pattern.sundayAndHolidays': 'D y festivos',
+  'pattern.onlyRunning': 'Solo circula el {dates}.',
+  'pattern.notRunning': 'No circula el {dates}',
+  'pattern.alsoRunning': 'Circula también el {dates}',
+  'list.and': ' y ',
+
+  // Feed comparison
+  'diff.title': 'Cambios de horario',
+  'diff.intro': 'Compara el horario procesado con el de un GTFS anterior para las mismas fechas.',
+  'diff.oldFile': 'GTFS anterior (.zip)',
+  'diff.chooseOld': 'Elegir GTFS anterior',
+  'diff.compare': 'Comparar',
+  'diff.summary': 'Nuevos: {added} · Suprimidos: {removed} · Modificados: {changed} · Sin cambios: {unchanged}',
+  'diff.none': 'No hay cambios en esta línea para las fechas elegidas.',
+  'diff.noChanges': 'Sin cambios.',
+  'diff.added': 'Nuevo',
+  'diff.removed': 'Suprimido',
+  'diff.changed': 'Modificado',
+  'diff.trainLabel': '{time} {origin} -> {destination}',
+  'diff.runs': 'Sale de {origin} a las {departure} y llega a {destination} a las {arrival}',
+  'diff.retimed': '{station}: {before} -> {after} ({delta} min)',
+  'diff.retimedAll': 'Todo el recorrido {delta} min ({station}: {before} -> {after})',
+  'diff.stopAdded': 'Nueva parada en {station}',
+  'diff.stopRemoved': 'Deja de parar en {station}',
+  'diff.daysAdded': 'Circula también el {dates}',
+  'diff.daysRemoved': 'Deja de circular el {dates}',
+  'diff.download': 'Descargar aviso de cambios (PDF)',
+
+  // GTFS validation
+  'validation.title': 'Informe de validación del GTFS',
+  'validation.feedRange': 'Vigencia del GTFS: {from} - {to}',
+  'validation.noFeedRange': 'No se ha podido determinar la vigencia del GTFS.',
+  'validation.fileRows': '{file}: {count} filas',
+  'validation.errors': '{count} errores',
+  'validation.warnings': '{count} avisos',
+  'validation.ok': 'No se han encontrado problemas.',
+  'validation.error': 'Error',
+  'validation.warning': 'Aviso',
+  'validation.occurrences': '{count} casos',
+  'validation.more': '... y {count} más',
+  'validation.download': 'Descargar informe',
+  'validation.missingFile': 'Falta el archivo {file}.',
+  'validation.missingCalendar': 'No hay calendar.txt ni calendar_dates.txt.',
+  'validation.malformedFile': '{file} no se puede leer: {detail}',
+  'validation.rangeOutsideFeed': 'El periodo {date} queda fuera de la vigencia del GTFS ({from} - {to}).',
+  'validation.rangePartlyOutside': 'Días del periodo {date} fuera de la vigencia del GTFS ({from} - {to}).',
+  'validation.daysWithoutService': 'Días del periodo sin ningún servicio de la línea.',
+  'validation.routeNotFound': 'Rutas de la línea que no existen en routes.txt.',
+  'validation.stationNotInStops': 'Estaciones de la línea que no existen en stops.txt.',
+  'validation.stationNotServed': 'Estaciones de la línea en las que no para ningún tren.',
+  'validation.unknownStop': 'Paradas de stop_times.txt que no existen en stops.txt.',
+  'validation.unknownTrip': 'Filas de stop_times.txt con un trip_id que no existe en trips.txt.',
+  'validation.duplicateTripId': 'trip_id repetidos en trips.txt.',
+  'validation.unknownService': 'Viajes con un service_id que no aparece en el calendario.',
+  'validation.invalidTime': 'Horas con formato no válido en stop_times.txt.',
+  'validation.timesBackwards': 'Viajes cuyas horas retroceden entre paradas.',
+  'validation.serviceWithoutTrips': 'Servicios del calendario sin ningún viaje.',
+
+  // Errors
+  'error.unknown': 'Error desconocido',
+  'error.worker': 'Error en el proceso de fondo',
+  'error.rangeReversed': 'La fecha final es anterior a la fecha inicial.',
+  'error.rangeTooLong': 'El periodo no puede superar {max} días.',
+  'error.noServicesDay': 'No se encontraron servicios activos para la fecha {date}.',
+  'error.noServicesRange': 'No se encontraron servicios activos para el periodo {date}.',
+  'error.missingFile': 'No se encontró {file}',
+  'error.routeWithoutTrips': 'La ruta {route} no tiene viajes.',
+  'error.gtfsLine': '{file}, línea {line}: {detail}',
+  'error.missingColumns': 'faltan columnas obligatorias: {columns}',
+  'error.fieldCount': 'se esperaban {expected} campos y se encontraron {found}',
+  'error.invalidStopSequence': 'stop_sequence no válido: "{value}"',
+  'error.csvAfterQuote': 'carácter inesperado tras cerrar comillas',
+  'error.csvQuoteInField': 'comillas dentro de un campo sin entrecomillar',
+  'error.csvUnclosedQuote': 'campo entrecomillado sin cerrar',
+  'error.profileNotObject': 'El perfil de línea no es un objeto JSON.',
+  'error.profileNoName': 'El perfil de línea no tiene nombre.',
+  'error.profileTooFewStations': 'El perfil de línea necesita al menos dos estaciones.',
+  'error.profileStationNoCode': 'La estación {index} del perfil no tiene código.',
+  'error.profileDuplicateCode': 'La estación {index} del perfil repite el código {code}.',
+  'error.profileInvalidJson': '{file} no es un archivo JSON válido.',
+  'error.interchangesNotList': 'Los transbordos deben ser una lista JSON.',
+  'error.interchangeInvalid': 'Al transbordo {index} le falta la estación, el GTFS o las paradas.',
+  'error.templateNotObject': 'La plantilla no es un objeto JSON.',
+  'error.templateNoName': 'La plantilla no tiene nombre.',
+  'error.templateFont': '{file} no es un tipo de letra TrueType (.ttf) válido.',
+  'error.templateLogo': '{file} no es una imagen PNG o JPEG válida.',
+  'error.qrTooLong': 'El enlace del código QR es demasiado largo (máximo {max} caracteres).',
+  'error.stationNotOnLine': 'La estación {station} no pertenece a la línea {line}.',
+  'error.protobuf': 'El archivo GTFS-Realtime no es válido (byte {offset}).',
+};
@@ -0,0 +1,425 @@
+import { Catalog } from '../utils/i18n';
+
+// Basque catalogue
+export const eu: Catalog = {
+  // App
+  'app.title': 'Gipuzkoako Aldiriak ordutegiak',
+  'app.subtitle': 'Datako PDF pertsonalizatuen sortzailea.',
+  'app.language': 'Hizkuntza',
+  'app.instructions': 'Argibideak: sortutako PDFak adierazitako datan dabiltzan trenak bakarrik izango ditu, jaiegunak eta operadorearen salbuespenak kontuan hartuta.',
+
+  // Date selection
+  'date.single': 'Zirkulazio-data',
+  'date.range': 'Zirkulazio-aldia',
+  'date.modeSingle': 'Egun bat',
+  'date.modeRange': 'Aldia',
+  'date.helpSingle': 'Aukeratu ordutegia sortu nahi duzun eguna.',
+  'date.helpRange': 'Tren berdinak elkartu egiten dira eta zein egunetan dabiltzan adierazten da (Al-Or, La, Ig eta jaiegunak...).',
+
+  // Service calendar
+  'coverage.show': 'Ikusi GTFSaren egutegia',
+  'coverage.months': 'Urtarrila,Otsaila,Martxoa,Apirila,Maiatza,Ekaina,Uztaila,Abuztua,Iraila,Urria,Azaroa,Abendua',
+  'coverage.previous': 'Aurreko hilabetea',
+  'coverage.next': 'Hurrengo hilabetea',
+  'coverage.holiday': 'Jaieguna',
+  'coverage.special': 'Zerbitzu berezia',
+  'coverage.reduced': 'Zerbitzu murriztua',
+  'coverage.changed': 'Zerbitzu aldatua',
+  'coverage.outside': 'GTFSaren indarraldetik kanpo',
+  'coverage.hint': 'Egun bakoitzean linearen trenak ageri dira. Sakatu egun bat hautatzeko; aldi moduan, ondorengo bigarren egun batek aldia ixten du.',
+
+  // File upload
+  'file.label': 'GTFS fitxategia (.zip)',
+  'file.placeholder': 'Igo fomento_transit.zip fitxategia',
+  'file.format': 'ZIP formatua behar da',
+
+  // Offline copy
+  'cache.restored': '{file} fitxategiaren kopia ({size} MB), {date} egunean gordea.',
+  'cache.feedRange': 'GTFSa indarrean: {from} - {to}.',
+  'cache.lineOnly': '{line} linearen trenak bakarrik ditu.',
+  'cache.saving': 'Konexiorik gabe erabiltzeko kopia gordetzen...',
+  'cache.saved': 'Konexiorik gabe erabiltzeko kopia gordeta ({size} MB).',
+  'cache.error': 'Ezin izan da konexiorik gabeko kopia gorde.',
+  'cache.forget': 'Ahaztu kopia',
+
+  // Realtime data
+  'realtime.label': 'Denbora errealean (GTFS-Realtime, aukerakoa):',
+  'realtime.choose': 'Aukeratu .pb fitxategia',
+  'realtime.remove': 'Kendu',
+  'realtime.timestamp': 'Datuak sortze-data: {time}.',
+  'realtime.summary': 'Eguneratutako trenak: {matched} · Gehitutakoak: {added} · Abisu aktiboak: {alerts}',
+  'realtime.rangeAlertsOnly': 'Trenen eguneraketak egun bateko ordutegietan bakarrik aplikatzen dira. Aldiko abisu aktiboak: {alerts}',
+  'realtime.alertsTitle': 'Denbora errealeko abisuak',
+  'realtime.addedTrains': 'Gehitutako trenak:',
+  'realtime.addedTrain': '{time} {origin} -> {destination}',
+
+  // PDF options
+  'options.content': 'Edukia',
+  'options.contentLine': 'Linearen ordutegi osoa',
+  'options.contentPoster': 'Irteeren kartela: {station}',
+  'options.layout': 'Diseinua',
+  'options.layoutRows': 'Tren bat errenkadako',
+  'options.layoutColumns': 'Tren bat zutabeko (kartela)',
+  'options.orientation': 'Orientazioa',
+  'options.landscape': 'Horizontala',
+  'options.portrait': 'Bertikala',
+  'options.columnsPerPage': 'Trenak orrialdeko',
+  'options.language': 'PDFaren hizkuntza',
+  'options.nextDayMarker': 'Markatu "+1" ikurrarekin gauerdiaren ondorengo orduak',
+  'options.arrivalAtTerminus': 'Tren bakoitzaren azken geltokian iristeko ordua',
+  'options.dwellBefore': 'Iritsiera eta irteera, geldialdiak gutxienez',
+  'options.dwellAfter': 'min irauten badu (0 = ez)',
+  'options.stringline': 'Zirkulazio-grafikoa',
+  'options.stringlineNone': 'Ez sartu',
+  'options.stringlineOrder': 'Geltokiak tarte berdinetan',
+  'options.stringlineDistance': 'Benetako distantziaren arabera',
+  'options.frequencyAppendix': 'Gehitu geltokien maiztasunen eranskina',
+
+  // PDF template
+  'template.title': 'Linearen ordutegiaren txantiloia',
+  'template.intro': 'Linearen ordutegiaren PDFaren koloreak, letra-mota, papera, goiburua eta orri-oina logotipoekin, QR kodea eta fitxategiaren izena. Geltokietako kartelek, bidaiek eta aldaketen oharrek beren formatua gordetzen dute. Nabigatzaile honetan gordetzen da eta JSON gisa parteka daiteke.',
+  'template.name': 'Izena',
+  'template.theme': 'Koloreak',
+  'template.themeRenfe': 'Renfe gorria',
+  'template.themeBlue': 'Urdina',
+  'template.themeGreen': 'Berdea',
+  'template.themeGrey': 'Grisa',
+  'template.headFill': 'Goiburuen atzealdea',
+  'template.headText': 'Goiburuen testua',
+  'template.titleText': 'Izenburuak',
+  'template.paper': 'Papera',
+  'template.paperA4': 'A4',
+  'template.paperA3': 'A3',
+  'template.paperLetter': 'Letter',
+  'template.fontSize': 'Letra-tamaina (pt)',
+  'template.margin': 'Marjinak (mm)',
+  'template.font': 'Letra-mota',
+  'template.defaultFont': 'Helvetica (barnean)',
+  'template.chooseFont': 'Aukeratu TTF',
+  'template.removeFont': 'Erabili Helvetica',
+  'template.pageTitle': 'Orrien izenburua',
+  'template.pageTitleHint': 'Hutsik ohiko izenbururako; {direction} noranzkoa da.',
+  'template.header': 'Goiburua',
+  'template.footer': 'Orri-oina',
+  'template.blockText': 'Testua',
+  'template.chooseLogo': 'Aukeratu logotipoa',
+  'template.removeLogo': 'Kendu logotipoa',
+  'template.qrUrl': 'QR kodearen esteka',
+  'template.fileName': 'Fitxategiaren izena',
+  'template.fileNameHint': '{line} linea da eta {date} datak.',
+  'template.save': 'Gorde JSON',
+  'template.load': 'Kargatu JSON',
+  'template.reset': 'Txantiloi lehenetsia',
+  'template.preview': 'Aurrebista',
+  'template.closePreview': 'Itxi aurrebista',
+  'template.previewNeedsTimetable': 'Prozesatu ordutegia, geltokiko kartelik gabe, aurrebista ikusteko.',
+
+  // Actions and status
+  'action.process': '1. Datuak prozesatu',
+  'action.processing': 'Iragazten eta prozesatzen...',
+  'action.cancel': 'Utzi',
+  'action.download': '2. PDFa deskargatu',
+  'action.generating': 'Sortzen...',
+  'action.validate': 'GTFSa balidatu',
+  'status.reading': 'Fitxategia irakurtzen hasten...',
+  'status.done': 'Prozesatzea ondo amaitu da.',
+  'status.error': 'Errorea: {message}',
+  'status.cancelled': 'Prozesatzea bertan behera utzi da.',
+  'status.generatingPdf': 'PDFa sortzen...',
+  'status.pdfDone': 'PDFa deskargatuta.',
+  'status.pdfError': 'Errorea PDFa sortzean.',
+  'status.xlsxError': 'Errorea Excel fitxategia sortzean.',
+  'status.validating': 'GTFS fitxategia balidatzen...',
+  'status.validated': 'Balidazioa amaituta: {errors} errore eta {warnings} abisu.',
+
+  // Progress
+  'progress.bytes': '{processed} / {total} MB',
+  'progress.bytesOnly': '{processed} MB',
+  'progress.rows': '{processed} / {total} bidaia',
+  'progress.rowsOnly': '{processed} bidaia',
+  'progress.filteringDay': '{date} datarako iragazten ({day})...',
+  'progress.filteringRange': '{date} aldirako iragazten ({count} egun)...',
+  'progress.unzipped': 'Fitxategia deskonprimatuta.',
+  'progress.calendar': 'Egutegia eta salbuespenak aztertzen...',
+  'progress.trips': 'Bidaia aktiboak prozesatzen ({count} zerbitzu)...',
+  'progress.stopTimes': 'Ordutegiak irakurtzen...',
+  'progress.organizing': 'Norabideak antolatzen...',
+  'progress.routeTrips': 'Linearen bidaiak bilatzen...',
+  'progress.stopSequences': 'Geltoki-sekuentziak irakurtzen...',
+  'progress.sortingStations': 'Geltokiak ordenatzen...',
+  'progress.checkingTimes': 'Orduen ordena egiaztatzen...',
+
+  // Summary and exports
+  'summary.title': 'Laburpena: {date}',
+  'summary.trains': '{count} tren',
+  'export.schema': 'JSON eskema',
+
+  // Timetable preview
+  'preview.title': 'Ordutegiaren aurrebista',
+  'preview.from': 'Irteerak',
+  'preview.to': 'eta',
+  'preview.stations': 'Geltokiak ({total}etik {shown})',
+  'preview.count': '{total} trenetatik {shown} PDFan',
+  'preview.hide': 'PDFtik kendu',
+  'preview.show': 'PDFan berriro sartu',
+  'preview.notePlaceholder': 'adib. Indargarria',
+  'preview.accessibleOnly': 'Tren irisgarriak soilik',
+  'preview.wheelchair': 'Tren irisgarria',
+  'preview.bikes': 'Bizikletak onartzen ditu',
+  'preview.reset': 'Aldaketak desegin',
+  'preview.none': 'Ez dago trenik tarte honetan.',
+  'preview.hint': 'Iragazkiak, kendutako trenak eta oharrak PDFan aplikatzen dira. Geltokietako kartelek geltoki guztiak erabiltzen dituzte.',
+
+  // Time-distance diagram
+  'stringline.title': 'Zirkulazio-grafikoa',
+  'stringline.spacing': 'Geltokiak',
+  'stringline.zoomIn': 'Handitu',
+  'stringline.zoomOut': 'Txikitu',
+  'stringline.noDistances': 'GTFSak ez ditu geltoki guztien koordenatuak: tarte berdinetan marrazten dira.',
+  'stringline.none': 'Ez dago marrazteko trenik.',
+  'stringline.hint': 'Marra bakoitza tren bat da: gurutzatzen diren marrak trenen gurutzaketak dira, elkartzen direnak tren pilatuak eta hutsuneak zerbitzurik gabeko tarteak.',
+
+  // Connections with other operators
+  'connection.title': 'Beste operadore batzuekiko loturak',
+  'connection.intro': 'Gehitu beste operadore batzuen GTFSak (Euskotren, autobusak, distantzia luzea...) eta adierazi zein geltokitan alda daitekeen. Ordutegiak eta kartelek tren bakoitzaren hurrengo lotura posiblea erakutsiko dute.',
+  'connection.addFeeds': 'Gehitu GTFSa',
+  'connection.add': 'Gehitu aldaketa',
+  'connection.remove': 'Kendu',
+  'connection.station': 'Geltokia',
+  'connection.feed': 'GTFS',
+  'connection.stops': 'Geralekuak',
+  'connection.addStop': 'Gehitu geralekua',
+  'connection.minTransfer': 'Aldaketa (min)',
+  'connection.towards': 'Norantz / nondik (aukerakoa)',
+  'connection.noFeeds': 'Gehitu GTFS bat gutxienez aldaketak zehazteko.',
+  'connection.missingFeed': 'Gehitu berriro {feed}: fitxategiak ez dira bisiten artean gordetzen.',
+  'connection.search': 'Bilatu loturak',
+  'connection.needsTimetable': 'Prozesatu lehenik ordutegia: loturak data berdinetarako bilatzen dira.',
+  'connection.found': 'Beste operadoreen geldialdiak: {count}.',
+  'connection.onward': '-> {destination} {time} ({operator})',
+  'connection.feeder': '<- {origin} {time} ({operator})',
+
+  // Frequency analysis
+  'headway.title': 'Maiztasunak geltokiz geltoki',
+  'headway.intro': 'Orduko trenak, trenen arteko denbora eta zerbitzurik gabeko tarterik luzeenak geltoki bakoitzean, ordu-tarteka.',
+  'headway.date': 'Aztertutako eguna',
+  'headway.compareWith': 'Honekin alderatu',
+  'headway.compare': 'Alderatu',
+  'headway.clearCompare': 'Kendu alderaketa',
+  'headway.comparing': '{date} eguneko balioak',
+  'headway.comparingWith': '/ {date} eguneko balioak',
+  'headway.band': 'Tartea',
+  'headway.trainsPerHour': 'Orduko trenak',
+  'headway.perHour': '{count}/h',
+  'headway.min': 'Gutxienez',
+  'headway.average': 'Batez beste',
+  'headway.max': 'Gehienez',
+  'headway.gaps': 'Tarterik luzeenak:',
+  'headway.noTrains': 'Ez da trenik irteten geltoki honetatik norabide honetan.',
+  'headway.bandEarly': '07:00 arte',
+  'headway.bandMorningPeak': 'Goizeko punta (07-10)',
+  'headway.bandMidday': 'Harana (10-16)',
+  'headway.bandEveningPeak': 'Arratsaldeko punta (16-20)',
+  'headway.bandEvening': '20:00etatik aurrera',
+
+  // Line selection
+  'line.label': 'Linea',
+  'line.stationCount': '{name} ({count} geltoki)',
+  'line.unsaved': '{name} (gorde gabe)',
+  'line.useRoute': 'Ibilbidea erabili',
+  'line.chooseRoute': 'GTFSko ibilbidea aukeratu',
+  'line.edit': 'Geltokiak editatu',
+  'line.closeEdit': 'Edizioa itxi',
+  'line.save': 'Profila gorde',
+  'line.export': 'JSON esportatu',
+  'line.import': 'JSON inportatu',
+  'line.delete': 'Profila ezabatu',
+  'line.readingRoutes': 'routes.txt irakurtzen...',
+  'line.derivingRoute': 'Ibilbideko geltokiak kalkulatzen...',
+  'line.namePlaceholder': 'Linearen izena',
+  'line.basqueName': 'Izena euskaraz',
+  'line.moveUp': 'Igo',
+  'line.moveDown': 'Jaitsi',
+  'line.remove': 'Kendu',
+
+  // Journey lookup
+  'journey.title': 'Bidaia-kontsulta',
+  'journey.origin': 'Jatorria',
+  'journey.destination': 'Helmuga',
+  'journey.swap': 'Alderantzikatu',
+  'journey.windowFrom': 'Irteerak',
+  'journey.windowAnd': 'eta',
+  'journey.windowEnd': 'artean',
+  'journey.window': 'Irteerak {from} eta {to} artean',
+  'journey.sameStation': 'Jatorriak eta helmugak desberdinak izan behar dute.',
+  'journey.none': 'Ez dago tren zuzenik geltoki hauen artean.',
+  'journey.noTrains': 'Ez dago tren zuzenik',
+  'journey.selectAll': 'Guztiak hautatu',
+  'journey.downloadPdf': 'Bidaia PDFan deskargatu',
+  'journey.addToCalendar': 'Egutegira gehitu (.ics)',
+  'journey.calendarSummary': 'Trena {origin} -> {destination}',
+
+  // Table columns
+  'column.days': 'Egunak',
+  'column.station': 'Geltokia',
+  'column.origin': 'Jatorria',
+  'column.destination': 'Helmuga',
+  'column.hour': 'Ordua',
+  'column.minutes': 'Minutuak',
+  'column.departure': 'Irteera',
+  'column.arrival': 'Iritsiera',
+  'column.duration': 'Iraupena',
+  'column.train': 'Trena',
+  'column.change': 'Aldaketa',
+  'column.detail': 'Xehetasuna',
+  'column.notes': 'Oharrak',
+  'column.services': 'Zerbitzuak',
+  'column.connections': 'Loturak',
+  'column.firstTrain': 'Lehen trena',
+  'column.lastTrain': 'Azken trena',
+  'column.trains': 'Trenak',
+  'column.longestGap': 'Tarterik luzeena',
+
+  // PDF
+  'pdf.title': 'Ordutegiak: {direction}',
+  'pdf.continued': '{title} (jarraipena)',
+  'pdf.singleDate': 'Zirkulazio-data: {date}',
+  'pdf.period': 'Zirkulazio-aldia: {date}',
+  'pdf.continuesNextPage': 'Hurrengo orrialdean jarraitzen du',
+  'pdf.pageNumber': '{page}/{total} orrialdea',
+  'pdf.arrivalAbbr': 'h',
+  'pdf.departureAbbr': 'i',
+  'pdf.wheelchairMark': 'MUP',
+  'pdf.bikeMark': 'Bizi',
+  'pdf.stringlineTitle': 'Zirkulazio-grafikoa: {line}',
+  'pdf.frequencyTitle': 'Maiztasunak: {direction}',
+  'pdf.frequencyDate': 'Aztertutako eguna: {date}',
+  'pdf.alertsTitle': 'Zerbitzuaren abisuak:',
+  'legend.days': 'Al: astelehena; Ar: asteartea; Az: asteazkena; Og: osteguna; Or: ostirala; La: larunbata; Ig: igandea.',
+  'legend.terminus': 'Tren bakoitzaren azken geltokian iristeko ordua adierazten da.',
+  'legend.dwell': 'h: heltzea; i: irteera.',
+  'legend.passThrough': '|: trena gelditu gabe igarotzen da. Zuriz: trena ez da geltoki horretatik igarotzen.',
+  'legend.express': 'Atzealde ilundua: tren erdizuzena, ez da gelditzen bere ibilbideko geltoki guztietan.',
+  'legend.wheelchair': '{mark}: mugikortasun urriko pertsonentzako tren irisgarria.',
+  'legend.bikes': '{mark}: bizikletak onartzen ditu.',
+  'legend.accessibleStation': '({mark}) izenaren ondoan: geltoki irisgarria.',
+  'legend.stringlineOrder': 'Geltokiak tarte berdinetan, linearen ordenan.',
+  'legend.stringlineDistance': 'Geltokiak benetako distantziaren arabera bereizita ({km} km guztira).',
+  'legend.stringlineExpress': 'Marra etena: tren erdizuzena.',
+  'legend.frequency': 'Ordu-tarteka: orduko trenak eta trenen arteko denbora (gutxienekoa / batez bestekoa / gehienekoa). Irteerak bakarrik zenbatzen dira: geltokian amaitzen diren trenak ez dira sartzen.',
+  'legend.connections': '->: trena iristean hurrengo lotura, helmugarekin eta irteera-orduarekin. <-: trena hartzeko aukera ematen duen azken iritsiera, jatorriarekin eta iritsiera-orduarekin. Gutxieneko aldaketa-denbora kontuan hartzen da.',
+  'legend.canceled': 'Atzealde grisa: kendutako trena.',
+  'legend.added': 'Atzealde berdea: programatutako ordutegian ez dagoen tren gehigarria.',
+  'legend.delay': "(+5'): programatutako orduarekiko atzerapena minututan, adierazitako orduari gehituta.",
+  'legend.skippedStop': 'X: trena ez da gaur geltoki honetan gelditzen.',
+  'legend.canceledMark': '{mark}: kendutako trena.',
+  'poster.line': '{name} linea',
+  'poster.direction': '{station} norabidea',
+  'poster.noDepartures': 'Ez dago irteerarik norabide honetan.',
+  'poster.accessibleStation': 'Geltoki irisgarria',
+  'poster.inaccessibleStation': 'Mugikortasun urriko pertsonentzat irisgarria ez den geltokia',
+  'poster.connections': 'Beste operadore batzuekiko loturak',
+  'poster.shortTurn': '{mark}: {station} arte',
+
+  // Day patterns
+  'day.monday': 'astelehena',
+  'day.tuesday': 'asteartea',
+  'day.wednesday': 'asteazkena',
+  'day.thursday': 'osteguna',
+  'day.friday': 'ostirala',
+  'day.saturday': 'larunbata',
+  'day.sunday': 'igandea',
+  'pattern.dayLetters': 'Al,Ar,Az,Og,Or,La,Ig',
+  'pattern.daily': 'Egunero',
+  'pattern.selectedDays': 'Egun jakinak',
+  'pattern.holidays': 'jaiegunak',
+  'pattern.sundayAndHolidays': 'Ig eta jaiegunak',
+  'pattern.onlyRunning': 'Egun hauetan bakarrik: {dates}.',
+  'pattern.notRunning': 'Ez dabil egun hauetan: {dates}',
+  'pattern.alsoRunning': 'Egun hauetan ere bai: {dates}',
+  'list.and': ' eta ',
+
+  // Feed comparison
+  'diff.title': 'Ordutegi-aldaketak',
+  'diff.intro': 'Prozesatutako ordutegia aurreko GTFS batekoarekin alderatzen du, data berdinetarako.',
+  'diff.oldFile': 'Aurreko GTFSa (.zip)',
+  'diff.chooseOld': 'Aurreko GTFSa aukeratu',
+  'diff.compare': 'Alderatu',
+  'diff.summary': 'Berriak: {added} · Kenduak: {removed} · Aldatuak: {changed} · Aldaketarik gabe: {unchanged}',
+  'diff.none': 'Ez dago aldaketarik linea honetan aukeratutako datetarako.',
+  'diff.noChanges': 'Aldaketarik ez.',
+  'diff.added': 'Berria',
+  'diff.removed': 'Kendua',
+  'diff.changed': 'Aldatua',
+  'diff.trainLabel': '{time} {origin} -> {destination}',
+  'diff.runs': 'Irteera: {origin} {departure}. Iritsiera: {destination} {arrival}',
+  'diff.retimed': '{station}: {before} -> {after} ({delta} min)',
+  'diff.retimedAll': 'Ibilbide osoa {delta} min ({station}: {before} -> {after})',
+  'diff.stopAdded': 'Geldialdi berria: {station}',
+  'diff.stopRemoved': 'Ez da gehiago gelditzen: {station}',
+  'diff.daysAdded': 'Egun hauetan ere bai: {dates}',
+  'diff.daysRemoved': 'Ez dabil gehiago egun hauetan: {dates}',
+  'diff.download': 'Aldaketen oharra deskargatu (PDF)',
+
+  // GTFS validation
+  'validation.title': 'GTFSaren balidazio-txostena',
+  'validation.feedRange': 'GTFSaren indarraldia: {from} - {to}',
+  'validation.noFeedRange': 'Ezin izan da GTFSaren indarraldia zehaztu.',
+  'validation.fileRows': '{file}: {count} errenkada',
+  'validation.errors': '{count} errore',
+  'validation.warnings': '{count} abisu',
+  'validation.ok': 'Ez da arazorik aurkitu.',
+  'validation.error': 'Errorea',
+  'validation.warning': 'Abisua',
+  'validation.occurrences': '{count} kasu',
+  'validation.more': '... eta beste {count}',
+  'validation.download': 'Txostena deskargatu',
+  'validation.missingFile': '{file} fitxategia falta da.',
+  'validation.missingCalendar': 'Ez dago calendar.txt ez calendar_dates.txt fitxategirik.',
+  'validation.malformedFile': 'Ezin da {file} irakurri: {detail}',
+  'validation.rangeOutsideFeed': '{date} aldia GTFSaren indarralditik kanpo dago ({from} - {to}).',
+  'validation.rangePartlyOutside': '{date} aldiko egunak GTFSaren indarralditik kanpo ({from} - {to}).',
+  'validation.daysWithoutService': 'Linearen zerbitzurik gabeko egunak aldian.',
+  'validation.routeNotFound': 'routes.txt fitxategian ez dauden linearen ibilbideak.',
+  'validation.stationNotInStops': 'stops.txt fitxategian ez dauden linearen geltokiak.',
+  'validation.stationNotServed': 'Trenik gelditzen ez den linearen geltokiak.',
+  'validation.unknownStop': 'stops.txt fitxategian ez dauden stop_times.txt-eko geltokiak.',
+  'validation.unknownTrip': 'trips.txt fitxategian ez dagoen trip_id bat duten stop_times.txt-eko errenkadak.',
+  'validation.duplicateTripId': 'trips.txt fitxategian errepikatutako trip_id-ak.',
+  'validation.unknownService': 'Egutegian ez dagoen service_id bat duten bidaiak.',
+  'validation.invalidTime': 'Formatu baliogabeko orduak stop_times.txt fitxategian.',
+  'validation.timesBackwards': 'Geltokien artean orduak atzera egiten dituzten bidaiak.',
+  'validation.serviceWithoutTrips': 'Bidaiarik gabeko egutegiko zerbitzuak.',
+
+  // Errors
+  'error.unknown': 'Errore ezezaguna',
+  'error.worker': 'Errorea atzeko prozesuan',
+  'error.rangeReversed': 'Amaiera-data hasiera-data baino lehenagokoa da.',
+  'error.rangeTooLong': 'Aldiak ezin ditu {max} egun gainditu.',
+  'error.noServicesDay': 'Ez da zerbitzu aktiborik aurkitu {date} egunerako.',
+  'error.noServicesRange': 'Ez da zerbitzu aktiborik aurkitu {date} aldirako.',
+  'error.missingFile': 'Ez da {file} aurkitu',
+  'error.routeWithoutTrips': '{route} ibilbideak ez du bidaiarik.',
+  'error.gtfsLine': '{file}, {line}. lerroa: {detail}',
+  'error.missingColumns': 'derrigorrezko zutabeak falta dira: {columns}',
+  'error.fieldCount': '{expected} eremu espero ziren eta {found} aurkitu dira',
+  'error.invalidStopSequence': 'stop_sequence baliogabea: "{value}"',
+  'error.csvAfterQuote': 'ustekabeko karakterea komatxoak itxi ondoren',
+  'error.csvQuoteInField': 'komatxoak komatxorik gabeko eremu baten barruan',
+  'error.csvUnclosedQuote': 'itxi gabeko komatxodun eremua',
+  'error.profileNotObject': 'Linea-profila ez da JSON objektu bat.',
+  'error.profileNoName': 'Linea-profilak ez du izenik.',
+  'error.profileTooFewStations': 'Linea-profilak gutxienez bi geltoki behar ditu.',
+  'error.profileStationNoCode': 'Profileko {index}. geltokiak ez du koderik.',
+  'error.profileDuplicateCode': 'Profileko {index}. geltokiak {code} kodea errepikatzen du.',
+  'error.profileInvalidJson': '{file} ez da JSON fitxategi baliozkoa.',
+  'error.interchangesNotList': 'Aldaketek JSON zerrenda bat izan behar dute.',
+  'error.interchangeInvalid': '{index}. aldaketari geltokia, GTFSa edo geralekuak falta zaizkio.',
+  'error.templateNotObject': 'Txantiloia ez da JSON objektu bat.',
+  'error.templateNoName': 'Txantiloiak ez du izenik.',
+  'error.templateFont': '{file} ez da TrueType (.ttf) letra-mota baliozkoa.',
+  'error.templateLogo': '{file} ez da PNG edo JPEG irudi baliozkoa.',
+  'error.qrTooLong': 'QR kodearen esteka luzeegia da ({max} karaktere gehienez).',
+  'error.stationNotOnLine': '{station} geltokia ez dago {line} linean.',
+  'error.protobuf': 'GTFS-Realtime fitxategia ez da baliozkoa ({offset}. bytea).',
+};
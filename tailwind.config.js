@@ -0,0 +1,15 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './index.tsx', './components/**/*.tsx'],
+  theme: {
+    extend: {
+      colors: {
+        renfe: {
+          primary: '#672f8a', // Renfe purple generic
+          secondary: '#a13c98',
+          cercanias: '#e30613', // Cercanias red
+        }
+      }
+    }
+  }
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { Interchange } from '../types';
+import { ConnectionCalls, connectionText, parseInterchanges, readConnectionCalls, tripConnections } from '../utils/connections';
+import { parseGTFS } from '../utils/gtfsParser';
+import { LocalizedError, translator } from '../utils/i18n';
+import { BASE_FEED, CONNECTION_FEED, FeedFiles, TEST_LINE, withRows, zipFeed } from './fixtures/gtfsFeeds';
+
+const MONDAY = { from: '2026-12-07', to: '2026-12-07' };
+
+const IRUN: Interchange = { stationCode: '11600', feedName: 'euskotren.zip', stopIds: ['E1'], minTransfer: 5, towards: '' };
+
+const readCalls = async (feed = CONNECTION_FEED): Promise<ConnectionCalls> =>
+  ({ 'euskotren.zip': await readConnectionCalls(await zipFeed(feed), 'euskotren.zip', ['E1'], MONDAY, () => {}) });
+
+// Connection texts of each train of the Monday, by trip id
+const connectionTexts = async (interchange: Interchange, lineFeed = BASE_FEED, connectionFeed = CONNECTION_FEED) => {
+  const data = await parseGTFS(await zipFeed(lineFeed), MONDAY, TEST_LINE, () => {});
+  const calls = await readCalls(connectionFeed);
+  const t = translator('es');
+  return Object.fromEntries([...data.toBrinkola, ...data.toIrun].map(trip => [
+    trip.id,
+    tripConnections(trip, TEST_LINE.stations, [interchange], calls).map(connection => connectionText(connection, t)),
+  ]));
+};
+
+describe('readConnectionCalls', () => {
+  it('reads the calls at the interchange stops, counting those after midnight on the next day', async () => {
+    const calls = (await readCalls())['euskotren.zip'];
+
+    expect(calls).toHaveLength(7); // EX only runs on weekends: Sunday 6, the day before the range
+    expect(calls[0]).toEqual({
+      stopId: 'E1',
+      arrival: 5 * 60,
+      departure: 5 * 60,
+      days: ['20261207', '20261208'],
+      origin: 'Hendaia',
+      destination: 'Irun Colon',
+      operator: 'Euskotren',
+      canBoard: false,
+      canAlight: true,
+    });
+    expect(calls.map(call => call.destination)).toEqual(['Irun Colon', 'Donostia', 'Hendaia', 'Irun Colon', 'Donostia', 'Hendaia', 'Hendaia']);
+  });
+});
+
+describe('tripConnections', () => {
+  it('offers the last arrival before a train starts and the next departure after it ends', async () => {
+    expect(await connectionTexts(IRUN)).toEqual({
+      L1: ['<- Hendaia 06:52 (Euskotren)'],
+      L3: ['<- Donostia 08:27 (Euskotren)'],
+      O1: ['-> Donostia 06:52 (Euskotren)'],
+      L2: ['-> Hendaia 08:27 (Euskotren)'],
+      S1: [], // E16 leaves more than an hour after the change
+    });
+  });
+
+  it('leaves time to change and keeps to the chosen direction', async () => {
+    expect(await connectionTexts({ ...IRUN, minTransfer: 10 })).toMatchObject({ L1: [], O1: ['-> Donostia 06:52 (Euskotren)'] });
+    expect(await connectionTexts({ ...IRUN, towards: 'hendaia' })).toMatchObject({
+      L3: ['<- Hendaia 08:07 (Euskotren)'],
+      O1: ['-> Hendaia 07:02 (Euskotren)'],
+    });
+  });
+});
+
+describe('connections across midnight', () => {
+  // N2 leaves Irún at 00:05 on Monday, a train of Sunday's OLD service. N3 and
+  // N4 reach Irún at 23:54 and 24:10 on Monday.
+  const NIGHT_LINE: FeedFiles = withRows(
+    withRows(BASE_FEED, 'trips.txt', 'C1,OLD,N2,0', 'C1,LAB,N3,1', 'C1,LAB,N4,1'),
+    'stop_times.txt',
+    'N2,24:05:00,24:05:00,11600,1',
+    'N2,24:18:00,24:18:00,11515,2',
+    'N3,23:40:00,23:40:00,11515,1',
+    'N3,23:54:00,23:54:00,11600,2',
+    'N4,23:56:00,23:56:00,11515,1',
+    'N4,24:10:00,24:10:00,11600,2',
+  );
+  // E18 leaves Irun Colon at 24:10 and E19 at 00:30
+  const NIGHT_CONNECTIONS: FeedFiles = withRows(
+    withRows(CONNECTION_FEED, 'trips.txt', 'E1,ALL,E18,', 'E1,ALL,E19,'),
+    'stop_times.txt',
+    'E18,24:10:00,24:10:00,E1,1',
+    'E18,24:30:00,24:30:00,E3,2',
+    'E19,00:30:00,00:30:00,E1,1',
+    'E19,00:50:00,00:50:00,E3,2',
+  );
+
+  it('finds the next calendar day\'s departures and the day before\'s arrivals', async () => {
+    expect(await connectionTexts(IRUN, NIGHT_LINE, NIGHT_CONNECTIONS)).toMatchObject({
+      N2: ['<- Donostia 23:52 (Euskotren)'], // E16 on Sunday
+      N3: ['-> Donostia 00:10 (Euskotren)'], // E18 on Tuesday
+      N4: ['-> Donostia 00:30 (Euskotren)'], // E19 on Tuesday, not Monday's
+    });
+  });
+});
+
+describe('parseInterchanges', () => {
+  it('fills in the optional fields and rejects incomplete entries', () => {
+    expect(parseInterchanges([{ stationCode: '11600', feedName: 'euskotren.zip', stopIds: ['E1'] }])).toEqual([IRUN]);
+    expect(() => parseInterchanges([{ stationCode: '11600' }])).toThrow(LocalizedError);
+    expect(() => parseInterchanges({})).toThrow(LocalizedError);
+  });
+});
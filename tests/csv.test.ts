@@ -0,0 +1,20 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { streamZipCsv } from '../utils/csv';
+import { BASE_FEED, zipFeed } from './fixtures/gtfsFeeds';
+
+describe('streamZipCsv', () => {
+  it('reports the bytes read against the size of the entry', async () => {
+    const zip = await JSZip.loadAsync(await zipFeed(BASE_FEED));
+    const size = new TextEncoder().encode(BASE_FEED['stop_times.txt']).length;
+    const progress: [number, number][] = [];
+    const rows: string[][] = [];
+
+    const found = await streamZipCsv(zip, 'stop_times.txt', fields => rows.push(fields), (read, total) => progress.push([read, total]));
+
+    expect(found).toBe(true);
+    expect(rows.length).toBeGreaterThan(1);
+    // A zero total would mean JSZip no longer exposes the entry size
+    expect(progress[progress.length - 1]).toEqual([size, size]);
+  });
+});
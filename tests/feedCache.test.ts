@@ -0,0 +1,51 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { DateRange } from '../types';
+import { compactGTFS } from '../utils/feedCache';
+import { parseGTFS } from '../utils/gtfsParser';
+import { BASE_FEED, TEST_LINE, withRows, zipFeed } from './fixtures/gtfsFeeds';
+
+// A train of another line, sharing no station with the test line
+const FEED = withRows(
+  withRows(
+    withRows(BASE_FEED, 'trips.txt', 'C9,LAB,X1,0'),
+    'stop_times.txt',
+    'X1,07:00:00,07:00:00,11514,1',
+    'X1,07:30:00,07:30:00,11305,2',
+  ),
+  'stops.txt',
+  '11514,Herrera',
+  '11305,"Bríncola, apeadero"',
+);
+
+const parse = (source: Uint8Array, range: DateRange) => parseGTFS(source, range, TEST_LINE, () => {});
+
+const readFile = async (bytes: Uint8Array, name: string) => (await JSZip.loadAsync(bytes)).file(name)?.async('string');
+
+describe('compactGTFS', () => {
+  it('parses into the same timetable as the full feed', async () => {
+    const full = await zipFeed(FEED);
+    const { bytes } = await compactGTFS(full, TEST_LINE, () => {});
+
+    for (const range of [{ from: '2026-12-07', to: '2026-12-07' }, { from: '2026-12-01', to: '2026-12-31' }]) {
+      expect(await parse(bytes, range)).toEqual(await parse(full, range));
+    }
+  });
+
+  it('keeps the whole trips of the line and drops the other ones', async () => {
+    const { bytes } = await compactGTFS(await zipFeed(FEED), TEST_LINE, () => {});
+
+    expect(await readFile(bytes, 'trips.txt')).not.toContain('X1');
+    expect(await readFile(bytes, 'stops.txt')).not.toContain('Bríncola');
+    // L4 has one station of the line: it keeps its stop outside it
+    expect(await readFile(bytes, 'stop_times.txt')).toContain('L4,10:00:00,10:00:00,HEN,1');
+    expect(await readFile(bytes, 'stops.txt')).toContain('HEN,Hendaye');
+    expect(await readFile(bytes, 'calendar_dates.txt')).toBe(FEED['calendar_dates.txt']);
+  });
+
+  it('reports the service dates of the feed', async () => {
+    const { feedRange } = await compactGTFS(await zipFeed(FEED), TEST_LINE, () => {});
+
+    expect(feedRange).toEqual({ from: '20261101', to: '20261231' });
+  });
+});
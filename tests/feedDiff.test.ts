@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { DateRange, ParsedTimetable } from '../types';
+import { changeDetails, diffSummary, diffTimetables, trainLabel } from '../utils/feedDiff';
+import { parseGTFS } from '../utils/gtfsParser';
+import { translator } from '../utils/i18n';
+import { BASE_FEED, FeedFiles, TEST_LINE, withFiles, withRows, zipFeed } from './fixtures/gtfsFeeds';
+
+// Seconds from midnight for "HH:MM"
+const at = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 3600 + m * 60;
+};
+
+const parse = async (files: FeedFiles, range: DateRange): Promise<ParsedTimetable> =>
+  parseGTFS(await zipFeed(files), range, TEST_LINE, () => {});
+
+const MONDAY: DateRange = { from: '2026-12-07', to: '2026-12-07' };
+
+// The next edition of the base feed:
+//   L3  five minutes later along its whole run
+//   O1  renumbered O2, reaching Irún a minute later
+//   S1  withdrawn
+//   N1  new, Irún 12:00 -> Pasaia 12:13
+const NEW_FEED = withRows(
+  withRows(
+    withFiles(BASE_FEED, {
+      'trips.txt': BASE_FEED['trips.txt']
+        .split('\n')
+        .filter(row => !row.startsWith('C1,SPX,S1,'))
+        .join('\n')
+        .replace('C1,OLD,O1,1', 'C1,OLD,O2,1'),
+      'stop_times.txt': BASE_FEED['stop_times.txt']
+        .replace('L3,09:09:00,09:09:00', 'L3,09:14:00,09:14:00')
+        .replace('L3,09:04:00,09:04:00', 'L3,09:09:00,09:09:00')
+        .replace('L3,09:00:00,09:00:00', 'L3,09:05:00,09:05:00')
+        .replace('O1,06:09:00,06:09:00', 'O1,06:10:00,06:10:00')
+        .replace(/^O1,/gm, 'O2,'),
+    }),
+    'trips.txt',
+    'C1,LAB,N1,0',
+  ),
+  'stop_times.txt',
+  'N1,12:00:00,12:00:00,11600,1',
+  'N1,12:13:00,12:13:00,11515,2',
+);
+
+describe('diffTimetables', () => {
+  it('finds the added, removed and retimed trains of each direction', async () => {
+    const diff = diffTimetables(await parse(BASE_FEED, MONDAY), await parse(NEW_FEED, MONDAY));
+    const [forward, backward] = diff.directions;
+
+    expect(diff.dateUsed).toBe('07/12/2026');
+    expect(forward.changes.map(c => [c.kind, (c.after ?? c.before)?.id])).toEqual([['changed', 'L3'], ['added', 'N1']]);
+    expect(backward.changes.map(c => [c.kind, (c.after ?? c.before)?.id])).toEqual([['changed', 'O2'], ['removed', 'S1']]);
+    expect(diffSummary(diff)).toEqual({ added: 1, removed: 1, changed: 2, unchanged: 2 });
+  });
+
+  it('pairs trains by trip_id first, then by calling pattern and departure', async () => {
+    const diff = diffTimetables(await parse(BASE_FEED, MONDAY), await parse(NEW_FEED, MONDAY));
+    const [l3] = diff.directions[0].changes;
+    const [o2] = diff.directions[1].changes;
+
+    expect(l3.matchedBy).toBe('tripId');
+    expect(l3.retimed.map(stop => [stop.codigo, stop.delta])).toEqual([['11600', 5], ['11518', 5], ['11516', 5]]);
+    expect(o2.matchedBy).toBe('pattern');
+    expect(o2.before?.id).toBe('O1');
+    expect(o2.retimed).toEqual([{ codigo: '11600', before: at('06:09'), after: at('06:10'), delta: 1 }]);
+    expect([o2.addedStops, o2.removedStops]).toEqual([[], []]);
+  });
+
+  it('lists the days a train gains or loses over a date range', async () => {
+    const range = { from: '2026-12-07', to: '2026-12-08' };
+    // Without the holiday the weekday trains also run on the 8th
+    const noHoliday = withFiles(BASE_FEED, {
+      'calendar_dates.txt': BASE_FEED['calendar_dates.txt'].replace('LAB,20261208,2\n', ''),
+    });
+    const diff = diffTimetables(await parse(BASE_FEED, range), await parse(noHoliday, range));
+    const l3 = diff.directions[0].changes.find(c => c.after?.id === 'L3');
+
+    expect(l3?.kind).toBe('changed');
+    expect([l3?.addedDays, l3?.removedDays, l3?.retimed]).toEqual([['20261208'], [], []]);
+  });
+
+  it('describes a train shifted as a whole in one line', async () => {
+    const diff = diffTimetables(await parse(BASE_FEED, MONDAY), await parse(NEW_FEED, MONDAY));
+    const [l3, n1] = diff.directions[0].changes;
+    const t = translator('es');
+
+    expect(trainLabel(l3, TEST_LINE, t, 'es')).toBe('09:05 Irún -> Lezo-Rentería');
+    expect(changeDetails(l3, TEST_LINE, t, 'es')).toEqual(['Todo el recorrido +5 min (Irún: 09:00 -> 09:05)']);
+    expect(changeDetails(n1, TEST_LINE, t, 'es')).toEqual(['Sale de Irún a las 12:00 y llega a Pasaia a las 12:13']);
+  });
+});
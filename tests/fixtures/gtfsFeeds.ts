@@ -0,0 +1,198 @@
+import JSZip from 'jszip';
+import { GIPUZKOA_LINE, GIPUZKOA_STATIONS, LineDefinition } from '../../constants';
+
+// Hand-built GTFS feeds for the tests. Each feed is a map of file name to CSV
+// text, zipped on demand so a test can drop or replace single files.
+
+export type FeedFiles = Record<string, string>;
+
+// Irun (1), Ventas de Irún (2), Lezo-Rentería (3) and Pasaia (4)
+export const TEST_LINE: LineDefinition = {
+  ...GIPUZKOA_LINE,
+  id: 'test',
+  name: 'Prueba',
+  stations: GIPUZKOA_STATIONS.slice(0, 4),
+};
+
+const csv = (...rows: string[]) => rows.join('\n') + '\n';
+
+// December 2026. Tuesday 8 is a holiday: the weekday service is removed and the
+// weekend one added. SPX only runs on Monday 7, added through calendar_dates.
+// OLD runs every day but its period ends on Monday 7.
+//
+// Trains (line orden in brackets):
+//   L1   weekdays, Irun (1) -> Pasaia (4), stop_times rows out of order
+//   L2   weekdays, Pasaia (4) -> Irun (1)
+//   L3   weekdays, short-turn Irun (1) -> Lezo (3)
+//   L4   weekdays, Hendaye -> Irun: only one station of the line
+//   F1   weekends, Irun (1) -> Pasaia (4)
+//   F2   weekends, same times as L1
+//   S1   special, Pasaia (4) -> Irun (1) without intermediate stops
+//   O1   every day until the 7th, Lezo (3) -> Irun (1)
+export const BASE_FEED: FeedFiles = {
+  'agency.txt': csv(
+    'agency_id,agency_name,agency_url,agency_timezone',
+    'RENFE,Renfe Cercanías,https://www.renfe.com,Europe/Madrid',
+  ),
+  'routes.txt': csv(
+    'route_id,agency_id,route_short_name,route_long_name,route_type',
+    'C1,RENFE,C1,Irun - Brinkola,2',
+  ),
+  'stops.txt': csv(
+    'stop_id,stop_name',
+    '11600,Irún',
+    '11518,Ventas de Irún',
+    '11516,Lezo-Rentería',
+    '11515,Pasaia',
+    'HEN,Hendaye',
+  ),
+  'calendar.txt': csv(
+    'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date',
+    'LAB,1,1,1,1,1,0,0,20261101,20261231',
+    'FES,0,0,0,0,0,1,1,20261101,20261231',
+    'OLD,1,1,1,1,1,1,1,20261101,20261207',
+  ),
+  'calendar_dates.txt': csv(
+    'service_id,date,exception_type',
+    'LAB,20261208,2',
+    'FES,20261208,1',
+    'SPX,20261207,1',
+  ),
+  'trips.txt': csv(
+    'route_id,service_id,trip_id,direction_id',
+    'C1,LAB,L1,0',
+    'C1,LAB,L2,1',
+    'C1,LAB,L3,0',
+    'C1,LAB,L4,0',
+    'C1,FES,F1,0',
+    'C1,FES,F2,0',
+    'C1,SPX,S1,1',
+    'C1,OLD,O1,1',
+  ),
+  'stop_times.txt': csv(
+    'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+    'L1,07:09:00,07:09:00,11516,15',
+    'L1,07:00:00,07:00:00,11600,5',
+    'L1,07:12:00,07:13:00,11515,20',
+    'L1,07:04:00,07:04:00,11518,10',
+    'L2,08:00:00,08:00:00,11515,1',
+    'L2,08:04:00,08:04:00,11516,2',
+    'L2,08:09:00,08:09:00,11518,3',
+    'L2,08:14:00,08:14:00,11600,4',
+    'L3,09:00:00,09:00:00,11600,1',
+    'L3,09:04:00,09:04:00,11518,2',
+    'L3,09:09:00,09:09:00,11516,3',
+    'L4,10:00:00,10:00:00,HEN,1',
+    'L4,10:08:00,10:10:00,11600,2',
+    'F1,10:00:00,10:00:00,11600,1',
+    'F1,10:04:00,10:04:00,11518,2',
+    'F1,10:09:00,10:09:00,11516,3',
+    'F1,10:13:00,10:13:00,11515,4',
+    'F2,07:00:00,07:00:00,11600,1',
+    'F2,07:04:00,07:04:00,11518,2',
+    'F2,07:09:00,07:09:00,11516,3',
+    'F2,07:12:00,07:13:00,11515,4',
+    'S1,22:30:00,22:30:00,11515,1',
+    'S1,22:44:00,22:44:00,11600,2',
+    'O1,06:00:00,06:00:00,11516,1',
+    'O1,06:04:00,06:04:00,11518,2',
+    'O1,06:09:00,06:09:00,11600,3',
+  ),
+};
+
+// Another operator's feed, changing with the line at Irún. E1 is its Irun
+// Colon stop.
+//
+//   E10  Donostia -> Hendaia, at E1 07:02
+//   E12  Hendaia -> Donostia, at E1 06:52
+//   E13  Hendaia -> Donostia, at E1 08:07
+//   E15  Donostia -> Hendaia, at E1 08:27
+//   E16  Donostia -> Hendaia, at E1 23:52
+//   E17  Hendaia -> Irun Colon, ending at E1 past midnight (24:05)
+//   EX   weekends, Hendaia -> Irun Colon, ending at E1 07:57
+export const CONNECTION_FEED: FeedFiles = {
+  'agency.txt': csv(
+    'agency_id,agency_name,agency_url,agency_timezone',
+    'ET,Euskotren,https://www.euskotren.eus,Europe/Madrid',
+  ),
+  'routes.txt': csv(
+    'route_id,agency_id,route_short_name,route_type',
+    'E1,ET,E1,2',
+  ),
+  'stops.txt': csv(
+    'stop_id,stop_name',
+    'E1,Irun Colon',
+    'E2,Hendaia',
+    'E3,Donostia',
+  ),
+  'calendar.txt': csv(
+    'service_id,monday,tuesday,wednesday,thursday,friday,saturday,sunday,start_date,end_date',
+    'ALL,1,1,1,1,1,1,1,20261101,20261231',
+    'WE,0,0,0,0,0,1,1,20261101,20261231',
+  ),
+  'trips.txt': csv(
+    'route_id,service_id,trip_id,trip_headsign',
+    'E1,ALL,E10,Hendaia',
+    'E1,ALL,E12,',
+    'E1,ALL,E13,',
+    'E1,ALL,E15,Hendaia',
+    'E1,ALL,E16,Hendaia',
+    'E1,ALL,E17,',
+    'E1,WE,EX,',
+  ),
+  'stop_times.txt': csv(
+    'trip_id,arrival_time,departure_time,stop_id,stop_sequence',
+    'E10,06:40:00,06:40:00,E3,1',
+    'E10,07:02:00,07:02:00,E1,2',
+    'E10,07:10:00,07:10:00,E2,3',
+    'E12,06:45:00,06:45:00,E2,1',
+    'E12,06:52:00,06:52:00,E1,2',
+    'E12,07:15:00,07:15:00,E3,3',
+    'E13,08:00:00,08:00:00,E2,1',
+    'E13,08:07:00,08:07:00,E1,2',
+    'E13,08:30:00,08:30:00,E3,3',
+    'E15,08:05:00,08:05:00,E3,1',
+    'E15,08:27:00,08:27:00,E1,2',
+    'E15,08:35:00,08:35:00,E2,3',
+    'E16,23:30:00,23:30:00,E3,1',
+    'E16,23:52:00,23:52:00,E1,2',
+    'E16,24:00:00,24:00:00,E2,3',
+    'E17,23:58:00,23:58:00,E2,1',
+    'E17,24:05:00,24:05:00,E1,2',
+    'EX,07:50:00,07:50:00,E2,1',
+    'EX,07:57:00,07:57:00,E1,2',
+  ),
+};
+
+// stops.txt with the coordinates of the four test stations; Hendaye keeps the
+// 0,0 placeholder some feeds use for unknown positions
+export const STOPS_WITH_COORDS = csv(
+  'stop_id,stop_name,stop_lat,stop_lon',
+  '11600,Irún,43.3397,-1.7895',
+  '11518,Ventas de Irún,43.3265,-1.8120',
+  '11516,Lezo-Rentería,43.3128,-1.8966',
+  '11515,Pasaia,43.3210,-1.9225',
+  'HEN,Hendaye,0,0',
+);
+
+// `files` with some entries replaced (string) or removed (null)
+export const withFiles = (files: FeedFiles, changes: Record<string, string | null>): FeedFiles => {
+  const result = { ...files };
+  Object.entries(changes).forEach(([name, content]) => {
+    if (content === null) delete result[name];
+    else result[name] = content;
+  });
+  return result;
+};
+
+// `files` with extra rows appended to one of them
+export const withRows = (files: FeedFiles, name: string, ...rows: string[]): FeedFiles => ({
+  ...files,
+  [name]: files[name] + csv(...rows),
+});
+
+export const zipFeed = (files: FeedFiles): Promise<Uint8Array> => {
+  const zip = new JSZip();
+  Object.entries(files).forEach(([name, content]) => zip.file(name, content));
+  return zip.generateAsync({ type: 'uint8array' });
+};
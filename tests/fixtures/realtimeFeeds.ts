@@ -0,0 +1,101 @@
+// Hand-built GTFS-Realtime feeds for the tests. A tiny protobuf writer turns
+// lists of [field number, value] pairs into the binary format: numbers become
+// varints (negative ones as 64-bit two's complement), strings are UTF-8 and
+// nested lists are embedded messages.
+
+export type ProtoValue = number | string | ProtoField[];
+export type ProtoField = [number, ProtoValue];
+
+const varint = (value: bigint): number[] => {
+  const bytes: number[] = [];
+  let rest = BigInt.asUintN(64, value);
+  do {
+    const byte = Number(rest & BigInt(0x7f));
+    rest >>= BigInt(7);
+    bytes.push(rest > BigInt(0) ? byte | 0x80 : byte);
+  } while (rest > BigInt(0));
+  return bytes;
+};
+
+export const encodeMessage = (fields: ProtoField[]): Uint8Array => {
+  const bytes: number[] = [];
+  fields.forEach(([number, value]) => {
+    if (typeof value === 'number') {
+      bytes.push(...varint(BigInt(number << 3)), ...varint(BigInt(value)));
+      return;
+    }
+    const payload = typeof value === 'string' ? new TextEncoder().encode(value) : encodeMessage(value);
+    bytes.push(...varint(BigInt((number << 3) | 2)), ...varint(BigInt(payload.length)), ...payload);
+  });
+  return new Uint8Array(bytes);
+};
+
+// Unix seconds of a local time on a YYYYMMDD date, as the overlay reads them
+export const localTime = (date: string, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Number(date.substring(0, 4)), Number(date.substring(4, 6)) - 1, Number(date.substring(6, 8)), hours, minutes).getTime() / 1000;
+};
+
+export interface StopUpdateSpec {
+  stopId: string;
+  delay?: number; // Departure delay, seconds
+  time?: number; // Departure, Unix seconds
+  skipped?: boolean;
+}
+
+export interface TripUpdateSpec {
+  tripId: string;
+  startDate?: string;
+  relationship?: number; // TripDescriptor.ScheduleRelationship: 1 added, 3 canceled
+  delay?: number;
+  stops?: StopUpdateSpec[];
+}
+
+export interface AlertSpec {
+  header: Record<string, string>; // Language ("" for none) -> text
+  description?: Record<string, string>;
+  periods?: { start?: number; end?: number }[];
+  stopIds?: string[];
+  routeIds?: string[];
+  tripIds?: string[];
+}
+
+const translatedString = (texts: Record<string, string>): ProtoField[] =>
+  Object.entries(texts).map(([language, text]) => [1, [[1, text], ...(language ? [[2, language] as ProtoField] : [])]]);
+
+const tripUpdate = (spec: TripUpdateSpec): ProtoField[] => [
+  [1, [
+    [1, spec.tripId],
+    ...(spec.startDate ? [[3, spec.startDate] as ProtoField] : []),
+    ...(spec.relationship !== undefined ? [[4, spec.relationship] as ProtoField] : []),
+  ]],
+  ...(spec.stops ?? []).map((stop): ProtoField => [2, [
+    [4, stop.stopId],
+    ...(stop.delay !== undefined || stop.time !== undefined ? [[3, [
+      ...(stop.delay !== undefined ? [[1, stop.delay] as ProtoField] : []),
+      ...(stop.time !== undefined ? [[2, stop.time] as ProtoField] : []),
+    ]] as ProtoField] : []),
+    ...(stop.skipped ? [[5, 1] as ProtoField] : []),
+  ]]),
+  ...(spec.delay !== undefined ? [[5, spec.delay] as ProtoField] : []),
+];
+
+const alert = (spec: AlertSpec): ProtoField[] => [
+  ...(spec.periods ?? []).map((period): ProtoField => [1, [
+    ...(period.start !== undefined ? [[1, period.start] as ProtoField] : []),
+    ...(period.end !== undefined ? [[2, period.end] as ProtoField] : []),
+  ]]),
+  ...(spec.stopIds ?? []).map((stopId): ProtoField => [5, [[5, stopId]]]),
+  ...(spec.routeIds ?? []).map((routeId): ProtoField => [5, [[2, routeId]]]),
+  ...(spec.tripIds ?? []).map((tripId): ProtoField => [5, [[4, [[1, tripId]]]]]),
+  [10, translatedString(spec.header)],
+  ...(spec.description ? [[11, translatedString(spec.description)] as ProtoField] : []),
+];
+
+// A FeedMessage with one entity per trip update and alert, ids "u1", "a1"...
+export const realtimeFeed = (updates: TripUpdateSpec[], alerts: AlertSpec[] = [], timestamp?: number): Uint8Array =>
+  encodeMessage([
+    [1, [[1, '2.0'], ...(timestamp !== undefined ? [[3, timestamp] as ProtoField] : [])]],
+    ...updates.map((update, i): ProtoField => [2, [[1, `u${i + 1}`], [3, tripUpdate(update)]]]),
+    ...alerts.map((spec, i): ProtoField => [2, [[1, `a${i + 1}`], [5, alert(spec)]]]),
+  ]);
@@ -0,0 +1,436 @@
+import { describe, expect, it } from 'vitest';
+import { DateRange, ParsedTimetable, ProcessingProgress } from '../types';
+import { GTFSParseError } from '../utils/gtfsReader';
+import { parseGTFS } from '../utils/gtfsParser';
+import { LocalizedError } from '../utils/i18n';
+import { BASE_FEED, FeedFiles, STOPS_WITH_COORDS, TEST_LINE, withFiles, withRows, zipFeed } from './fixtures/gtfsFeeds';
+
+// Seconds from midnight for "HH:MM"
+const at = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 3600 + m * 60;
+};
+
+const day = (date: string): DateRange => ({ from: date, to: date });
+
+const parse = async (files: FeedFiles, range: DateRange): Promise<ParsedTimetable> =>
+  parseGTFS(await zipFeed(files), range, TEST_LINE, () => {});
+
+const parseError = async (files: FeedFiles, range: DateRange) => {
+  try {
+    await parse(files, range);
+  } catch (error) {
+    return error;
+  }
+  throw new Error('parseGTFS did not fail');
+};
+
+const ids = (data: ParsedTimetable) => ({
+  toBrinkola: data.toBrinkola.map(t => t.id),
+  toIrun: data.toIrun.map(t => t.id),
+});
+
+describe('parseGTFS', () => {
+  describe('a regular weekday', () => {
+    it('returns every train of the line in each direction, sorted by departure', async () => {
+      const data = await parse(BASE_FEED, day('2026-12-07'));
+
+      expect(data.dateUsed).toBe('07/12/2026');
+      expect(data.range).toEqual(day('2026-12-07'));
+      expect(data.toBrinkola).toEqual([
+        {
+          id: 'L1',
+          tripIds: ['L1'],
+          stops: { '11600': '07:00', '11518': '07:04', '11516': '07:09', '11515': '07:13' },
+          times: { '11600': at('07:00'), '11518': at('07:04'), '11516': at('07:09'), '11515': at('07:13') },
+          arrivals: { '11600': at('07:00'), '11518': at('07:04'), '11516': at('07:09'), '11515': at('07:12') },
+          firstStopOrder: 1,
+          lastStopOrder: 4,
+          origin: { code: '11600', name: 'Irún' },
+          destination: { code: '11515', name: 'Pasaia' },
+          departureFromOrigin: at('07:00'),
+          days: ['20261207'],
+        },
+        {
+          id: 'L3',
+          tripIds: ['L3'],
+          stops: { '11600': '09:00', '11518': '09:04', '11516': '09:09' },
+          times: { '11600': at('09:00'), '11518': at('09:04'), '11516': at('09:09') },
+          arrivals: { '11600': at('09:00'), '11518': at('09:04'), '11516': at('09:09') },
+          firstStopOrder: 1,
+          lastStopOrder: 3,
+          origin: { code: '11600', name: 'Irún' },
+          destination: { code: '11516', name: 'Lezo-Rentería' },
+          departureFromOrigin: at('09:00'),
+          days: ['20261207'],
+        },
+      ]);
+      expect(data.toIrun).toEqual([
+        {
+          id: 'O1',
+          tripIds: ['O1'],
+          stops: { '11516': '06:00', '11518': '06:04', '11600': '06:09' },
+          times: { '11516': at('06:00'), '11518': at('06:04'), '11600': at('06:09') },
+          arrivals: { '11516': at('06:00'), '11518': at('06:04'), '11600': at('06:09') },
+          firstStopOrder: 3,
+          lastStopOrder: 1,
+          origin: { code: '11516', name: 'Lezo-Rentería' },
+          destination: { code: '11600', name: 'Irún' },
+          departureFromOrigin: at('06:00'),
+          days: ['20261207'],
+        },
+        {
+          id: 'L2',
+          tripIds: ['L2'],
+          stops: { '11515': '08:00', '11516': '08:04', '11518': '08:09', '11600': '08:14' },
+          times: { '11515': at('08:00'), '11516': at('08:04'), '11518': at('08:09'), '11600': at('08:14') },
+          arrivals: { '11515': at('08:00'), '11516': at('08:04'), '11518': at('08:09'), '11600': at('08:14') },
+          firstStopOrder: 4,
+          lastStopOrder: 1,
+          origin: { code: '11515', name: 'Pasaia' },
+          destination: { code: '11600', name: 'Irún' },
+          departureFromOrigin: at('08:00'),
+          days: ['20261207'],
+        },
+        {
+          id: 'S1',
+          tripIds: ['S1'],
+          stops: { '11515': '22:30', '11600': '22:44' },
+          times: { '11515': at('22:30'), '11600': at('22:44') },
+          arrivals: { '11515': at('22:30'), '11600': at('22:44') },
+          firstStopOrder: 4,
+          lastStopOrder: 1,
+          origin: { code: '11515', name: 'Pasaia' },
+          destination: { code: '11600', name: 'Irún' },
+          departureFromOrigin: at('22:30'),
+          days: ['20261207'],
+        },
+      ]);
+    });
+
+    it('sorts stop_times by numeric stop_sequence, not by file order', async () => {
+      const data = await parse(BASE_FEED, day('2026-12-07'));
+      const l1 = data.toBrinkola.find(t => t.id === 'L1');
+
+      // Rows are stored 15, 5, 20, 10: a text sort would start the train at Lezo
+      expect(l1?.firstStopOrder).toBe(1);
+      expect(l1?.departureFromOrigin).toBe(at('07:00'));
+    });
+
+    it('keeps the real origin and destination of trains running beyond the line', async () => {
+      const files = withRows(
+        withRows(BASE_FEED, 'trips.txt', 'C1,LAB,H1,0'),
+        'stop_times.txt',
+        'H1,06:30:00,06:30:00,HEN,1',
+        'H1,06:40:00,06:40:00,11600,2',
+        'H1,06:44:00,06:44:00,11518,3',
+        'H1,06:55:00,06:55:00,XYZ,4',
+      );
+      const h1 = (await parse(files, day('2026-12-07'))).toBrinkola.find(t => t.id === 'H1');
+
+      expect(h1?.firstStopOrder).toBe(1);
+      expect(h1?.lastStopOrder).toBe(2);
+      expect(h1?.origin).toEqual({ code: 'HEN', name: 'Hendaye' });
+      // Not in stops.txt: the stop_id stands in for the name
+      expect(h1?.destination).toEqual({ code: 'XYZ', name: 'XYZ' });
+    });
+
+    it('ignores trips that call at only one station of the line', async () => {
+      const data = await parse(BASE_FEED, day('2026-12-07'));
+
+      expect([...data.toBrinkola, ...data.toIrun].flatMap(t => t.tripIds)).not.toContain('L4');
+    });
+  });
+
+  describe('calendar exceptions', () => {
+    it('replaces the weekday service on a holiday removed through calendar_dates', async () => {
+      const data = await parse(BASE_FEED, day('2026-12-08'));
+
+      expect(data.toIrun).toEqual([]);
+      expect(data.toBrinkola).toEqual([
+        {
+          id: 'F2',
+          tripIds: ['F2'],
+          stops: { '11600': '07:00', '11518': '07:04', '11516': '07:09', '11515': '07:13' },
+          times: { '11600': at('07:00'), '11518': at('07:04'), '11516': at('07:09'), '11515': at('07:13') },
+          arrivals: { '11600': at('07:00'), '11518': at('07:04'), '11516': at('07:09'), '11515': at('07:12') },
+          firstStopOrder: 1,
+          lastStopOrder: 4,
+          origin: { code: '11600', name: 'Irún' },
+          destination: { code: '11515', name: 'Pasaia' },
+          departureFromOrigin: at('07:00'),
+          days: ['20261208'],
+        },
+        {
+          id: 'F1',
+          tripIds: ['F1'],
+          stops: { '11600': '10:00', '11518': '10:04', '11516': '10:09', '11515': '10:13' },
+          times: { '11600': at('10:00'), '11518': at('10:04'), '11516': at('10:09'), '11515': at('10:13') },
+          arrivals: { '11600': at('10:00'), '11518': at('10:04'), '11516': at('10:09'), '11515': at('10:13') },
+          firstStopOrder: 1,
+          lastStopOrder: 4,
+          origin: { code: '11600', name: 'Irún' },
+          destination: { code: '11515', name: 'Pasaia' },
+          departureFromOrigin: at('10:00'),
+          days: ['20261208'],
+        },
+      ]);
+    });
+
+    it('counts only the services of the range in the progress messages', async () => {
+      const messages: ProcessingProgress['message'][] = [];
+      await parseGTFS(await zipFeed(BASE_FEED), day('2026-12-08'), TEST_LINE, progress => messages.push(progress.message));
+
+      // The day before runs LAB, OLD and SPX, read only for its after-midnight trains
+      expect(messages).toContainEqual({ key: 'progress.trips', params: { count: 1 } });
+    });
+
+    it('runs a special service only on the date it is added', async () => {
+      const added = await parse(BASE_FEED, day('2026-12-07'));
+      const regular = await parse(BASE_FEED, day('2026-12-14'));
+
+      expect(added.toIrun.map(t => t.id)).toContain('S1');
+      expect(ids(regular)).toEqual({ toBrinkola: ['L1', 'L3'], toIrun: ['L2'] });
+    });
+
+    it('includes the first and last dates of a calendar period', async () => {
+      expect(ids(await parse(BASE_FEED, day('2026-12-07'))).toIrun).toContain('O1');
+      expect(ids(await parse(BASE_FEED, day('2026-11-01'))).toIrun).toEqual(['O1']);
+      expect(ids(await parse(BASE_FEED, day('2026-12-09'))).toIrun).not.toContain('O1');
+    });
+
+    it('fails when no service runs on the date', async () => {
+      const error = await parseError(BASE_FEED, day('2027-01-04'));
+
+      expect(error).toBeInstanceOf(LocalizedError);
+      expect((error as LocalizedError).key).toBe('error.noServicesDay');
+    });
+  });
+
+  describe('station coordinates', () => {
+    it('reads the position of the line stations, leaving placeholders out', async () => {
+      const stops = STOPS_WITH_COORDS.replace('43.3210,-1.9225', '0,0');
+      const data = await parse(withFiles(BASE_FEED, { 'stops.txt': stops }), day('2026-12-07'));
+
+      expect(data.stationCoords).toEqual({
+        '11600': { lat: 43.3397, lon: -1.7895 },
+        '11518': { lat: 43.3265, lon: -1.8120 },
+        '11516': { lat: 43.3128, lon: -1.8966 },
+      });
+    });
+
+    it('has none without coordinate columns', async () => {
+      expect((await parse(BASE_FEED, day('2026-12-07'))).stationCoords).toEqual({});
+    });
+  });
+
+  describe('accessibility and bicycles', () => {
+    const files = withFiles(BASE_FEED, {
+      'trips.txt': [
+        'route_id,service_id,trip_id,direction_id,trip_headsign,wheelchair_accessible,bikes_allowed',
+        'C1,LAB,L1,0,Pasaia,1,1',
+        'C1,LAB,L2,1,Irun,2,0',
+        'C1,LAB,L3,0,,,',
+        'C1,FES,F2,0,Pasaia,1,2',
+        '',
+      ].join('\n'),
+      'stops.txt': [
+        'stop_id,stop_name,wheelchair_boarding',
+        '11600,Irún,1',
+        '11518,Ventas de Irún,2',
+        '11516,Lezo-Rentería,0',
+        '11515,Pasaia,',
+        '',
+      ].join('\n'),
+    });
+
+    it('reads the headsign, wheelchair and bicycle attributes of each train', async () => {
+      const data = await parse(files, day('2026-12-07'));
+      const [l1, l3] = data.toBrinkola;
+      const [l2] = data.toIrun;
+
+      expect([l1.headsign, l1.wheelchairAccessible, l1.bikesAllowed]).toEqual(['Pasaia', true, true]);
+      expect([l2.headsign, l2.wheelchairAccessible, l2.bikesAllowed]).toEqual(['Irun', false, undefined]);
+      expect(l3).not.toHaveProperty('headsign');
+      expect(l3).not.toHaveProperty('wheelchairAccessible');
+    });
+
+    it('reads step-free access to the stations, leaving unknown ones out', async () => {
+      const data = await parse(files, day('2026-12-07'));
+
+      expect(data.stationAccess).toEqual({ '11600': true, '11518': false });
+    });
+
+    it('keeps only what holds on every day when merging trains', async () => {
+      const data = await parse(files, { from: '2026-12-07', to: '2026-12-08' });
+      const merged = data.toBrinkola.find(t => t.id === 'L1');
+
+      expect(merged?.tripIds).toEqual(['L1', 'F2']);
+      expect(merged?.wheelchairAccessible).toBe(true);
+      expect(merged?.bikesAllowed).toBe(false);
+    });
+  });
+
+  describe('date ranges', () => {
+    it('keeps trains with the same departures but other arrival times apart', async () => {
+      const files = withFiles(BASE_FEED, {
+        'stop_times.txt': BASE_FEED['stop_times.txt'].replace('F2,07:12:00,07:13:00', 'F2,07:10:00,07:13:00'),
+      });
+      const data = await parse(files, { from: '2026-12-07', to: '2026-12-13' });
+      const [l1, f2] = data.toBrinkola.filter(t => t.times['11600'] === at('07:00'));
+
+      expect([l1.tripIds, f2.tripIds]).toEqual([['L1'], ['F2']]);
+      expect([l1.arrivals['11515'], f2.arrivals['11515']]).toEqual([at('07:12'), at('07:10')]);
+    });
+
+    it('keeps trains with the same times but another headsign apart', async () => {
+      const files = withFiles(BASE_FEED, {
+        'trips.txt': BASE_FEED['trips.txt']
+          .replace('direction_id', 'direction_id,trip_headsign')
+          .replace(/,([01])$/gm, ',$1,')
+          .replace('C1,FES,F2,0,', 'C1,FES,F2,0,Pasai Antxo'),
+      });
+      const data = await parse(files, { from: '2026-12-07', to: '2026-12-13' });
+      const [l1, f2] = data.toBrinkola.filter(t => t.times['11600'] === at('07:00'));
+
+      expect([l1.tripIds, f2.tripIds]).toEqual([['L1'], ['F2']]);
+      expect([l1.headsign, f2.headsign]).toEqual([undefined, 'Pasai Antxo']);
+    });
+
+    it('merges trains with identical times and labels the days they run', async () => {
+      const data = await parse(BASE_FEED, { from: '2026-12-07', to: '2026-12-20' });
+
+      expect(data.dateUsed).toBe('07/12/2026 - 20/12/2026');
+      expect(ids(data)).toEqual({ toBrinkola: ['L1', 'L3', 'F1'], toIrun: ['O1', 'L2', 'S1'] });
+      expect(data.toBrinkola[0]).toEqual({
+        id: 'L1',
+        tripIds: ['L1', 'F2'],
+        stops: { '11600': '07:00', '11518': '07:04', '11516': '07:09', '11515': '07:13' },
+        times: { '11600': at('07:00'), '11518': at('07:04'), '11516': at('07:09'), '11515': at('07:13') },
+        arrivals: { '11600': at('07:00'), '11518': at('07:04'), '11516': at('07:09'), '11515': at('07:12') },
+        firstStopOrder: 1,
+        lastStopOrder: 4,
+        origin: { code: '11600', name: 'Irún' },
+        destination: { code: '11515', name: 'Pasaia' },
+        departureFromOrigin: at('07:00'),
+        days: [
+          '20261207', '20261208', '20261209', '20261210', '20261211', '20261212', '20261213',
+          '20261214', '20261215', '20261216', '20261217', '20261218', '20261219', '20261220',
+        ],
+        pattern: {
+          label: 'Diario',
+          weekdays: [0, 1, 2, 3, 4, 5, 6],
+          holidays: true,
+          daily: true,
+          notRunning: [],
+          alsoRunning: [],
+        },
+      });
+      // The holiday is a day class of its own, not a missing weekday
+      expect(data.toBrinkola[1].pattern).toEqual({
+        label: 'L-V',
+        weekdays: [0, 1, 2, 3, 4],
+        holidays: false,
+        daily: false,
+        notRunning: [],
+        alsoRunning: [],
+      });
+      expect(data.toBrinkola[2].pattern).toEqual({
+        label: 'S, D y festivos',
+        weekdays: [5, 6],
+        holidays: true,
+        daily: false,
+        notRunning: [],
+        alsoRunning: [],
+      });
+      expect(data.toIrun[0].pattern).toEqual({
+        label: 'Días sueltos',
+        note: 'Solo circula el 07/12.',
+        weekdays: [],
+        holidays: false,
+        daily: false,
+        notRunning: [],
+        alsoRunning: ['20261207'],
+      });
+    });
+
+    it('moves trains leaving after midnight to the next calendar day', async () => {
+      const files = withRows(
+        withRows(BASE_FEED, 'trips.txt', 'C1,LAB,N1,0'),
+        'stop_times.txt',
+        'N1,24:30:00,24:30:00,11600,1',
+        'N1,24:36:00,24:36:00,11518,2',
+      );
+      const data = await parse(files, { from: '2026-12-07', to: '2026-12-08' });
+      const n1 = data.toBrinkola.find(t => t.id === 'N1');
+
+      // Its only service day in the range is the 7th (the 8th is removed): 00:30 on the 8th
+      expect(n1).toMatchObject({
+        stops: { '11600': '00:30', '11518': '00:36' },
+        times: { '11600': at('00:30'), '11518': at('00:36') },
+        departureFromOrigin: at('00:30'),
+        days: ['20261208'],
+      });
+    });
+  });
+
+  describe('missing and malformed files', () => {
+    it('does not need the optional files', async () => {
+      const files = withFiles(BASE_FEED, {
+        'agency.txt': null,
+        'routes.txt': null,
+        'stops.txt': null,
+        'calendar_dates.txt': null,
+      });
+      const data = await parse(files, day('2026-12-08'));
+
+      // Without calendar_dates the holiday keeps its weekday service
+      expect(ids(data)).toEqual({ toBrinkola: ['L1', 'L3'], toIrun: ['L2'] });
+    });
+
+    it('runs services defined only in calendar_dates.txt', async () => {
+      const files = withFiles(BASE_FEED, { 'calendar.txt': null });
+
+      expect(ids(await parse(files, day('2026-12-07')))).toEqual({ toBrinkola: [], toIrun: ['S1'] });
+    });
+
+    it.each(['trips.txt', 'stop_times.txt'])('fails without %s', async (file) => {
+      const error = await parseError(withFiles(BASE_FEED, { [file]: null }), day('2026-12-07'));
+
+      expect(error).toBeInstanceOf(LocalizedError);
+      expect(error).toMatchObject({ key: 'error.missingFile', params: { file } });
+    });
+
+    it('reports the file and line of a row with a wrong number of fields', async () => {
+      const files = withRows(BASE_FEED, 'stop_times.txt', 'L1,07:20:00,07:20:00,11514');
+      const error = await parseError(files, day('2026-12-07'));
+
+      expect(error).toBeInstanceOf(GTFSParseError);
+      expect(error).toMatchObject({ file: 'stop_times.txt', line: 28 });
+    });
+
+    it('reports a stop_sequence that is not an integer', async () => {
+      const files = withRows(BASE_FEED, 'stop_times.txt', 'L1,07:20:00,07:20:00,11514,x');
+      const error = await parseError(files, day('2026-12-07'));
+
+      expect(error).toBeInstanceOf(GTFSParseError);
+      expect(error).toMatchObject({ file: 'stop_times.txt', line: 28 });
+    });
+
+    it('reports missing required columns', async () => {
+      const files = withFiles(BASE_FEED, { 'trips.txt': 'route_id,trip_id\nC1,L1\n' });
+      const error = await parseError(files, day('2026-12-07'));
+
+      expect(error).toBeInstanceOf(GTFSParseError);
+      expect(error).toMatchObject({ file: 'trips.txt', line: 1 });
+    });
+
+    it('reports an unclosed quote', async () => {
+      const files = withRows(BASE_FEED, 'trips.txt', 'C1,LAB,"L9,0');
+      const error = await parseError(files, day('2026-12-07'));
+
+      expect(error).toBeInstanceOf(GTFSParseError);
+      expect(error).toMatchObject({ file: 'trips.txt', line: 10 });
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { DateRange, ParsedTimetable } from '../types';
+import { parseGTFS } from '../utils/gtfsParser';
+import { alertText, applyRealtime, parseGTFSRealtime } from '../utils/gtfsRealtime';
+import { ProtobufError, decodeMessage, intField, messageField, stringField } from '../utils/protobuf';
+import { BASE_FEED, FeedFiles, TEST_LINE, withRows, zipFeed } from './fixtures/gtfsFeeds';
+import { encodeMessage, localTime, realtimeFeed } from './fixtures/realtimeFeeds';
+
+const parse = async (range: DateRange, files: FeedFiles = BASE_FEED): Promise<ParsedTimetable> =>
+  parseGTFS(await zipFeed(files), range, TEST_LINE, () => {});
+
+const weekday = () => parse({ from: '2026-12-07', to: '2026-12-07' });
+
+// N1 runs every day of OLD at 24:30: the Monday timetable lists Sunday's run,
+// moved past midnight
+const NIGHT_FEED = withRows(
+  withRows(BASE_FEED, 'trips.txt', 'C1,OLD,N1,1'),
+  'stop_times.txt', 'N1,24:30:00,24:30:00,11516,1', 'N1,24:39:00,24:39:00,11600,2',
+);
+
+const C1_LINE = { ...TEST_LINE, routeIds: ['C1'] };
+
+const MINUTE = 60;
+const at = (hours: number, minutes: number) => hours * 3600 + minutes * MINUTE;
+
+describe('decodeMessage', () => {
+  it('reads strings, negative integers and nested messages', () => {
+    const message = decodeMessage(encodeMessage([[1, 'L1'], [2, -120], [3, [[1, 'anidado']]]]));
+
+    expect(stringField(message, 1)).toBe('L1');
+    expect(intField(message, 2)).toBe(-120);
+    expect(stringField(messageField(message, 3)!, 1)).toBe('anidado');
+  });
+
+  it('rejects truncated data', () => {
+    const bytes = encodeMessage([[1, 'L1']]);
+
+    expect(() => decodeMessage(bytes.subarray(0, bytes.length - 1))).toThrow(ProtobufError);
+  });
+});
+
+describe('applyRealtime', () => {
+  it('delays, cancels and skips stops of the planned trains', async () => {
+    const feed = parseGTFSRealtime(realtimeFeed([
+      { tripId: 'L1', startDate: '20261207', stops: [{ stopId: '11518', delay: 2 * MINUTE }] },
+      { tripId: 'L2', relationship: 3 },
+      { tripId: 'L3', stops: [{ stopId: '11518', skipped: true }] },
+      { tripId: 'O1', startDate: '20261201', delay: 10 * MINUTE }, // Another day
+    ]));
+    const { data, matched } = applyRealtime(await weekday(), TEST_LINE, feed);
+    const trip = (id: string) => [...data.toBrinkola, ...data.toIrun].find(t => t.id === id)!;
+
+    expect(matched).toBe(3);
+    expect(trip('L1').times).toEqual({ '11600': at(7, 0), '11518': at(7, 6), '11516': at(7, 11), '11515': at(7, 15) });
+    expect(trip('L1').stops['11515']).toBe('07:15');
+    expect(trip('L1').realtime).toMatchObject({ status: 'scheduled', delays: { '11518': 120, '11516': 120, '11515': 120 } });
+    expect(trip('L1').realtime?.plannedTimes['11515']).toBe(at(7, 13));
+    expect(trip('L2').realtime?.status).toBe('canceled');
+    expect(trip('L2').times['11600']).toBe(at(8, 14));
+    expect(trip('L3').times).toEqual({ '11600': at(9, 0), '11516': at(9, 9) });
+    expect(trip('L3').realtime?.skipped).toEqual(['11518']);
+    expect(trip('O1').realtime).toBeUndefined();
+  });
+
+  it('leaves a daytime train alone with an update for another service day', async () => {
+    const feed = parseGTFSRealtime(realtimeFeed([{ tripId: 'L1', startDate: '20261206', delay: 5 * MINUTE }]));
+    const { data, matched } = applyRealtime(await weekday(), TEST_LINE, feed);
+
+    expect(matched).toBe(0);
+    expect(data.toBrinkola[0].realtime).toBeUndefined();
+  });
+
+  it('matches a train moved past midnight with the update for its service day', async () => {
+    const timetable = await parse({ from: '2026-12-07', to: '2026-12-07' }, NIGHT_FEED);
+    const night = (feed: Uint8Array) => applyRealtime(timetable, TEST_LINE, parseGTFSRealtime(feed)).data.toIrun.find(t => t.id === 'N1');
+
+    expect(timetable.toIrun.find(t => t.id === 'N1')?.serviceDayShift).toBe(1);
+    expect(night(realtimeFeed([{ tripId: 'N1', startDate: '20261207', delay: 5 * MINUTE }]))?.realtime).toBeUndefined();
+    expect(night(realtimeFeed([{ tripId: 'N1', startDate: '20261206', delay: 5 * MINUTE }]))?.times['11600']).toBe(at(0, 44));
+  });
+
+  it('picks the update of the right day when the feed has both', async () => {
+    const timetable = await parse({ from: '2026-12-07', to: '2026-12-07' }, NIGHT_FEED);
+    const feed = parseGTFSRealtime(realtimeFeed([
+      { tripId: 'L1', startDate: '20261207', delay: 2 * MINUTE },
+      { tripId: 'L1', startDate: '20261206', delay: 9 * MINUTE },
+      { tripId: 'N1', startDate: '20261206', delay: 3 * MINUTE },
+      { tripId: 'N1', startDate: '20261207', delay: 8 * MINUTE },
+    ]));
+    const { data, matched } = applyRealtime(timetable, TEST_LINE, feed);
+    const trip = (id: string) => [...data.toBrinkola, ...data.toIrun].find(t => t.id === id);
+
+    expect(matched).toBe(2);
+    expect(trip('L1')?.times['11515']).toBe(at(7, 15));
+    expect(trip('N1')?.times['11600']).toBe(at(0, 42));
+  });
+
+  it('adds trains that are not in the timetable, in departure order', async () => {
+    const feed = parseGTFSRealtime(realtimeFeed([
+      { tripId: 'X1', relationship: 1, stops: [
+        { stopId: '11515', time: localTime('20261207', '08:30') },
+        { stopId: '11600', time: localTime('20261207', '08:45') },
+      ] },
+      { tripId: 'X2', relationship: 1, stops: [{ stopId: '11600', time: localTime('20261207', '12:00') }] }, // One station only
+    ]));
+    const { data, added } = applyRealtime(await weekday(), TEST_LINE, feed);
+
+    expect(added.map(trip => trip.id)).toEqual(['X1']);
+    expect(data.toIrun.map(trip => trip.id)).toEqual(['O1', 'L2', 'X1', 'S1']);
+    expect(added[0]).toMatchObject({
+      times: { '11515': at(8, 30), '11600': at(8, 45) },
+      origin: { code: '11515' },
+      destination: { code: '11600' },
+      realtime: { status: 'added' },
+    });
+  });
+
+  it('keeps the active alerts that concern the line', async () => {
+    const feed = parseGTFSRealtime(realtimeFeed([], [
+      { header: { es: 'Obras en Lezo', eu: 'Lanak Lezon' }, stopIds: ['11516'] },
+      { header: { '': 'Hendaye cerrada' }, stopIds: ['HEN'] },
+      { header: { es: 'Aviso pasado' }, stopIds: ['11600'], periods: [{ end: localTime('20261206', '12:00') }] },
+      { header: { '': 'Huelga' }, routeIds: ['C1'], periods: [{ start: localTime('20261207', '06:00'), end: localTime('20261207', '10:00') }] },
+    ]));
+    const { alerts } = applyRealtime(await weekday(), C1_LINE, feed);
+
+    expect(alerts.map(alert => alertText(alert.header, 'eu'))).toEqual(['Lanak Lezon', 'Huelga']);
+    expect(alertText(alerts[0].header, 'en')).toBe('Obras en Lezo');
+    expect(applyRealtime(await weekday(), TEST_LINE, feed).alerts).toHaveLength(1); // Any route: only stations and trains count
+  });
+
+  it('only applies the alerts to a period', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-08' });
+    const feed = parseGTFSRealtime(realtimeFeed([{ tripId: 'L2', relationship: 3 }], [{ header: { '': 'Huelga' }, tripIds: ['L2'] }]));
+    const overlay = applyRealtime(data, TEST_LINE, feed);
+
+    expect(overlay.appliesToTrips).toBe(false);
+    expect(overlay.data).toBe(data);
+    expect(overlay.alerts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DateRange, ParsedTimetable } from '../types';
+import { parseGTFS } from '../utils/gtfsParser';
+import { firstServiceDate, formatHeadway, frequencyReport, stationFrequency } from '../utils/headways';
+import { BASE_FEED, TEST_LINE, zipFeed } from './fixtures/gtfsFeeds';
+
+const parse = async (range: DateRange): Promise<ParsedTimetable> =>
+  parseGTFS(await zipFeed(BASE_FEED), range, TEST_LINE, () => {});
+
+const weekday = () => parse({ from: '2026-12-07', to: '2026-12-07' });
+
+const [IRUN, , LEZO, PASAIA] = TEST_LINE.stations;
+const HOUR = 3600;
+
+const band = (frequency: ReturnType<typeof stationFrequency>, id: string) => frequency.bands.find(b => b.band.id === id)!;
+
+describe('stationFrequency', () => {
+  it('counts departures and headways by time band', async () => {
+    const data = await weekday();
+    const irun = stationFrequency(data.toBrinkola, IRUN, '20261207');
+
+    expect(irun.departures).toEqual([7 * HOUR, 9 * HOUR]);
+    expect([irun.first, irun.last]).toEqual([7 * HOUR, 9 * HOUR]);
+    expect(band(irun, 'morningPeak')).toMatchObject({ trains: 2, minHeadway: 2 * HOUR, maxHeadway: 2 * HOUR, averageHeadway: 2 * HOUR });
+    expect(band(irun, 'morningPeak').trainsPerHour).toBeCloseTo(2 / 3);
+    expect(band(irun, 'midday')).toEqual({ band: expect.anything(), trains: 0, trainsPerHour: 0 });
+  });
+
+  it('leaves out trains that end at the station', async () => {
+    const data = await weekday();
+
+    expect(stationFrequency(data.toBrinkola, LEZO, '20261207').departures).toEqual([7 * HOUR + 9 * 60]);
+    expect(stationFrequency(data.toBrinkola, PASAIA, '20261207').departures).toEqual([]);
+    expect(stationFrequency(data.toIrun, IRUN, '20261207').first).toBeUndefined();
+  });
+
+  it('only charges a band for the hours with service', async () => {
+    const data = await weekday();
+    const lezo = stationFrequency(data.toIrun, LEZO, '20261207');
+
+    expect(band(lezo, 'early')).toMatchObject({ trains: 1, trainsPerHour: 1 });
+    expect(band(lezo, 'early')).not.toHaveProperty('minHeadway');
+    expect(band(lezo, 'morningPeak').maxHeadway).toBe(2 * HOUR + 4 * 60);
+  });
+
+  it('lists the longest gaps first', async () => {
+    const data = await weekday();
+    const pasaia = stationFrequency(data.toIrun, PASAIA, '20261207');
+
+    expect(pasaia.gaps).toEqual([{ from: 8 * HOUR, to: 22 * HOUR + 30 * 60 }]);
+    expect(band(pasaia, 'evening').trainsPerHour).toBeCloseTo(1 / 3);
+    expect(formatHeadway(pasaia.gaps[0].to - pasaia.gaps[0].from)).toBe('14 h 30 min');
+  });
+});
+
+describe('frequencyReport', () => {
+  it('analyses one day of a period, so two dates can be compared', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-08' });
+    const weekdayReport = frequencyReport(data.toBrinkola, data.toIrun, TEST_LINE, '20261207');
+    const holidayReport = frequencyReport(data.toBrinkola, data.toIrun, TEST_LINE, '20261208');
+    const irun = (report: typeof weekdayReport) => report.directions[0].stations[0];
+
+    expect(firstServiceDate([...data.toBrinkola, ...data.toIrun])).toBe('20261207');
+    expect(weekdayReport.directions.map(d => d.stations.map(s => s.station.codigo))).toEqual([
+      ['11600', '11518', '11516', '11515'],
+      ['11515', '11516', '11518', '11600'],
+    ]);
+    expect(irun(weekdayReport).departures).toEqual([7 * HOUR, 9 * HOUR]);
+    expect(irun(holidayReport).departures).toEqual([7 * HOUR, 10 * HOUR]);
+  });
+});
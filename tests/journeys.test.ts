@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedTimetable } from '../types';
+import { parseGTFS } from '../utils/gtfsParser';
+import { findJourneys } from '../utils/journeys';
+import { BASE_FEED, TEST_LINE, zipFeed } from './fixtures/gtfsFeeds';
+
+const weekday = async (): Promise<ParsedTimetable> =>
+  parseGTFS(await zipFeed(BASE_FEED), { from: '2026-12-07', to: '2026-12-07' }, TEST_LINE, () => {});
+
+// Pasaia -> Irún on the Monday: L2 at 08:00 and S1 at 22:30
+const journeyIds = (data: ParsedTimetable, from: string, to: string) =>
+  findJourneys(data, TEST_LINE, '11515', '11600', { from, to }).map(j => j.trip.id);
+
+describe('findJourneys', () => {
+  it('finds the direct trains in the direction of travel', async () => {
+    const data = await weekday();
+    const [l2] = findJourneys(data, TEST_LINE, '11515', '11600');
+
+    expect(journeyIds(data, '', '')).toEqual(['L2', 'S1']);
+    expect([l2.departure, l2.arrival, l2.duration]).toEqual([8 * 3600, 8 * 3600 + 14 * 60, 14 * 60]);
+  });
+
+  it('applies the time window to the departure, end minute included', async () => {
+    const data = await weekday();
+
+    expect(journeyIds(data, '07:00', '08:00')).toEqual(['L2']);
+    expect(journeyIds(data, '08:01', '22:29')).toEqual([]);
+  });
+
+  it('wraps a window that ends before it starts around midnight', async () => {
+    const data = await weekday();
+
+    expect(journeyIds(data, '22:00', '01:00')).toEqual(['S1']);
+    expect(journeyIds(data, '22:00', '08:00')).toEqual(['L2', 'S1']);
+  });
+});
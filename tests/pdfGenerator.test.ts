@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DateRange, ParsedTimetable, PdfOptions } from '../types';
+import { LineConnections, readConnectionCalls } from '../utils/connections';
+import { parseGTFS } from '../utils/gtfsParser';
+import { applyRealtime, parseGTFSRealtime } from '../utils/gtfsRealtime';
+import { DEFAULT_PDF_OPTIONS, renderTimetablePDF } from '../utils/pdfGenerator';
+import { DEFAULT_TEMPLATE, PDF_THEMES } from '../utils/pdfTemplate';
+import { renderStationPoster } from '../utils/stationPoster';
+import { EMPTY_EDITS, applyEdits } from '../utils/timetableEdits';
+import { BASE_FEED, CONNECTION_FEED, TEST_LINE, zipFeed } from './fixtures/gtfsFeeds';
+import { realtimeFeed } from './fixtures/realtimeFeeds';
+
+// Every table drawn by jspdf-autotable, as the text of its header and body cells.
+// The real plugin still runs, so the documents are rendered in full.
+const tables = vi.hoisted(() => [] as { head: string[][]; body: string[][] }[]);
+
+vi.mock('jspdf-autotable', async (importOriginal) => {
+  const actual: any = await importOriginal();
+  const autoTable = actual.default?.default ?? actual.default;
+  const cellText = (cell: any) => String(cell !== null && typeof cell === 'object' ? cell.content : cell);
+  return {
+    default: (doc: unknown, options: any) => {
+      tables.push({
+        head: (options.head ?? []).map((row: unknown[]) => row.map(cellText)),
+        body: (options.body ?? []).map((row: unknown[]) => row.map(cellText)),
+      });
+      return autoTable(doc, options);
+    },
+  };
+});
+
+const parse = async (range: DateRange): Promise<ParsedTimetable> =>
+  parseGTFS(await zipFeed(BASE_FEED), range, TEST_LINE, () => {});
+
+const render = (data: ParsedTimetable, options: Partial<PdfOptions> = {}) =>
+  renderTimetablePDF(data.toBrinkola, data.toIrun, data.dateUsed, TEST_LINE, { ...DEFAULT_PDF_OPTIONS, ...options });
+
+// Changes to the other operator's feed at Irún on Monday 7
+const irunConnections = async (): Promise<LineConnections> => ({
+  interchanges: [{ stationCode: '11600', feedName: 'euskotren.zip', stopIds: ['E1'], minTransfer: 5, towards: '' }],
+  calls: { 'euskotren.zip': await readConnectionCalls(await zipFeed(CONNECTION_FEED), 'euskotren.zip', ['E1'], { from: '2026-12-07', to: '2026-12-07' }, () => {}) },
+});
+
+// 1x1 PNG for the logos
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==';
+
+const pdfHeader = (bytes: Uint8Array) => new TextDecoder().decode(bytes.slice(0, 5));
+
+beforeEach(() => {
+  tables.length = 0;
+});
+
+describe('renderTimetablePDF', () => {
+  it('lists one train per row', async () => {
+    const file = render(await parse({ from: '2026-12-07', to: '2026-12-07' }));
+
+    expect(file.filename).toBe('Cercanias_Prueba_07-12-2026.pdf');
+    expect(file.mimeType).toBe('application/pdf');
+    expect(pdfHeader(file.bytes)).toBe('%PDF-');
+    expect(tables).toMatchSnapshot();
+  });
+
+  it('lists one train per column', async () => {
+    render(await parse({ from: '2026-12-07', to: '2026-12-07' }), { layout: 'trainColumns' });
+
+    expect(tables).toMatchSnapshot();
+  });
+
+  it('labels the days of each train over a date range', async () => {
+    render(await parse({ from: '2026-12-07', to: '2026-12-20' }));
+
+    expect(tables).toMatchSnapshot();
+  });
+
+  it('prints the notes and stations chosen in the preview', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-07' });
+    const edits = { ...EMPTY_EDITS, hiddenTrips: ['O1'], notes: { L1: 'Refuerzo', L3: 'No para en Pasaia' }, stations: ['11600', '11518', '11516'] };
+    const edited = applyEdits(data, TEST_LINE, edits);
+    renderTimetablePDF(edited.data.toBrinkola, edited.data.toIrun, data.dateUsed, edited.line, DEFAULT_PDF_OPTIONS);
+    renderTimetablePDF(edited.data.toBrinkola, edited.data.toIrun, data.dateUsed, edited.line, { ...DEFAULT_PDF_OPTIONS, layout: 'trainColumns' });
+
+    expect(tables).toMatchSnapshot();
+  });
+
+  it('marks accessible trains and stations and trains that take bicycles', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-07' });
+    const toBrinkola = data.toBrinkola.map(trip => trip.id === 'L1' ? { ...trip, wheelchairAccessible: true, bikesAllowed: true } : trip);
+    renderTimetablePDF(toBrinkola, data.toIrun, data.dateUsed, TEST_LINE, DEFAULT_PDF_OPTIONS, { '11600': true, '11518': false });
+
+    const [forward, backward] = tables;
+    expect(forward.head[0]).toEqual(['Origen', 'Irún (PMR)', 'Ventas de Irún', 'Lezo-Rentería', 'Pasaia', 'Destino', 'Servicios']);
+    expect(forward.body.map(row => row[row.length - 1])).toEqual(['PMR Bici', '']);
+    expect(backward.head[0]).not.toContain('Servicios');
+  });
+
+  it('adds a landscape time-distance page after the tables', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-07' });
+    const pageSizes = (file: { bytes: Uint8Array }) =>
+      [...new TextDecoder().decode(file.bytes).matchAll(/\/MediaBox \[0 0 ([\d.]+) ([\d.]+)\]/g)].map(([, w, h]) => Number(w) > Number(h) ? 'landscape' : 'portrait');
+
+    expect(pageSizes(render(data, { orientation: 'portrait' }))).toEqual(['portrait', 'portrait']);
+    expect(pageSizes(render(data, { orientation: 'portrait', stringline: 'order' }))).toEqual(['portrait', 'portrait', 'landscape']);
+    expect(tables).toHaveLength(4); // The diagram is drawn, not a table
+  });
+
+  it('appends the frequencies at each station, naming the day analysed in a period', async () => {
+    render(await parse({ from: '2026-12-07', to: '2026-12-08' }), { frequencyAppendix: true });
+
+    const [, , forward, backward] = tables;
+    expect(tables).toHaveLength(4);
+    expect(forward.head[0]).toEqual(['Estación', 'Primer tren', 'Último tren', 'Trenes', 'Hasta 07:00', 'Punta de mañana (07-10)', 'Valle (10-16)', 'Punta de tarde (16-20)', 'Desde 20:00', 'Mayor intervalo']);
+    expect(forward.body[0]).toEqual(['Irún', '07:00', '09:00', '2', '-', '0,7/h\n2 h 00 min / 2 h 00 min / 2 h 00 min', '-', '-', '-', '07:00-09:00 (2 h 00 min)']);
+    expect(backward.body.map(row => row[0])).toEqual(['Pasaia', 'Lezo-Rentería', 'Ventas de Irún', 'Irún']);
+  });
+
+  it('marks realtime delays and skipped stops and prints the alerts', async () => {
+    const feed = parseGTFSRealtime(realtimeFeed(
+      [{ tripId: 'L1', stops: [{ stopId: '11516', delay: 300 }] }, { tripId: 'L3', stops: [{ stopId: '11518', skipped: true }] }],
+      [{ header: { '': 'Obras en Lezo' }, stopIds: ['11516'] }],
+    ));
+    const overlay = applyRealtime(await parse({ from: '2026-12-07', to: '2026-12-07' }), TEST_LINE, feed);
+    const file = renderTimetablePDF(overlay.data.toBrinkola, overlay.data.toIrun, '07/12/2026', TEST_LINE, DEFAULT_PDF_OPTIONS, {}, {}, overlay.alerts);
+
+    expect(tables[0].body).toEqual([
+      ['Irún', '07:00', '07:04', "07:14 (+5')", "07:18 (+5')", 'Pasaia'],
+      ['Irún', '09:00', 'X', '09:09', '', 'Lezo-Rentería'],
+    ]);
+    expect(new TextDecoder().decode(file.bytes)).toContain('Obras en Lezo');
+  });
+
+  it('prints the connections with other operators at the interchanges', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-07' });
+    renderTimetablePDF(data.toBrinkola, data.toIrun, data.dateUsed, TEST_LINE, DEFAULT_PDF_OPTIONS, {}, {}, [], await irunConnections());
+
+    expect(tables[0].head[0]).toContain('Conexiones');
+    expect(tables[0].body.map(row => row[row.length - 1])).toEqual(['<- Hendaia 06:52 (Euskotren)', '<- Donostia 08:27 (Euskotren)']);
+    expect(tables[1].body.map(row => row[row.length - 1])).toEqual(['-> Donostia 06:52 (Euskotren)', '-> Hendaia 08:27 (Euskotren)', '']);
+  });
+
+  it('lays the timetable out with a template', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-07' });
+    const logo = { dataUrl: `data:image/png;base64,${PIXEL_PNG}`, aspect: 1 };
+    const file = renderTimetablePDF(data.toBrinkola, data.toIrun, data.dateUsed, TEST_LINE, DEFAULT_PDF_OPTIONS, {}, {}, [], undefined, {
+      ...DEFAULT_TEMPLATE,
+      name: 'Udala',
+      paper: 'a3',
+      theme: PDF_THEMES.blue,
+      title: 'Trenes hacia {direction}',
+      header: { text: 'Irungo Udala', logo },
+      footer: { text: 'Informazioa: 010' },
+      qrUrl: 'https://www.irun.org',
+      fileName: 'Udala_{date}',
+    });
+    const text = new TextDecoder().decode(file.bytes);
+
+    expect(file.filename).toBe('Udala_07-12-2026.pdf');
+    expect(text).toMatch(/\/MediaBox \[0 0 1190\.5\d* 841\.8\d*\]/); // A3 landscape
+    expect(text).toContain('Trenes hacia Pasaia');
+    expect(text).toContain('Irungo Udala');
+    expect(text).toContain('Informazioa: 010');
+    expect(text).toContain('/Subtype /Image');
+    expect(tables[0].body[0]).toEqual(['Irún', '07:00', '07:04', '07:09', '07:13', 'Pasaia']);
+  });
+
+  it('centres the page numbers on every page, above the template footer', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-07' });
+    const file = renderTimetablePDF(data.toBrinkola, data.toIrun, data.dateUsed, TEST_LINE, {
+      ...DEFAULT_PDF_OPTIONS,
+      layout: 'trainColumns',
+      orientation: 'portrait',
+      stringline: 'order',
+    }, {}, {}, [], undefined, { ...DEFAULT_TEMPLATE, footer: { text: 'Informazioa: 010' } });
+    const numbers = [...new TextDecoder().decode(file.bytes).matchAll(/([\d.]+) ([\d.]+) Td\n\(P.gina (\d) de 3\) Tj/g)]
+      .map(([, x, y, page]) => ({ page, x: Number(x), y: Number(y) }));
+    const mm = 72 / 25.4;
+
+    expect(numbers.map(n => n.page)).toEqual(['1', '2', '3']);
+    // The stringline page is landscape A4 after portrait tables
+    expect(numbers[2].x - numbers[0].x).toBeCloseTo((297 - 210) / 2 * mm, 1);
+    expect(numbers.every(n => Math.abs(n.y - 11 * mm) < 0.01)).toBe(true);
+  });
+
+  it('prints bilingual headers', async () => {
+    render(await parse({ from: '2026-12-08', to: '2026-12-08' }), { language: 'eu-es', arrivalAtTerminus: true });
+
+    expect(tables).toMatchSnapshot();
+  });
+});
+
+describe('renderStationPoster', () => {
+  it('groups departures by hour in both directions', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-07' });
+    const file = renderStationPoster(data.toBrinkola, data.toIrun, data.dateUsed, TEST_LINE, '11518', DEFAULT_PDF_OPTIONS);
+
+    expect(pdfHeader(file.bytes)).toBe('%PDF-');
+    expect(tables).toMatchSnapshot();
+  });
+
+  it('marks the trains with notes', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-07' });
+    const edited = applyEdits(data, TEST_LINE, { ...EMPTY_EDITS, notes: { L3: 'Refuerzo' } }).data;
+    renderStationPoster(edited.toBrinkola, edited.toIrun, data.dateUsed, TEST_LINE, '11518', DEFAULT_PDF_OPTIONS);
+
+    expect(tables[0].body).toContainEqual(['09', '04a[1]']);
+  });
+
+  it('lists the arrivals of other operators in time for each train', async () => {
+    const data = await parse({ from: '2026-12-07', to: '2026-12-07' });
+    const file = renderStationPoster(data.toBrinkola, data.toIrun, data.dateUsed, TEST_LINE, '11600', DEFAULT_PDF_OPTIONS, {}, await irunConnections());
+    const text = new TextDecoder().decode(file.bytes);
+
+    expect(text).toContain('Conexiones con otros operadores');
+    expect(text).toContain('07:00 <- Hendaia 06:52');
+  });
+});
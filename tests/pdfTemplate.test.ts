@@ -0,0 +1,59 @@
+import { jsPDF } from 'jspdf';
+import { describe, expect, it } from 'vitest';
+import { LocalizedError } from '../utils/i18n';
+import { DEFAULT_TEMPLATE, PDF_THEMES, drawTemplateBlocks, parseTemplate, templateFileName } from '../utils/pdfTemplate';
+import { TEST_LINE } from './fixtures/gtfsFeeds';
+
+describe('parseTemplate', () => {
+  it('keeps the valid fields and gives the rest their default', () => {
+    const template = parseTemplate({
+      name: ' Ayuntamiento ',
+      paper: 'a3',
+      theme: { headFill: PDF_THEMES.blue.headFill, headText: [300, 0, 0] },
+      fontSize: 40,
+      header: { text: 'Irungo Udala', logo: { dataUrl: 'data:image/gif;base64,R0lG', aspect: 2 } },
+      footer: { text: 'www.irun.org', logo: { dataUrl: 'data:image/png;base64,iVBO', aspect: 3 } },
+      qrUrl: ' https://www.irun.org ',
+    });
+
+    expect(template).toEqual({
+      ...DEFAULT_TEMPLATE,
+      name: 'Ayuntamiento',
+      paper: 'a3',
+      theme: { ...DEFAULT_TEMPLATE.theme, headFill: PDF_THEMES.blue.headFill },
+      header: { text: 'Irungo Udala' }, // Only PNG and JPEG logos
+      footer: { text: 'www.irun.org', logo: { dataUrl: 'data:image/png;base64,iVBO', aspect: 3 } },
+      qrUrl: 'https://www.irun.org',
+    });
+  });
+
+  it('rejects anything that is not a named template', () => {
+    expect(() => parseTemplate([])).toThrow(LocalizedError);
+    expect(() => parseTemplate({ paper: 'a4' })).toThrow(LocalizedError);
+  });
+});
+
+describe('templateFileName', () => {
+  it('fills in the line and dates', () => {
+    expect(templateFileName(DEFAULT_TEMPLATE, TEST_LINE, '07/12/2026 - 13/12/2026')).toBe('Cercanias_Prueba_07-12-2026_13-12-2026.pdf');
+    expect(templateFileName({ ...DEFAULT_TEMPLATE, fileName: 'Horario {line} (Irun)' }, TEST_LINE, '07/12/2026')).toBe('Horario_Prueba_Irun.pdf');
+  });
+});
+
+describe('drawTemplateBlocks', () => {
+  it('keeps the header right of the page title', () => {
+    const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    drawTemplateBlocks(doc, {
+      ...DEFAULT_TEMPLATE,
+      header: {
+        text: 'Irungo Udala - Ayuntamiento de Irun - Mugikortasun saila',
+        logo: { dataUrl: 'data:image/png;base64,iVBO', aspect: 10 }, // 100 mm wide
+      },
+    }, new Map([[1, 150]]));
+    const text = doc.output();
+
+    expect(text).toMatch(/\(Irungo Udala [^)]*\.\.\.\) Tj/);
+    expect(text).not.toContain('Mugikortasun saila');
+    expect(text).not.toContain('/Subtype /Image');
+  });
+});
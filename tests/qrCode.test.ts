@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { LocalizedError } from '../utils/i18n';
+import { encodeQR, formatBits, reedSolomon } from '../utils/qrCode';
+
+// Codewords of a version 1 symbol, read back in the standard zigzag order.
+// Outside the finder, timing and format areas every module carries data.
+const readCodewords = (modules: boolean[][], mask: (x: number, y: number) => boolean): number[] => {
+  const size = modules.length;
+  const isFunction = (x: number, y: number) => x === 6 || y === 6 || (x < 9 && y < 9) || (x >= size - 8 && y < 9) || (x < 9 && y >= size - 8);
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = ((right + 1) & 2) === 0 ? size - 1 - vertical : vertical;
+        if (!isFunction(x, y)) bits.push(Number(modules[y][x] !== mask(x, y)));
+      }
+    }
+  }
+  const codewords: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  return codewords;
+};
+
+describe('reedSolomon', () => {
+  it('computes the error correction of the HELLO WORLD 1-M example', () => {
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+    expect(reedSolomon(data, 10)).toEqual([196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  });
+});
+
+describe('encodeQR', () => {
+  it('writes the level M format information', () => {
+    expect(formatBits(0).toString(2)).toBe('101010000010010');
+  });
+
+  it('encodes short texts in a version 1 symbol that reads back', () => {
+    const modules = encodeQR('HOLA');
+    const size = modules.length;
+    const format = [0, 1, 2, 3, 4, 5, 7, 8].map(y => modules[y][8]).concat([7, 5, 4, 3, 2, 1, 0].map(x => modules[8][x]))
+      .reduce((bits, dark, i) => bits | (Number(dark) << i), 0);
+    const mask = [0, 1, 2, 3, 4, 5, 6, 7].find(m => formatBits(m) === format)!;
+    const masks = [
+      (x: number, y: number) => (x + y) % 2 === 0,
+      (_: number, y: number) => y % 2 === 0,
+      (x: number) => x % 3 === 0,
+      (x: number, y: number) => (x + y) % 3 === 0,
+      (x: number, y: number) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+      (x: number, y: number) => (x * y) % 2 + (x * y) % 3 === 0,
+      (x: number, y: number) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+      (x: number, y: number) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+    ];
+    const codewords = readCodewords(modules, masks[mask]);
+
+    expect(size).toBe(21);
+    expect(modules[0].slice(0, 7)).toEqual([true, true, true, true, true, true, true]);
+    expect(mask).toBeDefined();
+    // Byte mode (0100), length 4, "HOLA", terminator, then padding
+    expect(codewords.slice(0, 8)).toEqual([0x40, 0x44, 0x84, 0xf4, 0xc4, 0x10, 0xec, 0x11]);
+    expect(codewords.slice(16, 26)).toEqual(reedSolomon(codewords.slice(0, 16), 10));
+  });
+
+  it('grows with the text and refuses texts that do not fit', () => {
+    expect(encodeQR('https://www.renfe.com/es/es/cercanias/cercanias-san-sebastian/horarios')).toHaveLength(37); // Version 5, two blocks
+    expect(encodeQR('x'.repeat(213))).toHaveLength(57);
+    expect(() => encodeQR('x'.repeat(214))).toThrow(LocalizedError);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { serviceCoverage } from '../utils/serviceCoverage';
+import { BASE_FEED, TEST_LINE, withRows, zipFeed } from './fixtures/gtfsFeeds';
+
+const coverageOf = async (feed = BASE_FEED) => serviceCoverage(await zipFeed(feed), TEST_LINE, () => {});
+
+describe('serviceCoverage', () => {
+  it('covers every day of the feed with the trains of the line', async () => {
+    const coverage = await coverageOf();
+    const day = (date: string) => coverage.days.find(d => d.date === date);
+
+    expect(coverage.feedRange).toEqual({ from: '20261101', to: '20261231' });
+    expect(coverage.days).toHaveLength(61);
+    expect(day('20261207')?.trains).toBe(5); // L1, L2, L3, S1 and O1; L4 calls at one station only
+    expect(day('20261208')?.trains).toBe(2);
+    expect(day('20261214')?.trains).toBe(3);
+  });
+
+  it('flags the days that break their weekday pattern', async () => {
+    const coverage = await coverageOf();
+    const deviation = (date: string) => coverage.days.find(d => d.date === date)?.deviation;
+
+    expect(deviation('20261208')).toBe('holiday');
+    expect(deviation('20261207')).toBe('special');
+    expect(deviation('20261209')).toBeUndefined(); // OLD's period ended on the 7th
+    expect(deviation('20261201')).toBeUndefined();
+    expect(deviation('20261206')).toBeUndefined();
+  });
+
+  it('takes each calendar period as the norm of its own days', async () => {
+    // A summer timetable replaces the weekday service from December 15th
+    const feed = withRows(
+      withRows(
+        withRows(BASE_FEED, 'calendar.txt', 'SUM,1,1,1,1,1,0,0,20261215,20261231'),
+        'trips.txt', 'C1,SUM,V1,0',
+      ),
+      'stop_times.txt', 'V1,11:00:00,11:00:00,11600,1', 'V1,11:09:00,11:09:00,11516,2',
+    );
+    const coverage = await coverageOf(feed);
+    const day = (date: string) => coverage.days.find(d => d.date === date);
+
+    expect(day('20261214')).toEqual({ date: '20261214', trains: 3 });
+    expect(day('20261215')).toEqual({ date: '20261215', trains: 4 });
+    expect(day('20261222')?.deviation).toBeUndefined();
+  });
+
+  it('counts trains after midnight on the next calendar day', async () => {
+    // N1 belongs to OLD, whose last service day is Monday 7
+    const feed = withRows(
+      withRows(BASE_FEED, 'trips.txt', 'C1,OLD,N1,1'),
+      'stop_times.txt', 'N1,24:30:00,24:30:00,11516,1', 'N1,24:39:00,24:39:00,11600,2',
+    );
+    const coverage = await coverageOf(feed);
+    const trains = (date: string) => coverage.days.find(d => d.date === date)?.trains;
+
+    expect(trains('20261207')).toBe(6); // N1 of Sunday 6
+    expect(trains('20261208')).toBe(3); // N1 of Monday 7
+    expect(trains('20261209')).toBe(3);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedTimetable } from '../types';
+import { parseGTFS } from '../utils/gtfsParser';
+import { expressTrips, stopKind, tripEndName } from '../utils/stoppingPattern';
+import { BASE_FEED, TEST_LINE, zipFeed } from './fixtures/gtfsFeeds';
+
+const weekday = async (): Promise<ParsedTimetable> =>
+  parseGTFS(await zipFeed(BASE_FEED), { from: '2026-12-07', to: '2026-12-07' }, TEST_LINE, () => {});
+
+const [IRUN, VENTAS, LEZO, PASAIA] = TEST_LINE.stations;
+
+describe('stopKind', () => {
+  it('tells passing through from not running', async () => {
+    const data = await weekday();
+    const s1 = data.toIrun.find(t => t.id === 'S1')!;
+    const l3 = data.toBrinkola.find(t => t.id === 'L3')!;
+
+    expect([PASAIA, LEZO, VENTAS, IRUN].map(s => stopKind(s1, s))).toEqual(['stop', 'pass', 'pass', 'stop']);
+    expect([IRUN, VENTAS, LEZO, PASAIA].map(s => stopKind(l3, s))).toEqual(['stop', 'stop', 'stop', 'none']);
+  });
+});
+
+describe('expressTrips', () => {
+  it('flags trains that skip stations other trains call at', async () => {
+    const data = await weekday();
+
+    expect(expressTrips(data.toIrun, [...TEST_LINE.stations].reverse())).toEqual(new Set(['S1']));
+    expect(expressTrips(data.toBrinkola, TEST_LINE.stations)).toEqual(new Set());
+  });
+
+  it('ignores stations no train calls at', async () => {
+    const s1 = (await weekday()).toIrun.filter(t => t.id === 'S1');
+
+    expect(expressTrips(s1, TEST_LINE.stations)).toEqual(new Set());
+  });
+});
+
+describe('tripEndName', () => {
+  it('names line stations in the chosen language and other stops after stops.txt', () => {
+    expect(tripEndName({ code: '11600', name: 'IRUN' }, TEST_LINE, 'eu')).toBe('Irun');
+    expect(tripEndName({ code: 'HEN', name: 'Hendaye' }, TEST_LINE, 'eu')).toBe('Hendaye');
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedTimetable } from '../types';
+import { parseGTFS } from '../utils/gtfsParser';
+import { buildStringline, distanceKm, stationOffsets, stringlineHours } from '../utils/stringline';
+import { BASE_FEED, STOPS_WITH_COORDS, TEST_LINE, withFiles, zipFeed } from './fixtures/gtfsFeeds';
+
+const weekday = async (stops = STOPS_WITH_COORDS): Promise<ParsedTimetable> =>
+  parseGTFS(await zipFeed(withFiles(BASE_FEED, { 'stops.txt': stops })), { from: '2026-12-07', to: '2026-12-07' }, TEST_LINE, () => {});
+
+describe('stationOffsets', () => {
+  it('spaces the stations by order or by the distance between them', async () => {
+    const { stationCoords } = await weekday();
+    const distances = stationOffsets(TEST_LINE.stations, stationCoords, 'distance');
+
+    expect(stationOffsets(TEST_LINE.stations, stationCoords, 'order')).toEqual([0, 1, 2, 3]);
+    expect(distances[0]).toBe(0);
+    expect(distances[1]).toBeCloseTo(distanceKm(stationCoords['11600'], stationCoords['11518']));
+    expect(distances[3]).toBeGreaterThan(10);
+    expect(distances[3]).toBeLessThan(15);
+  });
+
+  it('falls back to order when a station has no coordinates', async () => {
+    const { stationCoords } = await weekday(STOPS_WITH_COORDS.replace('43.3210,-1.9225', '0,0'));
+
+    expect(stationCoords).not.toHaveProperty('11515');
+    expect(stationOffsets(TEST_LINE.stations, stationCoords, 'distance')).toEqual([0, 1, 2, 3]);
+  });
+});
+
+describe('buildStringline', () => {
+  it('draws each train through its stops in time order', async () => {
+    const data = await weekday();
+    const diagram = buildStringline(data.toBrinkola, data.toIrun, TEST_LINE, data.stationCoords, 'order');
+    const train = (id: string) => diagram.trains.find(t => t.trip.id === id)!;
+
+    expect(diagram.spacing).toBe('order');
+    expect(diagram.trains.map(t => `${t.direction}:${t.trip.id}`)).toEqual(['forward:L1', 'forward:L3', 'backward:O1', 'backward:L2', 'backward:S1']);
+    expect(train('O1').points).toEqual([
+      { offset: 2, seconds: 6 * 3600 },
+      { offset: 1, seconds: 6 * 3600 + 240 },
+      { offset: 0, seconds: 6 * 3600 + 540 },
+    ]);
+    expect(train('L1').points).toContainEqual({ offset: 3, seconds: 7 * 3600 + 12 * 60 });
+    expect(train('L1').points).toContainEqual({ offset: 3, seconds: 7 * 3600 + 13 * 60 });
+    expect(train('S1').express).toBe(true);
+    expect(train('L2').express).toBe(false);
+  });
+
+  it('spans whole hours around the trains', async () => {
+    const data = await weekday();
+    const diagram = buildStringline(data.toBrinkola, data.toIrun, TEST_LINE, data.stationCoords, 'distance');
+
+    expect(diagram.spacing).toBe('distance');
+    expect([diagram.start, diagram.end]).toEqual([6 * 3600, 23 * 3600]);
+    expect(stringlineHours(diagram)).toHaveLength(18);
+    expect(diagram.length).toBeCloseTo(diagram.stations[3].offset);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { ParsedTimetable, TimetableEdits } from '../types';
+import { parseGTFS } from '../utils/gtfsParser';
+import { EMPTY_EDITS, applyEdits, filterTrips, hasEdits, visibleLine } from '../utils/timetableEdits';
+import { BASE_FEED, TEST_LINE, zipFeed } from './fixtures/gtfsFeeds';
+
+const weekday = async (): Promise<ParsedTimetable> =>
+  parseGTFS(await zipFeed(BASE_FEED), { from: '2026-12-07', to: '2026-12-07' }, TEST_LINE, () => {});
+
+const edit = (changes: Partial<TimetableEdits>): TimetableEdits => ({ ...EMPTY_EDITS, ...changes });
+
+const ids = (data: ParsedTimetable) => ({
+  toBrinkola: data.toBrinkola.map(t => t.id),
+  toIrun: data.toIrun.map(t => t.id),
+});
+
+describe('applyEdits', () => {
+  it('leaves the timetable as parsed without edits', async () => {
+    const data = await weekday();
+    const edited = applyEdits(data, TEST_LINE, EMPTY_EDITS);
+
+    expect(hasEdits(EMPTY_EDITS)).toBe(false);
+    expect(edited.data).toEqual(data);
+    expect(edited.line).toBe(TEST_LINE);
+  });
+
+  it('drops hidden trains and attaches trimmed notes', async () => {
+    const edited = applyEdits(await weekday(), TEST_LINE, edit({
+      hiddenTrips: ['L3'],
+      notes: { L1: '  Refuerzo ', L2: '   ' },
+    }));
+
+    expect(ids(edited.data)).toEqual({ toBrinkola: ['L1'], toIrun: ['O1', 'L2', 'S1'] });
+    expect(edited.data.toBrinkola[0].note).toBe('Refuerzo');
+    expect(edited.data.toIrun.every(t => t.note === undefined)).toBe(true);
+  });
+
+  it('times each train at the first shown station it calls at', async () => {
+    const edited = applyEdits(await weekday(), TEST_LINE, edit({
+      stations: ['11516', '11515'],
+      fromTime: '07:05',
+      toTime: '09:00',
+    }));
+
+    // L1 leaves Lezo-Rentería at 07:09; L3 at 09:09
+    expect(edited.line.stations.map(s => s.orden)).toEqual([3, 4]);
+    expect(ids(edited.data)).toEqual({ toBrinkola: ['L1'], toIrun: ['L2'] });
+  });
+
+  it('wraps a window that ends before it starts around midnight', async () => {
+    const edited = applyEdits(await weekday(), TEST_LINE, edit({ fromTime: '22:00', toTime: '06:30' }));
+
+    expect(ids(edited.data)).toEqual({ toBrinkola: [], toIrun: ['O1', 'S1'] });
+  });
+});
+
+describe('filterTrips', () => {
+  it('keeps only the trains marked as wheelchair accessible', async () => {
+    const data = await weekday();
+    const trips = [{ ...data.toBrinkola[0], wheelchairAccessible: true }, { ...data.toBrinkola[1], wheelchairAccessible: false }];
+
+    expect(filterTrips(trips, TEST_LINE.stations, edit({ accessibleOnly: true })).map(t => t.id)).toEqual(['L1']);
+  });
+
+
+  it('keeps hidden trains for the preview', async () => {
+    const data = await weekday();
+    const trips = filterTrips(data.toBrinkola, TEST_LINE.stations, edit({ hiddenTrips: ['L1'] }), true);
+
+    expect(trips.map(t => t.id)).toEqual(['L1', 'L3']);
+  });
+});
+
+describe('visibleLine', () => {
+  it('falls back to the whole line when no station is picked', () => {
+    expect(visibleLine(TEST_LINE, edit({ stations: ['NOPE'] }))).toBe(TEST_LINE);
+  });
+});
@@ -1,8 +1,33 @@
+import type { Locale, LocalizedText } from './utils/i18n';
+
 export interface Trip {
   trip_id: string;
   route_id: string;
   service_id: string;
   direction_id?: string;
+  trip_headsign?: string;
+  wheelchair_accessible?: string; // "1" accessible, "2" not, empty or "0" unknown
+  bikes_allowed?: string; // Same values as wheelchair_accessible
+}
+
+export interface Route {
+  route_id: string;
+  agency_id?: string;
+  route_short_name: string;
+  route_long_name: string;
+}
+
+export interface Agency {
+  agency_id?: string;
+  agency_name: string;
+}
+
+export interface Stop {
+  stop_id: string;
+  stop_name: string;
+  wheelchair_boarding?: string; // "1" accessible, "2" not, empty or "0" unknown
+  stop_lat?: string;
+  stop_lon?: string;
 }
 
 export interface StopTime {
@@ -32,15 +57,235 @@ export interface CalendarDate {
   exception_type: string; // 1 = added, 2 = removed 
 }
 
+export interface ServicePattern {
+  label: string; // Spanish label, e.g. "L-V", "S", "D y festivos"
+  note?: string; // Irregular days in Spanish, printed as a footnote
+  weekdays: number[]; // Covered weekdays, Monday-first (0 = Monday ... 6 = Sunday)
+  holidays: boolean; // Covers festivos
+  daily: boolean; // Every day of the period
+  notRunning: string[]; // YYYYMMDD dates of covered days on which it does not run
+  alsoRunning: string[]; // YYYYMMDD dates outside the covered days on which it runs
+}
+
+// First or last stop of a whole GTFS trip, which may lie beyond the line
+export interface TripEnd {
+  code: string; // stop_id
+  name: string; // stop_name, or the stop_id when stops.txt does not name it
+}
+
 export interface ParsedTrip {
   id: string;
-  stops: Record<string, string>; // stationCode -> departureTime
+  tripIds: string[]; // All GTFS trips merged into this entry (id is the first)
+  stops: Record<string, string>; // stationCode -> departureTime ("HH:MM", 24h clock)
+  times: Record<string, number>; // stationCode -> departure in seconds from the calendar day's midnight (>= 86400 after midnight)
+  arrivals: Record<string, number>; // stationCode -> arrival in seconds, same base as `times`
   firstStopOrder: number;
   lastStopOrder: number;
-  departureFromOrigin: string; // Used for sorting
+  origin: TripEnd; // Where the train really starts, on the line or not
+  destination: TripEnd; // Where the train really ends
+  headsign?: string; // trip_headsign, the destination shown on the train
+  wheelchairAccessible?: boolean; // Undefined when the feed does not say
+  bikesAllowed?: boolean; // Undefined when the feed does not say
+  departureFromOrigin: number; // Seconds, used for sorting
+  days: string[]; // YYYYMMDD dates of the selected range on which it runs
+  serviceDayShift?: number; // Single days only: 1 for a train of the previous service day, moved past midnight
+  pattern?: ServicePattern; // Only set for multi-day ranges
+  note?: string; // Annotation added in the preview, printed with the train
+  realtime?: TripRealtime; // Set by a GTFS-Realtime overlay
+}
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD, equal to `from` for a single day
+}
+
+// stationCode -> step-free boarding, from stops.txt; stations the feed says nothing about are left out
+export type StationAccess = Record<string, boolean>;
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+// stationCode -> position from stops.txt; stations without valid coordinates are left out
+export type StationCoords = Record<string, GeoPoint>;
+
+export interface ParsedTimetable {
+  toBrinkola: ParsedTrip[];
+  toIrun: ParsedTrip[];
+  dateUsed: string;
+  range: DateRange;
+  stationAccess: StationAccess;
+  stationCoords: StationCoords;
+}
+
+export type ProcessingPhase = 'unzip' | 'calendar' | 'trips' | 'stop_times' | 'organizing';
+
+export interface ProcessingProgress {
+  phase: ProcessingPhase;
+  message: LocalizedText;
+  processed: number;
+  total: number; // 0 when unknown
+  unit: 'bytes' | 'rows';
+}
+
+export type PdfLayout = 'trainRows' | 'trainColumns';
+
+// A single locale, or Basque and Spanish side by side
+export type PdfLanguage = Locale | 'eu-es';
+
+// How the stations of a time-distance diagram are spaced: evenly by their
+// order on the line, or by the distance between their coordinates
+export type StringlineSpacing = 'order' | 'distance';
+
+export interface PdfOptions {
+  layout: PdfLayout; // One row per train, or stations as rows and trains as columns
+  orientation: 'portrait' | 'landscape';
+  columnsPerPage: number; // Trains per page in the "trainColumns" layout
+  nextDayMarker: boolean; // Append "+1" to times after midnight
+  arrivalAtTerminus: boolean; // Print the arrival time at each train's last station
+  dwellThreshold: number; // Minutes; longer stops print arrival and departure (0 = off)
+  language: PdfLanguage;
+  stringline: StringlineSpacing | 'none'; // Time-distance diagram page after the tables
+  frequencyAppendix: boolean; // Trains per hour and headways at each station, after the tables
 }
 
 export interface ProcessingStatus {
   step: 'idle' | 'reading' | 'processing' | 'generating' | 'done' | 'error';
-  message: string;
-}
\ No newline at end of file
+  message?: LocalizedText;
+  progress?: ProcessingProgress;
+}
+// --- VALIDATION ---
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+  | 'missingFile'
+  | 'missingCalendar'
+  | 'malformedFile'
+  | 'rangeOutsideFeed'
+  | 'rangePartlyOutside'
+  | 'daysWithoutService'
+  | 'routeNotFound'
+  | 'stationNotInStops'
+  | 'stationNotServed'
+  | 'unknownStop'
+  | 'unknownTrip'
+  | 'duplicateTripId'
+  | 'unknownService'
+  | 'invalidTime'
+  | 'timesBackwards'
+  | 'serviceWithoutTrips';
+
+// One offending row, or one offending value when there is no row to point at
+export interface ValidationSample {
+  file?: string;
+  line?: number; // 1-based line in `file`
+  values: Record<string, string>; // e.g. { trip_id: "123", stop_sequence: "4" }
+}
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  message: LocalizedText;
+  count: number; // All occurrences, `samples` keeps only the first few
+  samples: ValidationSample[];
+}
+
+export interface ValidationReport {
+  lineName: string;
+  range: DateRange;
+  feedRange?: { from: string; to: string }; // YYYYMMDD, from calendar.txt and calendar_dates.txt
+  files: { name: string; rows: number }[]; // Files found in the archive, with their data rows
+  issues: ValidationIssue[]; // Errors first
+}
+
+// --- TIMETABLE EDITS ---
+
+// Changes made in the on-screen preview. They apply to the generated PDFs
+// only: the parsed timetable itself is never modified.
+export interface TimetableEdits {
+  hiddenTrips: string[]; // ParsedTrip ids left out
+  notes: Record<string, string>; // ParsedTrip id -> annotation, e.g. "Refuerzo"
+  stations: string[]; // Station codes shown, in any order; empty for all
+  fromTime: string; // "HH:MM" or empty: earliest departure from the first shown station
+  toTime: string; // "HH:MM" or empty: latest one. Earlier than fromTime for a window across midnight
+  accessibleOnly: boolean; // Only trains the feed marks as wheelchair accessible
+}
+
+// --- REALTIME ---
+
+// What a GTFS-Realtime TripUpdate changed on one train. Delays are already
+// applied to `times`, `arrivals` and `stops`; skipped stations are removed from them.
+export interface TripRealtime {
+  status: 'scheduled' | 'canceled' | 'added';
+  delays: Record<string, number>; // stationCode -> seconds late (negative: early), only where known
+  skipped: string[]; // Station codes the train does not call at today
+  plannedTimes: Record<string, number>; // stationCode -> departure before the overlay
+}
+
+// A ServiceAlert, texts in every language the feed gives them
+export interface RealtimeAlert {
+  id: string;
+  header: Record<string, string>; // Language code ("" when untagged) -> text
+  description: Record<string, string>;
+  activePeriods: { start?: number; end?: number }[]; // Unix seconds; empty: always active
+  stopIds: string[]; // informed_entity stops
+  routeIds: string[];
+  tripIds: string[];
+}
+
+// --- CONNECTIONS ---
+
+// A change between a station of the line and stops of another operator's GTFS
+// feed, e.g. Irun and the Euskotren stop across the street
+export interface Interchange {
+  stationCode: string; // StationDef.codigo on the line
+  feedName: string; // File name of the other feed
+  stopIds: string[]; // Its stops within walking distance of the station
+  minTransfer: number; // Minutes needed to change
+  towards: string; // Only vehicles heading to, or coming from, a place containing this text; empty: any
+}
+
+// --- PDF TEMPLATES ---
+
+export type PaperSize = 'a4' | 'a3' | 'letter';
+
+export type RGBColor = [number, number, number];
+
+export interface PdfLogo {
+  dataUrl: string; // PNG or JPEG image as a data: URL
+  aspect: number; // Width / height
+}
+
+// Text and logo printed on every page, above the title or at the foot
+export interface PdfBlock {
+  text: string;
+  logo?: PdfLogo;
+}
+
+export interface PdfTheme {
+  headFill: RGBColor; // Table headers
+  headText: RGBColor;
+  titleText: RGBColor; // Page titles and header text
+}
+
+export interface PdfFont {
+  fileName: string;
+  data: string; // TrueType file, base64
+}
+
+// Look of the line timetable PDF, saved and shared as JSON
+export interface PdfTemplate {
+  name: string;
+  paper: PaperSize;
+  theme: PdfTheme;
+  font?: PdfFont; // Embedded font; Helvetica when missing
+  fontSize: number; // Points, table body
+  margin: number; // Left and right margins, mm
+  title: string; // Page title, with {direction}; empty for the default one
+  header: PdfBlock;
+  footer: PdfBlock;
+  qrUrl: string; // Link printed as a QR code on the first page; empty for none
+  fileName: string; // Without extension, with {line} and {date}
+}
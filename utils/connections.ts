@@ -0,0 +1,247 @@
+import { StationDef } from '../constants';
+import { DateRange, Interchange, ParsedTrip, ProcessingProgress, StopTime, Trip } from '../types';
+import { AGENCY_SPEC, GTFSSource, ROUTE_SPEC, STOP_SPEC, STOP_TIME_SPEC, TRIP_SPEC, byteReporter, openGTFSArchive, readGTFSTable } from './gtfsReader';
+import { DAY_SECONDS, formatGTFSTime, parseGTFSTime } from './gtfsTime';
+import { LocalizedError, Translator } from './i18n';
+import { activeServicesOn, addDays, datesInRange, getDateInfo, loadServiceCalendar, toIsoDate, tripCalendarDays } from './serviceCalendar';
+
+// --- OTHER OPERATORS' TIMETABLES ---
+
+// One call of another operator's train or bus at an interchange stop
+export interface ConnectionCall {
+  stopId: string;
+  arrival: number; // Seconds from the calendar day's midnight
+  departure: number;
+  days: string[]; // YYYYMMDD calendar days of the range, or the day either side of it, on which it calls
+  origin: string; // Name of the vehicle's first stop
+  destination: string; // trip_headsign, or the name of its last stop
+  operator: string; // agency_name, or the feed's file name without extension
+  canBoard: boolean; // False at the vehicle's last stop
+  canAlight: boolean; // False at its first stop
+}
+
+// Calls at `stopIds` on the days of `range`, and on the day either side of it
+// for trains of the line that change past midnight. Like parseGTFS, a vehicle
+// calling after midnight counts on the next calendar day.
+export const readConnectionCalls = async (
+  source: GTFSSource,
+  feedName: string,
+  stopIds: string[],
+  range: DateRange,
+  onProgress: (progress: ProcessingProgress) => void
+): Promise<ConnectionCall[]> => {
+  const zip = await openGTFSArchive(source);
+  const rangeDates = datesInRange(range.from, range.to).map(iso => iso.replace(/-/g, ''));
+  const callDates = new Set([addDays(rangeDates[0], -1), ...rangeDates, addDays(rangeDates[rangeDates.length - 1], 1)]);
+  const calendar = await loadServiceCalendar(zip, byteReporter(onProgress, 'calendar', { key: 'progress.calendar' }));
+
+  // Service days of the calling days
+  const serviceDays = new Map<string, string[]>(); // service_id -> YYYYMMDD
+  callDates.forEach(dateStr => {
+    activeServicesOn(calendar, dateStr, getDateInfo(toIsoDate(dateStr)).dayName).forEach(serviceId => {
+      const days = serviceDays.get(serviceId);
+      if (days) days.push(dateStr);
+      else serviceDays.set(serviceId, [dateStr]);
+    });
+  });
+
+  const trips = new Map<string, Trip>();
+  const hasTrips = await readGTFSTable(zip, 'trips.txt', TRIP_SPEC, (trip) => {
+    if (serviceDays.has(trip.service_id)) trips.set(trip.trip_id, trip);
+  }, byteReporter(onProgress, 'trips', { key: 'progress.trips', params: { count: serviceDays.size } }));
+  if (!hasTrips) throw new LocalizedError('error.missingFile', { file: 'trips.txt' });
+
+  // Calls at the interchange stops, and the first and last stop of those trips
+  const wanted = new Set(stopIds);
+  const stopTimes: StopTime[] = [];
+  const tripEnds = new Map<string, { first: StopTime; last: StopTime }>();
+  const hasStopTimes = await readGTFSTable(zip, 'stop_times.txt', STOP_TIME_SPEC, (stopTime) => {
+    if (!trips.has(stopTime.trip_id)) return;
+    const ends = tripEnds.get(stopTime.trip_id);
+    if (!ends) {
+      tripEnds.set(stopTime.trip_id, { first: stopTime, last: stopTime });
+    } else if (stopTime.stop_sequence < ends.first.stop_sequence) {
+      ends.first = stopTime;
+    } else if (stopTime.stop_sequence > ends.last.stop_sequence) {
+      ends.last = stopTime;
+    }
+    if (wanted.has(stopTime.stop_id)) stopTimes.push(stopTime);
+  }, byteReporter(onProgress, 'stop_times', { key: 'progress.stopTimes' }));
+  if (!hasStopTimes) throw new LocalizedError('error.missingFile', { file: 'stop_times.txt' });
+
+  // Names of stops and operators; both files are optional here
+  const stopNames = new Map<string, string>();
+  await readGTFSTable(zip, 'stops.txt', STOP_SPEC, (stop) => stopNames.set(stop.stop_id, stop.stop_name));
+  const agencies = new Map<string, string>();
+  await readGTFSTable(zip, 'agency.txt', AGENCY_SPEC, (agency) => agencies.set(agency.agency_id ?? '', agency.agency_name));
+  const routeOperators = new Map<string, string>();
+  await readGTFSTable(zip, 'routes.txt', ROUTE_SPEC, (route) => {
+    const operator = agencies.get(route.agency_id ?? '') ?? (agencies.size === 1 ? [...agencies.values()][0] : undefined);
+    if (operator) routeOperators.set(route.route_id, operator);
+  });
+  const feedOperator = feedName.replace(/\.zip$/i, '');
+
+  onProgress({ phase: 'organizing', message: { key: 'progress.organizing' }, processed: 0, total: stopTimes.length, unit: 'rows' });
+  const calls: ConnectionCall[] = [];
+  stopTimes.forEach(stopTime => {
+    const trip = trips.get(stopTime.trip_id);
+    const ends = tripEnds.get(stopTime.trip_id);
+    if (!trip || !ends) return;
+    const departure = parseGTFSTime(stopTime.departure_time);
+    if (departure === null) return;
+    const arrival = parseGTFSTime(stopTime.arrival_time) ?? departure;
+
+    const dayShift = Math.floor(arrival / DAY_SECONDS);
+    const offset = dayShift * DAY_SECONDS;
+    const days = tripCalendarDays(serviceDays.get(trip.service_id) ?? [], arrival).filter(d => callDates.has(d));
+    if (days.length === 0) return;
+
+    const name = (stopId: string) => stopNames.get(stopId) ?? stopId;
+    calls.push({
+      stopId: stopTime.stop_id,
+      arrival: arrival - offset,
+      departure: departure - offset,
+      days,
+      origin: name(ends.first.stop_id),
+      destination: trip.trip_headsign ?? name(ends.last.stop_id),
+      operator: routeOperators.get(trip.route_id) ?? feedOperator,
+      canBoard: stopTime.stop_sequence !== ends.last.stop_sequence,
+      canAlight: stopTime.stop_sequence !== ends.first.stop_sequence,
+    });
+  });
+  return calls.sort((a, b) => a.departure - b.departure);
+};
+
+export interface FeedStop {
+  stop_id: string;
+  stop_name: string;
+}
+
+// Stops of a feed by name, to pick the ones next to a station of the line
+export const listStops = async (source: GTFSSource): Promise<FeedStop[]> => {
+  const zip = await openGTFSArchive(source);
+  const stops: FeedStop[] = [];
+  const hasStops = await readGTFSTable(zip, 'stops.txt', STOP_SPEC, (stop) => stops.push({ stop_id: stop.stop_id, stop_name: stop.stop_name }));
+  if (!hasStops) throw new LocalizedError('error.missingFile', { file: 'stops.txt' });
+  return stops.sort((a, b) => a.stop_name.localeCompare(b.stop_name, 'es', { numeric: true }));
+};
+
+// --- INTERCHANGES ---
+
+const DEFAULT_MIN_TRANSFER = 5;
+
+// Validates interchanges read from a JSON file or localStorage. Throws with a
+// user-facing message when they are not usable.
+export const parseInterchanges = (value: unknown): Interchange[] => {
+  if (!Array.isArray(value)) throw new LocalizedError('error.interchangesNotList');
+  return value.map((entry, i) => {
+    const interchange = (entry && typeof entry === 'object' ? entry : {}) as Partial<Interchange>;
+    if (typeof interchange.stationCode !== 'string' || typeof interchange.feedName !== 'string' || !Array.isArray(interchange.stopIds)) {
+      throw new LocalizedError('error.interchangeInvalid', { index: i + 1 });
+    }
+    const minTransfer = Number(interchange.minTransfer);
+    return {
+      stationCode: interchange.stationCode,
+      feedName: interchange.feedName,
+      stopIds: interchange.stopIds.map(String),
+      minTransfer: Number.isFinite(minTransfer) && minTransfer >= 0 ? minTransfer : DEFAULT_MIN_TRANSFER,
+      towards: typeof interchange.towards === 'string' ? interchange.towards : '',
+    };
+  });
+};
+
+// A new interchange at `stationCode`, before its stops are picked
+export const emptyInterchange = (stationCode: string, feedName: string): Interchange =>
+  ({ stationCode, feedName, stopIds: [], minTransfer: DEFAULT_MIN_TRANSFER, towards: '' });
+
+// --- CONNECTIONS OF A TRAIN ---
+
+// feed file name -> its calls at the interchange stops
+export type ConnectionCalls = Record<string, ConnectionCall[]>;
+
+// What the timetables need to print connections: the interchanges and the
+// other feeds' calls there
+export interface LineConnections {
+  interchanges: Interchange[];
+  calls: ConnectionCalls;
+}
+
+export const NO_CONNECTIONS: LineConnections = { interchanges: [], calls: {} };
+
+// A connection is only offered if it leaves within this time of the earliest possible change
+export const CONNECTION_WINDOW = 60 * 60;
+
+export interface TripConnection {
+  interchange: Interchange;
+  kind: 'onward' | 'feeder'; // Leaving after the train arrives, or arriving in time to catch it
+  call: ConnectionCall;
+}
+
+const matchesTowards = (place: string, towards: string) =>
+  !towards || place.toLocaleLowerCase('es').includes(towards.toLocaleLowerCase('es'));
+
+// Calls at the interchange on every day the train runs, so that a connection
+// printed for a period holds on each of its days. Calls of the calendar day
+// `dayShift` days after the train's are re-timed from the train's midnight.
+const callsFor = (interchange: Interchange, calls: ConnectionCalls, trip: ParsedTrip, dayShift: number): ConnectionCall[] =>
+  (calls[interchange.feedName] ?? [])
+    .filter(call => interchange.stopIds.includes(call.stopId) && trip.days.every(day => call.days.includes(addDays(day, dayShift))))
+    .map(call => dayShift === 0 ? call : {
+      ...call,
+      arrival: call.arrival + dayShift * DAY_SECONDS,
+      departure: call.departure + dayShift * DAY_SECONDS,
+    });
+
+// Calls of every calendar day the window `from`-`to` (seconds from the train's
+// midnight, >= 24:00 past it) reaches, by the parser's day-shift rule
+const callsBetween = (interchange: Interchange, calls: ConnectionCalls, trip: ParsedTrip, from: number, to: number) => {
+  const found: ConnectionCall[] = [];
+  for (let dayShift = Math.floor(from / DAY_SECONDS); dayShift <= Math.floor(to / DAY_SECONDS); dayShift++) {
+    found.push(...callsFor(interchange, calls, trip, dayShift));
+  }
+  return found;
+};
+
+// The next vehicle a passenger leaving the train at `station` can catch,
+// timed like the train: past 24:00 when it leaves the next calendar day
+export const onwardConnection = (trip: ParsedTrip, station: StationDef, interchange: Interchange, calls: ConnectionCalls): ConnectionCall | undefined => {
+  const arrival = trip.arrivals[station.codigo] ?? trip.times[station.codigo];
+  if (arrival === undefined) return undefined;
+  const earliest = arrival + interchange.minTransfer * 60;
+  return callsBetween(interchange, calls, trip, earliest, earliest + CONNECTION_WINDOW)
+    .filter(call => call.canBoard && matchesTowards(call.destination, interchange.towards))
+    .filter(call => call.departure >= earliest && call.departure <= earliest + CONNECTION_WINDOW)
+    .sort((a, b) => a.departure - b.departure)[0];
+};
+
+// The last vehicle arriving at the interchange in time to board the train at
+// `station`, timed like the train: negative when it arrives the day before
+export const feederConnection = (trip: ParsedTrip, station: StationDef, interchange: Interchange, calls: ConnectionCalls): ConnectionCall | undefined => {
+  const departure = trip.times[station.codigo];
+  if (departure === undefined) return undefined;
+  const latest = departure - interchange.minTransfer * 60;
+  return callsBetween(interchange, calls, trip, latest - CONNECTION_WINDOW, latest)
+    .filter(call => call.canAlight && matchesTowards(call.origin, interchange.towards))
+    .filter(call => call.arrival <= latest && call.arrival >= latest - CONNECTION_WINDOW)
+    .sort((a, b) => b.arrival - a.arrival)[0];
+};
+
+// Connections of a train at the interchanges of the line, in travel order:
+// onward ones where it arrives or passes, feeders where it starts
+export const tripConnections = (trip: ParsedTrip, stations: StationDef[], interchanges: Interchange[], calls: ConnectionCalls): TripConnection[] =>
+  stations.flatMap(station => interchanges
+    .filter(interchange => interchange.stationCode === station.codigo && trip.times[station.codigo] !== undefined)
+    .map((interchange): TripConnection | undefined => {
+      const kind = station.orden === trip.firstStopOrder ? 'feeder' : 'onward';
+      const call = kind === 'onward' ? onwardConnection(trip, station, interchange, calls) : feederConnection(trip, station, interchange, calls);
+      return call && { interchange, kind, call };
+    })
+    .filter((connection): connection is TripConnection => !!connection));
+
+// "-> Hendaia 10:42 (Euskotren)" or "<- Hendaia 10:12 (Euskotren)"
+export const connectionText = (connection: TripConnection, t: Translator, nextDayMarker = false) => {
+  const { call } = connection;
+  return connection.kind === 'onward'
+    ? t('connection.onward', { destination: call.destination, time: formatGTFSTime(call.departure, nextDayMarker), operator: call.operator })
+    : t('connection.feeder', { origin: call.origin, time: formatGTFSTime(call.arrival, nextDayMarker), operator: call.operator });
+};
@@ -0,0 +1,200 @@
+import type JSZip from 'jszip';
+import { LocalizedError, MessageKey } from './i18n';
+
+// --- RFC 4180 STREAMING PARSER ---
+
+export class CsvSyntaxError extends LocalizedError {
+  constructor(key: MessageKey, public line: number) {
+    super(key);
+    this.name = 'CsvSyntaxError';
+  }
+}
+
+export type CsvRecordHandler = (fields: string[], line: number) => void;
+
+// Incremental CSV tokenizer: accepts text in arbitrary chunks and emits one
+// record at a time. Handles quoted fields (embedded commas, quotes and line
+// breaks), CRLF/LF/CR line endings and a leading UTF-8 BOM. Blank lines are skipped.
+export class CsvStreamParser {
+  private fields: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private quoteClosed = false; // Just left a quoted field, expecting a delimiter
+  private fieldQuoted = false;
+  private lastWasCR = false;
+  private started = false;
+  private line = 1;
+  private recordLine = 1;
+  private quoteLine = 1;
+
+  constructor(private onRecord: CsvRecordHandler) {}
+
+  push(chunk: string) {
+    let i = 0;
+    if (!this.started && chunk.length > 0) {
+      this.started = true;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+    }
+    let start = i;
+
+    for (; i < chunk.length; i++) {
+      const ch = chunk.charCodeAt(i);
+      const wasCR = this.lastWasCR;
+      this.lastWasCR = ch === 13;
+
+      if (this.inQuotes) {
+        if (ch === 34) { // "
+          this.field += chunk.slice(start, i);
+          start = i + 1;
+          this.inQuotes = false;
+          this.quoteClosed = true;
+        } else if (ch === 13 || (ch === 10 && !wasCR)) {
+          this.line++;
+        }
+        continue;
+      }
+
+      if (this.quoteClosed) {
+        this.quoteClosed = false;
+        if (ch === 34) {
+          // Escaped quote ("") inside a quoted field
+          this.field += '"';
+          start = i + 1;
+          this.inQuotes = true;
+          continue;
+        }
+        if (ch !== 44 && ch !== 10 && ch !== 13) {
+          throw new CsvSyntaxError('error.csvAfterQuote', this.line);
+        }
+      }
+
+      if (ch === 44) { // ,
+        this.field += chunk.slice(start, i);
+        start = i + 1;
+        this.endField();
+      } else if (ch === 10 || ch === 13) { // \n or \r
+        if (ch === 10 && wasCR) {
+          // Second half of a CRLF pair, the record was already closed on \r
+          start = i + 1;
+          continue;
+        }
+        this.field += chunk.slice(start, i);
+        start = i + 1;
+        this.endRecord();
+        this.line++;
+        this.recordLine = this.line;
+      } else if (ch === 34) {
+        if (this.field.length > 0 || i > start) {
+          throw new CsvSyntaxError('error.csvQuoteInField', this.line);
+        }
+        start = i + 1;
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+        this.quoteLine = this.line;
+      }
+    }
+
+    this.field += chunk.slice(start);
+  }
+
+  end() {
+    if (this.inQuotes) {
+      throw new CsvSyntaxError('error.csvUnclosedQuote', this.quoteLine);
+    }
+    this.endRecord();
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = '';
+    this.fieldQuoted = false;
+  }
+
+  private endRecord() {
+    const isBlank = this.fields.length === 0 && this.field === '' && !this.fieldQuoted;
+    this.endField();
+    const fields = this.fields;
+    this.fields = [];
+    if (!isBlank) this.onRecord(fields, this.recordLine);
+  }
+}
+
+// --- WRITING ---
+
+// Quotes a field only when it holds a delimiter, quote or line break
+export const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const csvRow = (fields: string[]) => fields.map(csvField).join(',');
+
+// --- ZIP ENTRY STREAMING ---
+
+// Runtime members of JSZip entries missing from its typings. _data is private:
+// read it only through entrySize.
+declare module 'jszip' {
+  interface JSZipObject {
+    internalStream(type: 'uint8array'): JSZipStreamHelper<Uint8Array>;
+    _data?: { uncompressedSize?: unknown };
+  }
+}
+
+// Uncompressed size from the central directory. 0 when JSZip does not expose
+// it: progress handlers then report the bytes read without a percentage.
+const entrySize = (entry: JSZip.JSZipObject): number => {
+  const size = entry._data?.uncompressedSize;
+  return typeof size === 'number' && size > 0 ? size : 0;
+};
+
+export type ByteProgressHandler = (bytesRead: number, totalBytes: number) => void;
+
+// Streams a zip entry through the CSV parser without materialising the whole
+// file as a string. Resolves false when the entry does not exist.
+export const streamZipCsv = (
+  zip: JSZip,
+  filename: string,
+  onRecord: CsvRecordHandler,
+  onBytes?: ByteProgressHandler
+): Promise<boolean> => {
+  const entry = zip.file(filename);
+  if (!entry) return Promise.resolve(false);
+
+  const totalBytes = entrySize(entry);
+  let bytesRead = 0;
+
+  const decoder = new TextDecoder('utf-8');
+  const parser = new CsvStreamParser(onRecord);
+  const stream = entry.internalStream('uint8array');
+
+  return new Promise((resolve, reject) => {
+    let failed = false;
+    const fail = (error: unknown) => {
+      if (failed) return;
+      failed = true;
+      stream.pause();
+      reject(error);
+    };
+
+    stream
+      .on('data', (chunk) => {
+        if (failed) return;
+        try {
+          parser.push(decoder.decode(chunk, { stream: true }));
+          bytesRead += chunk.length;
+          onBytes?.(bytesRead, totalBytes);
+        } catch (error) {
+          fail(error);
+        }
+      })
+      .on('error', fail)
+      .on('end', () => {
+        if (failed) return;
+        try {
+          parser.push(decoder.decode());
+          parser.end();
+          resolve(true);
+        } catch (error) {
+          fail(error);
+        }
+      })
+      .resume();
+  });
+};
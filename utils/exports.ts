@@ -0,0 +1,318 @@
+import JSZip from 'jszip';
+import { LineDefinition, StationDef } from '../constants';
+import { ParsedTimetable, ParsedTrip, PdfOptions } from '../types';
+import { csvRow } from './csv';
+import { dateSlug, downloadBlob, fileSlug } from './files';
+import { formatGTFSTime } from './gtfsTime';
+import { localizedText } from './i18n';
+import { directionNames, stationName } from './lineCatalog';
+import { patternText } from './servicePattern';
+import { toIsoDate } from './serviceCalendar';
+
+// --- SHARED GRID ---
+
+interface DirectionGrid {
+  name: string; // e.g. "Irún -> Bríncola"
+  head: string[];
+  rows: string[][];
+}
+
+// Same layout as the "trainRows" PDF: one row per train, one column per station,
+// preceded by the day pattern for multi-day timetables. Unserved stations are empty.
+const directionGrids = (data: ParsedTimetable, line: LineDefinition, options: PdfOptions): DirectionGrid[] => {
+  const text = (render: Parameters<typeof localizedText>[1]) => localizedText(options.language, render);
+  const patternLabel = (trip: ParsedTrip) => {
+    const pattern = trip.pattern;
+    if (!pattern) return '';
+    return text(t => {
+      const { label, note } = patternText(pattern, t);
+      return note ? `${label} (${note})` : label;
+    });
+  };
+  const grid = (direction: 'forward' | 'backward', trips: ParsedTrip[], stations: StationDef[]): DirectionGrid => {
+    const hasPatterns = trips.some(t => t.pattern);
+    return {
+      name: text((_, locale) => directionNames(line, locale)[direction]),
+      head: [...(hasPatterns ? [text(t => t('column.days'))] : []), ...stations.map(s => text((_, locale) => stationName(s, locale)))],
+      rows: trips.map(trip => [
+        ...(hasPatterns ? [patternLabel(trip)] : []),
+        ...stations.map(st => {
+          const departure = trip.times[st.codigo];
+          return departure === undefined ? '' : formatGTFSTime(departure, options.nextDayMarker);
+        }),
+      ]),
+    };
+  };
+  return [
+    grid('forward', data.toBrinkola, [...line.stations]),
+    grid('backward', data.toIrun, [...line.stations].reverse()),
+  ];
+};
+
+const baseFilename = (data: ParsedTimetable, line: LineDefinition) => `Cercanias_${fileSlug(line.name)}_${dateSlug(data.dateUsed)}`;
+
+// --- CSV ---
+
+// One block per direction: a title row, the station header and the trains,
+// separated by an empty line. The BOM makes Excel read it as UTF-8.
+export const timetableToCSV = (data: ParsedTimetable, line: LineDefinition, options: PdfOptions): string => {
+  const blocks = directionGrids(data, line, options).map(grid =>
+    [[grid.name], grid.head, ...grid.rows].map(csvRow).join('\r\n')
+  );
+  return `\uFEFF${blocks.join('\r\n\r\n')}\r\n`;
+};
+
+export const exportCSV = (data: ParsedTimetable, line: LineDefinition, options: PdfOptions) => {
+  const blob = new Blob([timetableToCSV(data, line, options)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `${baseFilename(data, line)}.csv`);
+};
+
+// --- JSON ---
+
+export const TIMETABLE_JSON_VERSION = 1;
+
+// JSON Schema of the document produced by timetableToJSON
+export const TIMETABLE_JSON_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'Horario de Cercanías',
+  description: 'Trenes de una línea para una fecha o un periodo, generados a partir de un GTFS.',
+  type: 'object',
+  required: ['version', 'line', 'dateUsed', 'range', 'directions'],
+  properties: {
+    version: { const: TIMETABLE_JSON_VERSION, description: 'Versión del formato.' },
+    line: {
+      type: 'object',
+      required: ['id', 'name', 'stations'],
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        stations: {
+          type: 'array',
+          description: 'Estaciones en el orden de la línea.',
+          items: {
+            type: 'object',
+            required: ['orden', 'codigo', 'estacion'],
+            properties: {
+              orden: { type: 'integer', minimum: 1 },
+              codigo: { type: 'string', description: 'stop_id del GTFS.' },
+              estacion: { type: 'string' },
+              wheelchairBoarding: { type: 'boolean', description: 'Estación accesible según stops.txt; ausente si el GTFS no lo indica.' },
+            },
+          },
+        },
+      },
+    },
+    dateUsed: { type: 'string', description: 'Fecha (DD/MM/AAAA) o periodo ("DD/MM/AAAA - DD/MM/AAAA") mostrado en los horarios.' },
+    range: {
+      type: 'object',
+      required: ['from', 'to'],
+      properties: {
+        from: { type: 'string', format: 'date' },
+        to: { type: 'string', format: 'date' },
+      },
+    },
+    directions: {
+      type: 'array',
+      minItems: 2,
+      maxItems: 2,
+      description: 'Sentido creciente del orden de estaciones y sentido contrario.',
+      items: {
+        type: 'object',
+        required: ['name', 'trains'],
+        properties: {
+          name: { type: 'string', description: 'Origen y destino de la línea, p. ej. "Irún -> Bríncola".' },
+          trains: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'tripIds', 'days', 'stops'],
+              properties: {
+                id: { type: 'string' },
+                tripIds: { type: 'array', items: { type: 'string' }, description: 'trip_id del GTFS agrupados en este tren.' },
+                days: { type: 'array', items: { type: 'string', format: 'date' }, description: 'Días del periodo en que circula.' },
+                origin: { $ref: '#/$defs/tripEnd', description: 'Primera parada del tren, en la línea o fuera de ella.' },
+                destination: { $ref: '#/$defs/tripEnd', description: 'Última parada del tren, en la línea o fuera de ella.' },
+                headsign: { type: 'string', description: 'trip_headsign del GTFS.' },
+                wheelchairAccessible: { type: 'boolean', description: 'Accesible para personas con movilidad reducida; ausente si el GTFS no lo indica.' },
+                bikesAllowed: { type: 'boolean', description: 'Admite bicicletas; ausente si el GTFS no lo indica.' },
+                pattern: {
+                  type: 'object',
+                  required: ['label'],
+                  properties: {
+                    label: { type: 'string', description: 'Días de circulación, p. ej. "L-V" o "D y festivos".' },
+                    note: { type: 'string', description: 'Excepciones a los días de circulación.' },
+                    weekdays: { type: 'array', items: { type: 'integer', minimum: 0, maximum: 6 }, description: 'Días de la semana en que circula (0 = lunes ... 6 = domingo).' },
+                    holidays: { type: 'boolean', description: 'Circula también los festivos.' },
+                    daily: { type: 'boolean', description: 'Circula todos los días del periodo.' },
+                    notRunning: { type: 'array', items: { type: 'string', pattern: '^\\d{8}$' }, description: 'Días (AAAAMMDD) en que no circula pese a su patrón.' },
+                    alsoRunning: { type: 'array', items: { type: 'string', pattern: '^\\d{8}$' }, description: 'Días (AAAAMMDD) en que circula fuera de su patrón.' },
+                  },
+                },
+                stops: {
+                  type: 'array',
+                  description: 'Paradas en la línea, en orden de paso.',
+                  items: {
+                    type: 'object',
+                    required: ['codigo', 'arrival', 'departure'],
+                    properties: {
+                      codigo: { type: 'string' },
+                      arrival: { type: 'integer', description: 'Llegada en segundos desde la medianoche del día de circulación (86400 o más tras la medianoche).' },
+                      departure: { type: 'integer', description: 'Salida en segundos, con la misma base que arrival.' },
+                      time: { type: 'string', pattern: '^\\d{2}:\\d{2}$', description: 'Salida en formato HH:MM.' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+  $defs: {
+    tripEnd: {
+      type: 'object',
+      required: ['code', 'name'],
+      properties: {
+        code: { type: 'string', description: 'stop_id del GTFS.' },
+        name: { type: 'string', description: 'stop_name del GTFS, o el stop_id si stops.txt no lo nombra.' },
+      },
+    },
+  },
+};
+
+export const timetableToJSON = (data: ParsedTimetable, line: LineDefinition) => {
+  const names = directionNames(line);
+  const trains = (trips: ParsedTrip[]) => trips.map(trip => ({
+    id: trip.id,
+    tripIds: trip.tripIds,
+    days: trip.days.map(toIsoDate),
+    origin: trip.origin,
+    destination: trip.destination,
+    ...(trip.headsign ? { headsign: trip.headsign } : {}),
+    ...(trip.wheelchairAccessible !== undefined ? { wheelchairAccessible: trip.wheelchairAccessible } : {}),
+    ...(trip.bikesAllowed !== undefined ? { bikesAllowed: trip.bikesAllowed } : {}),
+    ...(trip.pattern ? { pattern: trip.pattern } : {}),
+    stops: Object.entries(trip.times)
+      .sort(([, a], [, b]) => a - b)
+      .map(([codigo, departure]) => ({
+        codigo,
+        arrival: trip.arrivals[codigo] ?? departure,
+        departure,
+        time: formatGTFSTime(departure),
+      })),
+  }));
+
+  return {
+    version: TIMETABLE_JSON_VERSION,
+    line: {
+      id: line.id,
+      name: line.name,
+      stations: line.stations.map(station => {
+        const access = data.stationAccess[station.codigo];
+        return access === undefined ? station : { ...station, wheelchairBoarding: access };
+      }),
+    },
+    dateUsed: data.dateUsed,
+    range: data.range,
+    directions: [
+      { name: names.forward, trains: trains(data.toBrinkola) },
+      { name: names.backward, trains: trains(data.toIrun) },
+    ],
+  };
+};
+
+export const exportJSON = (data: ParsedTimetable, line: LineDefinition) => {
+  const blob = new Blob([JSON.stringify(timetableToJSON(data, line), null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${baseFilename(data, line)}.json`);
+};
+
+export const downloadJSONSchema = () => {
+  const blob = new Blob([JSON.stringify(TIMETABLE_JSON_SCHEMA, null, 2)], { type: 'application/schema+json' });
+  downloadBlob(blob, 'horario.schema.json');
+};
+
+// --- XLSX ---
+
+const xmlEscape = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Excel column letters: 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// Sheet names are limited to 31 characters and may not contain \ / ? * [ ] :
+const sheetName = (name: string, used: Set<string>) => {
+  const base = name.replace(/[\\/?*[\]:]/g, ' ').trim().substring(0, 28) || 'Hoja';
+  let candidate = base;
+  for (let i = 2; used.has(candidate); i++) candidate = `${base} ${i}`;
+  used.add(candidate);
+  return candidate;
+};
+
+const worksheetXml = (grid: DirectionGrid) => {
+  const rows = [grid.head, ...grid.rows].map((cells, r) => {
+    const xmlCells = cells.map((value, c) => value
+      ? `<c r="${columnName(c)}${r + 1}" t="inlineStr"${r === 0 ? ' s="1"' : ''}><is><t>${xmlEscape(value)}</t></is></c>`
+      : '').join('');
+    return `<row r="${r + 1}">${xmlCells}</row>`;
+  }).join('');
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + `<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+// Minimal Office Open XML workbook with one sheet per direction. Times are kept as
+// text so values past midnight (and "+1" markers) survive unchanged.
+export const timetableToXLSX = (data: ParsedTimetable, line: LineDefinition, options: PdfOptions): Promise<Blob> => {
+  const grids = directionGrids(data, line, options);
+  const used = new Set<string>();
+  const sheets = grids.map((grid, i) => ({ id: i + 1, name: sheetName(grid.name, used), grid }));
+
+  const zip = new JSZip();
+  // Folder entries are not part of the package format
+  const addPart = (path: string, xml: string) => zip.file(path, xml, { createFolders: false });
+  addPart('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + sheets.map(s => `<Override PartName="/xl/worksheets/sheet${s.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+    + '</Types>');
+  addPart('_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '</Relationships>');
+  addPart('xl/workbook.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets>${sheets.map(s => `<sheet name="${xmlEscape(s.name)}" sheetId="${s.id}" r:id="rId${s.id}"/>`).join('')}</sheets>`
+    + '</workbook>');
+  addPart('xl/_rels/workbook.xml.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + sheets.map(s => `<Relationship Id="rId${s.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${s.id}.xml"/>`).join('')
+    + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+    + '</Relationships>');
+  // Style 1 is the bold header row
+  addPart('xl/styles.xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+    + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+    + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+    + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+    + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+    + '</styleSheet>');
+  sheets.forEach(s => addPart(`xl/worksheets/sheet${s.id}.xml`, worksheetXml(s.grid)));
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    compression: 'DEFLATE',
+  });
+};
+
+export const exportXLSX = async (data: ParsedTimetable, line: LineDefinition, options: PdfOptions) => {
+  const blob = await timetableToXLSX(data, line, options);
+  downloadBlob(blob, `${baseFilename(data, line)}.xlsx`);
+};
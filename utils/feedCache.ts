@@ -0,0 +1,179 @@
+import JSZip from 'jszip';
+import { LineDefinition } from '../constants';
+import { ProcessingProgress } from '../types';
+import { ByteProgressHandler, csvRow, streamZipCsv } from './csv';
+import { ColumnReader, GTFSSource, byteReporter, openGTFSArchive } from './gtfsReader';
+import { parseLineProfile } from './lineProfiles';
+import { loadServiceCalendar, serviceDateRange } from './serviceCalendar';
+
+// The last processed feed is kept in IndexedDB so the app can be used again
+// offline. Only the rows the line needs are stored, as a GTFS zip of its own,
+// so the rest of the app reads it exactly like an uploaded file.
+
+// --- COMPACT FEED ---
+
+export interface CompactFeed {
+  bytes: Uint8Array; // GTFS zip with only the line's trips
+  feedRange?: { from: string; to: string }; // YYYYMMDD, service dates of the whole feed
+}
+
+// Small files needed whole
+const COPIED_FILES = ['agency.txt', 'calendar.txt', 'calendar_dates.txt', 'feed_info.txt'];
+
+// Streams a table and returns its header plus the rows `keep` accepts, as CSV
+// text, or null when the file is missing. Every column of the kept rows is preserved.
+const filterTable = async (
+  zip: JSZip,
+  filename: string,
+  keep: (col: ColumnReader) => boolean,
+  onBytes?: ByteProgressHandler
+): Promise<string | null> => {
+  const lines: string[] = [];
+  let columnIndex = new Map<string, number>();
+  let current: string[] = [];
+
+  const col: ColumnReader = (column) => {
+    const i = columnIndex.get(column);
+    return i === undefined ? '' : (current[i] ?? '').trim();
+  };
+
+  const found = await streamZipCsv(zip, filename, (fields) => {
+    if (lines.length === 0) {
+      columnIndex = new Map(fields.map((name, i) => [name.trim(), i]));
+      lines.push(csvRow(fields));
+      return;
+    }
+    current = fields;
+    if (keep(col)) lines.push(csvRow(fields));
+  }, onBytes);
+
+  return found ? `${lines.join('\r\n')}\r\n` : null;
+};
+
+// Copy of the feed restricted to the trips calling at one of the line's
+// stations. Those trips keep all their stops, inside the line or not, together
+// with their routes and stops; the service calendar is copied whole.
+export const compactGTFS = async (
+  source: GTFSSource,
+  line: LineDefinition,
+  onProgress: (progress: ProcessingProgress) => void
+): Promise<CompactFeed> => {
+  const zip = await openGTFSArchive(source);
+  const compact = new JSZip();
+  const stations = new Set(line.stations.map(s => s.codigo));
+
+  for (const filename of COPIED_FILES) {
+    const entry = zip.file(filename);
+    if (entry) compact.file(filename, await entry.async('uint8array'));
+  }
+
+  // 1. Trips of the line. stop_times.txt is read twice: the rows of a trip are
+  // not guaranteed to be contiguous, and keeping every row in memory is what
+  // this copy avoids.
+  const tripIds = new Set<string>();
+  await filterTable(zip, 'stop_times.txt', col => {
+    if (stations.has(col('stop_id'))) tripIds.add(col('trip_id'));
+    return false;
+  }, byteReporter(onProgress, 'trips', { key: 'progress.routeTrips' }));
+
+  // 2. Their stop times, trips, routes and stops
+  const stopIds = new Set<string>();
+  const stopTimes = await filterTable(zip, 'stop_times.txt', col => {
+    if (!tripIds.has(col('trip_id'))) return false;
+    stopIds.add(col('stop_id'));
+    return true;
+  }, byteReporter(onProgress, 'stop_times', { key: 'progress.stopTimes' }));
+
+  const routeIds = new Set<string>();
+  const trips = await filterTable(zip, 'trips.txt', col => {
+    if (!tripIds.has(col('trip_id'))) return false;
+    routeIds.add(col('route_id'));
+    return true;
+  });
+  const routes = await filterTable(zip, 'routes.txt', col => routeIds.has(col('route_id')));
+  const stops = await filterTable(zip, 'stops.txt', col => stopIds.has(col('stop_id')));
+
+  const tables: [string, string | null][] = [
+    ['stop_times.txt', stopTimes],
+    ['trips.txt', trips],
+    ['routes.txt', routes],
+    ['stops.txt', stops],
+  ];
+  tables.forEach(([filename, content]) => {
+    if (content !== null) compact.file(filename, content);
+  });
+
+  const feedRange = serviceDateRange(await loadServiceCalendar(zip));
+  const bytes = await compact.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+  return { bytes, feedRange };
+};
+
+// --- STORAGE ---
+
+const DB_NAME = 'horarios';
+const STORE = 'feeds';
+const LAST_FEED = 'last';
+
+export interface CachedFeedInfo {
+  fileName: string; // Name of the uploaded zip
+  fileSize: number; // Bytes of the uploaded zip
+  compactSize: number; // Bytes of the stored copy
+  savedAt: string; // ISO timestamp
+  feedRange?: { from: string; to: string }; // YYYYMMDD
+  line: LineDefinition; // Line the copy was filtered for
+}
+
+export interface CachedFeed {
+  info: CachedFeedInfo;
+  data: Blob;
+}
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Runs one request in its own transaction and resolves once it is committed
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveCachedFeed = async (feed: CachedFeed) => {
+  await withStore('readwrite', store => store.put(feed, LAST_FEED));
+};
+
+// The stored feed, or null if there is none or it was saved by an incompatible version
+export const loadCachedFeed = async (): Promise<CachedFeed | null> => {
+  const feed = await withStore<CachedFeed | undefined>('readonly', store => store.get(LAST_FEED));
+  if (!feed || !(feed.data instanceof Blob) || typeof feed.info?.fileName !== 'string') return null;
+  try {
+    return { ...feed, info: { ...feed.info, line: parseLineProfile(feed.info.line) } };
+  } catch {
+    return null;
+  }
+};
+
+export const clearCachedFeed = async () => {
+  await withStore('readwrite', store => store.delete(LAST_FEED));
+};
+
+export const cachedFeedFile = (feed: CachedFeed) => new File([feed.data], feed.info.fileName, { type: 'application/zip' });
+
+// True when `info` already holds a copy of `file` with every trip of `line`
+export const isCachedCopy = (info: CachedFeedInfo, file: File, line: LineDefinition) => {
+  const cachedStations = new Set(info.line.stations.map(s => s.codigo));
+  return info.fileName === file.name && info.fileSize === file.size && line.stations.every(s => cachedStations.has(s.codigo));
+};
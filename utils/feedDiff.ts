@@ -0,0 +1,296 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { LineDefinition, StationDef } from '../constants';
+import { ParsedTimetable, ParsedTrip, PdfOptions } from '../types';
+import { GeneratedFile, dateSlug, downloadFile, fileSlug } from './files';
+import { formatGTFSTime } from './gtfsTime';
+import { Locale, MessageKey, MessageParams, Translator, localizedText } from './i18n';
+import { directionNames, stationName } from './lineCatalog';
+import { HEAD_STYLES, TABLE_STYLES, pdfFile } from './pdfGenerator';
+import { dateList } from './servicePattern';
+
+// --- DIFF ---
+
+export type TrainChangeKind = 'added' | 'removed' | 'changed';
+
+// How a train of the old feed was paired with one of the new feed
+export type TrainMatch = 'tripId' | 'pattern' | 'endpoints';
+
+export interface RetimedStop {
+  codigo: string;
+  before: number; // Departure in seconds, old feed
+  after: number; // Departure in seconds, new feed
+  delta: number; // Minutes, positive when the train now leaves later
+}
+
+export interface TrainChange {
+  kind: TrainChangeKind;
+  before?: ParsedTrip; // Missing for added trains
+  after?: ParsedTrip; // Missing for removed trains
+  matchedBy?: TrainMatch;
+  retimed: RetimedStop[];
+  addedStops: string[]; // Station codes the train now calls at
+  removedStops: string[]; // Station codes the train no longer calls at
+  addedDays: string[]; // YYYYMMDD, only for date ranges
+  removedDays: string[];
+}
+
+export interface DirectionDiff {
+  direction: 'forward' | 'backward';
+  changes: TrainChange[]; // Sorted by departure
+  unchanged: number;
+}
+
+export interface TimetableDiff {
+  dateUsed: string;
+  directions: DirectionDiff[];
+}
+
+// Largest departure difference for pairing trains that have no common trip_id
+const MATCH_WINDOW = 30 * 60;
+
+// Station codes in calling order
+const callingPattern = (trip: ParsedTrip) =>
+  Object.entries(trip.times).sort(([, a], [, b]) => a - b).map(([code]) => code);
+
+const compareTrains = (before: ParsedTrip, after: ParsedTrip, matchedBy: TrainMatch): TrainChange => {
+  const retimed: RetimedStop[] = [];
+  Object.entries(before.times).forEach(([codigo, time]) => {
+    const newTime = after.times[codigo];
+    if (newTime === undefined) return;
+    const delta = Math.round((newTime - time) / 60);
+    if (delta !== 0) retimed.push({ codigo, before: time, after: newTime, delta });
+  });
+  const beforeDays = new Set(before.days);
+  const afterDays = new Set(after.days);
+  return {
+    kind: 'changed',
+    before,
+    after,
+    matchedBy,
+    retimed: retimed.sort((a, b) => a.before - b.before),
+    addedStops: callingPattern(after).filter(code => before.times[code] === undefined),
+    removedStops: callingPattern(before).filter(code => after.times[code] === undefined),
+    addedDays: after.days.filter(d => !beforeDays.has(d)),
+    removedDays: before.days.filter(d => !afterDays.has(d)),
+  };
+};
+
+const isUnchanged = (change: TrainChange) =>
+  change.retimed.length === 0 &&
+  change.addedStops.length === 0 &&
+  change.removedStops.length === 0 &&
+  change.addedDays.length === 0 &&
+  change.removedDays.length === 0;
+
+const diffTrips = (oldTrips: ParsedTrip[], newTrips: ParsedTrip[], direction: DirectionDiff['direction']): DirectionDiff => {
+  const unmatchedOld = new Set(oldTrips);
+  const unmatchedNew = new Set(newTrips);
+  const pairs: TrainChange[] = [];
+
+  const pair = (before: ParsedTrip, after: ParsedTrip, matchedBy: TrainMatch) => {
+    unmatchedOld.delete(before);
+    unmatchedNew.delete(after);
+    pairs.push(compareTrains(before, after, matchedBy));
+  };
+
+  // 1. Same GTFS trip (merged trains match on any of their trip_ids)
+  const newByTripId = new Map<string, ParsedTrip>();
+  newTrips.forEach(trip => trip.tripIds.forEach(id => newByTripId.set(id, trip)));
+  oldTrips.forEach(before => {
+    const after = before.tripIds.map(id => newByTripId.get(id)).find(t => t && unmatchedNew.has(t));
+    if (after) pair(before, after, 'tripId');
+  });
+
+  // 2. Same calling pattern, then 3. same first and last station; in both cases
+  // the closest departure within MATCH_WINDOW wins
+  const pairNearest = (key: (trip: ParsedTrip) => string, matchedBy: TrainMatch) => {
+    [...unmatchedOld].forEach(before => {
+      let best: ParsedTrip | null = null;
+      let bestDistance = MATCH_WINDOW;
+      for (const after of unmatchedNew) {
+        const distance = Math.abs(after.departureFromOrigin - before.departureFromOrigin);
+        if (key(after) === key(before) && distance <= bestDistance) {
+          best = after;
+          bestDistance = distance;
+        }
+      }
+      if (best) pair(before, best, matchedBy);
+    });
+  };
+  pairNearest(trip => callingPattern(trip).join('|'), 'pattern');
+  pairNearest(trip => `${trip.firstStopOrder}-${trip.lastStopOrder}`, 'endpoints');
+
+  const empty = { retimed: [], addedStops: [], removedStops: [], addedDays: [], removedDays: [] };
+  const changes: TrainChange[] = [
+    ...pairs.filter(change => !isUnchanged(change)),
+    ...[...unmatchedNew].map(after => ({ kind: 'added' as const, after, ...empty })),
+    ...[...unmatchedOld].map(before => ({ kind: 'removed' as const, before, ...empty })),
+  ];
+  const departure = (change: TrainChange) => (change.after ?? change.before)?.departureFromOrigin ?? 0;
+
+  return {
+    direction,
+    changes: changes.sort((a, b) => departure(a) - departure(b)),
+    unchanged: pairs.length - changes.filter(c => c.kind === 'changed').length,
+  };
+};
+
+// Compares two timetables parsed for the same line and dates: trains are paired
+// by trip_id first, then by calling pattern and departure time, then by their
+// end stations and departure time. Whatever stays unpaired was added or removed.
+export const diffTimetables = (oldData: ParsedTimetable, newData: ParsedTimetable): TimetableDiff => ({
+  dateUsed: newData.dateUsed,
+  directions: [
+    diffTrips(oldData.toBrinkola, newData.toBrinkola, 'forward'),
+    diffTrips(oldData.toIrun, newData.toIrun, 'backward'),
+  ],
+});
+
+export const diffSummary = (diff: TimetableDiff) => {
+  const all = diff.directions.flatMap(d => d.changes);
+  return {
+    added: all.filter(c => c.kind === 'added').length,
+    removed: all.filter(c => c.kind === 'removed').length,
+    changed: all.filter(c => c.kind === 'changed').length,
+    unchanged: diff.directions.reduce((sum, d) => sum + d.unchanged, 0),
+  };
+};
+
+// --- DESCRIPTIONS ---
+
+const stationByCode = (line: LineDefinition, code: string) => line.stations.find(s => s.codigo === code);
+const stationByOrder = (line: LineDefinition, order: number) => line.stations.find(s => s.orden === order);
+
+// "07:15 Irún -> Brinkola"
+export const trainLabel = (change: TrainChange, line: LineDefinition, t: Translator, locale: Locale, nextDayMarker = false) => {
+  const trip = change.after ?? change.before;
+  if (!trip) return '';
+  const name = (station?: StationDef) => (station ? stationName(station, locale) : '');
+  return t('diff.trainLabel', {
+    time: formatGTFSTime(trip.departureFromOrigin, nextDayMarker),
+    origin: name(stationByOrder(line, trip.firstStopOrder)),
+    destination: name(stationByOrder(line, trip.lastStopOrder)),
+  });
+};
+
+// One line per change of a train: retimed stops, calling pattern and days
+export const changeDetails = (change: TrainChange, line: LineDefinition, t: Translator, locale: Locale, nextDayMarker = false): string[] => {
+  const fmt = (seconds: number) => formatGTFSTime(seconds, nextDayMarker);
+  const name = (code: string) => {
+    const station = stationByCode(line, code);
+    return station ? stationName(station, locale) : code;
+  };
+
+  if (change.kind !== 'changed') {
+    const trip = change.kind === 'added' ? change.after : change.before;
+    if (!trip) return [];
+    const pattern = callingPattern(trip);
+    const first = pattern[0];
+    const last = pattern[pattern.length - 1];
+    return [t('diff.runs', {
+      origin: name(first),
+      departure: fmt(trip.times[first]),
+      destination: name(last),
+      arrival: fmt(trip.arrivals[last] ?? trip.times[last]),
+    })];
+  }
+
+  const delta = (minutes: number) => (minutes > 0 ? `+${minutes}` : String(minutes));
+  // A train moved as a whole reads as one line instead of one per station
+  const commonStops = Object.keys(change.before?.times ?? {}).filter(code => change.after?.times[code] !== undefined);
+  const [first] = change.retimed;
+  const shiftedWhole = change.retimed.length > 1 &&
+    change.retimed.length === commonStops.length &&
+    change.retimed.every(stop => stop.delta === first.delta);
+  const retimed = shiftedWhole
+    ? [t('diff.retimedAll', { station: name(first.codigo), before: fmt(first.before), after: fmt(first.after), delta: delta(first.delta) })]
+    : change.retimed.map(stop => t('diff.retimed', {
+      station: name(stop.codigo),
+      before: fmt(stop.before),
+      after: fmt(stop.after),
+      delta: delta(stop.delta),
+    }));
+
+  return [
+    ...retimed,
+    ...change.addedStops.map(code => t('diff.stopAdded', { station: name(code) })),
+    ...change.removedStops.map(code => t('diff.stopRemoved', { station: name(code) })),
+    ...(change.addedDays.length > 0 ? [t('diff.daysAdded', { dates: dateList(change.addedDays, t) })] : []),
+    ...(change.removedDays.length > 0 ? [t('diff.daysRemoved', { dates: dateList(change.removedDays, t) })] : []),
+  ];
+};
+
+export const CHANGE_KIND_KEYS: Record<TrainChangeKind, MessageKey> = {
+  added: 'diff.added',
+  removed: 'diff.removed',
+  changed: 'diff.changed',
+};
+
+// --- CHANGES PDF ---
+
+// "Cambios de horario" notice: one table per direction listing each added,
+// removed or modified train with its details.
+export const renderChangesPDF = (diff: TimetableDiff, line: LineDefinition, options: PdfOptions): GeneratedFile => {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+
+  // Safe access for autoTable in ESM/Browser environment
+  const autoTableFunc = (autoTable as any).default || autoTable;
+
+  const isRange = diff.dateUsed.includes(' - ');
+  const tr = (key: MessageKey, params?: MessageParams) => localizedText(options.language, t => t(key, params));
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const summary = diffSummary(diff);
+
+  doc.setFontSize(16);
+  doc.text(tr('diff.title'), 10, 15);
+  doc.setFontSize(10);
+  doc.text(tr('poster.line', { name: line.name }), 10, 21);
+  doc.text(tr(isRange ? 'pdf.period' : 'pdf.singleDate', { date: diff.dateUsed }), 10, 26);
+  doc.text(tr('diff.summary', summary), 10, 31);
+
+  let y = 38;
+  diff.directions.forEach(direction => {
+    doc.setFontSize(12);
+    doc.text(localizedText(options.language, (_, locale) => directionNames(line, locale)[direction.direction]), 10, y);
+
+    const body = direction.changes.map(change => [
+      localizedText(options.language, (t, locale) => trainLabel(change, line, t, locale, options.nextDayMarker), '\n'),
+      tr(CHANGE_KIND_KEYS[change.kind]),
+      localizedText(options.language, (t, locale) => changeDetails(change, line, t, locale, options.nextDayMarker).join('\n'), '\n\n'),
+    ]);
+    if (body.length === 0) body.push([tr('diff.noChanges'), '', '']);
+
+    autoTableFunc(doc, {
+      startY: y + 3,
+      head: [[tr('column.train'), tr('column.change'), tr('column.detail')]],
+      body,
+      theme: 'grid',
+      styles: { ...TABLE_STYLES, halign: 'left', fontSize: 8 },
+      headStyles: { ...HEAD_STYLES, halign: 'left' },
+      columnStyles: { 0: { cellWidth: 55 }, 1: { cellWidth: 25 } },
+      margin: { left: 10, right: 10, bottom: 15 },
+    });
+    y = (doc as any).lastAutoTable.finalY + 10;
+    if (y > pageHeight - 30) {
+      doc.addPage();
+      y = 15;
+    }
+  });
+
+  const total = doc.getNumberOfPages();
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.text(tr('pdf.pageNumber', { page, total }), pageWidth / 2, pageHeight - 5, { align: 'center' });
+  }
+
+  return pdfFile(doc, `Cambios_${fileSlug(line.name)}_${dateSlug(diff.dateUsed)}.pdf`);
+};
+
+export const generateChangesPDF = (...args: Parameters<typeof renderChangesPDF>) => downloadFile(renderChangesPDF(...args));
@@ -0,0 +1,26 @@
+// Safe file-name fragment: strips accents and replaces anything unusual with "_"
+export const fileSlug = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '');
+
+// A generated document, ready to be downloaded in the browser or written to disk
+export interface GeneratedFile {
+  filename: string;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+// Triggers a browser download for generated content
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadFile = (file: GeneratedFile) =>
+  downloadBlob(new Blob([file.bytes], { type: file.mimeType }), file.filename);
+
+// "19/10/2026 - 25/10/2026" -> "19-10-2026_25-10-2026", for file names
+export const dateSlug = (dateStr: string) => dateStr.replace(/\//g, '-').replace(/ - /g, '_');
@@ -0,0 +1,75 @@
+import { LineDefinition } from '../constants';
+import { DateRange, ParsedTimetable, ProcessingProgress, Route, ValidationReport } from '../types';
+import { ConnectionCall, FeedStop, listStops, readConnectionCalls } from './connections';
+import { CompactFeed, compactGTFS } from './feedCache';
+import { parseGTFS } from './gtfsParser';
+import { validateGTFS } from './gtfsValidator';
+import { LocalizedText, errorText } from './i18n';
+import { deriveLine, listRoutes } from './lineCatalog';
+import { ServiceCoverage, serviceCoverage } from './serviceCoverage';
+
+// --- MESSAGES ---
+
+export type GTFSWorkerRequest =
+  | { type: 'parse'; file: Blob; range: DateRange; line: LineDefinition }
+  | { type: 'validate'; file: Blob; range: DateRange; line: LineDefinition }
+  | { type: 'routes'; file: Blob }
+  | { type: 'deriveLine'; file: Blob; routeId: string }
+  | { type: 'compact'; file: Blob; line: LineDefinition }
+  | { type: 'coverage'; file: Blob; line: LineDefinition }
+  | { type: 'stops'; file: Blob }
+  | { type: 'connections'; file: Blob; feedName: string; stopIds: string[]; range: DateRange };
+
+// Result payload for each request type
+export interface GTFSWorkerResults {
+  parse: ParsedTimetable;
+  validate: ValidationReport;
+  routes: Route[];
+  deriveLine: LineDefinition;
+  compact: CompactFeed;
+  coverage: ServiceCoverage;
+  stops: FeedStop[];
+  connections: ConnectionCall[];
+}
+
+export type GTFSWorkerResponse =
+  | { type: 'progress'; progress: ProcessingProgress }
+  | { type: 'result'; data: GTFSWorkerResults[keyof GTFSWorkerResults] }
+  | { type: 'error'; error: LocalizedText | string };
+
+// --- WORKER ---
+
+const ctx = self as unknown as Worker;
+const post = (message: GTFSWorkerResponse) => ctx.postMessage(message);
+const onProgress = (progress: ProcessingProgress) => post({ type: 'progress', progress });
+
+const handle = (request: GTFSWorkerRequest) => {
+  switch (request.type) {
+    case 'parse':
+      return parseGTFS(request.file, request.range, request.line, onProgress);
+    case 'validate':
+      return validateGTFS(request.file, request.range, request.line, onProgress);
+    case 'routes':
+      return listRoutes(request.file);
+    case 'deriveLine':
+      return deriveLine(request.file, request.routeId, onProgress);
+    case 'compact':
+      return compactGTFS(request.file, request.line, onProgress);
+    case 'coverage':
+      return serviceCoverage(request.file, request.line, onProgress);
+    case 'stops':
+      return listStops(request.file);
+    case 'connections':
+      return readConnectionCalls(request.file, request.feedName, request.stopIds, request.range, onProgress);
+  }
+};
+
+ctx.onmessage = async (event: MessageEvent<GTFSWorkerRequest>) => {
+  try {
+    const data = await handle(event.data);
+    post({ type: 'result', data });
+  } catch (error) {
+    console.error(error);
+    post({ type: 'error', error: errorText(error) });
+  }
+};
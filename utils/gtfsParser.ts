@@ -0,0 +1,304 @@
+import { LineDefinition } from '../constants';
+import {
+  DateRange,
+  GeoPoint,
+  ParsedTimetable,
+  ParsedTrip,
+  ProcessingPhase,
+  ProcessingProgress,
+  StationAccess,
+  StationCoords,
+  StopTime,
+  Trip,
+  TripEnd,
+} from '../types';
+import { GTFSSource, STOP_SPEC, STOP_TIME_SPEC, TRIP_SPEC, byteReporter, openGTFSArchive, readGTFSTable } from './gtfsReader';
+import { DAY_SECONDS, formatGTFSTime, parseGTFSTime } from './gtfsTime';
+import { LocalizedError } from './i18n';
+import {
+  DateInfo,
+  activeServicesOn,
+  addDays,
+  datesInRange,
+  getDateInfo,
+  isHolidayLike,
+  loadServiceCalendar,
+  toIsoDate,
+  tripCalendarDays,
+} from './serviceCalendar';
+import { RangeDay, dayClassFor, describeServicePattern } from './servicePattern';
+
+// Longest range accepted, enough for a full annual timetable period
+export const MAX_RANGE_DAYS = 400;
+
+export const parseGTFS = async (
+  source: GTFSSource,
+  range: DateRange,
+  line: LineDefinition,
+  onProgress: (progress: ProcessingProgress) => void
+): Promise<ParsedTimetable> => {
+  
+  const rangeDates = datesInRange(range.from, range.to);
+  if (rangeDates.length === 0) {
+    throw new LocalizedError('error.rangeReversed');
+  }
+  if (rangeDates.length > MAX_RANGE_DAYS) {
+    throw new LocalizedError('error.rangeTooLong', { max: MAX_RANGE_DAYS });
+  }
+  const rangeInfo = rangeDates.map(getDateInfo);
+  const isSingleDay = rangeInfo.length === 1;
+  const first = rangeInfo[0];
+  const last = rangeInfo[rangeInfo.length - 1];
+  const dateUsed = isSingleDay ? first.formattedDate : `${first.formattedDate} - ${last.formattedDate}`;
+  
+  const sourceSize = source instanceof Blob ? source.size : source.byteLength;
+  onProgress({
+    phase: 'unzip',
+    message: isSingleDay
+      ? { key: 'progress.filteringDay', params: { date: first.formattedDate, day: { key: `day.${first.dayName}` } } }
+      : { key: 'progress.filteringRange', params: { date: dateUsed, count: rangeInfo.length } },
+    processed: 0,
+    total: sourceSize,
+    unit: 'bytes',
+  });
+  const content = await openGTFSArchive(source);
+  onProgress({ phase: 'unzip', message: { key: 'progress.unzipped' }, processed: sourceSize, total: sourceSize, unit: 'bytes' });
+
+  // 1. Identify relevant stop IDs and routes
+  const validStopCodes = new Set(line.stations.map(s => s.codigo));
+  const codeToOrder = new Map(line.stations.map(s => [s.codigo, s.orden]));
+  const validRoutes = new Set(line.routeIds);
+
+  // 2. Determine which days of the range each service runs on. The day before the
+  // range is included too: its after-midnight trains run on the first day.
+  const calendar = await loadServiceCalendar(
+    content,
+    byteReporter(onProgress, 'calendar', { key: 'progress.calendar' })
+  );
+
+  const serviceDays = new Map<string, string[]>(); // service_id -> YYYYMMDD service days
+  const addServiceDay = ({ dateStr, dayName }: DateInfo) => {
+    const services = activeServicesOn(calendar, dateStr, dayName);
+    services.forEach(serviceId => {
+      if (!serviceDays.has(serviceId)) {
+        serviceDays.set(serviceId, []);
+      }
+      serviceDays.get(serviceId)?.push(dateStr);
+    });
+    return services;
+  };
+
+  addServiceDay(getDateInfo(toIsoDate(addDays(first.dateStr, -1))));
+  const servicesInRange = new Set<string>(); // Not counting those of the day before
+  const rangeDays: RangeDay[] = rangeInfo.map((info) => {
+    addServiceDay(info).forEach(serviceId => servicesInRange.add(serviceId));
+    return { dateStr: info.dateStr, dayClass: dayClassFor(info.dayName, isHolidayLike(calendar, info.dateStr, info.dayName)) };
+  });
+  const rangeDateSet = new Set(rangeInfo.map(d => d.dateStr));
+
+  if (servicesInRange.size === 0) {
+    throw isSingleDay
+      ? new LocalizedError('error.noServicesDay', { date: first.formattedDate })
+      : new LocalizedError('error.noServicesRange', { date: dateUsed });
+  }
+
+  // 3. Filter Trips based on Active Services
+  const activeTrips = new Map<string, Trip>(); // trips of the line running in the range
+
+  const hasTrips = await readGTFSTable(content, "trips.txt", TRIP_SPEC, (trip: Trip) => {
+    if (validRoutes.size > 0 && !validRoutes.has(trip.route_id)) return;
+    if (serviceDays.has(trip.service_id)) {
+      activeTrips.set(trip.trip_id, trip);
+    }
+  }, byteReporter(onProgress, 'trips', { key: 'progress.trips', params: { count: servicesInRange.size } }));
+  if (!hasTrips) throw new LocalizedError('error.missingFile', { file: 'trips.txt' });
+
+  // 4. Read Stop Times (only for active trips)
+  const tripStops = new Map<string, StopTime[]>();
+  // First and last stop of each active trip, wherever they are
+  const tripEnds = new Map<string, { first: StopTime; last: StopTime }>();
+
+  const hasStopTimes = await readGTFSTable(content, "stop_times.txt", STOP_TIME_SPEC, (stopTime: StopTime) => {
+    if (!activeTrips.has(stopTime.trip_id)) return;
+
+    const ends = tripEnds.get(stopTime.trip_id);
+    if (!ends) {
+      tripEnds.set(stopTime.trip_id, { first: stopTime, last: stopTime });
+    } else if (stopTime.stop_sequence < ends.first.stop_sequence) {
+      ends.first = stopTime;
+    } else if (stopTime.stop_sequence > ends.last.stop_sequence) {
+      ends.last = stopTime;
+    }
+
+    // Only keep stop times at one of our stations
+    if (!validStopCodes.has(stopTime.stop_id)) return;
+
+    if (!tripStops.has(stopTime.trip_id)) {
+      tripStops.set(stopTime.trip_id, []);
+    }
+    tripStops.get(stopTime.trip_id)?.push(stopTime);
+  }, byteReporter(onProgress, 'stop_times', { key: 'progress.stopTimes' }));
+  if (!hasStopTimes) throw new LocalizedError('error.missingFile', { file: 'stop_times.txt' });
+
+  // 5. Names of the trips' real origins and destinations, step-free access to
+  // the line's stations and their coordinates. stops.txt is optional here:
+  // without it, the stop_id stands in for the name and the rest stays unknown.
+  const endNames = new Map<string, string>();
+  tripEnds.forEach(({ first, last }) => {
+    endNames.set(first.stop_id, first.stop_id);
+    endNames.set(last.stop_id, last.stop_id);
+  });
+  const stationAccess: StationAccess = {};
+  const stationCoords: StationCoords = {};
+  await readGTFSTable(content, "stops.txt", STOP_SPEC, (stop) => {
+    if (endNames.has(stop.stop_id) && stop.stop_name) endNames.set(stop.stop_id, stop.stop_name);
+    if (!validStopCodes.has(stop.stop_id)) return;
+    const access = accessFlag(stop.wheelchair_boarding);
+    if (access !== undefined) stationAccess[stop.stop_id] = access;
+    const point = geoPoint(stop.stop_lat, stop.stop_lon);
+    if (point) stationCoords[stop.stop_id] = point;
+  });
+  const tripEnd = (stopTime: StopTime): TripEnd => ({ code: stopTime.stop_id, name: endNames.get(stopTime.stop_id) ?? stopTime.stop_id });
+
+  // 6. Build Result Arrays
+  onProgress({ phase: 'organizing', message: { key: 'progress.organizing' }, processed: 0, total: tripStops.size, unit: 'rows' });
+  const toBrinkola: ParsedTrip[] = [];
+  const toIrun: ParsedTrip[] = [];
+
+  tripStops.forEach((stops, tripId) => {
+    // Sort stops by sequence
+    stops.sort((a, b) => a.stop_sequence - b.stop_sequence);
+
+    if (stops.length < 2) return;
+
+    const firstStop = stops[0];
+    const lastStop = stops[stops.length - 1];
+
+    const firstOrder = codeToOrder.get(firstStop.stop_id);
+    const lastOrder = codeToOrder.get(lastStop.stop_id);
+
+    const trip = activeTrips.get(tripId);
+    const ends = tripEnds.get(tripId);
+    if (firstOrder === undefined || lastOrder === undefined || !trip || !ends) return;
+
+    const departures = stops.map(s => parseGTFSTime(s.departure_time));
+    const originDeparture = departures[0];
+    if (originDeparture === null) return;
+
+    // A train that reaches our line after midnight (24:00:00 or later) runs on the
+    // next calendar day: move it there and count its times from that midnight.
+    const dayShift = Math.floor(originDeparture / DAY_SECONDS);
+    const offset = dayShift * DAY_SECONDS;
+    const days = tripCalendarDays(serviceDays.get(trip.service_id) ?? [], originDeparture)
+      .filter(d => rangeDateSet.has(d));
+    if (days.length === 0) return;
+
+    const stopsMap: Record<string, string> = {};
+    const timesMap: Record<string, number> = {};
+    const arrivalsMap: Record<string, number> = {};
+    stops.forEach((s, i) => {
+      const departure = departures[i];
+      if (departure === null) return; // Untimed stop
+      timesMap[s.stop_id] = departure - offset;
+      stopsMap[s.stop_id] = formatGTFSTime(departure - offset);
+      arrivalsMap[s.stop_id] = (parseGTFSTime(s.arrival_time) ?? departure) - offset;
+    });
+
+    const parsedTrip: ParsedTrip = {
+      id: tripId,
+      tripIds: [tripId],
+      stops: stopsMap,
+      times: timesMap,
+      arrivals: arrivalsMap,
+      firstStopOrder: firstOrder,
+      lastStopOrder: lastOrder,
+      origin: tripEnd(ends.first),
+      destination: tripEnd(ends.last),
+      departureFromOrigin: originDeparture - offset,
+      days
+    };
+    if (isSingleDay && dayShift > 0) parsedTrip.serviceDayShift = dayShift;
+    if (trip.trip_headsign) parsedTrip.headsign = trip.trip_headsign;
+    const wheelchairAccessible = accessFlag(trip.wheelchair_accessible);
+    if (wheelchairAccessible !== undefined) parsedTrip.wheelchairAccessible = wheelchairAccessible;
+    const bikesAllowed = accessFlag(trip.bikes_allowed);
+    if (bikesAllowed !== undefined) parsedTrip.bikesAllowed = bikesAllowed;
+
+    // Determine direction
+    if (isForward(stops.map(s => codeToOrder.get(s.stop_id) ?? 0), trip.direction_id)) {
+      toBrinkola.push(parsedTrip);
+    } else {
+      toIrun.push(parsedTrip);
+    }
+  });
+
+  // Sort trips by departure time
+  const timeCompare = (a: ParsedTrip, b: ParsedTrip) => a.departureFromOrigin - b.departureFromOrigin;
+  toBrinkola.sort(timeCompare);
+  toIrun.sort(timeCompare);
+
+  if (isSingleDay) {
+    return { toBrinkola, toIrun, dateUsed, range, stationAccess, stationCoords };
+  }
+
+  // 7. Merge trips with identical times across days and label their pattern
+  const withPatterns = (trips: ParsedTrip[]) => mergeIdenticalTrips(trips).map(trip => ({
+    ...trip,
+    pattern: describeServicePattern(new Set(trip.days), rangeDays),
+  }));
+
+  return { toBrinkola: withPatterns(toBrinkola), toIrun: withPatterns(toIrun), dateUsed, range, stationAccess, stationCoords };
+};
+
+// GTFS accessibility value: "1" yes, "2" no, anything else unknown
+const accessFlag = (value?: string): boolean | undefined =>
+  value === '1' ? true : value === '2' ? false : undefined;
+
+// Coordinates from stops.txt. Missing, unparsable or out-of-range values, and
+// the 0,0 some feeds use as a placeholder, count as unknown.
+const geoPoint = (lat?: string, lon?: string): GeoPoint | undefined => {
+  const point = { lat: Number(lat), lon: Number(lon) };
+  if (!lat || !lon || !Number.isFinite(point.lat) || !Number.isFinite(point.lon)) return undefined;
+  if (Math.abs(point.lat) > 90 || Math.abs(point.lon) > 180 || (point.lat === 0 && point.lon === 0)) return undefined;
+  return point;
+};
+
+// Accessibility of trips merged into one entry: only what holds on every day
+const mergedFlag = (a?: boolean, b?: boolean): boolean | undefined =>
+  a === b ? a : a === false || b === false ? false : undefined;
+
+// A trip runs "forward" when it mostly moves towards higher `orden`. Counting every
+// step instead of comparing the ends keeps loops and short-turns that come back
+// to their origin station in the right table; a tie falls back to direction_id.
+const isForward = (orders: number[], directionId?: string) => {
+  let net = 0;
+  for (let i = 1; i < orders.length; i++) {
+    net += Math.sign(orders[i] - orders[i - 1]);
+  }
+  return net !== 0 ? net > 0 : directionId !== '1';
+};
+
+// Folds trips that call at the same stations at the same times, arriving and
+// departing alike, start and end at the same stops and show the same headsign,
+// into a single entry running on the union of their days. Input order is preserved.
+const mergeIdenticalTrips = (trips: ParsedTrip[]): ParsedTrip[] => {
+  const merged = new Map<string, ParsedTrip>();
+  const calls = (seconds: Record<string, number>) =>
+    Object.entries(seconds).sort(([a], [b]) => a.localeCompare(b)).map(([code, time]) => `${code}@${time}`);
+  trips.forEach(trip => {
+    const key = [trip.headsign ?? '', trip.origin.code, trip.destination.code, ...calls(trip.times), '/', ...calls(trip.arrivals)].join('|');
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...trip, tripIds: [...trip.tripIds], days: [...trip.days] });
+      return;
+    }
+    existing.tripIds.push(...trip.tripIds);
+    existing.days = [...new Set([...existing.days, ...trip.days])].sort();
+    (['wheelchairAccessible', 'bikesAllowed'] as const).forEach(key => {
+      const value = mergedFlag(existing[key], trip[key]);
+      if (value === undefined) delete existing[key];
+      else existing[key] = value;
+    });
+  });
+  return [...merged.values()];
+};
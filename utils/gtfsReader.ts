@@ -0,0 +1,185 @@
+import JSZip from 'jszip';
+import { Agency, Calendar, CalendarDate, ProcessingPhase, ProcessingProgress, Route, Stop, StopTime, Trip } from '../types';
+import { ByteProgressHandler, CsvSyntaxError, streamZipCsv } from './csv';
+import { LocalizedError, LocalizedText, errorText } from './i18n';
+
+export type GTFSSource = Blob | ArrayBuffer | Uint8Array;
+
+export const openGTFSArchive = (source: GTFSSource): Promise<JSZip> => new JSZip().loadAsync(source);
+
+// Reports byte progress for one phase, at most once per percent to keep the
+// number of worker messages bounded on large files.
+export const byteReporter = (
+  onProgress: (progress: ProcessingProgress) => void,
+  phase: ProcessingPhase,
+  message: LocalizedText
+): ByteProgressHandler => {
+  let lastPercent = -1;
+  return (bytesRead, totalBytes) => {
+    const percent = totalBytes > 0 ? Math.floor((bytesRead / totalBytes) * 100) : -1;
+    if (percent === lastPercent) return;
+    lastPercent = percent;
+    onProgress({ phase, message, processed: bytesRead, total: totalBytes, unit: 'bytes' });
+  };
+};
+
+export class GTFSParseError extends LocalizedError {
+  constructor(public file: string, public line: number, detail: LocalizedText | string) {
+    super('error.gtfsLine', { file, line, detail });
+    this.name = 'GTFSParseError';
+  }
+}
+
+// Column accessor for the current row. Values are trimmed; optional columns
+// absent from the header read as an empty string.
+export type ColumnReader = (column: string) => string;
+
+export interface GTFSTableSpec<T> {
+  required: string[];
+  map: (col: ColumnReader) => T;
+}
+
+// --- TABLE SPECS ---
+
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+
+export const CALENDAR_SPEC: GTFSTableSpec<Calendar> = {
+  required: ['service_id', ...WEEKDAYS, 'start_date', 'end_date'],
+  map: (col) => ({
+    service_id: col('service_id'),
+    monday: col('monday'),
+    tuesday: col('tuesday'),
+    wednesday: col('wednesday'),
+    thursday: col('thursday'),
+    friday: col('friday'),
+    saturday: col('saturday'),
+    sunday: col('sunday'),
+    start_date: col('start_date'),
+    end_date: col('end_date'),
+  }),
+};
+
+export const CALENDAR_DATE_SPEC: GTFSTableSpec<CalendarDate> = {
+  required: ['service_id', 'date', 'exception_type'],
+  map: (col) => ({
+    service_id: col('service_id'),
+    date: col('date'),
+    exception_type: col('exception_type'),
+  }),
+};
+
+export const TRIP_SPEC: GTFSTableSpec<Trip> = {
+  required: ['route_id', 'service_id', 'trip_id'],
+  map: (col) => ({
+    trip_id: col('trip_id'),
+    route_id: col('route_id'),
+    service_id: col('service_id'),
+    direction_id: col('direction_id') || undefined,
+    trip_headsign: col('trip_headsign') || undefined,
+    wheelchair_accessible: col('wheelchair_accessible') || undefined,
+    bikes_allowed: col('bikes_allowed') || undefined,
+  }),
+};
+
+export const ROUTE_SPEC: GTFSTableSpec<Route> = {
+  required: ['route_id'],
+  map: (col) => ({
+    route_id: col('route_id'),
+    agency_id: col('agency_id') || undefined,
+    route_short_name: col('route_short_name'),
+    route_long_name: col('route_long_name'),
+  }),
+};
+
+export const AGENCY_SPEC: GTFSTableSpec<Agency> = {
+  required: ['agency_name'],
+  map: (col) => ({
+    agency_id: col('agency_id') || undefined,
+    agency_name: col('agency_name'),
+  }),
+};
+
+export const STOP_SPEC: GTFSTableSpec<Stop> = {
+  required: ['stop_id', 'stop_name'],
+  map: (col) => ({
+    stop_id: col('stop_id'),
+    stop_name: col('stop_name'),
+    wheelchair_boarding: col('wheelchair_boarding') || undefined,
+    stop_lat: col('stop_lat') || undefined,
+    stop_lon: col('stop_lon') || undefined,
+  }),
+};
+
+export const STOP_TIME_SPEC: GTFSTableSpec<StopTime> = {
+  required: ['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence'],
+  map: (col) => {
+    const sequence = col('stop_sequence');
+    const stopSequence = Number(sequence);
+    if (!Number.isInteger(stopSequence)) {
+      throw new LocalizedError('error.invalidStopSequence', { value: sequence });
+    }
+    return {
+      trip_id: col('trip_id'),
+      arrival_time: col('arrival_time'),
+      departure_time: col('departure_time'),
+      stop_id: col('stop_id'),
+      stop_sequence: stopSequence,
+    };
+  },
+};
+
+// --- READER ---
+
+// Streams a GTFS table from the zip row by row, mapping each row with `spec`.
+// Resolves false if the file is not present in the archive. Any malformed row
+// rejects with a GTFSParseError carrying the file name and line number.
+export const readGTFSTable = async <T>(
+  zip: JSZip,
+  filename: string,
+  spec: GTFSTableSpec<T>,
+  onRow: (row: T, line: number) => void,
+  onBytes?: ByteProgressHandler
+): Promise<boolean> => {
+  let header: string[] | null = null;
+  let columnIndex = new Map<string, number>();
+  let current: string[] = [];
+
+  const col: ColumnReader = (column) => {
+    const i = columnIndex.get(column);
+    return i === undefined ? '' : (current[i] ?? '').trim();
+  };
+
+  const handleRecord = (fields: string[], line: number) => {
+    if (!header) {
+      header = fields.map(h => h.trim());
+      columnIndex = new Map(header.map((name, i) => [name, i]));
+      const missing = spec.required.filter(c => !columnIndex.has(c));
+      if (missing.length > 0) {
+        throw new GTFSParseError(filename, line, { key: 'error.missingColumns', params: { columns: missing.join(', ') } });
+      }
+      return;
+    }
+
+    if (fields.length !== header.length) {
+      throw new GTFSParseError(filename, line, { key: 'error.fieldCount', params: { expected: header.length, found: fields.length } });
+    }
+
+    current = fields;
+    let row: T;
+    try {
+      row = spec.map(col);
+    } catch (error) {
+      throw new GTFSParseError(filename, line, errorText(error));
+    }
+    onRow(row, line);
+  };
+
+  try {
+    return await streamZipCsv(zip, filename, handleRecord, onBytes);
+  } catch (error) {
+    if (error instanceof CsvSyntaxError) {
+      throw new GTFSParseError(filename, error.line, errorText(error));
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,277 @@
+import { LineDefinition } from '../constants';
+import { ParsedTimetable, ParsedTrip, RealtimeAlert, TripRealtime } from '../types';
+import { formatGTFSTime } from './gtfsTime';
+import { Locale } from './i18n';
+import { ProtoMessage, decodeMessage, intField, messageField, repeatedMessages, stringField, uintField } from './protobuf';
+import { addDays } from './serviceCalendar';
+
+// --- GTFS-REALTIME FEED ---
+
+// The parts of a FeedMessage the overlay uses. Field numbers follow
+// gtfs-realtime.proto; VehiclePositions and extensions are skipped.
+
+export interface StopTimeEvent {
+  delay?: number; // Seconds
+  time?: number; // Unix seconds
+}
+
+export interface StopTimeUpdate {
+  stopId?: string;
+  stopSequence?: number;
+  arrival?: StopTimeEvent;
+  departure?: StopTimeEvent;
+  skipped: boolean;
+}
+
+export type TripRelationship = 'scheduled' | 'added' | 'canceled' | 'other';
+
+export interface RealtimeTripUpdate {
+  tripId: string;
+  startDate?: string; // YYYYMMDD service day
+  relationship: TripRelationship;
+  delay?: number; // Trip-level delay in seconds, for stops without their own update
+  stopUpdates: StopTimeUpdate[];
+}
+
+export interface RealtimeFeed {
+  timestamp?: number; // Unix seconds of the feed header
+  tripUpdates: RealtimeTripUpdate[];
+  alerts: RealtimeAlert[];
+}
+
+// TripDescriptor.ScheduleRelationship; NEW replaces ADDED in recent versions
+const TRIP_RELATIONSHIPS: Record<number, TripRelationship> = { 0: 'scheduled', 1: 'added', 3: 'canceled', 7: 'canceled', 8: 'added' };
+const STOP_SKIPPED = 1;
+
+const stopTimeEvent = (message?: ProtoMessage): StopTimeEvent | undefined => message && {
+  delay: intField(message, 1),
+  time: intField(message, 2),
+};
+
+// TranslatedString -> language -> text
+const translations = (message?: ProtoMessage): Record<string, string> => {
+  const texts: Record<string, string> = {};
+  repeatedMessages(message ?? new Map(), 1).forEach(translation => {
+    const text = stringField(translation, 1);
+    if (text) texts[stringField(translation, 2) ?? ''] = text;
+  });
+  return texts;
+};
+
+const tripUpdate = (message: ProtoMessage): RealtimeTripUpdate | undefined => {
+  const trip = messageField(message, 1);
+  const tripId = trip && stringField(trip, 1);
+  if (!trip || !tripId) return undefined;
+  return {
+    tripId,
+    startDate: stringField(trip, 3),
+    relationship: TRIP_RELATIONSHIPS[uintField(trip, 4) ?? 0] ?? 'other',
+    delay: intField(message, 5),
+    stopUpdates: repeatedMessages(message, 2).map(update => ({
+      stopSequence: uintField(update, 1),
+      stopId: stringField(update, 4),
+      arrival: stopTimeEvent(messageField(update, 2)),
+      departure: stopTimeEvent(messageField(update, 3)),
+      skipped: uintField(update, 5) === STOP_SKIPPED,
+    })),
+  };
+};
+
+const alert = (id: string, message: ProtoMessage): RealtimeAlert => {
+  const entities = repeatedMessages(message, 5);
+  const values = (read: (entity: ProtoMessage) => string | undefined) =>
+    entities.map(read).filter((value): value is string => !!value);
+  return {
+    id,
+    header: translations(messageField(message, 10)),
+    description: translations(messageField(message, 11)),
+    activePeriods: repeatedMessages(message, 1).map(period => ({ start: uintField(period, 1), end: uintField(period, 2) })),
+    stopIds: values(entity => stringField(entity, 5)),
+    routeIds: values(entity => stringField(entity, 2)),
+    tripIds: values(entity => {
+      const trip = messageField(entity, 4);
+      return trip && stringField(trip, 1);
+    }),
+  };
+};
+
+// Decodes a FeedMessage. Deleted entities are dropped; malformed bytes throw ProtobufError.
+export const parseGTFSRealtime = (bytes: Uint8Array): RealtimeFeed => {
+  const message = decodeMessage(bytes);
+  const header = messageField(message, 1);
+  const feed: RealtimeFeed = { timestamp: header && uintField(header, 3), tripUpdates: [], alerts: [] };
+
+  repeatedMessages(message, 2).forEach(entity => {
+    if (uintField(entity, 2)) return; // is_deleted
+    const id = stringField(entity, 1) ?? '';
+    const update = messageField(entity, 3);
+    const tripUpdateValue = update && tripUpdate(update);
+    if (tripUpdateValue) feed.tripUpdates.push(tripUpdateValue);
+    const alertMessage = messageField(entity, 5);
+    if (alertMessage) feed.alerts.push(alert(id, alertMessage));
+  });
+  return feed;
+};
+
+// --- OVERLAY ---
+
+export interface RealtimeOverlay {
+  data: ParsedTimetable; // With delays applied and added trains included
+  alerts: RealtimeAlert[]; // Active during the timetable's dates and affecting the line
+  added: ParsedTrip[];
+  matched: number; // Planned trains with a TripUpdate
+  appliesToTrips: boolean; // TripUpdates describe one day: periods only get the alerts
+}
+
+// Unix seconds of the local midnight starting a YYYYMMDD date. Absolute times
+// in the feed are read in this computer's time zone, the operator's own for
+// the people printing these timetables.
+const localMidnight = (date: string) =>
+  new Date(Number(date.substring(0, 4)), Number(date.substring(4, 6)) - 1, Number(date.substring(6, 8))).getTime() / 1000;
+
+const eventDelay = (event: StopTimeEvent | undefined, planned: number, midnight: number) => {
+  if (event?.delay !== undefined) return event.delay;
+  if (event?.time !== undefined) return event.time - midnight - planned;
+  return undefined;
+};
+
+const withTimes = (trip: ParsedTrip, times: Record<string, number>, arrivals: Record<string, number>, realtime: TripRealtime): ParsedTrip => ({
+  ...trip,
+  times,
+  arrivals,
+  stops: Object.fromEntries(Object.entries(times).map(([code, seconds]) => [code, formatGTFSTime(seconds)])),
+  realtime,
+});
+
+// Applies a TripUpdate to a planned train. Following the GTFS-Realtime rules,
+// a stop's delay carries on to the next stops until another update says
+// otherwise; before the first one, the trip-level delay applies. Updates that
+// only give a stop_sequence cannot be placed on the line and are ignored.
+const updateTrip = (trip: ParsedTrip, update: RealtimeTripUpdate, midnight: number): ParsedTrip => {
+  const plannedTimes = trip.times;
+  if (update.relationship === 'canceled') {
+    return { ...trip, realtime: { status: 'canceled', delays: {}, skipped: [], plannedTimes } };
+  }
+
+  const times: Record<string, number> = {};
+  const arrivals: Record<string, number> = {};
+  const delays: Record<string, number> = {};
+  const skipped: string[] = [];
+  let delay = update.delay;
+  Object.keys(plannedTimes).sort((a, b) => plannedTimes[a] - plannedTimes[b]).forEach(code => {
+    const planned = plannedTimes[code];
+    const plannedArrival = trip.arrivals[code] ?? planned;
+    const stopUpdate = update.stopUpdates.find(u => u.stopId === code);
+    if (stopUpdate?.skipped) {
+      skipped.push(code);
+      return;
+    }
+    const arrivalDelay = eventDelay(stopUpdate?.arrival, plannedArrival, midnight) ?? delay;
+    delay = eventDelay(stopUpdate?.departure, planned, midnight) ?? arrivalDelay;
+    times[code] = planned + (delay ?? 0);
+    arrivals[code] = Math.min(plannedArrival + (arrivalDelay ?? 0), times[code]);
+    if (delay !== undefined) delays[code] = delay;
+  });
+  return withTimes(trip, times, arrivals, { status: 'scheduled', delays, skipped, plannedTimes });
+};
+
+// A train that is not in the static timetable, built from the absolute times
+// of its stop updates at the line's stations
+const addedTrip = (update: RealtimeTripUpdate, line: LineDefinition, date: string, midnight: number) => {
+  const calls = line.stations.map(station => {
+    const stopUpdate = update.stopUpdates.find(u => u.stopId === station.codigo && !u.skipped);
+    const departure = stopUpdate?.departure?.time ?? stopUpdate?.arrival?.time;
+    if (departure === undefined) return undefined;
+    return { station, departure: departure - midnight, arrival: (stopUpdate?.arrival?.time ?? departure) - midnight };
+  }).filter((call): call is NonNullable<typeof call> => !!call).sort((a, b) => a.departure - b.departure);
+  if (calls.length < 2) return undefined;
+
+  const first = calls[0];
+  const lastCall = calls[calls.length - 1];
+  const trip: ParsedTrip = {
+    id: update.tripId,
+    tripIds: [update.tripId],
+    stops: Object.fromEntries(calls.map(c => [c.station.codigo, formatGTFSTime(c.departure)])),
+    times: Object.fromEntries(calls.map(c => [c.station.codigo, c.departure])),
+    arrivals: Object.fromEntries(calls.map(c => [c.station.codigo, c.arrival])),
+    firstStopOrder: first.station.orden,
+    lastStopOrder: lastCall.station.orden,
+    origin: { code: first.station.codigo, name: first.station.estacion },
+    destination: { code: lastCall.station.codigo, name: lastCall.station.estacion },
+    departureFromOrigin: first.departure,
+    days: [date],
+    realtime: { status: 'added', delays: {}, skipped: [], plannedTimes: {} },
+  };
+  return { trip, forward: first.station.orden < lastCall.station.orden };
+};
+
+// Alerts that name a station, route or train of the line and are active at
+// some point of the timetable's dates. Routes only count for lines that list
+// theirs; alerts for a whole agency are left out: they rarely concern a single line.
+const lineAlerts = (feed: RealtimeFeed, data: ParsedTimetable, line: LineDefinition) => {
+  const from = localMidnight(data.range.from.replace(/-/g, ''));
+  const to = localMidnight(addDays(data.range.to.replace(/-/g, ''), 1));
+  const stationCodes = new Set(line.stations.map(s => s.codigo));
+  const routeIds = new Set(line.routeIds);
+  const tripIds = new Set([...data.toBrinkola, ...data.toIrun].flatMap(trip => trip.tripIds));
+
+  return feed.alerts.filter(a => {
+    const isActive = a.activePeriods.length === 0
+      || a.activePeriods.some(p => (p.start ?? 0) < to && (p.end ?? Infinity) > from);
+    const affectsLine = a.stopIds.some(id => stationCodes.has(id))
+      || a.routeIds.some(id => routeIds.has(id))
+      || a.tripIds.some(id => tripIds.has(id));
+    return isActive && affectsLine;
+  });
+};
+
+export const applyRealtime = (data: ParsedTimetable, line: LineDefinition, feed: RealtimeFeed): RealtimeOverlay => {
+  const alerts = lineAlerts(feed, data, line);
+  const appliesToTrips = data.range.from === data.range.to;
+  if (!appliesToTrips) return { data, alerts, added: [], matched: 0, appliesToTrips };
+
+  // Updates by trip and service day. A train runs on the day itself, or on the
+  // previous service day when the parser moved it past midnight; an update
+  // without a start date goes to whichever run the timetable has.
+  const date = data.range.from.replace(/-/g, '');
+  const midnight = localMidnight(date);
+  const updateKey = (tripId: string, startDate = '') => `${tripId}@${startDate}`;
+  const updates = new Map<string, RealtimeTripUpdate>();
+  feed.tripUpdates.forEach(update => updates.set(updateKey(update.tripId, update.startDate), update));
+
+  let matched = 0;
+  const overlay = (trips: ParsedTrip[]) => trips.map(trip => {
+    const serviceDay = addDays(date, -(trip.serviceDayShift ?? 0));
+    const keys = trip.tripIds.flatMap(id => [updateKey(id, serviceDay), updateKey(id)]);
+    const update = keys.map(key => updates.get(key)).find(u => u && u.relationship !== 'other');
+    if (!update) return trip;
+    matched++;
+    keys.forEach(key => updates.delete(key));
+    return updateTrip(trip, update, midnight);
+  });
+  const toBrinkola = overlay(data.toBrinkola);
+  const toIrun = overlay(data.toIrun);
+
+  // Added trains of the day, or of the previous service day running past midnight
+  const serviceDays = new Set([date, addDays(date, -1)]);
+  const added: ParsedTrip[] = [];
+  updates.forEach(update => {
+    if (update.relationship !== 'added' || (update.startDate && !serviceDays.has(update.startDate))) return;
+    const result = addedTrip(update, line, date, midnight);
+    if (!result) return;
+    added.push(result.trip);
+    (result.forward ? toBrinkola : toIrun).push(result.trip);
+  });
+  const byDeparture = (a: ParsedTrip, b: ParsedTrip) => a.departureFromOrigin - b.departureFromOrigin;
+  toBrinkola.sort(byDeparture);
+  toIrun.sort(byDeparture);
+
+  return { data: { ...data, toBrinkola, toIrun }, alerts, added, matched, appliesToTrips };
+};
+
+// Text of an alert in `locale`, else untagged, else in whatever language it has
+export const alertText = (texts: Record<string, string>, locale: Locale) => {
+  const key = Object.keys(texts).find(lang => lang.toLowerCase().split('-')[0] === locale)
+    ?? (texts[''] !== undefined ? '' : Object.keys(texts)[0]);
+  return key === undefined ? '' : texts[key];
+};
@@ -0,0 +1,48 @@
+// GTFS times are measured from the start of the service day and may exceed
+// 24:00:00 for trains that run past midnight (e.g. "24:15:00" is 00:15 the
+// next calendar day). They are handled as plain seconds.
+
+export const DAY_SECONDS = 24 * 60 * 60;
+
+// "H:MM:SS" or "HH:MM:SS" -> seconds since service-day start; null if empty or invalid
+export const parseGTFSTime = (value: string): number | null => {
+  const match = /^(\d{1,3}):([0-5]\d):([0-5]\d)$/.exec(value.trim());
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+// Seconds -> "HH:MM" on a 24h clock. With `nextDayMarker`, times past midnight
+// get a "+1" suffix so readers know the train arrives the following day.
+// Negative times (a connection of the day before) print on the clock unmarked.
+export const formatGTFSTime = (seconds: number, nextDayMarker = false): string => {
+  const minutes = Math.floor(seconds / 60);
+  const hh = String((Math.floor(minutes / 60) % 24 + 24) % 24).padStart(2, '0');
+  const mm = String((minutes % 60 + 60) % 60).padStart(2, '0');
+  const dayOffset = Math.floor(seconds / DAY_SECONDS);
+  return nextDayMarker && dayOffset > 0 ? `${hh}:${mm} +${dayOffset}` : `${hh}:${mm}`;
+};
+
+// "HH:MM" -> seconds from midnight, null when empty or invalid
+const clockSeconds = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 : null;
+};
+
+// Whether a time falls in the clock window `fromTime`-`toTime` ("HH:MM", empty
+// for no limit), the end minute included. Times after midnight (>= 24:00) count
+// as the clock shows them; an end before the start wraps around midnight.
+export const inClockWindow = (seconds: number, fromTime: string, toTime: string) => {
+  const from = clockSeconds(fromTime);
+  const to = clockSeconds(toTime);
+  const clock = seconds % DAY_SECONDS;
+  const beforeEnd = to === null || clock <= to + 59;
+  if (from !== null && to !== null && to < from) return clock >= from || beforeEnd;
+  return (from === null || clock >= from) && beforeEnd;
+};
+
+// 3900 -> "1 h 05 min", 2520 -> "42 min"
+export const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+};
@@ -0,0 +1,345 @@
+import { LineDefinition } from '../constants';
+import {
+  Calendar,
+  CalendarDate,
+  DateRange,
+  ProcessingProgress,
+  ValidationCode,
+  ValidationIssue,
+  ValidationReport,
+  ValidationSample,
+  ValidationSeverity,
+} from '../types';
+import { ByteProgressHandler } from './csv';
+import { dateSlug, downloadBlob, fileSlug } from './files';
+import {
+  CALENDAR_DATE_SPEC,
+  CALENDAR_SPEC,
+  GTFSParseError,
+  GTFSSource,
+  GTFSTableSpec,
+  ROUTE_SPEC,
+  STOP_SPEC,
+  STOP_TIME_SPEC,
+  TRIP_SPEC,
+  byteReporter,
+  openGTFSArchive,
+  readGTFSTable,
+} from './gtfsReader';
+import { MAX_RANGE_DAYS } from './gtfsParser';
+import { parseGTFSTime } from './gtfsTime';
+import { Locale, MessageParams, translator } from './i18n';
+import { ServiceCalendar, activeServicesOn, datesInRange, getDateInfo, serviceDateRange, toIsoDate } from './serviceCalendar';
+
+// --- ISSUE LOG ---
+
+const MAX_SAMPLES = 5;
+
+const SEVERITY_ORDER: Record<ValidationSeverity, number> = { error: 0, warning: 1 };
+
+// Collects occurrences per issue, keeping the total count but only the first
+// few sample rows. Issues with the same code and different params (e.g. two
+// malformed files) are reported separately.
+const createIssueLog = () => {
+  const issues = new Map<string, ValidationIssue>();
+
+  const add = (code: ValidationCode, severity: ValidationSeverity, sample?: ValidationSample, params?: MessageParams) => {
+    const id = `${code}:${JSON.stringify(params ?? {})}`;
+    let issue = issues.get(id);
+    if (!issue) {
+      issue = { code, severity, message: { key: `validation.${code}`, params }, count: 0, samples: [] };
+      issues.set(id, issue);
+    }
+    issue.count++;
+    if (sample && issue.samples.length < MAX_SAMPLES) issue.samples.push(sample);
+  };
+
+  const list = () => [...issues.values()].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  return { add, list };
+};
+
+// YYYYMMDD -> DD/MM/YYYY
+export const displayDate = (dateStr: string) => getDateInfo(toIsoDate(dateStr)).formattedDate;
+
+// --- VALIDATOR ---
+
+interface TimedStop {
+  sequence: number;
+  stopId: string;
+  arrival: string;
+  departure: string;
+  line: number;
+}
+
+// Checks the feed for everything that makes parseGTFS fail or silently drop
+// trains: missing files and columns, the validity period against the selected
+// range, the line's routes and stations, dangling references and stop times
+// that go backwards. Unlike the parser it never stops at the first problem.
+// Time order is checked at the line's stations only, the same rows the
+// timetable is built from.
+export const validateGTFS = async (
+  source: GTFSSource,
+  range: DateRange,
+  line: LineDefinition,
+  onProgress: (progress: ProcessingProgress) => void
+): Promise<ValidationReport> => {
+  const log = createIssueLog();
+  const files: ValidationReport['files'] = [];
+
+  const sourceSize = source instanceof Blob ? source.size : source.byteLength;
+  onProgress({ phase: 'unzip', message: { key: 'status.validating' }, processed: 0, total: sourceSize, unit: 'bytes' });
+  const zip = await openGTFSArchive(source);
+  onProgress({ phase: 'unzip', message: { key: 'progress.unzipped' }, processed: sourceSize, total: sourceSize, unit: 'bytes' });
+
+  // Reads a whole table. A malformed file becomes an issue instead of ending the
+  // validation; the rows read before the error still count. False if absent.
+  const readTable = async <T>(
+    filename: string,
+    spec: GTFSTableSpec<T>,
+    onRow: (row: T, line: number) => void,
+    onBytes?: ByteProgressHandler
+  ): Promise<boolean> => {
+    let rows = 0;
+    try {
+      const found = await readGTFSTable(zip, filename, spec, (row, lineNumber) => {
+        rows++;
+        onRow(row, lineNumber);
+      }, onBytes);
+      if (!found) return false;
+    } catch (error) {
+      if (!(error instanceof GTFSParseError)) throw error;
+      log.add('malformedFile', 'error', { file: filename, line: error.line, values: {} }, { file: filename, detail: error.params.detail });
+    }
+    files.push({ name: filename, rows });
+    return true;
+  };
+
+  const requireFile = (found: boolean, file: string) => {
+    if (!found) log.add('missingFile', 'error', undefined, { file });
+  };
+
+  // 1. Calendar and feed validity period
+  const calendars: Calendar[] = [];
+  const exceptionsByDate = new Map<string, CalendarDate[]>();
+  const serviceRows = new Map<string, ValidationSample>(); // service_id -> first row defining it
+
+  const calendarBytes = byteReporter(onProgress, 'calendar', { key: 'progress.calendar' });
+  const hasCalendar = await readTable('calendar.txt', CALENDAR_SPEC, (cal, lineNumber) => {
+    calendars.push(cal);
+    if (!serviceRows.has(cal.service_id)) {
+      serviceRows.set(cal.service_id, { file: 'calendar.txt', line: lineNumber, values: { service_id: cal.service_id } });
+    }
+  }, calendarBytes);
+  const hasCalendarDates = await readTable('calendar_dates.txt', CALENDAR_DATE_SPEC, (exception, lineNumber) => {
+    if (!exceptionsByDate.has(exception.date)) {
+      exceptionsByDate.set(exception.date, []);
+    }
+    exceptionsByDate.get(exception.date)?.push(exception);
+    if (!serviceRows.has(exception.service_id)) {
+      serviceRows.set(exception.service_id, { file: 'calendar_dates.txt', line: lineNumber, values: { service_id: exception.service_id } });
+    }
+  }, calendarBytes);
+  const hasServiceCalendar = hasCalendar || hasCalendarDates;
+  if (!hasServiceCalendar) log.add('missingCalendar', 'error');
+  const calendar: ServiceCalendar = { calendars, exceptionsByDate };
+
+  const feedRange = serviceDateRange(calendar);
+
+  // 2. Routes and stops of the line
+  const routeIds = new Set<string>();
+  const hasRoutes = await readTable('routes.txt', ROUTE_SPEC, route => routeIds.add(route.route_id));
+  requireFile(hasRoutes, 'routes.txt');
+  if (hasRoutes) {
+    line.routeIds
+      .filter(id => !routeIds.has(id))
+      .forEach(id => log.add('routeNotFound', 'error', { values: { route_id: id } }));
+  }
+
+  const stopIds = new Set<string>();
+  const hasStops = await readTable('stops.txt', STOP_SPEC, stop => stopIds.add(stop.stop_id));
+  requireFile(hasStops, 'stops.txt');
+  if (hasStops) {
+    line.stations
+      .filter(s => !stopIds.has(s.codigo))
+      .forEach(s => log.add('stationNotInStops', 'error', { values: { codigo: s.codigo, estacion: s.estacion } }));
+  }
+
+  // 3. Trips
+  const validRoutes = new Set(line.routeIds);
+  const tripServices = new Map<string, string>(); // trip_id -> service_id
+  const lineTrips = new Set<string>();
+  const lineServices = new Set<string>();
+  const servicesWithTrips = new Set<string>();
+
+  const hasTrips = await readTable('trips.txt', TRIP_SPEC, (trip, lineNumber) => {
+    const sample = { file: 'trips.txt', line: lineNumber, values: { trip_id: trip.trip_id, service_id: trip.service_id } };
+    if (tripServices.has(trip.trip_id)) log.add('duplicateTripId', 'error', sample);
+    if (hasServiceCalendar && !serviceRows.has(trip.service_id)) log.add('unknownService', 'error', sample);
+    tripServices.set(trip.trip_id, trip.service_id);
+    servicesWithTrips.add(trip.service_id);
+    if (validRoutes.size === 0 || validRoutes.has(trip.route_id)) {
+      lineTrips.add(trip.trip_id);
+      lineServices.add(trip.service_id);
+    }
+  }, byteReporter(onProgress, 'trips', { key: 'progress.trips', params: { count: serviceRows.size } }));
+  requireFile(hasTrips, 'trips.txt');
+
+  if (hasTrips) {
+    serviceRows.forEach((sample, serviceId) => {
+      if (!servicesWithTrips.has(serviceId)) log.add('serviceWithoutTrips', 'warning', sample);
+    });
+  }
+
+  // 4. Stop times
+  const lineStations = new Set(line.stations.map(s => s.codigo));
+  const servedStations = new Set<string>();
+  const tripStops = new Map<string, TimedStop[]>(); // line trips, at the line's stations
+
+  const hasStopTimes = await readTable('stop_times.txt', STOP_TIME_SPEC, (stopTime, lineNumber) => {
+    const sample = (): ValidationSample => ({
+      file: 'stop_times.txt',
+      line: lineNumber,
+      values: { trip_id: stopTime.trip_id, stop_id: stopTime.stop_id, stop_sequence: String(stopTime.stop_sequence) },
+    });
+    if (hasStops && !stopIds.has(stopTime.stop_id)) log.add('unknownStop', 'error', sample());
+    if (hasTrips && !tripServices.has(stopTime.trip_id)) log.add('unknownTrip', 'warning', sample());
+    for (const [column, value] of [['arrival_time', stopTime.arrival_time], ['departure_time', stopTime.departure_time]]) {
+      if (value !== '' && parseGTFSTime(value) === null) {
+        const invalid = sample();
+        invalid.values[column] = value;
+        log.add('invalidTime', 'error', invalid);
+      }
+    }
+
+    if (!lineTrips.has(stopTime.trip_id) || !lineStations.has(stopTime.stop_id)) return;
+    servedStations.add(stopTime.stop_id);
+    if (!tripStops.has(stopTime.trip_id)) {
+      tripStops.set(stopTime.trip_id, []);
+    }
+    tripStops.get(stopTime.trip_id)?.push({
+      sequence: stopTime.stop_sequence,
+      stopId: stopTime.stop_id,
+      arrival: stopTime.arrival_time,
+      departure: stopTime.departure_time,
+      line: lineNumber,
+    });
+  }, byteReporter(onProgress, 'stop_times', { key: 'progress.stopTimes' }));
+  requireFile(hasStopTimes, 'stop_times.txt');
+
+  // 5. Cross-checks on what was read
+  onProgress({ phase: 'organizing', message: { key: 'progress.checkingTimes' }, processed: 0, total: tripStops.size, unit: 'rows' });
+
+  // One sample per trip: the first stop whose time is earlier than the previous one
+  tripStops.forEach((stops, tripId) => {
+    stops.sort((a, b) => a.sequence - b.sequence);
+    let previous: { time: number; value: string } | null = null;
+    for (const stop of stops) {
+      const arrival = parseGTFSTime(stop.arrival);
+      const departure = parseGTFSTime(stop.departure);
+      const reached = arrival ?? departure;
+      const backwards =
+        (arrival !== null && departure !== null && departure < arrival) ||
+        (previous !== null && reached !== null && reached < previous.time);
+      if (backwards) {
+        log.add('timesBackwards', 'error', {
+          file: 'stop_times.txt',
+          line: stop.line,
+          values: {
+            trip_id: tripId,
+            stop_id: stop.stopId,
+            stop_sequence: String(stop.sequence),
+            ...(previous ? { previous_time: previous.value } : {}),
+            arrival_time: stop.arrival,
+            departure_time: stop.departure,
+          },
+        });
+        break;
+      }
+      const left = departure ?? arrival;
+      if (left !== null) previous = { time: left, value: departure !== null ? stop.departure : stop.arrival };
+    }
+  });
+
+  if (hasStopTimes && lineTrips.size > 0) {
+    line.stations
+      .filter(s => (!hasStops || stopIds.has(s.codigo)) && !servedStations.has(s.codigo))
+      .forEach(s => log.add('stationNotServed', 'warning', { values: { codigo: s.codigo, estacion: s.estacion } }));
+  }
+
+  // 6. The selected range against the feed
+  const rangeDates = datesInRange(range.from, range.to);
+  if (rangeDates.length > 0 && rangeDates.length <= MAX_RANGE_DAYS) {
+    const days = rangeDates.map(getDateInfo);
+    const outside = feedRange ? days.filter(d => d.dateStr < feedRange.from || d.dateStr > feedRange.to) : [];
+    if (feedRange && outside.length > 0) {
+      const params = { date: rangeLabel(range), from: displayDate(feedRange.from), to: displayDate(feedRange.to) };
+      if (outside.length === days.length) {
+        log.add('rangeOutsideFeed', 'error', undefined, params);
+      } else {
+        outside.forEach(d => log.add('rangePartlyOutside', 'warning', { values: { date: d.formattedDate } }, params));
+      }
+    }
+    if (hasServiceCalendar && hasTrips) {
+      days
+        .filter(d => !outside.includes(d))
+        .filter(d => ![...activeServicesOn(calendar, d.dateStr, d.dayName)].some(service => lineServices.has(service)))
+        .forEach(d => log.add('daysWithoutService', 'warning', { values: { date: d.formattedDate } }));
+    }
+  }
+
+  return { lineName: line.name, range, feedRange, files, issues: log.list() };
+};
+
+// --- REPORT OUTPUT ---
+
+// "19/10/2026", or "19/10/2026 - 25/10/2026" for a period
+const rangeLabel = (range: DateRange) => {
+  const from = getDateInfo(range.from).formattedDate;
+  return range.to === range.from ? from : `${from} - ${getDateInfo(range.to).formattedDate}`;
+};
+
+// "stop_times.txt:120  trip_id=123, stop_id=11511"
+export const formatSample = (sample: ValidationSample) => {
+  const location = sample.file ? `${sample.file}${sample.line !== undefined ? `:${sample.line}` : ''}  ` : '';
+  return location + Object.entries(sample.values).map(([key, value]) => `${key}=${value}`).join(', ');
+};
+
+export const countBySeverity = (report: ValidationReport) => ({
+  errors: report.issues.filter(i => i.severity === 'error').length,
+  warnings: report.issues.filter(i => i.severity === 'warning').length,
+});
+
+// Plain-text version of the report, in the UI language
+export const validationReportToText = (report: ValidationReport, locale: Locale): string => {
+  const t = translator(locale);
+  const counts = countBySeverity(report);
+  const lines = [
+    t('validation.title'),
+    `${t('line.label')}: ${report.lineName}`,
+    t(report.range.from === report.range.to ? 'pdf.singleDate' : 'pdf.period', { date: rangeLabel(report.range) }),
+    report.feedRange
+      ? t('validation.feedRange', { from: displayDate(report.feedRange.from), to: displayDate(report.feedRange.to) })
+      : t('validation.noFeedRange'),
+    ...report.files.map(f => t('validation.fileRows', { file: f.name, count: f.rows })),
+    '',
+    `${t('validation.errors', { count: counts.errors })}, ${t('validation.warnings', { count: counts.warnings })}`,
+  ];
+
+  if (report.issues.length === 0) lines.push(t('validation.ok'));
+  report.issues.forEach(issue => {
+    const severity = t(issue.severity === 'error' ? 'validation.error' : 'validation.warning').toUpperCase();
+    lines.push('', `[${severity}] ${t(issue.message.key, issue.message.params)} (${t('validation.occurrences', { count: issue.count })})`);
+    issue.samples.forEach(sample => lines.push(`  ${formatSample(sample)}`));
+    if (issue.count > issue.samples.length && issue.samples.length > 0) {
+      lines.push(`  ${t('validation.more', { count: issue.count - issue.samples.length })}`);
+    }
+  });
+
+  return `${lines.join('\r\n')}\r\n`;
+};
+
+export const downloadValidationReport = (report: ValidationReport, locale: Locale) => {
+  const blob = new Blob([validationReportToText(report, locale)], { type: 'text/plain;charset=utf-8' });
+  downloadBlob(blob, `Validacion_GTFS_${fileSlug(report.lineName)}_${dateSlug(rangeLabel(report.range))}.txt`);
+};
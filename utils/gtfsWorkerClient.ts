@@ -0,0 +1,118 @@
+import { LineDefinition } from '../constants';
+import { DateRange, ParsedTimetable, ProcessingPhase, ProcessingProgress } from '../types';
+import type { GTFSWorkerRequest, GTFSWorkerResponse, GTFSWorkerResults } from './gtfs.worker';
+import { LocalizedError } from './i18n';
+
+export class GTFSJobCancelledError extends LocalizedError {
+  constructor() {
+    super('status.cancelled');
+    this.name = 'GTFSJobCancelledError';
+  }
+}
+
+export interface GTFSJob<T = ParsedTimetable> {
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+// Share of the progress bar taken by each phase; stop_times dominates on real feeds
+const PHASE_WEIGHTS: [ProcessingPhase, number][] = [
+  ['unzip', 5],
+  ['calendar', 5],
+  ['trips', 10],
+  ['stop_times', 75],
+  ['organizing', 5],
+];
+
+// Converts phase-local progress into a 0-100 value for the whole job
+export const overallPercent = (progress: ProcessingProgress): number => {
+  let done = 0;
+  for (const [phase, weight] of PHASE_WEIGHTS) {
+    if (phase === progress.phase) {
+      const fraction = progress.total > 0 ? Math.min(progress.processed / progress.total, 1) : 0;
+      return Math.round(done + weight * fraction);
+    }
+    done += weight;
+  }
+  return 0;
+};
+
+// Runs one request in a dedicated worker. Each job gets its own worker, so
+// cancelling simply terminates it and nothing from the old job leaks into the next.
+const startWorkerJob = <K extends GTFSWorkerRequest['type']>(
+  request: Extract<GTFSWorkerRequest, { type: K }>,
+  onProgress: (progress: ProcessingProgress) => void
+): GTFSJob<GTFSWorkerResults[K]> => {
+  const worker = new Worker(new URL('./gtfs.worker.ts', import.meta.url), { type: 'module' });
+  let settle: { resolve: (data: GTFSWorkerResults[K]) => void; reject: (error: Error) => void } | null = null;
+
+  const result = new Promise<GTFSWorkerResults[K]>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+
+  const finish = () => {
+    worker.terminate();
+    settle = null;
+  };
+
+  worker.onmessage = (event: MessageEvent<GTFSWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      onProgress(message.progress);
+    } else if (message.type === 'result') {
+      settle?.resolve(message.data as GTFSWorkerResults[K]);
+      finish();
+    } else {
+      const { error } = message;
+      settle?.reject(typeof error === 'string' ? new Error(error) : new LocalizedError(error.key, error.params));
+      finish();
+    }
+  };
+
+  worker.onerror = (event) => {
+    settle?.reject(event.message ? new Error(event.message) : new LocalizedError('error.worker'));
+    finish();
+  };
+
+  worker.postMessage(request);
+
+  return {
+    result,
+    cancel: () => {
+      settle?.reject(new GTFSJobCancelledError());
+      finish();
+    },
+  };
+};
+
+export const runGTFSJob = (
+  file: File,
+  range: DateRange,
+  line: LineDefinition,
+  onProgress: (progress: ProcessingProgress) => void
+) => startWorkerJob({ type: 'parse', file, range, line }, onProgress);
+
+export const validateGTFSJob = (
+  file: File,
+  range: DateRange,
+  line: LineDefinition,
+  onProgress: (progress: ProcessingProgress) => void
+) => startWorkerJob({ type: 'validate', file, range, line }, onProgress);
+
+export const listRoutesJob = (file: File) =>
+  startWorkerJob({ type: 'routes', file }, () => {});
+
+export const deriveLineJob = (file: File, routeId: string, onProgress: (progress: ProcessingProgress) => void) =>
+  startWorkerJob({ type: 'deriveLine', file, routeId }, onProgress);
+
+export const compactGTFSJob = (file: File, line: LineDefinition) =>
+  startWorkerJob({ type: 'compact', file, line }, () => {});
+
+export const serviceCoverageJob = (file: File, line: LineDefinition, onProgress: (progress: ProcessingProgress) => void) =>
+  startWorkerJob({ type: 'coverage', file, line }, onProgress);
+
+export const listStopsJob = (file: File) =>
+  startWorkerJob({ type: 'stops', file }, () => {});
+
+export const connectionCallsJob = (file: File, stopIds: string[], range: DateRange, onProgress: (progress: ProcessingProgress) => void) =>
+  startWorkerJob({ type: 'connections', file, feedName: file.name, stopIds, range }, onProgress);
@@ -0,0 +1,143 @@
+import { LineDefinition, StationDef } from '../constants';
+import { ParsedTrip } from '../types';
+import { formatDuration } from './gtfsTime';
+import { MessageKey } from './i18n';
+
+// --- TIME BANDS ---
+
+export type TimeBandId = 'early' | 'morningPeak' | 'midday' | 'eveningPeak' | 'evening';
+
+export interface TimeBand {
+  id: TimeBandId;
+  from: number; // Seconds from midnight, included
+  to: number; // Seconds, excluded; the last band runs on past midnight
+}
+
+const HOUR = 3600;
+
+export const TIME_BANDS: TimeBand[] = [
+  { id: 'early', from: 0, to: 7 * HOUR },
+  { id: 'morningPeak', from: 7 * HOUR, to: 10 * HOUR },
+  { id: 'midday', from: 10 * HOUR, to: 16 * HOUR },
+  { id: 'eveningPeak', from: 16 * HOUR, to: 20 * HOUR },
+  { id: 'evening', from: 20 * HOUR, to: Infinity },
+];
+
+export const TIME_BAND_KEYS: Record<TimeBandId, MessageKey> = {
+  early: 'headway.bandEarly',
+  morningPeak: 'headway.bandMorningPeak',
+  midday: 'headway.bandMidday',
+  eveningPeak: 'headway.bandEveningPeak',
+  evening: 'headway.bandEvening',
+};
+
+// --- FREQUENCY REPORT ---
+
+// Time between two consecutive departures
+export interface Headway {
+  from: number; // Seconds, departure of the earlier train
+  to: number; // Seconds, departure of the next one
+}
+
+export interface BandFrequency {
+  band: TimeBand;
+  trains: number; // Departures in the band
+  trainsPerHour: number; // Over the band's hours with service, see bandHours
+  minHeadway?: number; // Seconds; undefined with fewer than two departures
+  maxHeadway?: number;
+  averageHeadway?: number;
+}
+
+export interface StationFrequency {
+  station: StationDef;
+  departures: number[]; // Seconds from the calendar day's midnight, in order
+  first?: number;
+  last?: number;
+  bands: BandFrequency[]; // One per TIME_BANDS entry
+  gaps: Headway[]; // Longest headways of the day, longest first
+}
+
+export interface DirectionFrequency {
+  direction: 'forward' | 'backward';
+  stations: StationFrequency[]; // In travel order
+}
+
+export interface FrequencyReport {
+  date: string; // YYYYMMDD analysed
+  directions: DirectionFrequency[];
+}
+
+// How many of the longest headways a station lists
+export const GAP_COUNT = 3;
+
+const headwaySeconds = (headway: Headway) => headway.to - headway.from;
+
+// Hours of a band the station is in service: the band clipped to the whole
+// hours between the first and the last departure. A line that opens at 05:30
+// is not charged for the empty hours since midnight in the early band.
+const bandHours = (band: TimeBand, first: number, last: number) => {
+  const from = Math.max(band.from, Math.floor(first / HOUR) * HOUR);
+  const to = Math.min(band.to, Math.floor(last / HOUR) * HOUR + HOUR);
+  return Math.max(0, to - from) / HOUR;
+};
+
+// Departures from `station` on `date`. Trains ending there are left out:
+// nobody can board them.
+const departuresFrom = (trips: ParsedTrip[], station: StationDef, date: string) => trips
+  .filter(trip => trip.days.includes(date) && trip.lastStopOrder !== station.orden)
+  .map(trip => trip.times[station.codigo])
+  .filter((seconds): seconds is number => seconds !== undefined)
+  .sort((a, b) => a - b);
+
+export const stationFrequency = (trips: ParsedTrip[], station: StationDef, date: string): StationFrequency => {
+  const departures = departuresFrom(trips, station, date);
+  const first = departures[0];
+  const last = departures[departures.length - 1];
+  const headways: Headway[] = departures.slice(1).map((to, i) => ({ from: departures[i], to }));
+
+  // A headway belongs to the band of the train it ends with: the wait for that train
+  const bands = TIME_BANDS.map((band): BandFrequency => {
+    const inBand = (seconds: number) => seconds >= band.from && seconds < band.to;
+    const trains = departures.filter(inBand).length;
+    const waits = headways.filter(h => inBand(h.to)).map(headwaySeconds);
+    const hours = first === undefined ? 0 : bandHours(band, first, last);
+    return {
+      band,
+      trains,
+      trainsPerHour: hours > 0 ? trains / hours : 0,
+      ...(waits.length > 0 ? {
+        minHeadway: Math.min(...waits),
+        maxHeadway: Math.max(...waits),
+        averageHeadway: waits.reduce((sum, wait) => sum + wait, 0) / waits.length,
+      } : {}),
+    };
+  });
+
+  const gaps = [...headways]
+    .sort((a, b) => headwaySeconds(b) - headwaySeconds(a) || a.from - b.from)
+    .slice(0, GAP_COUNT);
+
+  return { station, departures, first, last, bands, gaps };
+};
+
+// Frequencies at every station of the line, in both directions, on one day
+export const frequencyReport = (
+  toBrinkola: ParsedTrip[],
+  toIrun: ParsedTrip[],
+  line: LineDefinition,
+  date: string
+): FrequencyReport => ({
+  date,
+  directions: [
+    { direction: 'forward', stations: line.stations.map(s => stationFrequency(toBrinkola, s, date)) },
+    { direction: 'backward', stations: [...line.stations].reverse().map(s => stationFrequency(toIrun, s, date)) },
+  ],
+});
+
+// First day with service in a timetable, the one a single-day analysis of a
+// multi-day range describes
+export const firstServiceDate = (trips: ParsedTrip[]): string | undefined =>
+  trips.flatMap(trip => trip.days).sort()[0];
+
+// "21 min", "1 h 35 min", or "-" where there is no headway to show
+export const formatHeadway = (seconds?: number) => seconds === undefined ? '-' : formatDuration(seconds);
@@ -0,0 +1,76 @@
+import { en } from '../locales/en';
+import { es } from '../locales/es';
+import { eu } from '../locales/eu';
+import type { PdfLanguage } from '../types';
+
+// --- LOCALES ---
+
+export type Locale = 'eu' | 'es' | 'en';
+
+export const LOCALES: Locale[] = ['eu', 'es', 'en'];
+
+export const LOCALE_NAMES: Record<Locale, string> = { eu: 'Euskara', es: 'Castellano', en: 'English' };
+
+export type MessageKey = keyof typeof es;
+export type Catalog = Record<MessageKey, string>;
+
+const CATALOGS: Record<Locale, Catalog> = { eu, es, en };
+
+// A message that is translated when shown rather than when created, so it can
+// cross the worker boundary and follow later language changes.
+export interface LocalizedText {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export type MessageParams = Record<string, string | number | LocalizedText>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+// Fills "{name}" placeholders; nested LocalizedText params are translated too
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string =>
+  CATALOGS[locale][key].replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === 'object' ? translate(locale, value.key, value.params) : String(value);
+  });
+
+export const translator = (locale: Locale): Translator => (key, params) => translate(locale, key, params);
+
+export const localize = (locale: Locale, text: LocalizedText | string) =>
+  typeof text === 'string' ? text : translate(locale, text.key, text.params);
+
+// --- ERRORS ---
+
+// Error with a catalogue message. `message` holds the Spanish text for logs and
+// for callers that do not localise.
+export class LocalizedError extends Error implements LocalizedText {
+  constructor(public key: MessageKey, public params: MessageParams = {}) {
+    super(translate('es', key, params));
+    this.name = 'LocalizedError';
+  }
+}
+
+// Plain-data form of any thrown value, safe to post between threads
+export const errorText = (error: unknown): LocalizedText | string => {
+  if (error instanceof LocalizedError) return { key: error.key, params: error.params };
+  if (error instanceof Error) return error.message;
+  return { key: 'error.unknown' };
+};
+
+export const errorMessage = (error: unknown, locale: Locale) => localize(locale, errorText(error));
+
+// --- PDF LANGUAGE ---
+
+// Each UI language plus the bilingual Basque/Spanish edition
+export const PDF_LANGUAGES: PdfLanguage[] = [...LOCALES, 'eu-es'];
+
+export const pdfLocales = (language: PdfLanguage): Locale[] => (language === 'eu-es' ? ['eu', 'es'] : [language]);
+
+// Renders a text once per locale of the PDF. Bilingual documents print both
+// versions side by side ("Euskara / Castellano"), or one when they read the same.
+export const localizedText = (
+  language: PdfLanguage,
+  render: (t: Translator, locale: Locale) => string,
+  separator = ' / '
+) => [...new Set(pdfLocales(language).map(locale => render(translator(locale), locale)))].join(separator);
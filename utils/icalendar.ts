@@ -0,0 +1,119 @@
+import { StationDef } from '../constants';
+import { ServicePattern } from '../types';
+import { dateSlug, downloadBlob, fileSlug } from './files';
+import { DAY_SECONDS, formatGTFSTime } from './gtfsTime';
+import { Locale, Translator, translator } from './i18n';
+import { Journey } from './journeys';
+import { stationName } from './lineCatalog';
+import { addDays } from './serviceCalendar';
+import { patternText } from './servicePattern';
+
+// --- ICALENDAR ---
+
+const TIMEZONE = 'Europe/Madrid';
+
+// Central European rules, so clients without a timezone database read local times right
+const VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIMEZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:+0100',
+  'TZOFFSETTO:+0200',
+  'TZNAME:CEST',
+  'DTSTART:19700329T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:+0200',
+  'TZOFFSETTO:+0100',
+  'TZNAME:CET',
+  'DTSTART:19701025T030000',
+  'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+const icsText = (value: string) => value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// YYYYMMDD plus seconds from that day's midnight -> local "YYYYMMDDTHHMMSS"
+const localDateTime = (dateStr: string, seconds: number) => {
+  const day = addDays(dateStr, Math.floor(seconds / DAY_SECONDS));
+  const time = formatGTFSTime(seconds).replace(':', '');
+  return `${day}T${time}00`;
+};
+
+const patternDescription = (pattern: ServicePattern, t: Translator) => {
+  const { label, note } = patternText(pattern, t);
+  return note ? `${label}. ${note}` : label;
+};
+
+const utcStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// One event per train between the two stations. Trains running on several days
+// of the period list the other dates as RDATE.
+export const journeysToICS = (
+  journeys: Journey[],
+  origin: StationDef,
+  destination: StationDef,
+  locale: Locale = 'es',
+  now = new Date()
+): string => {
+  const t = translator(locale);
+  const originName = stationName(origin, locale);
+  const destinationName = stationName(destination, locale);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Horarios Cercanias//ES',
+    'CALSCALE:GREGORIAN',
+    ...VTIMEZONE,
+  ];
+
+  journeys.forEach(journey => {
+    const [first, ...others] = journey.trip.days;
+    if (!first) return;
+    const pattern = journey.trip.pattern;
+    const description = [
+      `${originName} ${formatGTFSTime(journey.departure)} -> ${destinationName} ${formatGTFSTime(journey.arrival)}`,
+      ...(pattern ? [patternDescription(pattern, t)] : []),
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${journey.trip.id}-${origin.codigo}-${destination.codigo}-${first}@horarios-cercanias`,
+      `DTSTAMP:${utcStamp(now)}`,
+      `DTSTART;TZID=${TIMEZONE}:${localDateTime(first, journey.departure)}`,
+      `DTEND;TZID=${TIMEZONE}:${localDateTime(first, journey.arrival)}`,
+      ...(others.length > 0 ? [`RDATE;TZID=${TIMEZONE}:${others.map(d => localDateTime(d, journey.departure)).join(',')}`] : []),
+      `SUMMARY:${icsText(t('journey.calendarSummary', { origin: originName, destination: destinationName }))}`,
+      `LOCATION:${icsText(originName)}`,
+      `DESCRIPTION:${icsText(description)}`,
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+export const exportICS = (journeys: Journey[], origin: StationDef, destination: StationDef, dateStr: string, locale: Locale = 'es') => {
+  const blob = new Blob([journeysToICS(journeys, origin, destination, locale)], { type: 'text/calendar;charset=utf-8' });
+  downloadBlob(blob, `Trenes_${fileSlug(origin.estacion)}_${fileSlug(destination.estacion)}_${dateSlug(dateStr)}.ics`);
+};
@@ -0,0 +1,159 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { LineDefinition, StationDef } from '../constants';
+import { ParsedTimetable, ParsedTrip, PdfOptions, ServicePattern } from '../types';
+import { GeneratedFile, dateSlug, downloadFile, fileSlug } from './files';
+import { formatDuration, formatGTFSTime, inClockWindow } from './gtfsTime';
+import { MessageKey, MessageParams, localizedText } from './i18n';
+import { stationName } from './lineCatalog';
+import { HEAD_STYLES, TABLE_STYLES, pdfFile } from './pdfGenerator';
+import { patternText } from './servicePattern';
+
+// --- JOURNEYS ---
+
+export interface Journey {
+  trip: ParsedTrip;
+  departure: number; // Seconds from the calendar day's midnight, at the origin
+  arrival: number; // Seconds, at the destination
+  duration: number; // Seconds
+}
+
+export interface TimeWindow {
+  from: string; // HH:MM, empty for no lower limit
+  to: string; // HH:MM, empty for no upper limit
+}
+
+// Direct trains from `originCode` to `destinationCode`, ordered by departure. The
+// direction follows the stations' order on the line. The time window applies to the
+// departure's clock time, so "00:00-01:00" includes trains after midnight and
+// "22:00-01:00" runs on past midnight.
+export const findJourneys = (
+  data: ParsedTimetable,
+  line: LineDefinition,
+  originCode: string,
+  destinationCode: string,
+  timeWindow: TimeWindow = { from: '', to: '' }
+): Journey[] => {
+  const origin = line.stations.find(s => s.codigo === originCode);
+  const destination = line.stations.find(s => s.codigo === destinationCode);
+  if (!origin || !destination || origin.codigo === destination.codigo) return [];
+
+  const trips = origin.orden < destination.orden ? data.toBrinkola : data.toIrun;
+
+  const journeys: Journey[] = [];
+  trips.forEach(trip => {
+    const departure = trip.times[origin.codigo];
+    const arrival = trip.arrivals[destination.codigo] ?? trip.times[destination.codigo];
+    if (departure === undefined || arrival === undefined || arrival <= departure) return;
+    // The train has to leave the origin, not just arrive there at its last stop
+    if (trip.lastStopOrder === origin.orden) return;
+
+    if (!inClockWindow(departure, timeWindow.from, timeWindow.to)) return;
+
+    journeys.push({ trip, departure, arrival, duration: arrival - departure });
+  });
+  return journeys.sort((a, b) => a.departure - b.departure);
+};
+
+// --- JOURNEY PDF ---
+
+// Rows per side before the list is split into two side-by-side tables
+const ROWS_PER_COLUMN = 45;
+
+// Compact one-page list of the journeys between two stations. Font size shrinks
+// with the number of trains so the whole list fits on a single A4 page.
+export const renderJourneyPDF = (
+  journeys: Journey[],
+  origin: StationDef,
+  destination: StationDef,
+  dateStr: string,
+  timeWindow: TimeWindow,
+  options: PdfOptions
+): GeneratedFile => {
+  const doc = new jsPDF({
+    orientation: 'portrait',
+    unit: 'mm',
+    format: 'a4'
+  });
+
+  // Safe access for autoTable in ESM/Browser environment
+  const autoTableFunc = (autoTable as any).default || autoTable;
+
+  const isRange = dateStr.includes(' - ');
+  const hasPatterns = journeys.some(j => j.trip.pattern);
+  const fmt = (seconds: number) => formatGTFSTime(seconds, options.nextDayMarker);
+  const tr = (key: MessageKey, params?: MessageParams) => localizedText(options.language, t => t(key, params));
+  const patternLabel = (trip: ParsedTrip) => {
+    const pattern = trip.pattern;
+    if (!pattern) return '';
+    const label = localizedText(options.language, t => patternText(pattern, t).label);
+    return pattern.note ? `${label} *` : label;
+  };
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  doc.setFontSize(14);
+  doc.text(localizedText(options.language, (_, locale) => `${stationName(origin, locale)} -> ${stationName(destination, locale)}`), 10, 15);
+  doc.setFontSize(10);
+  doc.text(tr(isRange ? 'pdf.period' : 'pdf.singleDate', { date: dateStr }), 10, 21);
+  if (timeWindow.from || timeWindow.to) {
+    doc.text(tr('journey.window', { from: timeWindow.from || '00:00', to: timeWindow.to || '23:59' }), 10, 26);
+  }
+
+  const head = [[...(hasPatterns ? [tr('column.days')] : []), tr('column.departure'), tr('column.arrival'), tr('column.duration')]];
+  const rows = journeys.map(j => [
+    ...(hasPatterns ? [patternLabel(j.trip)] : []),
+    fmt(j.departure),
+    fmt(j.arrival),
+    formatDuration(j.duration),
+  ]);
+  if (rows.length === 0) {
+    rows.push([...(hasPatterns ? [''] : []), tr('journey.noTrains'), '', '']);
+  }
+
+  const columns = rows.length > ROWS_PER_COLUMN ? 2 : 1;
+  const perColumn = Math.ceil(rows.length / columns);
+  const startY = 30;
+  const rowHeight = (pageHeight - startY - 20) / (perColumn + 1);
+  const fontSize = Math.min(10, Math.max(5, (rowHeight - 1) / 0.41));
+  const columnWidth = (pageWidth - 20 - (columns - 1) * 5) / columns;
+
+  let finalY = startY;
+  for (let c = 0; c < columns; c++) {
+    const left = 10 + c * (columnWidth + 5);
+    autoTableFunc(doc, {
+      startY,
+      head,
+      body: rows.slice(c * perColumn, (c + 1) * perColumn),
+      theme: 'grid',
+      styles: { ...TABLE_STYLES, fontSize, cellPadding: 0.5 },
+      headStyles: { ...HEAD_STYLES, fontSize },
+      margin: { top: startY, left, right: pageWidth - left - columnWidth },
+    });
+    finalY = Math.max(finalY, (doc as any).lastAutoTable.finalY);
+  }
+
+  // Irregular patterns are marked with "*" and spelled out below
+  const notes = new Map<string, ServicePattern>(); // Spanish note -> pattern
+  journeys.forEach(j => {
+    if (j.trip.pattern?.note) notes.set(j.trip.pattern.note, j.trip.pattern);
+  });
+  const legend = [
+    ...(hasPatterns ? [tr('legend.days')] : []),
+    ...[...notes].map(([note, pattern]) => {
+      const departures = journeys.filter(j => j.trip.pattern?.note === note).map(j => fmt(j.departure)).join(', ');
+      return `* ${departures}: ${localizedText(options.language, t => patternText(pattern, t).note ?? '')}`;
+    }),
+  ];
+  doc.setFontSize(7);
+  let y = finalY + 4;
+  legend.forEach(entry => {
+    const wrapped: string[] = doc.splitTextToSize(entry, pageWidth - 20);
+    doc.text(wrapped, 10, y);
+    y += wrapped.length * 3;
+  });
+
+  return pdfFile(doc, `Trayecto_${fileSlug(origin.estacion)}_${fileSlug(destination.estacion)}_${dateSlug(dateStr)}.pdf`);
+};
+
+export const generateJourneyPDF = (...args: Parameters<typeof renderJourneyPDF>) => downloadFile(renderJourneyPDF(...args));
@@ -0,0 +1,136 @@
+import { LineDefinition, StationDef } from '../constants';
+import { ProcessingProgress, Route } from '../types';
+import {
+  GTFSSource,
+  ROUTE_SPEC,
+  STOP_SPEC,
+  STOP_TIME_SPEC,
+  TRIP_SPEC,
+  byteReporter,
+  openGTFSArchive,
+  readGTFSTable,
+} from './gtfsReader';
+import { Locale, LocalizedError } from './i18n';
+
+// --- ROUTES ---
+
+export const routeDisplayName = (route: Route) =>
+  [route.route_short_name, route.route_long_name].filter(Boolean).join(' ') || route.route_id;
+
+export const listRoutes = async (source: GTFSSource): Promise<Route[]> => {
+  const zip = await openGTFSArchive(source);
+  const routes: Route[] = [];
+  const hasRoutes = await readGTFSTable(zip, "routes.txt", ROUTE_SPEC, (route) => routes.push(route));
+  if (!hasRoutes) throw new LocalizedError('error.missingFile', { file: 'routes.txt' });
+
+  return routes.sort((a, b) => routeDisplayName(a).localeCompare(routeDisplayName(b), 'es', { numeric: true }));
+};
+
+// --- STATION ORDER ---
+
+// Merges the stop sequences of a route's trips into one ordered station list.
+// The longest pattern is the backbone; stations only served by other patterns
+// (branches, short-turn terminals) are slotted in next to their neighbours.
+// Sequences running the opposite way are reversed first.
+export const mergeStopSequences = (sequences: string[][]): string[] => {
+  const sorted = [...sequences].sort((a, b) => b.length - a.length);
+  if (sorted.length === 0) return [];
+
+  const merged = [...sorted[0]];
+  for (const original of sorted.slice(1)) {
+    const shared = original.map(code => merged.indexOf(code)).filter(i => i !== -1);
+    const sequence = shared.length > 1 && shared[0] > shared[shared.length - 1] ? [...original].reverse() : original;
+
+    let anchor = -1; // Position in `merged` of the last known station
+    const leading: string[] = []; // Unknown stations before the first known one
+    for (const code of sequence) {
+      const known = merged.indexOf(code);
+      if (known !== -1) {
+        if (anchor === -1 && leading.length > 0) {
+          merged.splice(known, 0, ...leading);
+          anchor = known + leading.length;
+          leading.length = 0;
+        } else {
+          anchor = known;
+        }
+      } else if (anchor === -1) {
+        leading.push(code);
+      } else {
+        merged.splice(anchor + 1, 0, code);
+        anchor++;
+      }
+    }
+    // A pattern sharing no station with the backbone is appended as is
+    merged.push(...leading);
+  }
+  return merged;
+};
+
+// Station name in a locale: the Basque name where one is set, the GTFS (Spanish) one otherwise
+export const stationName = (station: StationDef, locale: Locale = 'es') =>
+  (locale === 'eu' && station.estacionEu) || station.estacion;
+
+// Direction labels for the two halves of a ParsedTimetable, e.g. "Irún -> Bríncola"
+export const directionNames = (line: LineDefinition, locale: Locale = 'es') => {
+  const first = line.stations[0] ? stationName(line.stations[0], locale) : '';
+  const last = line.stations.length > 0 ? stationName(line.stations[line.stations.length - 1], locale) : '';
+  return { forward: `${first} -> ${last}`, backward: `${last} -> ${first}` };
+};
+
+export const renumberStations = (stations: StationDef[]): StationDef[] =>
+  stations.map((station, i) => ({ ...station, orden: i + 1 }));
+
+// Builds a line definition for one route from the stop sequences of its trips,
+// naming stations after stops.txt.
+export const deriveLine = async (
+  source: GTFSSource,
+  routeId: string,
+  onProgress: (progress: ProcessingProgress) => void
+): Promise<LineDefinition> => {
+  const zip = await openGTFSArchive(source);
+
+  let route: Route | undefined;
+  await readGTFSTable(zip, "routes.txt", ROUTE_SPEC, (r) => {
+    if (r.route_id === routeId) route = r;
+  });
+
+  const routeTrips = new Set<string>();
+  const hasTrips = await readGTFSTable(zip, "trips.txt", TRIP_SPEC, (trip) => {
+    if (trip.route_id === routeId) routeTrips.add(trip.trip_id);
+  }, byteReporter(onProgress, 'trips', { key: 'progress.routeTrips' }));
+  if (!hasTrips) throw new LocalizedError('error.missingFile', { file: 'trips.txt' });
+  if (routeTrips.size === 0) throw new LocalizedError('error.routeWithoutTrips', { route: routeId });
+
+  const tripSequences = new Map<string, { seq: number; stop: string }[]>();
+  const hasStopTimes = await readGTFSTable(zip, "stop_times.txt", STOP_TIME_SPEC, (stopTime) => {
+    if (!routeTrips.has(stopTime.trip_id)) return;
+    if (!tripSequences.has(stopTime.trip_id)) {
+      tripSequences.set(stopTime.trip_id, []);
+    }
+    tripSequences.get(stopTime.trip_id)?.push({ seq: stopTime.stop_sequence, stop: stopTime.stop_id });
+  }, byteReporter(onProgress, 'stop_times', { key: 'progress.stopSequences' }));
+  if (!hasStopTimes) throw new LocalizedError('error.missingFile', { file: 'stop_times.txt' });
+
+  // Identical patterns are merged only once
+  const patterns = new Map<string, string[]>();
+  tripSequences.forEach(stops => {
+    const codes = stops.sort((a, b) => a.seq - b.seq).map(s => s.stop);
+    patterns.set(codes.join('|'), codes);
+  });
+  const orderedCodes = mergeStopSequences([...patterns.values()]);
+
+  const names = new Map<string, string>();
+  const wanted = new Set(orderedCodes);
+  await readGTFSTable(zip, "stops.txt", STOP_SPEC, (stop) => {
+    if (wanted.has(stop.stop_id)) names.set(stop.stop_id, stop.stop_name);
+  });
+
+  onProgress({ phase: 'organizing', message: { key: 'progress.sortingStations' }, processed: orderedCodes.length, total: orderedCodes.length, unit: 'rows' });
+
+  return {
+    id: `route-${routeId}`,
+    name: route ? routeDisplayName(route) : routeId,
+    routeIds: [routeId],
+    stations: orderedCodes.map((codigo, i) => ({ orden: i + 1, estacion: names.get(codigo) ?? codigo, codigo })),
+  };
+};
@@ -0,0 +1,92 @@
+import { LineDefinition, StationDef } from '../constants';
+import { downloadBlob, fileSlug } from './files';
+import { LocalizedError } from './i18n';
+import { renumberStations } from './lineCatalog';
+
+const STORAGE_KEY = 'horarios.lineProfiles';
+
+// --- VALIDATION ---
+
+// Validates a JSON line profile (from a file or localStorage) and normalises
+// station numbering. Throws with a user-facing message when it is not usable.
+export const parseLineProfile = (value: unknown): LineDefinition => {
+  const profile = value as Partial<LineDefinition> | null;
+  if (!profile || typeof profile !== 'object') {
+    throw new LocalizedError('error.profileNotObject');
+  }
+  if (typeof profile.name !== 'string' || !profile.name.trim()) {
+    throw new LocalizedError('error.profileNoName');
+  }
+  if (!Array.isArray(profile.stations) || profile.stations.length < 2) {
+    throw new LocalizedError('error.profileTooFewStations');
+  }
+
+  const codes = new Set<string>(); // Columns, edits and connections are keyed by code
+  const stations: StationDef[] = profile.stations.map((station, i) => {
+    if (!station || typeof station.codigo !== 'string' || !station.codigo.trim()) {
+      throw new LocalizedError('error.profileStationNoCode', { index: i + 1 });
+    }
+    const codigo = station.codigo.trim();
+    if (codes.has(codigo)) {
+      throw new LocalizedError('error.profileDuplicateCode', { index: i + 1, code: codigo });
+    }
+    codes.add(codigo);
+    const estacionEu = typeof station.estacionEu === 'string' && station.estacionEu.trim() ? station.estacionEu.trim() : undefined;
+    return { orden: i + 1, codigo, estacion: String(station.estacion ?? station.codigo), ...(estacionEu ? { estacionEu } : {}) };
+  });
+
+  const routeIds = Array.isArray(profile.routeIds) ? profile.routeIds.map(String) : [];
+  const id = typeof profile.id === 'string' && profile.id ? profile.id : `custom-${Date.now()}`;
+
+  return { id, name: profile.name.trim(), routeIds, stations: renumberStations(stations) };
+};
+
+// --- STORAGE ---
+
+export const loadSavedProfiles = (): LineDefinition[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown[] = JSON.parse(raw);
+    return parsed.flatMap(p => {
+      try {
+        return [parseLineProfile(p)];
+      } catch {
+        return []; // Skip profiles saved by an incompatible version
+      }
+    });
+  } catch (error) {
+    console.error(error);
+    return [];
+  }
+};
+
+export const saveProfile = (profile: LineDefinition): LineDefinition[] => {
+  const profiles = loadSavedProfiles().filter(p => p.id !== profile.id);
+  profiles.push(profile);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+export const deleteProfile = (id: string): LineDefinition[] => {
+  const profiles = loadSavedProfiles().filter(p => p.id !== id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+};
+
+// --- FILES ---
+
+export const downloadProfile = (profile: LineDefinition) => {
+  const blob = new Blob([JSON.stringify(profile, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `linea_${fileSlug(profile.name)}.json`);
+};
+
+export const readProfileFile = async (file: File): Promise<LineDefinition> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new LocalizedError('error.profileInvalidJson', { file: file.name });
+  }
+  return parseLineProfile(json);
+};
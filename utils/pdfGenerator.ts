@@ -0,0 +1,602 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { LineDefinition, StationDef } from '../constants';
+import { ParsedTrip, PdfOptions, PdfTemplate, RealtimeAlert, StationAccess, StationCoords, TripEnd } from '../types';
+import { LineConnections, NO_CONNECTIONS, connectionText, tripConnections } from './connections';
+import { GeneratedFile, downloadFile } from './files';
+import { alertText } from './gtfsRealtime';
+import { formatGTFSTime } from './gtfsTime';
+import { displayDate } from './gtfsValidator';
+import { BandFrequency, Headway, StationFrequency, TIME_BANDS, TIME_BAND_KEYS, firstServiceDate, formatHeadway, frequencyReport } from './headways';
+import { Locale, MessageKey, MessageParams, Translator, localizedText } from './i18n';
+import { directionNames, stationName } from './lineCatalog';
+import { DEFAULT_TEMPLATE, drawTemplateBlocks, embedTemplateFont, footerSpace, templateFileName } from './pdfTemplate';
+import { patternText } from './servicePattern';
+import { expressTrips, stopKind, tripEndName } from './stoppingPattern';
+import { BACKWARD_COLOR, FORWARD_COLOR, buildStringline, drawStringline } from './stringline';
+
+// --- UTILS: PDF GENERATOR ---
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  layout: 'trainRows',
+  orientation: 'landscape',
+  columnsPerPage: 16,
+  nextDayMarker: false,
+  arrivalAtTerminus: false,
+  dwellThreshold: 0,
+  language: 'es',
+  stringline: 'none',
+  frequencyAppendix: false,
+};
+
+export const TABLE_STYLES = {
+  fontSize: 6,
+  cellPadding: 0.5,
+  halign: 'center',
+  valign: 'middle',
+  lineWidth: 0.1,
+  lineColor: [200, 200, 200]
+};
+
+export const HEAD_STYLES = {
+  fillColor: [227, 6, 19], // Renfe Red
+  textColor: [255, 255, 255],
+  fontSize: 5.5,
+  fontStyle: 'bold',
+  halign: 'center',
+  valign: 'middle',
+  cellPadding: 1
+};
+
+// Background of the trains that skip stations other trains call at
+export const EXPRESS_FILL = [255, 236, 179];
+
+// GTFS-Realtime overlay: cancelled trains greyed out, added ones in green,
+// active alerts in an orange box under the title
+export const CANCELED_FILL = [224, 224, 224];
+export const CANCELED_TEXT = [117, 117, 117];
+export const ADDED_FILL = [200, 230, 201];
+const ALERT_FILL = [255, 243, 224];
+const ALERT_BORDER = [239, 108, 0];
+
+// Finished jsPDF document as file bytes
+export const pdfFile = (doc: jsPDF, filename: string): GeneratedFile => ({
+  filename,
+  mimeType: 'application/pdf',
+  bytes: new Uint8Array(doc.output('arraybuffer')),
+});
+
+// Full line timetable, both directions, in the look of `template`
+export const renderTimetablePDF = (
+  toBrinkola: ParsedTrip[],
+  toIrun: ParsedTrip[],
+  dateStr: string,
+  line: LineDefinition,
+  options: PdfOptions,
+  stationAccess: StationAccess = {},
+  stationCoords: StationCoords = {},
+  alerts: RealtimeAlert[] = [],
+  connections: LineConnections = NO_CONNECTIONS,
+  template: PdfTemplate = DEFAULT_TEMPLATE
+): GeneratedFile => {
+  const doc = new jsPDF({
+    orientation: options.orientation,
+    unit: 'mm',
+    format: template.paper
+  });
+
+  // Safe access for autoTable in ESM/Browser environment
+  const autoTableFunc = (autoTable as any).default || autoTable;
+
+  const font = embedTemplateFont(doc, template);
+  const tableStyles = { ...TABLE_STYLES, font, fontSize: template.fontSize };
+  const headStyles = {
+    ...HEAD_STYLES,
+    font,
+    fillColor: template.theme.headFill,
+    textColor: template.theme.headText,
+    fontSize: template.fontSize - 0.5,
+  };
+  const { margin } = template;
+  const footer = footerSpace(template);
+  const titleEnds = new Map<number, number>(); // page -> x where its title ends, for the template header
+
+  const isRange = dateStr.includes(' - ');
+  const fmt = (seconds: number) => formatGTFSTime(seconds, options.nextDayMarker);
+
+  // Texts in the PDF's language, or in Basque and Spanish for bilingual documents
+  const text = (render: (t: Translator, locale: Locale) => string) => localizedText(options.language, render);
+  const tr = (key: MessageKey, params?: MessageParams) => text(t => t(key, params));
+  const abbr = (key: MessageKey) => localizedText(options.language, t => t(key), '/');
+  const stationLabel = (station: StationDef) => {
+    const name = text((_, locale) => stationName(station, locale));
+    return stationAccess[station.codigo] ? `${name} (${abbr('pdf.wheelchairMark')})` : name;
+  };
+  const endLabel = (end: TripEnd) => text((_, locale) => tripEndName(end, line, locale));
+
+  let isPristine = true;
+  const startPage = () => {
+    if (!isPristine) doc.addPage();
+    isPristine = false;
+  };
+
+  const printHeader = (title: string) => {
+    doc.setFontSize(14);
+    doc.setTextColor(...template.theme.titleText);
+    doc.text(title, margin, 15);
+    titleEnds.set(doc.getCurrentPageInfo().pageNumber, margin + doc.getTextWidth(title));
+    doc.setTextColor(0, 0, 0);
+    doc.setFontSize(10);
+    doc.text(tr(isRange ? 'pdf.period' : 'pdf.singleDate', { date: dateStr }), margin, 20);
+  };
+
+  // Multi-day timetables label each train with its pattern; irregular ones point to a footnote
+  const patternLabels = () => {
+    const noteMarks = new Map<string, { mark: string; note: string }>(); // Spanish note -> "(a)", "(b)", ...
+    const labelFor = (trip: ParsedTrip) => {
+      const pattern = trip.pattern;
+      if (!pattern) return '';
+      const label = text(t => patternText(pattern, t).label);
+      if (!pattern.note) return label;
+      if (!noteMarks.has(pattern.note)) {
+        const mark = `(${String.fromCharCode(97 + noteMarks.size)})`;
+        noteMarks.set(pattern.note, { mark, note: text(t => patternText(pattern, t).note ?? '') });
+      }
+      return `${label} ${noteMarks.get(pattern.note)?.mark}`;
+    };
+    const legend = () => [tr('legend.days'), ...[...noteMarks.values()].map(({ mark, note }) => `${mark} ${note}`)];
+    return { labelFor, legend };
+  };
+
+  // Active service alerts in a box under the title; returns where the table starts
+  const printAlerts = () => {
+    if (alerts.length === 0) return 25;
+    const y = 23;
+    const pageWidth = doc.internal.pageSize.getWidth();
+    doc.setFontSize(7);
+    const lines: string[] = [tr('pdf.alertsTitle'), ...alerts.flatMap(alert => {
+      const header = text((_, locale) => alertText(alert.header, locale));
+      const description = text((_, locale) => alertText(alert.description, locale));
+      return doc.splitTextToSize(`- ${[header, description].filter(Boolean).join(': ')}`, pageWidth - 2 * margin - 4);
+    })];
+    const height = lines.length * 3 + 2;
+    doc.setFillColor(ALERT_FILL[0], ALERT_FILL[1], ALERT_FILL[2]);
+    doc.setDrawColor(ALERT_BORDER[0], ALERT_BORDER[1], ALERT_BORDER[2]);
+    doc.rect(margin, y, pageWidth - 2 * margin, height, 'FD');
+    doc.setDrawColor(0, 0, 0);
+    doc.text(lines, margin + 2, y + 3);
+    return y + height + 2;
+  };
+
+  // Realtime status of a train: its row or column fill and the legend line
+  const realtimeStyle = (trip: ParsedTrip | undefined, legend: Set<string>) => {
+    const status = trip?.realtime?.status;
+    if (status === 'canceled') {
+      legend.add(tr('legend.canceled'));
+      return { fillColor: CANCELED_FILL, textColor: CANCELED_TEXT };
+    }
+    if (status === 'added') {
+      legend.add(tr('legend.added'));
+      return { fillColor: ADDED_FILL };
+    }
+    return undefined;
+  };
+
+  // Notes written in the preview, as "[1]", "[2]"... marks where a full column does not fit
+  const tripNotes = () => {
+    const marks = new Map<string, string>(); // note -> "[1]", "[2]", ...
+    const markFor = (trip: ParsedTrip) => {
+      if (!trip.note) return '';
+      if (!marks.has(trip.note)) marks.set(trip.note, `[${marks.size + 1}]`);
+      return marks.get(trip.note) ?? '';
+    };
+    const legend = () => [...marks].map(([note, mark]) => `${mark} ${note}`);
+    return { markFor, legend };
+  };
+
+  const isTerminus = (trip: ParsedTrip, station: StationDef) =>
+    options.arrivalAtTerminus && station.orden === trip.lastStopOrder;
+
+  const hasLongDwell = (trip: ParsedTrip, station: StationDef) => {
+    const departure = trip.times[station.codigo];
+    const arrival = trip.arrivals[station.codigo];
+    return options.dwellThreshold > 0 && departure !== undefined && arrival !== undefined
+      && departure - arrival >= options.dwellThreshold * 60;
+  };
+
+  // Wheelchair and bicycle marks of a train, empty when the feed says nothing
+  const servicesCell = (trip: ParsedTrip, legend: Set<string>) => {
+    const marks: string[] = [];
+    if (trip.wheelchairAccessible) {
+      legend.add(text(t => t('legend.wheelchair', { mark: t('pdf.wheelchairMark') })));
+      marks.push(abbr('pdf.wheelchairMark'));
+    }
+    if (trip.bikesAllowed) {
+      legend.add(text(t => t('legend.bikes', { mark: t('pdf.bikeMark') })));
+      marks.push(abbr('pdf.bikeMark'));
+    }
+    return marks.join(' ');
+  };
+
+  // Legend line for the station names marked as accessible
+  const stationLegend = (stations: StationDef[]) => stations.some(s => stationAccess[s.codigo])
+    ? [text(t => t('legend.accessibleStation', { mark: t('pdf.wheelchairMark') }))]
+    : [];
+
+  // "X" where a realtime update cancels the stop, "|" where the train passes
+  // without stopping, blank where it does not run
+  const missingCell = (trip: ParsedTrip, station: StationDef, legend: Set<string>) => {
+    if (trip.realtime?.skipped.includes(station.codigo)) {
+      legend.add(tr('legend.skippedStop'));
+      return 'X';
+    }
+    if (stopKind(trip, station) === 'none') return '';
+    legend.add(tr('legend.passThrough'));
+    return '|';
+  };
+
+  // " (+5')" after a time a realtime update delays by whole minutes
+  const delaySuffix = (trip: ParsedTrip, station: StationDef, legend: Set<string>) => {
+    const minutes = Math.round((trip.realtime?.delays[station.codigo] ?? 0) / 60);
+    if (minutes === 0) return '';
+    legend.add(tr('legend.delay'));
+    return ` (${minutes > 0 ? '+' : ''}${minutes}')`;
+  };
+
+  // Text for one train at one station: the departure by default, the arrival at
+  // the train's last station, or both when it waits longer than the dwell threshold
+  const stopCell = (trip: ParsedTrip, station: StationDef, legend: Set<string>) => {
+    const departure = trip.times[station.codigo];
+    if (departure === undefined) return missingCell(trip, station, legend);
+    const arrival = trip.arrivals[station.codigo] ?? departure;
+    const delay = delaySuffix(trip, station, legend);
+
+    if (isTerminus(trip, station)) {
+      legend.add(tr('legend.terminus'));
+      return fmt(arrival) + delay;
+    }
+    if (hasLongDwell(trip, station)) {
+      legend.add(tr('legend.dwell'));
+      return `${abbr('pdf.arrivalAbbr')} ${fmt(arrival)}\n${abbr('pdf.departureAbbr')} ${fmt(departure)}${delay}`;
+    }
+    return fmt(departure) + delay;
+  };
+
+  // Connections with other operators, one per line, named after their station
+  // when the line has more than one interchange
+  const connectionsCell = (trip: ParsedTrip, stations: StationDef[], legend: Set<string>) => {
+    const manyStations = new Set(connections.interchanges.map(i => i.stationCode)).size > 1;
+    const found = tripConnections(trip, stations, connections.interchanges, connections.calls);
+    if (found.length > 0) legend.add(tr('legend.connections'));
+    return found.map(connection => {
+      const description = text(t => connectionText(connection, t, options.nextDayMarker));
+      const station = stations.find(s => s.codigo === connection.interchange.stationCode);
+      return manyStations && station ? `${text((_, locale) => stationName(station, locale))}: ${description}` : description;
+    }).join('\n');
+  };
+
+  const hasConnections = (trips: ParsedTrip[], stations: StationDef[]) =>
+    trips.some(trip => tripConnections(trip, stations, connections.interchanges, connections.calls).length > 0);
+
+  // Footnotes below the last table, continuing on a new page if they do not fit
+  const printLegend = (lines: string[]) => {
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    let y = (doc as any).lastAutoTable.finalY + 5;
+
+    doc.setFontSize(7);
+    lines.forEach(line => {
+      const wrapped: string[] = doc.splitTextToSize(line, pageWidth - 2 * margin);
+      if (y + wrapped.length * 3 > pageHeight - 5 - footer) {
+        doc.addPage();
+        y = 25; // Below the template header, like the table pages
+      }
+      doc.text(wrapped, margin, y);
+      y += wrapped.length * 3;
+    });
+  };
+
+  // Layout "trainRows": one row per train, one column per station
+  const generateTable = (title: string, trips: ParsedTrip[], stations: StationDef[]) => {
+    const hasPatterns = trips.some(t => t.pattern);
+    const hasNotes = trips.some(t => t.note);
+    const patterns = patternLabels();
+    const timeLegend = new Set<string>();
+    const express = expressTrips(trips, stations);
+    const hasServices = trips.some(t => t.wheelchairAccessible || t.bikesAllowed);
+    const withConnections = hasConnections(trips, stations);
+
+    const headRow = [
+      ...(hasPatterns ? [tr('column.days')] : []),
+      tr('column.origin'),
+      ...stations.map(stationLabel),
+      tr('column.destination'),
+      ...(hasServices ? [tr('column.services')] : []),
+      ...(withConnections ? [tr('column.connections')] : []),
+      ...(hasNotes ? [tr('column.notes')] : []),
+    ];
+
+    const bodyRows = trips.map(trip => {
+      const row: string[] = [];
+      if (hasPatterns) {
+        row.push(patterns.labelFor(trip));
+      }
+      row.push(endLabel(trip.origin));
+      stations.forEach(st => {
+        row.push(stopCell(trip, st, timeLegend));
+      });
+      row.push(endLabel(trip.destination));
+      if (hasServices) {
+        row.push(servicesCell(trip, timeLegend));
+      }
+      if (withConnections) {
+        row.push(connectionsCell(trip, stations, timeLegend));
+      }
+      if (hasNotes) {
+        row.push(trip.note ?? '');
+      }
+      return row;
+    });
+
+    const originColumn = hasPatterns ? 1 : 0;
+    const destinationColumn = originColumn + stations.length + 1;
+    const columnStyles: Record<number, object> = {
+      [originColumn]: { fontStyle: 'italic' },
+      [destinationColumn]: { fontStyle: 'italic' },
+    };
+    if (hasPatterns) columnStyles[0] = { fontStyle: 'bold', halign: 'left' };
+    if (hasNotes) columnStyles[headRow.length - 1] = { halign: 'left', cellWidth: 30 };
+    if (withConnections) columnStyles[headRow.length - (hasNotes ? 2 : 1)] = { halign: 'left', cellWidth: 35 };
+
+    startPage();
+    printHeader(title);
+
+    autoTableFunc(doc, {
+      startY: printAlerts(),
+      head: [headRow],
+      body: bodyRows,
+      theme: 'grid',
+      styles: tableStyles,
+      headStyles,
+      columnStyles,
+      margin: { top: 25, left: margin, right: margin, bottom: 12 + footer },
+      didParseCell: (cell: any) => {
+        if (cell.section !== 'body') return;
+        const trip = trips[cell.row.index];
+        if (express.has(trip?.id)) cell.cell.styles.fillColor = EXPRESS_FILL;
+        Object.assign(cell.cell.styles, realtimeStyle(trip, timeLegend));
+      },
+    });
+
+    if (express.size > 0) timeLegend.add(tr('legend.express'));
+    const legend = [...(hasPatterns ? patterns.legend() : []), ...timeLegend, ...stationLegend(stations)];
+    if (legend.length > 0) {
+      printLegend(legend);
+    }
+  };
+
+  // Layout "trainColumns": stations down the left, one column per train, split
+  // into pages of `columnsPerPage` trains that repeat the station names
+  const generateTransposedTable = (title: string, trips: ParsedTrip[], stations: StationDef[], continuedTitle: string) => {
+    const hasPatterns = trips.some(t => t.pattern);
+    const hasNotes = trips.some(t => t.note);
+    const patterns = patternLabels();
+    const notes = tripNotes();
+    const timeLegend = new Set<string>();
+    const express = expressTrips(trips, stations);
+    const hasServices = trips.some(t => t.wheelchairAccessible || t.bikesAllowed);
+    const withConnections = hasConnections(trips, stations);
+
+    const perPage = Math.max(1, Math.floor(options.columnsPerPage));
+    const chunks: ParsedTrip[][] = [];
+    for (let i = 0; i < trips.length; i += perPage) {
+      chunks.push(trips.slice(i, i + perPage));
+    }
+    if (chunks.length === 0) chunks.push([]);
+
+    chunks.forEach((chunk, chunkIndex) => {
+      const firstNumber = chunkIndex * perPage + 1;
+      const headRow = [
+        tr('column.station'),
+        ...chunk.map((trip, i) => (hasPatterns ? patterns.labelFor(trip) : String(firstNumber + i))),
+      ];
+
+      const bodyRows: string[][] = [[tr('column.origin'), ...chunk.map(trip => endLabel(trip.origin))]];
+      stations.forEach(st => {
+        // Stations where a train waits long get separate arrival and departure rows
+        if (chunk.some(trip => hasLongDwell(trip, st))) {
+          timeLegend.add(tr('legend.dwell'));
+          bodyRows.push([`${stationLabel(st)} (${abbr('pdf.arrivalAbbr')})`, ...chunk.map(trip => {
+            const arrival = trip.arrivals[st.codigo];
+            return arrival === undefined ? missingCell(trip, st, timeLegend) : fmt(arrival);
+          })]);
+          bodyRows.push([`${stationLabel(st)} (${abbr('pdf.departureAbbr')})`, ...chunk.map(trip => {
+            const departure = trip.times[st.codigo];
+            if (departure === undefined) return missingCell(trip, st, timeLegend);
+            return isTerminus(trip, st) ? '' : fmt(departure);
+          })]);
+          return;
+        }
+        bodyRows.push([stationLabel(st), ...chunk.map(trip => stopCell(trip, st, timeLegend))]);
+      });
+      bodyRows.push([tr('column.destination'), ...chunk.map(trip => endLabel(trip.destination))]);
+      if (hasServices) {
+        bodyRows.push([tr('column.services'), ...chunk.map(trip => servicesCell(trip, timeLegend))]);
+      }
+      if (withConnections) {
+        bodyRows.push([tr('column.connections'), ...chunk.map(trip => connectionsCell(trip, stations, timeLegend))]);
+      }
+      if (hasNotes) {
+        bodyRows.push([tr('column.notes'), ...chunk.map(notes.markFor)]);
+      }
+
+      startPage();
+      printHeader(chunkIndex > 0 ? continuedTitle : title);
+
+      autoTableFunc(doc, {
+        startY: chunkIndex > 0 ? 25 : printAlerts(),
+        head: [headRow],
+        body: bodyRows,
+        theme: 'grid',
+        styles: tableStyles,
+        headStyles,
+        columnStyles: { 0: { fontStyle: 'bold', halign: 'left', cellWidth: 32 } },
+        margin: { top: 25, left: margin, right: margin, bottom: 12 + footer },
+        didParseCell: (cell: any) => {
+          if (cell.section !== 'body') return;
+          const trip = chunk[cell.column.index - 1];
+          if (express.has(trip?.id)) cell.cell.styles.fillColor = EXPRESS_FILL;
+          Object.assign(cell.cell.styles, realtimeStyle(trip, timeLegend));
+        },
+      });
+
+      if (chunkIndex < chunks.length - 1) {
+        const pageWidth = doc.internal.pageSize.getWidth();
+        doc.setFontSize(8);
+        doc.text(tr('pdf.continuesNextPage'), pageWidth - margin, (doc as any).lastAutoTable.finalY + 4, { align: 'right' });
+      }
+    });
+
+    if (express.size > 0) timeLegend.add(tr('legend.express'));
+    const legend = [...(hasPatterns ? patterns.legend() : []), ...notes.legend(), ...timeLegend, ...stationLegend(stations)];
+    if (legend.length > 0) {
+      printLegend(legend);
+    }
+  };
+
+  // Appendix: departures per hour and headways at each station, by time band.
+  // A period is analysed on its first day with service, named under the title.
+  const generateFrequencyAppendix = () => {
+    const date = firstServiceDate([...toBrinkola, ...toIrun]);
+    if (!date) return;
+    const report = frequencyReport(toBrinkola, toIrun, line, date);
+
+    const perHour = (value: number) => text((t, locale) => t('headway.perHour', {
+      count: value.toLocaleString(locale, { maximumFractionDigits: 1 }),
+    }));
+    const bandCell = (band: BandFrequency) => band.trains === 0 ? '-' : [
+      perHour(band.trainsPerHour),
+      band.averageHeadway === undefined ? '' : `${formatHeadway(band.minHeadway)} / ${formatHeadway(band.averageHeadway)} / ${formatHeadway(band.maxHeadway)}`,
+    ].filter(Boolean).join('\n');
+    const gapText = (gap?: Headway) => gap ? `${fmt(gap.from)}-${fmt(gap.to)} (${formatHeadway(gap.to - gap.from)})` : '-';
+    const row = (frequency: StationFrequency) => [
+      stationLabel(frequency.station),
+      frequency.first === undefined ? '-' : fmt(frequency.first),
+      frequency.last === undefined ? '-' : fmt(frequency.last),
+      String(frequency.departures.length),
+      ...frequency.bands.map(bandCell),
+      gapText(frequency.gaps[0]),
+    ];
+
+    report.directions.forEach(direction => {
+      startPage();
+      printHeader(text((t, locale) => t('pdf.frequencyTitle', { direction: directionNames(line, locale)[direction.direction] })));
+      if (isRange) {
+        doc.setFontSize(10);
+        doc.text(tr('pdf.frequencyDate', { date: displayDate(date) }), margin, 25);
+      }
+
+      autoTableFunc(doc, {
+        startY: isRange ? 29 : 25,
+        head: [[
+          tr('column.station'),
+          tr('column.firstTrain'),
+          tr('column.lastTrain'),
+          tr('column.trains'),
+          ...TIME_BANDS.map(band => tr(TIME_BAND_KEYS[band.id])),
+          tr('column.longestGap'),
+        ]],
+        body: direction.stations.map(row),
+        theme: 'grid',
+        styles: tableStyles,
+        headStyles,
+        columnStyles: { 0: { fontStyle: 'bold', halign: 'left' } },
+        margin: { top: 25, left: margin, right: margin, bottom: 12 + footer },
+      });
+      printLegend([tr('legend.frequency'), ...stationLegend(line.stations)]);
+    });
+  };
+
+  // Time-distance diagram of both directions on a landscape page of its own
+  const generateStringline = (spacing: 'order' | 'distance') => {
+    const diagram = buildStringline(toBrinkola, toIrun, line, stationCoords, spacing);
+    doc.addPage(template.paper, 'landscape'); // Always follows the tables, whatever their orientation
+    printHeader(tr('pdf.stringlineTitle', { line: line.name }));
+
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+    drawStringline(doc, diagram, { x: margin, y: 32, width: pageWidth - 2 * margin, height: pageHeight - 60 }, stationLabel, options.nextDayMarker);
+
+    // Legend: a sample stroke per direction, then the notes
+    let y = pageHeight - 20;
+    doc.setFontSize(7);
+    (['forward', 'backward'] as const).forEach((direction, i) => {
+      const [r, g, b] = direction === 'forward' ? FORWARD_COLOR : BACKWARD_COLOR;
+      const x = margin + i * 90;
+      doc.setDrawColor(r, g, b);
+      doc.setLineWidth(0.5);
+      doc.line(x, y - 1, x + 8, y - 1);
+      doc.text(text((_, locale) => directionNames(line, locale)[direction]), x + 10, y);
+    });
+    doc.setDrawColor(0, 0, 0);
+    doc.setLineWidth(0.2);
+    const notes = [
+      diagram.spacing === 'distance'
+        ? tr('legend.stringlineDistance', { km: diagram.length.toFixed(1) })
+        : tr('legend.stringlineOrder'),
+      ...(diagram.trains.some(train => train.express) ? [tr('legend.stringlineExpress')] : []),
+    ];
+    notes.forEach(note => {
+      y += 3;
+      doc.text(note, margin, y);
+    });
+  };
+
+  // Centred above the template footer; pages can differ in size and orientation
+  const addPageNumbers = () => {
+    const total = doc.getNumberOfPages();
+    doc.setFontSize(8);
+    for (let page = 1; page <= total; page++) {
+      doc.setPage(page);
+      const pageWidth = doc.internal.pageSize.getWidth();
+      const pageHeight = doc.internal.pageSize.getHeight();
+      doc.text(tr('pdf.pageNumber', { page, total }), pageWidth / 2, pageHeight - 5 - footer, { align: 'center' });
+    }
+  };
+
+  const renderDirection = (direction: 'forward' | 'backward', trips: ParsedTrip[], stations: StationDef[]) => {
+    const title = (t: Translator, locale: Locale) => template.title
+      ? template.title.replace(/\{direction\}/g, directionNames(line, locale)[direction])
+      : t('pdf.title', { direction: directionNames(line, locale)[direction] });
+    if (options.layout === 'trainColumns') {
+      generateTransposedTable(text(title), trips, stations, text((t, locale) => t('pdf.continued', { title: title(t, locale) })));
+    } else {
+      generateTable(text(title), trips, stations);
+    }
+  };
+
+  // 1. Forward (Irun -> Brinkola on the default line)
+  const stationsToBrinkola = [...line.stations];
+  renderDirection('forward', toBrinkola, stationsToBrinkola);
+
+  // 2. Backward (Brinkola -> Irun)
+  const stationsToIrun = [...line.stations].reverse();
+  renderDirection('backward', toIrun, stationsToIrun);
+
+  // 3. Optional appendices: frequencies and time-distance diagram
+  if (options.frequencyAppendix) {
+    generateFrequencyAppendix();
+  }
+  if (options.stringline !== 'none') {
+    generateStringline(options.stringline);
+  }
+
+  if (options.layout === 'trainColumns') {
+    addPageNumbers();
+  }
+  drawTemplateBlocks(doc, template, titleEnds);
+
+  return pdfFile(doc, templateFileName(template, line, dateStr));
+};
+
+export const generatePDF = (...args: Parameters<typeof renderTimetablePDF>) => downloadFile(renderTimetablePDF(...args));
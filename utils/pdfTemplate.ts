@@ -0,0 +1,280 @@
+import { jsPDF } from 'jspdf';
+import { LineDefinition } from '../constants';
+import { PaperSize, PdfBlock, PdfFont, PdfLogo, PdfTemplate, PdfTheme, RGBColor } from '../types';
+import { dateSlug, downloadBlob, fileSlug } from './files';
+import { LocalizedError } from './i18n';
+import { encodeQR } from './qrCode';
+
+const STORAGE_KEY = 'horarios.template';
+
+export const PAPER_SIZES: PaperSize[] = ['a4', 'a3', 'letter'];
+
+export type PdfThemeName = 'renfe' | 'blue' | 'green' | 'grey';
+
+// Colour presets of the template editor
+export const PDF_THEMES: Record<PdfThemeName, PdfTheme> = {
+  renfe: { headFill: [227, 6, 19], headText: [255, 255, 255], titleText: [0, 0, 0] },
+  blue: { headFill: [21, 101, 192], headText: [255, 255, 255], titleText: [13, 71, 161] },
+  green: { headFill: [46, 125, 50], headText: [255, 255, 255], titleText: [27, 94, 32] },
+  grey: { headFill: [66, 66, 66], headText: [255, 255, 255], titleText: [33, 33, 33] },
+};
+
+// The look the timetable always had: Renfe red headers, 6 pt text, 5 mm margins
+export const DEFAULT_TEMPLATE: PdfTemplate = {
+  name: 'Renfe Cercanías',
+  paper: 'a4',
+  theme: PDF_THEMES.renfe,
+  fontSize: 6,
+  margin: 5,
+  title: '',
+  header: { text: '' },
+  footer: { text: '' },
+  qrUrl: '',
+  fileName: 'Cercanias_{line}_{date}',
+};
+
+// --- VALIDATION ---
+
+const isColor = (value: unknown): value is RGBColor =>
+  Array.isArray(value) && value.length === 3 && value.every(c => Number.isInteger(c) && c >= 0 && c <= 255);
+
+const IMAGE_DATA_URL = /^data:image\/(png|jpe?g);base64,/;
+
+const parseLogo = (value: unknown): PdfLogo | undefined => {
+  const logo = (value && typeof value === 'object' ? value : {}) as Partial<PdfLogo>;
+  if (typeof logo.dataUrl !== 'string' || !IMAGE_DATA_URL.test(logo.dataUrl)) return undefined;
+  if (typeof logo.aspect !== 'number' || !(logo.aspect > 0)) return undefined;
+  return { dataUrl: logo.dataUrl, aspect: logo.aspect };
+};
+
+const parseBlock = (value: unknown): PdfBlock => {
+  const block = (value && typeof value === 'object' ? value : {}) as Partial<PdfBlock>;
+  const logo = parseLogo(block.logo);
+  return { text: typeof block.text === 'string' ? block.text : '', ...(logo ? { logo } : {}) };
+};
+
+const parseFont = (value: unknown): PdfFont | undefined => {
+  const font = (value && typeof value === 'object' ? value : {}) as Partial<PdfFont>;
+  return typeof font.fileName === 'string' && typeof font.data === 'string' && font.data
+    ? { fileName: font.fileName, data: font.data }
+    : undefined;
+};
+
+const numberIn = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && value >= min && value <= max ? value : fallback;
+
+// Validates a template read from a JSON file or localStorage. Fields that are
+// missing or unusable take the default; throws when it is not a template at all.
+export const parseTemplate = (value: unknown): PdfTemplate => {
+  const stored = value as Partial<Record<keyof PdfTemplate, unknown>> | null;
+  if (!stored || typeof stored !== 'object' || Array.isArray(stored)) {
+    throw new LocalizedError('error.templateNotObject');
+  }
+  if (typeof stored.name !== 'string' || !stored.name.trim()) {
+    throw new LocalizedError('error.templateNoName');
+  }
+
+  const theme = (stored.theme && typeof stored.theme === 'object' ? stored.theme : {}) as Partial<Record<keyof PdfTheme, unknown>>;
+  const font = parseFont(stored.font);
+  const text = (field: unknown, fallback: string) => typeof field === 'string' ? field : fallback;
+  return {
+    name: stored.name.trim(),
+    paper: PAPER_SIZES.includes(stored.paper as PaperSize) ? stored.paper as PaperSize : DEFAULT_TEMPLATE.paper,
+    theme: {
+      headFill: isColor(theme.headFill) ? theme.headFill : DEFAULT_TEMPLATE.theme.headFill,
+      headText: isColor(theme.headText) ? theme.headText : DEFAULT_TEMPLATE.theme.headText,
+      titleText: isColor(theme.titleText) ? theme.titleText : DEFAULT_TEMPLATE.theme.titleText,
+    },
+    ...(font ? { font } : {}),
+    fontSize: numberIn(stored.fontSize, 4, 14, DEFAULT_TEMPLATE.fontSize),
+    margin: numberIn(stored.margin, 0, 30, DEFAULT_TEMPLATE.margin),
+    title: text(stored.title, DEFAULT_TEMPLATE.title),
+    header: parseBlock(stored.header),
+    footer: parseBlock(stored.footer),
+    qrUrl: text(stored.qrUrl, DEFAULT_TEMPLATE.qrUrl).trim(),
+    fileName: text(stored.fileName, DEFAULT_TEMPLATE.fileName),
+  };
+};
+
+// --- DOCUMENT ---
+
+// "{line}" and "{date}" filled in, as a safe file name
+export const templateFileName = (template: PdfTemplate, line: LineDefinition, dateStr: string) => {
+  const name = fileSlug(template.fileName.replace(/\{line\}/g, fileSlug(line.name)).replace(/\{date\}/g, dateSlug(dateStr)));
+  return `${name || fileSlug(line.name)}.pdf`;
+};
+
+const TEMPLATE_FONT = 'TemplateFont';
+
+// Embeds the template's font in the document. Returns the font family to
+// give jsPDF and jspdf-autotable: the embedded one, or the built-in Helvetica.
+export const embedTemplateFont = (doc: jsPDF, template: PdfTemplate): string => {
+  if (!template.font) return 'helvetica';
+  try {
+    doc.addFileToVFS(template.font.fileName, template.font.data);
+    // The same file serves as bold: table headers would fall back to Helvetica otherwise
+    doc.addFont(template.font.fileName, TEMPLATE_FONT, 'normal');
+    doc.addFont(template.font.fileName, TEMPLATE_FONT, 'bold');
+    doc.setFont(TEMPLATE_FONT, 'normal');
+  } catch (error) {
+    console.error(error);
+    throw new LocalizedError('error.templateFont', { file: template.font.fileName });
+  }
+  return TEMPLATE_FONT;
+};
+
+const HEADER_LOGO_HEIGHT = 10;
+const FOOTER_LOGO_HEIGHT = 6;
+const QR_SIZE = 18;
+
+// Room the footer needs above the bottom edge, so that legends stop short of it
+export const footerSpace = (template: PdfTemplate) => template.footer.text || template.footer.logo ? 6 : 0;
+
+const imageFormat = (logo: PdfLogo) => (logo.dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG');
+
+// Dark modules as filled squares, each row's runs merged, inside a white quiet zone
+const drawQR = (doc: jsPDF, modules: boolean[][], x: number, y: number, size: number) => {
+  const quiet = 4;
+  const cell = size / (modules.length + quiet * 2);
+  doc.setFillColor(255, 255, 255);
+  doc.rect(x, y, size, size, 'F');
+  doc.setFillColor(0, 0, 0);
+  modules.forEach((row, j) => {
+    let start = -1;
+    row.concat(false).forEach((dark, i) => {
+      if (dark && start < 0) start = i;
+      if (!dark && start >= 0) {
+        doc.rect(x + (quiet + start) * cell, y + (quiet + j) * cell, (i - start) * cell, cell, 'F');
+        start = -1;
+      }
+    });
+  });
+};
+
+// `text` cut to `width` at the current font size, with "..." when shortened;
+// empty when not even that fits
+const fitText = (doc: jsPDF, text: string, width: number) => {
+  if (doc.getTextWidth(text) <= width) return text;
+  for (let end = text.length - 1; end > 0; end--) {
+    const cut = `${text.slice(0, end).trimEnd()}...`;
+    if (doc.getTextWidth(cut) <= width) return cut;
+  }
+  return '';
+};
+
+// Header and footer blocks on every page, and the QR code on the first one,
+// drawn once the content is laid out. The header keeps right of the page title,
+// whose end `titleEnds` gives per page: a logo that does not fit is left out
+// and the text is shortened.
+export const drawTemplateBlocks = (doc: jsPDF, template: PdfTemplate, titleEnds = new Map<number, number>()) => {
+  const qr = template.qrUrl ? encodeQR(template.qrUrl) : null;
+  const { header, footer, theme, margin } = template;
+  const total = doc.getNumberOfPages();
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
+
+    let right = pageWidth - margin;
+    if (qr && page === 1) {
+      drawQR(doc, qr, right - QR_SIZE, 3, QR_SIZE);
+      right -= QR_SIZE + 2;
+    }
+    const left = (titleEnds.get(page) ?? margin) + 4;
+    if (header.logo) {
+      const width = HEADER_LOGO_HEIGHT * header.logo.aspect;
+      if (right - width >= left) {
+        doc.addImage(header.logo.dataUrl, imageFormat(header.logo), right - width, 4, width, HEADER_LOGO_HEIGHT);
+        right -= width + 2;
+      }
+    }
+    doc.setFontSize(9);
+    const headerText = header.text ? fitText(doc, header.text, right - left) : '';
+    if (headerText) {
+      doc.setTextColor(...theme.titleText);
+      doc.text(headerText, right, 10, { align: 'right' });
+    }
+
+    let footerLeft = margin;
+    if (footer.logo) {
+      const width = FOOTER_LOGO_HEIGHT * footer.logo.aspect;
+      doc.addImage(footer.logo.dataUrl, imageFormat(footer.logo), footerLeft, pageHeight - 3 - FOOTER_LOGO_HEIGHT, width, FOOTER_LOGO_HEIGHT);
+      footerLeft += width + 2;
+    }
+    if (footer.text) {
+      doc.setFontSize(7);
+      doc.setTextColor(0, 0, 0);
+      doc.text(fitText(doc, footer.text, pageWidth - margin - footerLeft), footerLeft, pageHeight - 5);
+    }
+  }
+  doc.setTextColor(0, 0, 0);
+};
+
+// --- STORAGE ---
+
+export const loadTemplate = (): PdfTemplate => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseTemplate(JSON.parse(raw)) : DEFAULT_TEMPLATE;
+  } catch (error) {
+    console.error(error);
+    return DEFAULT_TEMPLATE;
+  }
+};
+
+// Kept apart from the other settings: embedded fonts and logos can fill the storage
+export const saveTemplate = (template: PdfTemplate) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(template));
+  } catch (error) {
+    console.error(error); // Storage full or disabled: the template just is not remembered
+  }
+};
+
+// --- FILES ---
+
+export const downloadTemplate = (template: PdfTemplate) => {
+  const blob = new Blob([JSON.stringify(template, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `plantilla_${fileSlug(template.name)}.json`);
+};
+
+export const readTemplateFile = async (file: File): Promise<PdfTemplate> => {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new LocalizedError('error.profileInvalidJson', { file: file.name });
+  }
+  return parseTemplate(json);
+};
+
+const base64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// A PNG or JPEG logo with its proportions
+export const readLogoFile = async (file: File): Promise<PdfLogo> => {
+  const type = file.type === 'image/jpg' ? 'image/jpeg' : file.type;
+  if (type !== 'image/png' && type !== 'image/jpeg') throw new LocalizedError('error.templateLogo', { file: file.name });
+  const dataUrl = `data:${type};base64,${base64(new Uint8Array(await file.arrayBuffer()))}`;
+  const image = new Image();
+  image.src = dataUrl;
+  try {
+    await image.decode();
+  } catch {
+    throw new LocalizedError('error.templateLogo', { file: file.name });
+  }
+  return { dataUrl, aspect: image.naturalWidth / image.naturalHeight };
+};
+
+// A TrueType font; TrueType files start with version 1.0 or "true"
+export const readFontFile = async (file: File): Promise<PdfFont> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const tag = String.fromCharCode(...bytes.subarray(0, 4));
+  if (tag !== '\x00\x01\x00\x00' && tag !== 'true') throw new LocalizedError('error.templateFont', { file: file.name });
+  return { fileName: file.name, data: base64(bytes) };
+};
@@ -0,0 +1,117 @@
+import { LocalizedError } from './i18n';
+
+// --- PROTOCOL BUFFERS WIRE FORMAT ---
+
+// Minimal reader for the protobuf binary encoding, enough to walk a known
+// schema such as GTFS-Realtime without generated code. Messages decode into
+// their raw fields; the caller knows which field number holds what.
+
+export class ProtobufError extends LocalizedError {
+  constructor(public offset: number) {
+    super('error.protobuf', { offset });
+    this.name = 'ProtobufError';
+  }
+}
+
+const VARINT = 0;
+const FIXED64 = 1;
+const LENGTH_DELIMITED = 2;
+const FIXED32 = 5;
+
+export interface ProtoField {
+  wireType: number;
+  varint?: bigint; // VARINT, FIXED64 and FIXED32 values, unsigned
+  bytes?: Uint8Array; // LENGTH_DELIMITED: strings, bytes and nested messages
+}
+
+// field number -> occurrences, in order
+export type ProtoMessage = Map<number, ProtoField[]>;
+
+export const decodeMessage = (bytes: Uint8Array): ProtoMessage => {
+  const fields: ProtoMessage = new Map();
+  let pos = 0;
+
+  const readVarint = (): bigint => {
+    let result = BigInt(0);
+    let shift = BigInt(0);
+    for (;;) {
+      if (pos >= bytes.length || shift > BigInt(63)) throw new ProtobufError(pos);
+      const byte = bytes[pos++];
+      result |= BigInt(byte & 0x7f) << shift;
+      if ((byte & 0x80) === 0) return result;
+      shift += BigInt(7);
+    }
+  };
+
+  const readFixed = (size: number): bigint => {
+    if (pos + size > bytes.length) throw new ProtobufError(pos);
+    let result = BigInt(0);
+    for (let i = size - 1; i >= 0; i--) result = (result << BigInt(8)) | BigInt(bytes[pos + i]);
+    pos += size;
+    return result;
+  };
+
+  while (pos < bytes.length) {
+    const start = pos;
+    const key = Number(readVarint());
+    const number = key >>> 3;
+    const wireType = key & 7;
+    let field: ProtoField;
+    if (wireType === VARINT) {
+      field = { wireType, varint: readVarint() };
+    } else if (wireType === FIXED64) {
+      field = { wireType, varint: readFixed(8) };
+    } else if (wireType === FIXED32) {
+      field = { wireType, varint: readFixed(4) };
+    } else if (wireType === LENGTH_DELIMITED) {
+      const length = Number(readVarint());
+      if (pos + length > bytes.length) throw new ProtobufError(pos);
+      field = { wireType, bytes: bytes.subarray(pos, pos + length) };
+      pos += length;
+    } else {
+      throw new ProtobufError(start); // Groups (3, 4) are deprecated and unused by GTFS-Realtime
+    }
+    if (number === 0) throw new ProtobufError(start);
+    const list = fields.get(number);
+    if (list) list.push(field);
+    else fields.set(number, [field]);
+  }
+  return fields;
+};
+
+// --- FIELD ACCESSORS ---
+
+// Singular fields take the last occurrence, as protobuf parsers do
+const last = (message: ProtoMessage, number: number) => {
+  const occurrences = message.get(number);
+  return occurrences?.[occurrences.length - 1];
+};
+
+const utf8 = new TextDecoder();
+
+export const stringField = (message: ProtoMessage, number: number): string | undefined => {
+  const field = last(message, number);
+  return field?.bytes ? utf8.decode(field.bytes) : undefined;
+};
+
+// uint32, uint64, enum and bool fields. Values beyond 2^53 lose precision,
+// which timestamps and GTFS-Realtime enums never reach.
+export const uintField = (message: ProtoMessage, number: number): number | undefined => {
+  const field = last(message, number);
+  return field?.varint === undefined ? undefined : Number(field.varint);
+};
+
+// int32 and int64 fields: negative values travel as 64-bit two's complement
+export const intField = (message: ProtoMessage, number: number): number | undefined => {
+  const field = last(message, number);
+  return field?.varint === undefined ? undefined : Number(BigInt.asIntN(64, field.varint));
+};
+
+export const messageField = (message: ProtoMessage, number: number): ProtoMessage | undefined => {
+  const field = last(message, number);
+  return field?.bytes ? decodeMessage(field.bytes) : undefined;
+};
+
+export const repeatedMessages = (message: ProtoMessage, number: number): ProtoMessage[] =>
+  (message.get(number) ?? []).filter(field => field.bytes).map(field => decodeMessage(field.bytes!));
+
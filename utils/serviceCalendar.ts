@@ -0,0 +1,139 @@
+import type JSZip from 'jszip';
+import { Calendar, CalendarDate } from '../types';
+import { ByteProgressHandler } from './csv';
+import { CALENDAR_DATE_SPEC, CALENDAR_SPEC, readGTFSTable } from './gtfsReader';
+import { DAY_SECONDS } from './gtfsTime';
+
+// --- DATES ---
+
+const DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+export type DayName = typeof DAY_NAMES[number];
+
+export interface DateInfo {
+  dateStr: string; // YYYYMMDD
+  dayName: DayName;
+  formattedDate: string; // DD/MM/YYYY
+}
+
+// Get date info from YYYY-MM-DD string
+export const getDateInfo = (isoDateStr: string): DateInfo => {
+  const [year, month, day] = isoDateStr.split('-').map(Number);
+
+  // Create local date object
+  const dateObj = new Date(year, month - 1, day);
+
+  const yyyymmdd = `${year}${String(month).padStart(2, '0')}${String(day).padStart(2, '0')}`;
+  const formattedDate = `${String(day).padStart(2, '0')}/${String(month).padStart(2, '0')}/${year}`;
+
+  const dayIndex = dateObj.getDay(); // 0 is Sunday
+  const dayName = DAY_NAMES[dayIndex];
+
+  return { dateStr: yyyymmdd, dayName, formattedDate };
+};
+
+// All YYYY-MM-DD dates from `from` to `to`, both included. Empty if `to` is before `from`.
+export const datesInRange = (from: string, to: string): string[] => {
+  const [year, month, day] = from.split('-').map(Number);
+  const dates: string[] = [];
+  for (let offset = 0; ; offset++) {
+    // Constructing from components keeps local midnight across DST changes
+    const d = new Date(year, month - 1, day + offset);
+    const iso = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    if (iso > to) break;
+    dates.push(iso);
+  }
+  return dates;
+};
+
+// YYYYMMDD shifted by `days` calendar days
+export const addDays = (dateStr: string, days: number): string => {
+  const d = new Date(Number(dateStr.substring(0, 4)), Number(dateStr.substring(4, 6)) - 1, Number(dateStr.substring(6, 8)) + days);
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Calendar days a trip runs on, given its service days and its first departure
+// on the line: a train reaching the line after midnight (24:00:00 or later)
+// runs on the next calendar day.
+export const tripCalendarDays = (serviceDays: string[], departure: number): string[] => {
+  const dayShift = Math.floor(departure / DAY_SECONDS);
+  return dayShift === 0 ? serviceDays : serviceDays.map(d => addDays(d, dayShift));
+};
+
+// YYYYMMDD -> YYYY-MM-DD
+export const toIsoDate = (dateStr: string) => `${dateStr.substring(0, 4)}-${dateStr.substring(4, 6)}-${dateStr.substring(6, 8)}`;
+
+// --- SERVICE CALENDAR ---
+
+export interface ServiceCalendar {
+  calendars: Calendar[];
+  exceptionsByDate: Map<string, CalendarDate[]>; // YYYYMMDD -> exceptions
+}
+
+// Loads calendar.txt and calendar_dates.txt. Both are small, so they are kept in
+// memory and evaluated per day instead of being re-read for every date.
+export const loadServiceCalendar = async (zip: JSZip, onBytes?: ByteProgressHandler): Promise<ServiceCalendar> => {
+  const calendars: Calendar[] = [];
+  const exceptionsByDate = new Map<string, CalendarDate[]>();
+
+  await readGTFSTable(zip, "calendar.txt", CALENDAR_SPEC, (cal) => calendars.push(cal), onBytes);
+  await readGTFSTable(zip, "calendar_dates.txt", CALENDAR_DATE_SPEC, (exception) => {
+    if (!exceptionsByDate.has(exception.date)) {
+      exceptionsByDate.set(exception.date, []);
+    }
+    exceptionsByDate.get(exception.date)?.push(exception);
+  }, onBytes);
+
+  return { calendars, exceptionsByDate };
+};
+
+// Services from calendar.txt alone that run on `dateStr` as if it were a `dayName`
+export const baseServicesOn = (calendar: ServiceCalendar, dateStr: string, dayName: DayName) => {
+  const services = new Set<string>();
+  calendar.calendars.forEach(cal => {
+    // Check weekday and date range
+    if (cal[dayName] === '1' && dateStr >= cal.start_date && dateStr <= cal.end_date) {
+      services.add(cal.service_id);
+    }
+  });
+  return services;
+};
+
+export const activeServicesOn = (calendar: ServiceCalendar, dateStr: string, dayName: DayName): Set<string> => {
+  const services = baseServicesOn(calendar, dateStr, dayName);
+
+  // calendar_dates.txt exceptions: 1 = added, 2 = removed
+  calendar.exceptionsByDate.get(dateStr)?.forEach(exception => {
+    if (exception.exception_type === '1') {
+      services.add(exception.service_id); // Force add
+    } else if (exception.exception_type === '2') {
+      services.delete(exception.service_id); // Force remove
+    }
+  });
+
+  return services;
+};
+
+// A non-Sunday date whose exceptions turn it into exactly the Sunday service
+// is treated as a public holiday ("festivo").
+export const isHolidayLike = (calendar: ServiceCalendar, dateStr: string, dayName: DayName): boolean => {
+  if (dayName === 'sunday' || !calendar.exceptionsByDate.has(dateStr)) return false;
+
+  const active = activeServicesOn(calendar, dateStr, dayName);
+  const sunday = baseServicesOn(calendar, dateStr, 'sunday');
+  if (sunday.size === 0 || active.size !== sunday.size) return false;
+  for (const service of active) {
+    if (!sunday.has(service)) return false;
+  }
+  return true;
+};
+
+// First and last YYYYMMDD dates the feed has service for: the calendar.txt
+// periods plus the dates added through calendar_dates.txt
+export const serviceDateRange = (calendar: ServiceCalendar): { from: string; to: string } | undefined => {
+  const dates = [
+    ...calendar.calendars.flatMap(cal => [cal.start_date, cal.end_date]),
+    ...[...calendar.exceptionsByDate].filter(([, exceptions]) => exceptions.some(e => e.exception_type === '1')).map(([date]) => date),
+  ].filter(date => /^\d{8}$/.test(date)).sort();
+  return dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : undefined;
+};
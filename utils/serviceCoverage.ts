@@ -0,0 +1,133 @@
+import { LineDefinition } from '../constants';
+import { ProcessingProgress } from '../types';
+import { GTFSSource, STOP_TIME_SPEC, TRIP_SPEC, byteReporter, openGTFSArchive, readGTFSTable } from './gtfsReader';
+import { parseGTFSTime } from './gtfsTime';
+import { LocalizedError } from './i18n';
+import {
+  DayName,
+  activeServicesOn,
+  baseServicesOn,
+  datesInRange,
+  getDateInfo,
+  isHolidayLike,
+  loadServiceCalendar,
+  serviceDateRange,
+  toIsoDate,
+  tripCalendarDays,
+} from './serviceCalendar';
+
+// --- TYPES ---
+
+// How a day's service on our line differs from what calendar.txt gives its
+// weekday in that period, once calendar_dates.txt exceptions apply
+export type DayDeviation =
+  | 'holiday' // Runs the Sunday service
+  | 'special' // Runs services added for the day
+  | 'reduced' // Misses some of the weekday's services
+  | 'changed'; // Both at once
+
+export interface CoverageDay {
+  date: string; // YYYYMMDD
+  trains: number; // Trains of the line on this calendar day, as parseGTFS would list them
+  deviation?: DayDeviation;
+}
+
+export interface ServiceCoverage {
+  feedRange?: { from: string; to: string }; // YYYYMMDD, service dates of the whole feed
+  days: CoverageDay[]; // Every day of feedRange, in order
+}
+
+// --- COVERAGE ---
+
+// Trains of the line on every day the feed covers. Uses the same calendar
+// rules as parseGTFS: trips need two stations of the line, and trains reaching
+// the line after midnight count on the next calendar day.
+export const serviceCoverage = async (
+  source: GTFSSource,
+  line: LineDefinition,
+  onProgress: (progress: ProcessingProgress) => void
+): Promise<ServiceCoverage> => {
+  const zip = await openGTFSArchive(source);
+  const calendar = await loadServiceCalendar(zip, byteReporter(onProgress, 'calendar', { key: 'progress.calendar' }));
+  const feedRange = serviceDateRange(calendar);
+  if (!feedRange) return { days: [] };
+
+  const stationCodes = new Set(line.stations.map(s => s.codigo));
+  const validRoutes = new Set(line.routeIds);
+
+  // 1. Trips of the line's routes and their service
+  const tripService = new Map<string, string>();
+  const hasTrips = await readGTFSTable(zip, 'trips.txt', TRIP_SPEC, (trip) => {
+    if (validRoutes.size > 0 && !validRoutes.has(trip.route_id)) return;
+    tripService.set(trip.trip_id, trip.service_id);
+  }, byteReporter(onProgress, 'trips', { key: 'progress.routeTrips' }));
+  if (!hasTrips) throw new LocalizedError('error.missingFile', { file: 'trips.txt' });
+
+  // 2. Stations of the line each trip calls at, and its first departure there
+  const tripStops = new Map<string, { count: number; sequence: number; departure: string }>();
+  const hasStopTimes = await readGTFSTable(zip, 'stop_times.txt', STOP_TIME_SPEC, (stopTime) => {
+    if (!tripService.has(stopTime.trip_id) || !stationCodes.has(stopTime.stop_id)) return;
+    const stops = tripStops.get(stopTime.trip_id);
+    if (!stops) {
+      tripStops.set(stopTime.trip_id, { count: 1, sequence: stopTime.stop_sequence, departure: stopTime.departure_time });
+      return;
+    }
+    stops.count++;
+    if (stopTime.stop_sequence < stops.sequence) {
+      stops.sequence = stopTime.stop_sequence;
+      stops.departure = stopTime.departure_time;
+    }
+  }, byteReporter(onProgress, 'stop_times', { key: 'progress.stopTimes' }));
+  if (!hasStopTimes) throw new LocalizedError('error.missingFile', { file: 'stop_times.txt' });
+
+  // 3. Trips listed as trains of the line: two of its stations and a timed departure
+  const lineTrips: { serviceId: string; departure: number }[] = [];
+  tripStops.forEach((stops, tripId) => {
+    const departure = parseGTFSTime(stops.departure);
+    const serviceId = tripService.get(tripId);
+    if (stops.count < 2 || departure === null || serviceId === undefined) return;
+    lineTrips.push({ serviceId, departure });
+  });
+  const lineServices = new Set(lineTrips.map(trip => trip.serviceId));
+
+  onProgress({ phase: 'organizing', message: { key: 'progress.organizing' }, processed: 0, total: 0, unit: 'rows' });
+
+  const onLine = (services: Set<string>) => [...services].filter(service => lineServices.has(service));
+  const sameServices = (a: string[], b: string[]) => a.length === b.length && a.every(service => b.includes(service));
+
+  // 4. Services of the line on every service day, and the trains of each
+  // calendar day, placed on it the way parseGTFS places them
+  const dates = datesInRange(toIsoDate(feedRange.from), toIsoDate(feedRange.to)).map(iso => getDateInfo(iso));
+  const running = new Map(dates.map(({ dateStr, dayName }) => [dateStr, onLine(activeServicesOn(calendar, dateStr, dayName))]));
+
+  const serviceDays = new Map<string, string[]>(); // service_id -> YYYYMMDD service days
+  running.forEach((services, dateStr) => services.forEach(service => {
+    if (!serviceDays.has(service)) serviceDays.set(service, []);
+    serviceDays.get(service)?.push(dateStr);
+  }));
+  const trains = new Map<string, number>(); // YYYYMMDD -> trains
+  lineTrips.forEach(({ serviceId, departure }) => {
+    tripCalendarDays(serviceDays.get(serviceId) ?? [], departure).forEach(day => trains.set(day, (trains.get(day) ?? 0) + 1));
+  });
+
+  // 5. Days that do not run what calendar.txt alone gives them: each calendar
+  // period is its own norm, so a timetable change is not a deviation
+  const deviationOn = (dateStr: string, dayName: DayName): DayDeviation | undefined => {
+    const active = running.get(dateStr) ?? [];
+    const base = onLine(baseServicesOn(calendar, dateStr, dayName));
+    if (sameServices(active, base)) return undefined;
+    const sunday = onLine(baseServicesOn(calendar, dateStr, 'sunday'));
+    const isSundayService = isHolidayLike(calendar, dateStr, dayName) || (sunday.length > 0 && sameServices(active, sunday));
+    if (dayName !== 'sunday' && isSundayService) return 'holiday';
+    const added = active.some(service => !base.includes(service));
+    const missing = base.some(service => !active.includes(service));
+    return added && missing ? 'changed' : added ? 'special' : 'reduced';
+  };
+
+  const days = dates.map(({ dateStr, dayName }): CoverageDay => {
+    const deviation = deviationOn(dateStr, dayName);
+    return { date: dateStr, trains: trains.get(dateStr) ?? 0, ...(deviation ? { deviation } : {}) };
+  });
+
+  return { feedRange, days };
+};
@@ -0,0 +1,105 @@
+import { ServicePattern } from '../types';
+import { Translator, translator } from './i18n';
+import { DayName } from './serviceCalendar';
+
+// --- DAY CLASSES ---
+
+// Monday-first index (0 = Monday ... 6 = Sunday), or 'holiday' for festivos
+export type DayClass = number | 'holiday';
+
+export interface RangeDay {
+  dateStr: string; // YYYYMMDD
+  dayClass: DayClass;
+}
+
+const MONDAY_FIRST: DayName[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+export const dayClassFor = (dayName: DayName, isHoliday: boolean): DayClass =>
+  isHoliday ? 'holiday' : MONDAY_FIRST.indexOf(dayName);
+
+const shortDate = (dateStr: string) => `${dateStr.substring(6, 8)}/${dateStr.substring(4, 6)}`;
+
+const joinList = (parts: string[], t: Translator) =>
+  parts.length <= 1 ? parts.join('') : `${parts.slice(0, -1).join(', ')}${t('list.and')}${parts[parts.length - 1]}`;
+
+// YYYYMMDD dates -> "12/10, 01/11 y 08/12"
+export const dateList = (dates: string[], t: Translator) => joinList(dates.map(shortDate), t);
+
+// Compress covered weekdays into runs: [0..4] -> "L-V", [5] -> "S", [0, 2] -> "L, X"
+const weekdayRuns = (days: number[], letters: string[]): string[] => {
+  const runs: string[] = [];
+  let i = 0;
+  while (i < days.length) {
+    let j = i;
+    while (j + 1 < days.length && days[j + 1] === days[j] + 1) j++;
+    if (j - i >= 2) {
+      runs.push(`${letters[days[i]]}-${letters[days[j]]}`);
+    } else {
+      for (let k = i; k <= j; k++) runs.push(letters[days[k]]);
+    }
+    i = j + 1;
+  }
+  return runs;
+};
+
+// --- PATTERN ---
+
+type PatternDays = Omit<ServicePattern, 'label' | 'note'>;
+
+// Label and footnote of a pattern in the translator's language
+export const patternText = (pattern: PatternDays, t: Translator): { label: string; note?: string } => {
+  const dates = (list: string[]) => dateList(list, t);
+
+  if (pattern.weekdays.length === 0 && !pattern.holidays) {
+    return { label: t('pattern.selectedDays'), note: t('pattern.onlyRunning', { dates: dates(pattern.alsoRunning) }) };
+  }
+
+  let label: string;
+  if (pattern.daily) {
+    label = t('pattern.daily');
+  } else {
+    const letters = t('pattern.dayLetters').split(',');
+    const parts = weekdayRuns(pattern.weekdays, letters);
+    if (pattern.holidays) {
+      // "D y festivos" reads as one unit on printed timetables
+      if (parts[parts.length - 1] === letters[6]) parts.pop();
+      parts.push(pattern.weekdays.includes(6) ? t('pattern.sundayAndHolidays') : t('pattern.holidays'));
+      label = parts.length > 1 ? parts.join(', ') : parts[0];
+    } else {
+      label = joinList(parts, t);
+    }
+  }
+
+  const notes: string[] = [];
+  if (pattern.notRunning.length > 0) notes.push(t('pattern.notRunning', { dates: dates(pattern.notRunning) }));
+  if (pattern.alsoRunning.length > 0) notes.push(t('pattern.alsoRunning', { dates: dates(pattern.alsoRunning) }));
+
+  return notes.length > 0 ? { label, note: `${notes.join('. ')}.` } : { label };
+};
+
+// Describes on which days of `rangeDays` a train runs, the way printed timetables
+// label their columns. A day class counts as covered when the train runs on most
+// of its dates; dates that break that rule are listed as exceptions.
+export const describeServicePattern = (runDays: Set<string>, rangeDays: RangeDay[]): ServicePattern => {
+  const totals = new Map<DayClass, number>();
+  const running = new Map<DayClass, number>();
+  rangeDays.forEach(({ dateStr, dayClass }) => {
+    totals.set(dayClass, (totals.get(dayClass) ?? 0) + 1);
+    if (runDays.has(dateStr)) running.set(dayClass, (running.get(dayClass) ?? 0) + 1);
+  });
+
+  const isCovered = (dayClass: DayClass) => (running.get(dayClass) ?? 0) * 2 > (totals.get(dayClass) ?? 0);
+  const covered = new Set([...totals.keys()].filter(isCovered));
+
+  const weekdays = [...covered].filter((c): c is number => c !== 'holiday').sort((a, b) => a - b);
+  const holidays = covered.has('holiday');
+  const days: PatternDays = {
+    weekdays,
+    holidays,
+    daily: weekdays.length === 7 && (holidays || !totals.has('holiday')),
+    notRunning: rangeDays.filter(d => covered.has(d.dayClass) && !runDays.has(d.dateStr)).map(d => d.dateStr),
+    alsoRunning: rangeDays.filter(d => !covered.has(d.dayClass) && runDays.has(d.dateStr)).map(d => d.dateStr),
+  };
+
+  return { ...days, ...patternText(days, translator('es')) };
+};
@@ -0,0 +1,97 @@
+import { GIPUZKOA_LINE, LineDefinition } from '../constants';
+import { Interchange, PdfOptions } from '../types';
+import { parseInterchanges } from './connections';
+import { LOCALES, Locale, PDF_LANGUAGES } from './i18n';
+import { parseLineProfile } from './lineProfiles';
+import { DEFAULT_PDF_OPTIONS } from './pdfGenerator';
+
+const STORAGE_KEY = 'horarios.settings';
+
+// Choices restored on the next visit
+export interface AppSettings {
+  locale: Locale;
+  date: string; // YYYY-MM-DD, first day in range mode
+  endDate: string; // YYYY-MM-DD
+  isRangeMode: boolean;
+  line: LineDefinition;
+  pdfOptions: PdfOptions;
+  posterStation: string; // Empty for the full line timetable
+  interchanges: Interchange[]; // Their feeds have to be added again on each visit
+}
+
+// --- VALIDATION ---
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Allowed values of the PDF options that are not free numbers or flags
+const PDF_OPTION_VALUES: Partial<Record<keyof PdfOptions, readonly unknown[]>> = {
+  layout: ['trainRows', 'trainColumns'],
+  orientation: ['landscape', 'portrait'],
+  language: PDF_LANGUAGES,
+  stringline: ['none', 'order', 'distance'],
+};
+
+// Stored options over the defaults, keeping only values of the right type.
+// Options added by later versions simply take their default.
+const parsePdfOptions = (value: unknown): PdfOptions => {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const options: PdfOptions = { ...DEFAULT_PDF_OPTIONS };
+  (Object.keys(DEFAULT_PDF_OPTIONS) as (keyof PdfOptions)[]).forEach(key => {
+    const option = stored[key];
+    const allowed = PDF_OPTION_VALUES[key];
+    if (typeof option !== typeof DEFAULT_PDF_OPTIONS[key] || (allowed && !allowed.includes(option))) return;
+    (options as unknown as Record<string, unknown>)[key] = option;
+  });
+  return options;
+};
+
+// The built-in line is taken from the code, so it picks up later corrections
+const parseLine = (value: unknown): LineDefinition | undefined => {
+  try {
+    const line = parseLineProfile(value);
+    return line.id === GIPUZKOA_LINE.id ? GIPUZKOA_LINE : line;
+  } catch {
+    return undefined;
+  }
+};
+
+// Each valid field of the stored settings; anything unusable is left out
+const parseSettings = (value: unknown): Partial<AppSettings> => {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const settings: Partial<AppSettings> = { pdfOptions: parsePdfOptions(stored.pdfOptions) };
+
+  if (LOCALES.includes(stored.locale as Locale)) settings.locale = stored.locale as Locale;
+  if (typeof stored.date === 'string' && ISO_DATE.test(stored.date)) settings.date = stored.date;
+  if (typeof stored.endDate === 'string' && ISO_DATE.test(stored.endDate)) settings.endDate = stored.endDate;
+  if (typeof stored.isRangeMode === 'boolean') settings.isRangeMode = stored.isRangeMode;
+  if (typeof stored.posterStation === 'string') settings.posterStation = stored.posterStation;
+  const line = parseLine(stored.line);
+  if (line) settings.line = line;
+  try {
+    if (stored.interchanges !== undefined) settings.interchanges = parseInterchanges(stored.interchanges);
+  } catch {
+    // Unusable interchanges are dropped like any other field
+  }
+
+  return settings;
+};
+
+// --- STORAGE ---
+
+export const loadSettings = (): Partial<AppSettings> => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseSettings(JSON.parse(raw)) : {};
+  } catch (error) {
+    console.error(error);
+    return {};
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error(error); // Storage full or disabled: settings just are not remembered
+  }
+};
@@ -0,0 +1,253 @@
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { LineDefinition, StationDef } from '../constants';
+import { ParsedTrip, PdfOptions, ServicePattern, StationAccess } from '../types';
+import { ConnectionCall, LineConnections, NO_CONNECTIONS, feederConnection } from './connections';
+import { GeneratedFile, dateSlug, downloadFile, fileSlug } from './files';
+import { formatGTFSTime } from './gtfsTime';
+import { LocalizedError, MessageKey, MessageParams, localizedText } from './i18n';
+import { stationName } from './lineCatalog';
+import { HEAD_STYLES, TABLE_STYLES, pdfFile } from './pdfGenerator';
+import { patternText } from './servicePattern';
+
+// --- STATION DEPARTURES ---
+
+export interface PosterDeparture {
+  seconds: number; // Departure from the station, from the calendar day's midnight
+  destination: StationDef; // Last station of the train on the line
+  isShortTurn: boolean; // Ends before the line terminus of its direction
+  trip: ParsedTrip;
+}
+
+export interface PosterHour {
+  hour: number; // 0-23, or 24+ for trains that pass after midnight
+  departures: PosterDeparture[];
+}
+
+// Departures of `trips` from one station, grouped by hour. Trains that end at
+// the station are left out: nobody can board them there.
+export const stationDepartures = (
+  trips: ParsedTrip[],
+  line: LineDefinition,
+  stationCode: string,
+  terminus: StationDef
+): PosterHour[] => {
+  const station = line.stations.find(s => s.codigo === stationCode);
+  if (!station) return [];
+
+  const departures: PosterDeparture[] = [];
+  trips.forEach(trip => {
+    const seconds = trip.times[stationCode];
+    if (seconds === undefined || trip.lastStopOrder === station.orden) return;
+    const destination = line.stations.find(s => s.orden === trip.lastStopOrder) ?? terminus;
+    departures.push({ seconds, destination, isShortTurn: destination.codigo !== terminus.codigo, trip });
+  });
+  departures.sort((a, b) => a.seconds - b.seconds);
+
+  const hours: PosterHour[] = [];
+  departures.forEach(departure => {
+    const hour = Math.floor(departure.seconds / 3600);
+    if (hours.length === 0 || hours[hours.length - 1].hour !== hour) {
+      hours.push({ hour, departures: [] });
+    }
+    hours[hours.length - 1].departures.push(departure);
+  });
+  return hours;
+};
+
+// --- POSTER PDF ---
+
+// Minute suffixes of trains the feed marks as accessible or open to bicycles
+const WHEELCHAIR_MARK = '*';
+const BIKE_MARK = '+';
+// Suffix of trains a GTFS-Realtime update cancels
+const CANCELED_MARK = '×';
+
+// Trains running every day of the period need no mark
+const needsPatternMark = (pattern?: ServicePattern): pattern is ServicePattern =>
+  !!pattern && (!pattern.daily || !!pattern.note);
+
+// One-page poster for a station: an "hour | minutes" grid per direction, with
+// letters for trains that end before the terminus, numbers for day patterns,
+// bracketed numbers for notes written in the preview, and symbols for accessible
+// trains, trains that take bicycles and trains cancelled by a realtime update.
+// At an interchange, a paragraph below the legend lists the other operators'
+// arrivals that let passengers catch each train.
+export const renderStationPoster = (
+  toBrinkola: ParsedTrip[],
+  toIrun: ParsedTrip[],
+  dateStr: string,
+  line: LineDefinition,
+  stationCode: string,
+  options: PdfOptions,
+  stationAccess: StationAccess = {},
+  connections: LineConnections = NO_CONNECTIONS
+): GeneratedFile => {
+  const station = line.stations.find(s => s.codigo === stationCode);
+  if (!station) throw new LocalizedError('error.stationNotOnLine', { station: stationCode, line: line.name });
+
+  const doc = new jsPDF({
+    orientation: options.orientation,
+    unit: 'mm',
+    format: 'a4'
+  });
+
+  // Safe access for autoTable in ESM/Browser environment
+  const autoTableFunc = (autoTable as any).default || autoTable;
+
+  const isRange = dateStr.includes(' - ');
+  const tr = (key: MessageKey, params?: MessageParams) => localizedText(options.language, t => t(key, params));
+  const stationLabel = (s: StationDef) => localizedText(options.language, (_, locale) => stationName(s, locale));
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  const destinationMarks = new Map<StationDef, string>(); // destination -> "a", "b", ...
+  const patternMarks = new Map<string, { mark: string; text: string }>(); // label + note -> "(1)", "(2)", ...
+  const noteMarks = new Map<string, string>(); // note -> "[1]", "[2]", ...
+  const serviceLegend = new Set<string>();
+
+  const minuteCell = (departure: PosterDeparture) => {
+    let text = String(Math.floor(departure.seconds / 60) % 60).padStart(2, '0');
+    if (departure.isShortTurn) {
+      const destination = departure.destination;
+      if (!destinationMarks.has(destination)) {
+        destinationMarks.set(destination, String.fromCharCode(97 + destinationMarks.size));
+      }
+      text += destinationMarks.get(destination);
+    }
+    const pattern = departure.trip.pattern;
+    if (needsPatternMark(pattern)) {
+      const key = `${pattern.label}|${pattern.note ?? ''}`;
+      if (!patternMarks.has(key)) {
+        const description = localizedText(options.language, t => {
+          const { label, note } = patternText(pattern, t);
+          return note ? `${label}. ${note}` : label;
+        });
+        patternMarks.set(key, { mark: `(${patternMarks.size + 1})`, text: description });
+      }
+      text += patternMarks.get(key)?.mark;
+    }
+    const note = departure.trip.note;
+    if (note) {
+      if (!noteMarks.has(note)) noteMarks.set(note, `[${noteMarks.size + 1}]`);
+      text += noteMarks.get(note);
+    }
+    if (departure.trip.wheelchairAccessible) {
+      serviceLegend.add(localizedText(options.language, t => t('legend.wheelchair', { mark: WHEELCHAIR_MARK })));
+      text += WHEELCHAIR_MARK;
+    }
+    if (departure.trip.bikesAllowed) {
+      serviceLegend.add(localizedText(options.language, t => t('legend.bikes', { mark: BIKE_MARK })));
+      text += BIKE_MARK;
+    }
+    if (departure.trip.realtime?.status === 'canceled') {
+      serviceLegend.add(localizedText(options.language, t => t('legend.canceledMark', { mark: CANCELED_MARK })));
+      text += CANCELED_MARK;
+    }
+    return text;
+  };
+
+  const hourCell = (hour: number) => {
+    const hh = String(hour % 24).padStart(2, '0');
+    const dayOffset = Math.floor(hour / 24);
+    return options.nextDayMarker && dayOffset > 0 ? `${hh} +${dayOffset}` : hh;
+  };
+
+  // Header
+  doc.setFontSize(20);
+  doc.text(stationLabel(station), 10, 16);
+  doc.setFontSize(10);
+  doc.text(tr('poster.line', { name: line.name }), 10, 22);
+  doc.text(tr(isRange ? 'pdf.period' : 'pdf.singleDate', { date: dateStr }), 10, 27);
+  const access = stationAccess[stationCode];
+  if (access !== undefined) {
+    doc.text(tr(access ? 'poster.accessibleStation' : 'poster.inaccessibleStation'), pageWidth - 10, 16, { align: 'right' });
+  }
+
+  const first = line.stations[0];
+  const last = line.stations[line.stations.length - 1];
+  const directions = [
+    { trips: toBrinkola, terminus: last },
+    { trips: toIrun, terminus: first },
+  ];
+
+  // Both directions side by side; the legend goes below whichever table ends lower
+  const columnWidth = (pageWidth - 25) / 2;
+  const startPage = doc.getCurrentPageInfo().pageNumber;
+  let end = { page: startPage, y: 0 };
+
+  directions.forEach(({ trips, terminus }, i) => {
+    const left = 10 + i * (columnWidth + 5);
+    doc.setPage(startPage);
+    doc.setFontSize(12);
+    doc.text(localizedText(options.language, (t, locale) => t('poster.direction', { station: stationName(terminus, locale) })), left, 36);
+
+    const hours = stationDepartures(trips, line, stationCode, terminus);
+    const body = hours.length > 0
+      ? hours.map(h => [hourCell(h.hour), h.departures.map(minuteCell).join('  ')])
+      : [['', tr('poster.noDepartures')]];
+
+    autoTableFunc(doc, {
+      startY: 39,
+      head: [[tr('column.hour'), tr('column.minutes')]],
+      body,
+      theme: 'grid',
+      styles: { ...TABLE_STYLES, fontSize: 9, cellPadding: 1.2 },
+      headStyles: { ...HEAD_STYLES, fontSize: 9 },
+      columnStyles: {
+        0: { fontStyle: 'bold', cellWidth: options.nextDayMarker ? 16 : 12 },
+        1: { halign: 'left' },
+      },
+      margin: { top: 15, left, right: pageWidth - left - columnWidth },
+    });
+
+    const page = doc.getCurrentPageInfo().pageNumber;
+    const y = (doc as any).lastAutoTable.finalY;
+    if (page > end.page || (page === end.page && y > end.y)) {
+      end = { page, y };
+    }
+  });
+
+  // "07:15 <- Hendaia 07:02 (Euskotren) · ..." per direction
+  const interchanges = connections.interchanges.filter(i => i.stationCode === stationCode);
+  const connectionEntries = interchanges.length === 0 ? [] : directions.flatMap(({ trips, terminus }) => {
+    const entries = stationDepartures(trips, line, stationCode, terminus).flatMap(h => h.departures).flatMap(departure =>
+      interchanges.map(interchange => feederConnection(departure.trip, station, interchange, connections.calls))
+        .filter((call): call is ConnectionCall => !!call)
+        .map(call => localizedText(options.language, t => `${formatGTFSTime(departure.seconds, options.nextDayMarker)} ${t('connection.feeder', {
+          origin: call.origin,
+          time: formatGTFSTime(call.arrival, options.nextDayMarker),
+          operator: call.operator,
+        })}`)));
+    if (entries.length === 0) return [];
+    const direction = localizedText(options.language, (t, locale) => t('poster.direction', { station: stationName(terminus, locale) }));
+    return [`${direction}: ${entries.join(' · ')}`];
+  });
+
+  const legend = [
+    ...[...destinationMarks].map(([destination, mark]) =>
+      localizedText(options.language, (t, locale) => t('poster.shortTurn', { mark, station: stationName(destination, locale) }))),
+    ...[...patternMarks.values()].map(({ mark, text }) => `${mark} ${text}`),
+    ...(patternMarks.size > 0 ? [tr('legend.days')] : []),
+    ...[...noteMarks].map(([note, mark]) => `${mark} ${note}`),
+    ...serviceLegend,
+    ...(connectionEntries.length > 0 ? [tr('poster.connections'), ...connectionEntries] : []),
+  ];
+
+  doc.setPage(end.page);
+  let y = end.y + 6;
+  doc.setFontSize(8);
+  legend.forEach(entry => {
+    const wrapped: string[] = doc.splitTextToSize(entry, pageWidth - 20);
+    if (y + wrapped.length * 3.5 > pageHeight - 5) {
+      doc.addPage();
+      y = 15;
+    }
+    doc.text(wrapped, 10, y);
+    y += wrapped.length * 3.5;
+  });
+
+  return pdfFile(doc, `Cartel_${fileSlug(station.estacion)}_${dateSlug(dateStr)}.pdf`);
+};
+
+export const generateStationPoster = (...args: Parameters<typeof renderStationPoster>) => downloadFile(renderStationPoster(...args));
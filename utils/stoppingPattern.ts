@@ -0,0 +1,33 @@
+import { LineDefinition, StationDef } from '../constants';
+import { ParsedTrip, TripEnd } from '../types';
+import { Locale } from './i18n';
+import { stationName } from './lineCatalog';
+
+// --- STOPPING PATTERN ---
+
+// How a train relates to one station of the line: it calls there, it passes
+// through without stopping (the station lies between its first and last stop
+// on the line), or it does not run there at all.
+export type StopKind = 'stop' | 'pass' | 'none';
+
+export const stopKind = (trip: ParsedTrip, station: StationDef): StopKind => {
+  if (trip.times[station.codigo] !== undefined) return 'stop';
+  const low = Math.min(trip.firstStopOrder, trip.lastStopOrder);
+  const high = Math.max(trip.firstStopOrder, trip.lastStopOrder);
+  return station.orden > low && station.orden < high ? 'pass' : 'none';
+};
+
+// Ids of the trains that pass through a station where other trains of the same
+// direction stop. Stations nobody serves (closed, or left out of the feed) do
+// not make every train look express.
+export const expressTrips = (trips: ParsedTrip[], stations: StationDef[]): Set<string> => {
+  const served = stations.filter(s => trips.some(trip => trip.times[s.codigo] !== undefined));
+  return new Set(trips.filter(trip => served.some(s => stopKind(trip, s) === 'pass')).map(trip => trip.id));
+};
+
+// Name of a train's real origin or destination. Stations of the line take their
+// name in `locale`; stops beyond it keep the name from stops.txt.
+export const tripEndName = (end: TripEnd, line: LineDefinition, locale: Locale) => {
+  const station = line.stations.find(s => s.codigo === end.code);
+  return station ? stationName(station, locale) : end.name;
+};
@@ -0,0 +1,167 @@
+import { jsPDF } from 'jspdf';
+import { LineDefinition, StationDef } from '../constants';
+import { GeoPoint, ParsedTrip, StationCoords, StringlineSpacing } from '../types';
+import { DAY_SECONDS, formatGTFSTime } from './gtfsTime';
+import { expressTrips } from './stoppingPattern';
+
+// --- DIAGRAM MODEL ---
+
+export interface StringlineStation {
+  station: StationDef;
+  offset: number; // From the first station of the line: km, or steps of one station
+}
+
+export interface StringlinePoint {
+  offset: number;
+  seconds: number; // From the calendar day's midnight, >= 86400 after midnight
+}
+
+export interface StringlineTrain {
+  trip: ParsedTrip;
+  direction: 'forward' | 'backward';
+  express: boolean; // Passes through stations other trains of its direction call at
+  points: StringlinePoint[]; // Arrival and departure at each stop, in time order
+}
+
+// Time-distance (Marey) diagram of the line: stations on one axis, time on the
+// other and one polyline per train. Renderers only scale these numbers.
+export interface Stringline {
+  spacing: StringlineSpacing; // What was used: 'distance' falls back to 'order' without coordinates
+  stations: StringlineStation[]; // Line order
+  length: number; // Offset of the last station
+  start: number; // Seconds, whole hour before the first train
+  end: number; // Seconds, whole hour after the last train
+  trains: StringlineTrain[];
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance in km
+export const distanceKm = (a: GeoPoint, b: GeoPoint) => {
+  const rad = (deg: number) => deg * Math.PI / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLon = rad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Real distances need the coordinates of every station
+export const hasStationDistances = (stations: StationDef[], coords: StationCoords) =>
+  stations.length > 1 && stations.every(s => coords[s.codigo]);
+
+// Offsets of the stations along the line. Distances add up the straight
+// segments between consecutive stations, which follows the track closely
+// enough at this scale.
+export const stationOffsets = (stations: StationDef[], coords: StationCoords, spacing: StringlineSpacing): number[] => {
+  if (spacing === 'order' || !hasStationDistances(stations, coords)) return stations.map((_, i) => i);
+  let total = 0;
+  return stations.map((s, i) => {
+    if (i > 0) total += distanceKm(coords[stations[i - 1].codigo], coords[s.codigo]);
+    return total;
+  });
+};
+
+export const buildStringline = (
+  toBrinkola: ParsedTrip[],
+  toIrun: ParsedTrip[],
+  line: LineDefinition,
+  coords: StationCoords,
+  spacing: StringlineSpacing
+): Stringline => {
+  const offsets = stationOffsets(line.stations, coords, spacing);
+  const stations = line.stations.map((station, i) => ({ station, offset: offsets[i] }));
+
+  const trainsOf = (trips: ParsedTrip[], direction: StringlineTrain['direction']) => {
+    const express = expressTrips(trips, direction === 'forward' ? line.stations : [...line.stations].reverse());
+    return trips.map((trip): StringlineTrain => {
+      const points: StringlinePoint[] = [];
+      stations.forEach(({ station, offset }) => {
+        const departure = trip.times[station.codigo];
+        if (departure === undefined) return;
+        const arrival = trip.arrivals[station.codigo] ?? departure;
+        points.push({ offset, seconds: arrival });
+        if (departure !== arrival) points.push({ offset, seconds: departure });
+      });
+      points.sort((a, b) => a.seconds - b.seconds);
+      return { trip, direction, express: express.has(trip.id), points };
+    }).filter(train => train.points.length > 1);
+  };
+  const trains = [...trainsOf(toBrinkola, 'forward'), ...trainsOf(toIrun, 'backward')];
+
+  const times = trains.flatMap(train => train.points.map(p => p.seconds));
+  const start = times.length > 0 ? Math.floor(Math.min(...times) / 3600) * 3600 : 0;
+  const end = times.length > 0 ? Math.max(start + 3600, Math.ceil(Math.max(...times) / 3600) * 3600) : DAY_SECONDS;
+
+  return {
+    spacing: spacing === 'distance' && hasStationDistances(line.stations, coords) ? 'distance' : 'order',
+    stations,
+    length: offsets[offsets.length - 1] ?? 0,
+    start,
+    end,
+    trains,
+  };
+};
+
+// Whole hours covered by the diagram, for grid lines and labels
+export const stringlineHours = (diagram: Stringline): number[] => {
+  const hours: number[] = [];
+  for (let seconds = diagram.start; seconds <= diagram.end; seconds += 3600) hours.push(seconds);
+  return hours;
+};
+
+// --- PDF PAGE ---
+
+export const FORWARD_COLOR = [0, 94, 184];
+export const BACKWARD_COLOR = [227, 6, 19];
+
+interface StringlineBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Draws the diagram as vector lines inside `box` (mm): time across, stations
+// down in line order. `stationLabel` names the stations in the PDF's language.
+export const drawStringline = (
+  doc: jsPDF,
+  diagram: Stringline,
+  box: StringlineBox,
+  stationLabel: (station: StationDef) => string,
+  nextDayMarker: boolean
+) => {
+  const labelWidth = 32;
+  const plotX = box.x + labelWidth;
+  const plotWidth = box.width - labelWidth;
+  const xOf = (seconds: number) => plotX + (seconds - diagram.start) / (diagram.end - diagram.start) * plotWidth;
+  const yOf = (offset: number) => box.y + (diagram.length > 0 ? offset / diagram.length * box.height : 0);
+
+  // Grid: one line per station and per hour, labelled on the left and above
+  doc.setFontSize(6);
+  doc.setLineWidth(0.1);
+  doc.setDrawColor(200, 200, 200);
+  diagram.stations.forEach(({ station, offset }) => {
+    const y = yOf(offset);
+    doc.line(plotX, y, plotX + plotWidth, y);
+    doc.text(stationLabel(station), plotX - 1, y + 1, { align: 'right', maxWidth: labelWidth - 2 });
+  });
+  stringlineHours(diagram).forEach(seconds => {
+    const x = xOf(seconds);
+    doc.line(x, box.y, x, box.y + box.height);
+    doc.text(formatGTFSTime(seconds, nextDayMarker), x, box.y - 2, { align: 'center' });
+  });
+
+  doc.setLineWidth(0.25);
+  diagram.trains.forEach(train => {
+    const [r, g, b] = train.direction === 'forward' ? FORWARD_COLOR : BACKWARD_COLOR;
+    doc.setDrawColor(r, g, b);
+    doc.setLineDashPattern(train.express ? [1, 0.6] : [], 0);
+    train.points.slice(1).forEach((point, i) => {
+      const previous = train.points[i];
+      doc.line(xOf(previous.seconds), yOf(previous.offset), xOf(point.seconds), yOf(point.offset));
+    });
+  });
+  doc.setLineDashPattern([], 0);
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.2);
+};
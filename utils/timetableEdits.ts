@@ -0,0 +1,58 @@
+import { LineDefinition, StationDef } from '../constants';
+import { ParsedTimetable, ParsedTrip, TimetableEdits } from '../types';
+import { inClockWindow } from './gtfsTime';
+
+export const EMPTY_EDITS: TimetableEdits = { hiddenTrips: [], notes: {}, stations: [], fromTime: '', toTime: '', accessibleOnly: false };
+
+export const hasEdits = (edits: TimetableEdits) =>
+  edits.hiddenTrips.length > 0 || Object.keys(edits.notes).length > 0 || edits.stations.length > 0
+  || !!edits.fromTime || !!edits.toTime || edits.accessibleOnly;
+
+// --- FILTERS ---
+
+// The line with only the stations picked in the preview. Stations keep their
+// `orden`, so the trips' first and last stop orders still point at them.
+export const visibleLine = (line: LineDefinition, edits: TimetableEdits): LineDefinition => {
+  if (edits.stations.length === 0) return line;
+  const shown = new Set(edits.stations);
+  const stations = line.stations.filter(s => shown.has(s.codigo));
+  return stations.length > 0 ? { ...line, stations } : line;
+};
+
+// Trains of one direction that pass the time, station and accessibility
+// filters, with their notes attached. `stations` are the shown stations in travel order; a train
+// is timed at the first of them it calls at. Hidden trains are dropped unless
+// `keepHidden`, which the preview uses to show them greyed out.
+export const filterTrips = (
+  trips: ParsedTrip[],
+  stations: StationDef[],
+  edits: TimetableEdits,
+  keepHidden = false
+): ParsedTrip[] => {
+  const hidden = new Set(edits.hiddenTrips);
+  return trips.flatMap(trip => {
+    if (!keepHidden && hidden.has(trip.id)) return [];
+    if (edits.accessibleOnly && trip.wheelchairAccessible !== true) return [];
+    const first = stations.find(s => trip.times[s.codigo] !== undefined);
+    if (!first || !inClockWindow(trip.times[first.codigo], edits.fromTime, edits.toTime)) return [];
+    const note = edits.notes[trip.id]?.trim();
+    return [note ? { ...trip, note } : trip];
+  });
+};
+
+// Timetable and line as the PDFs should print them
+export const applyEdits = (
+  data: ParsedTimetable,
+  line: LineDefinition,
+  edits: TimetableEdits
+): { data: ParsedTimetable; line: LineDefinition } => {
+  const shownLine = visibleLine(line, edits);
+  return {
+    data: {
+      ...data,
+      toBrinkola: filterTrips(data.toBrinkola, shownLine.stations, edits),
+      toIrun: filterTrips(data.toIrun, [...shownLine.stations].reverse(), edits),
+    },
+    line: shownLine,
+  };
+};
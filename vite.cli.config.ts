@@ -0,0 +1,23 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the headless command-line tool (cli/horarios.ts) as a Node script
+export default defineConfig({
+    publicDir: false, // The PWA icons in public/ belong to the web app only
+    build: {
+      ssr: 'cli/horarios.ts',
+      outDir: 'dist-cli',
+      target: 'node18',
+      rollupOptions: {
+        output: {
+          entryFileNames: 'horarios.js',
+          banner: '#!/usr/bin/env node',
+        }
+      }
+    },
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, '.'),
+      }
+    }
+});
@@ -1,6 +1,7 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +10,33 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // Installable app: every built file, the GTFS worker included, is precached
+        // so the generator keeps working without a connection
+        VitePWA({
+          registerType: 'autoUpdate',
+          injectRegister: false,
+          manifest: {
+            name: 'Horarios Cercanías Gipuzkoa',
+            short_name: 'Horarios',
+            description: 'Genera horarios en PDF del núcleo de Cercanías Gipuzkoa a partir de archivos GTFS de Renfe.',
+            lang: 'es',
+            theme_color: '#e30613',
+            background_color: '#f9fafb',
+            display: 'standalone',
+            icons: [
+              { src: 'icon-192.png', sizes: '192x192', type: 'image/png' },
+              { src: 'icon-512.png', sizes: '512x512', type: 'image/png' },
+              { src: 'icon-maskable-512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+            ],
+          },
+          workbox: {
+            globPatterns: ['**/*.{js,css,html,svg,png}'],
+            maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+          },
+        }),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)